@@ -9,9 +9,20 @@ const {
 const path = require("path");
 const fs = require("fs");
 const { validateSerializedFlareData, loadFlareDataSchema } = require("./flareDataValidator.cjs");
+const { writeZip } = require("./zipWriter.cjs");
 const isDev = !app.isPackaged;
 const validationRoot = path.join(__dirname, "..");
 
+// Map names become file names the same way in the renderer (sanitizeMapFileBase), e.g. "Old Town" -> "Old_Town"
+const sanitizeMapNameForFilename = (mapName) => {
+  const sanitized = String(mapName)
+    .replace(/[<>:"/|?*]/g, "_")
+    .trim()
+    .replace(/\s+/g, "_")
+    .replace(/_{2,}/g, "_");
+  return sanitized || "Untitled_Map";
+};
+
 const getPlatformIcon = () => {
   // PNG works for taskbar/window icon on both Windows and Linux
   return path.join(__dirname, "..", "public", "flare-studio-ico.png");
@@ -448,6 +459,36 @@ ipcMainLocal.handle("select-tileset-file", async () => {
   return null;
 });
 
+ipcMainLocal.handle("select-tiled-map-file", async () => {
+  const result = await dialog.showOpenDialog(mainWindow, {
+    properties: ["openFile"],
+    filters: [
+      { name: "Tiled Maps", extensions: ["tmx"] },
+      { name: "All Files", extensions: ["*"] },
+    ],
+  });
+
+  if (!result.canceled && result.filePaths.length > 0) {
+    return result.filePaths[0];
+  }
+
+  return null;
+});
+
+// Ask where to save a rendered map image and write it. Returns the chosen
+// path, or null when the dialog was cancelled.
+ipcMainLocal.handle("save-map-image", async (_event, defaultPath, dataUrl) => {
+  const result = await dialog.showSaveDialog(mainWindow, {
+    defaultPath,
+    filters: [{ name: "PNG Images", extensions: ["png"] }],
+  });
+  if (result.canceled || !result.filePath) return null;
+
+  const base64Data = String(dataUrl || "").replace(/^data:image\/[a-z]+;base64,/, "");
+  fs.writeFileSync(result.filePath, base64Data, "base64");
+  return result.filePath;
+});
+
 ipcMainLocal.handle("create-map-project", async (event, config) => {
   try {
     const projectPath = path.join(config.location, config.name);
@@ -890,6 +931,13 @@ ipcMainLocal.handle("save-map-project", async (event, projectPath, mapData) => {
         const minimapPath = path.join(imagesPath, "minimap.png");
         fs.writeFileSync(minimapPath, minimapBase64, "base64");
         console.log("Saved minimap to:", minimapPath);
+
+        // Per-map copy so every map of the project keeps its own thumbnail
+        const mapMinimapsPath = path.join(imagesPath, "minimaps");
+        if (!fs.existsSync(mapMinimapsPath)) {
+          fs.mkdirSync(mapMinimapsPath, { recursive: true });
+        }
+        fs.writeFileSync(path.join(mapMinimapsPath, `${sanitizedName}.png`), minimapBase64, "base64");
       }
     } catch (mmErr) {
       console.warn("Failed to save minimap:", mmErr);
@@ -1265,10 +1313,16 @@ ipcMainLocal.handle("read-file-dataurl", async (_event, filePath) => {
   }
 });
 
-// Return project minimap thumbnail (data URL) if available
-ipcMainLocal.handle("get-project-thumbnail", async (event, projectPath) => {
+// Return project minimap thumbnail (data URL) if available; with a map name,
+// the thumbnail of that map
+ipcMainLocal.handle("get-project-thumbnail", async (event, projectPath, mapName) => {
   try {
     if (!projectPath) return null;
+    if (mapName) {
+      const mapMinimapPath = path.join(projectPath, "images", "minimaps", `${sanitizeMapNameForFilename(mapName)}.png`);
+      if (!fs.existsSync(mapMinimapPath)) return null;
+      return `data:image/png;base64,${fs.readFileSync(mapMinimapPath).toString("base64")}`;
+    }
     const imagesMinimapPath = path.join(projectPath, "images", "minimap.png");
     const legacyMinimapPath = path.join(projectPath, "assets", "minimap.png");
     let minimapPath = imagesMinimapPath;
@@ -1343,6 +1397,145 @@ ipcMainLocal.handle("copy-project", async (_event, sourcePath, destPath) => {
   }
 });
 
+// Import an existing Flare mod folder as a new project. The mod is copied
+// verbatim into <location>/<name>; every .txt in it is returned so the
+// renderer can convert its maps, register its loot tables and report on the rest.
+ipcMainLocal.handle("import-flare-mod", async (_event, modPath, config) => {
+  try {
+    if (!modPath || !fs.existsSync(modPath) || !fs.statSync(modPath).isDirectory()) {
+      return { success: false, error: "Mod folder not found" };
+    }
+    if (!config || typeof config.name !== "string" || !config.name.trim() || typeof config.location !== "string") {
+      return { success: false, error: "Invalid project configuration" };
+    }
+
+    const sourceDir = path.resolve(modPath);
+    const projectPath = path.resolve(config.location, config.name.trim());
+    if (projectPath === sourceDir || projectPath.startsWith(sourceDir + path.sep)) {
+      return { success: false, error: "The project cannot be created inside the mod folder" };
+    }
+    if (fs.existsSync(projectPath) && fs.readdirSync(projectPath).length > 0) {
+      return { success: false, error: `${projectPath} already exists and is not empty` };
+    }
+
+    const files = [];
+    const copyModDir = (src, dest, relative) => {
+      fs.mkdirSync(dest, { recursive: true });
+      const entries = fs.readdirSync(src, { withFileTypes: true });
+      for (const entry of entries) {
+        const srcPath = path.join(src, entry.name);
+        const destEntryPath = path.join(dest, entry.name);
+        const relativePath = relative ? `${relative}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          copyModDir(srcPath, destEntryPath, relativePath);
+        } else {
+          fs.copyFileSync(srcPath, destEntryPath);
+          if (entry.name.toLowerCase().endsWith(".txt")) {
+            files.push({ path: relativePath, content: fs.readFileSync(srcPath, "utf8") });
+          }
+        }
+      }
+    };
+    copyModDir(sourceDir, projectPath, "");
+
+    // Same folders a new project starts with
+    fs.mkdirSync(path.join(projectPath, "images", "tilesets"), { recursive: true });
+    fs.mkdirSync(path.join(projectPath, "maps"), { recursive: true });
+
+    const settingsPath = path.join(projectPath, "settings.txt");
+    if (!fs.existsSync(settingsPath)) {
+      const settingsContent =
+        `description=${config.name.trim()}\n` +
+        `game=flare-game\n` +
+        `version=1.14\n` +
+        `engine_version_min=1.13.01\n`;
+      fs.writeFileSync(settingsPath, settingsContent, "utf8");
+    }
+
+    console.log("Imported Flare mod", sourceDir, "->", projectPath, `(${files.length} text files)`);
+    return { success: true, projectPath, files };
+  } catch (e) {
+    console.error("import-flare-mod failed:", e);
+    return { success: false, error: String(e.message || e) };
+  }
+});
+
+// List the files of a project for mod packaging. Hidden folders (.git and
+// the like) are not walked; text files are returned with their content so
+// the renderer can follow asset references.
+ipcMainLocal.handle("list-mod-files", async (_event, projectPath) => {
+  try {
+    if (!projectPath || !fs.existsSync(projectPath)) return [];
+    const files = [];
+    const walk = (dir, relative) => {
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        const relativePath = relative ? `${relative}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          if (!entry.name.startsWith(".")) walk(fullPath, relativePath);
+        } else if (entry.isFile()) {
+          const file = { path: relativePath, size: fs.statSync(fullPath).size };
+          if (entry.name.toLowerCase().endsWith(".txt")) {
+            file.content = fs.readFileSync(fullPath, "utf8");
+          }
+          files.push(file);
+        }
+      }
+    };
+    walk(path.resolve(projectPath), "");
+    return files;
+  } catch (e) {
+    console.error("list-mod-files failed:", e);
+    return [];
+  }
+});
+
+// Write <outputDir>/<modName>.zip with the given project files under a
+// <modName>/ folder, plus its manifest. The generated settings.txt is also
+// saved back to the project so the next package starts from it.
+ipcMainLocal.handle("write-mod-package", async (_event, projectPath, pkg) => {
+  let zipPath = null;
+  try {
+    if (!projectPath || !fs.existsSync(projectPath)) {
+      return { success: false, error: "Project folder not found" };
+    }
+    if (!pkg || !pkg.outputDir || !pkg.modName || !Array.isArray(pkg.files) || typeof pkg.settingsTxt !== "string") {
+      return { success: false, error: "Invalid mod package" };
+    }
+    if (!fs.existsSync(pkg.outputDir)) {
+      return { success: false, error: "Output folder not found" };
+    }
+
+    const projectRoot = path.resolve(projectPath);
+    const entries = [{ name: `${pkg.modName}/settings.txt`, data: pkg.settingsTxt }];
+    for (const file of pkg.files) {
+      const sourcePath = path.resolve(projectRoot, file);
+      if (!sourcePath.startsWith(projectRoot + path.sep)) {
+        return { success: false, error: `File outside the project: ${file}` };
+      }
+      entries.push({ name: `${pkg.modName}/${file}`, sourcePath });
+    }
+
+    zipPath = path.join(pkg.outputDir, `${pkg.modName}.zip`);
+    writeZip(zipPath, entries);
+    const manifestPath = path.join(pkg.outputDir, `${pkg.modName}-manifest.json`);
+    fs.writeFileSync(manifestPath, pkg.manifest || "", "utf8");
+    // The project's own settings.txt changes only when the user asked for it
+    if (pkg.updateProjectSettings === true) {
+      fs.writeFileSync(path.join(projectRoot, "settings.txt"), pkg.settingsTxt, "utf8");
+    }
+
+    console.log("Wrote mod package", zipPath, `(${entries.length} files)`);
+    return { success: true, zipPath, manifestPath };
+  } catch (e) {
+    console.error("write-mod-package failed:", e);
+    if (zipPath && fs.existsSync(zipPath)) {
+      try { fs.unlinkSync(zipPath); } catch { /* ignore */ }
+    }
+    return { success: false, error: String(e.message || e) };
+  }
+});
+
 // Get file stats for conflict detection (modified time and size)
 ipcMainLocal.handle("get-file-stats", async (_event, filePath) => {
   try {
@@ -16,8 +16,17 @@ contextBridge.exposeInMainWorld("electronAPI", {
   closeAfterSave: () => ipcRenderer.send("close-after-save"),
   selectDirectory: () => ipcRenderer.invoke("select-directory"),
   selectTilesetFile: () => ipcRenderer.invoke("select-tileset-file"),
+  selectTiledMapFile: () => ipcRenderer.invoke("select-tiled-map-file"),
   createMapProject: (config) =>
     ipcRenderer.invoke("create-map-project", config),
+  importFlareMod: (modPath, config) =>
+    ipcRenderer.invoke("import-flare-mod", modPath, config),
+  listModFiles: (projectPath) =>
+    ipcRenderer.invoke("list-mod-files", projectPath),
+  writeModPackage: (projectPath, pkg) =>
+    ipcRenderer.invoke("write-mod-package", projectPath, pkg),
+  saveMapImage: (defaultPath, dataUrl) =>
+    ipcRenderer.invoke("save-map-image", defaultPath, dataUrl),
   openMapProject: (projectPath, mapName) =>
     ipcRenderer.invoke("open-map-project", projectPath, mapName),
   saveMapProject: (projectPath, mapData) =>
@@ -46,8 +55,8 @@ contextBridge.exposeInMainWorld("electronAPI", {
     ipcRenderer.invoke("read-spawn-file", projectPath),
   resolvePathRelative: (fromPath, toPath) =>
     ipcRenderer.invoke("resolve-path-relative", fromPath, toPath),
-  getProjectThumbnail: (projectPath) =>
-    ipcRenderer.invoke("get-project-thumbnail", projectPath),
+  getProjectThumbnail: (projectPath, mapName) =>
+    ipcRenderer.invoke("get-project-thumbnail", projectPath, mapName),
   checkProjectExists: (projectPath) =>
     ipcRenderer.invoke("check-project-exists", projectPath),
   // Session management (per-project)
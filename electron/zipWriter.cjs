@@ -0,0 +1,116 @@
+const fs = require('fs');
+const zlib = require('zlib');
+
+// Minimal ZIP writer (deflate, no ZIP64) for mod packages. Entries are
+// written to disk one at a time so large mods are never held in memory.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+/**
+ * Write a zip archive to zipPath.
+ * @param {string} zipPath
+ * @param {Array<{ name: string, data?: Buffer | string, sourcePath?: string }>} entries
+ *   name is the '/' separated path inside the archive; content comes from
+ *   data or is read from sourcePath.
+ */
+function writeZip(zipPath, entries) {
+  const fd = fs.openSync(zipPath, 'w');
+  const central = [];
+  let offset = 0;
+  const { time, day } = dosDateTime(new Date());
+
+  const write = (buffer) => {
+    fs.writeSync(fd, buffer);
+    offset += buffer.length;
+  };
+
+  try {
+    for (const entry of entries) {
+      const raw = entry.sourcePath
+        ? fs.readFileSync(entry.sourcePath)
+        : Buffer.isBuffer(entry.data) ? entry.data : Buffer.from(entry.data || '', 'utf8');
+      const deflated = zlib.deflateRawSync(raw);
+      // Already-compressed files (png, ogg) are usually smaller stored
+      const stored = deflated.length >= raw.length;
+      const body = stored ? raw : deflated;
+      const name = Buffer.from(entry.name, 'utf8');
+      const crc = crc32(raw);
+      const localOffset = offset;
+      if (offset + 30 + name.length + body.length > 0xffffffff || entries.length > 0xffff) {
+        throw new Error('Mod package is too large for a zip archive');
+      }
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034b50, 0);
+      local.writeUInt16LE(20, 4);             // Version needed
+      local.writeUInt16LE(0x0800, 6);         // UTF-8 names
+      local.writeUInt16LE(stored ? 0 : 8, 8);
+      local.writeUInt16LE(time, 10);
+      local.writeUInt16LE(day, 12);
+      local.writeUInt32LE(crc, 14);
+      local.writeUInt32LE(body.length, 18);
+      local.writeUInt32LE(raw.length, 22);
+      local.writeUInt16LE(name.length, 26);
+      local.writeUInt16LE(0, 28);
+      write(local);
+      write(name);
+      write(body);
+
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4);            // Version made by
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(0x0800, 8);
+      header.writeUInt16LE(stored ? 0 : 8, 10);
+      header.writeUInt16LE(time, 12);
+      header.writeUInt16LE(day, 14);
+      header.writeUInt32LE(crc, 16);
+      header.writeUInt32LE(body.length, 20);
+      header.writeUInt32LE(raw.length, 24);
+      header.writeUInt16LE(name.length, 28);
+      header.writeUInt32LE(localOffset, 42);
+      central.push(header, name);
+    }
+
+    const centralOffset = offset;
+    for (const buffer of central) write(buffer);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(offset - centralOffset, 12);
+    end.writeUInt32LE(centralOffset, 16);
+    write(end);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+module.exports = {
+  crc32,
+  writeZip
+};
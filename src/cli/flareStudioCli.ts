@@ -0,0 +1,189 @@
+import fs from 'fs';
+import path from 'path';
+import type { EditorProjectData } from '../editor/TileMapEditor';
+import { exportSavedMap } from '../editor/savedMapExport';
+import { buildSpawnContent, computeIntermapTarget } from '../editor/mapSpawnUtils';
+import { validateAllFlareDataFiles } from '../utils/flareDataValidator';
+import { getNpcExportFilename, mapObjectToFlareNpc, serializeNpcFile } from '../utils/flareNpcUtils';
+
+/**
+ * Headless exporter for CI builds:
+ *
+ *   flare-studio export <projectDir> <outDir> [--schema <dir>]
+ *
+ * Writes the mod for every saved map of a project (maps, tilesetdefs, the
+ * npcs/*.txt files of placed NPCs, spawn.txt) next to a copy of the project's
+ * Flare content folders (items, enemies, images, ...), then runs Flare Shield
+ * over the result. Exits non-zero when the project cannot be read, a file the
+ * export references is missing, or validation fails.
+ */
+
+const USAGE = 'Usage: flare-studio export <projectDir> <outDir> [--schema <dir>]';
+
+const SESSION_FILENAME = '.flare-session.json';
+
+// Project folders that only the editor uses
+const EDITOR_ONLY_DIRS = new Set<string>(['tiled']);
+
+interface CliLogger {
+  log: (message: string) => void;
+  error: (message: string) => void;
+}
+
+/** Saved maps of a project, using the same rules as the editor's map list. */
+function readProjectMaps(projectDir: string): EditorProjectData[] {
+  const maps: EditorProjectData[] = [];
+  for (const file of fs.readdirSync(projectDir).sort()) {
+    const lower = file.toLowerCase();
+    if (!lower.endsWith('.json') || lower === SESSION_FILENAME) continue;
+    let data: EditorProjectData;
+    try {
+      data = JSON.parse(fs.readFileSync(path.join(projectDir, file), 'utf8'));
+    } catch {
+      continue;
+    }
+    if (!Array.isArray(data.layers) || data.layers.length === 0) continue;
+    const hasPaintedTile = data.layers.some(layer => Array.isArray(layer.data) && layer.data.some(v => v !== 0));
+    // Phantom maps left behind by an old project creation bug
+    if (data.name === 'Untitled Map' && !hasPaintedTile) continue;
+    maps.push(data);
+  }
+  return maps;
+}
+
+const copyDir = (src: string, dest: string): void => {
+  fs.mkdirSync(dest, { recursive: true });
+  for (const entry of fs.readdirSync(src, { withFileTypes: true })) {
+    const srcPath = path.join(src, entry.name);
+    const destPath = path.join(dest, entry.name);
+    if (entry.isDirectory()) {
+      copyDir(srcPath, destPath);
+    } else {
+      fs.copyFileSync(srcPath, destPath);
+    }
+  }
+};
+
+// Paths written into mod files must stay inside the mod
+const isModRelativePath = (filePath: string): boolean =>
+  !path.isAbsolute(filePath) && !/^[a-z]+:/i.test(filePath) && !filePath.split(/[\\/]/).includes('..');
+
+const writeFile = (filePath: string, content: string): void => {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content, 'utf8');
+};
+
+async function exportProject(projectDir: string, outDir: string, schemaDir: string | undefined, logger: CliLogger): Promise<boolean> {
+  const projectRoot = path.resolve(projectDir);
+  const outRoot = path.resolve(outDir);
+  if (!fs.existsSync(projectRoot) || !fs.statSync(projectRoot).isDirectory()) {
+    logger.error(`Project folder not found: ${projectRoot}`);
+    return false;
+  }
+  if (outRoot === projectRoot) {
+    logger.error('The output folder must differ from the project folder');
+    return false;
+  }
+
+  // Flare content is stored in the project as-is; carry it over first
+  for (const entry of fs.readdirSync(projectRoot, { withFileTypes: true })) {
+    if (!entry.isDirectory() || entry.name.startsWith('.') || EDITOR_ONLY_DIRS.has(entry.name)) continue;
+    const src = path.join(projectRoot, entry.name);
+    if (path.resolve(src) === outRoot) continue;
+    copyDir(src, path.join(outRoot, entry.name));
+  }
+  const settingsPath = path.join(projectRoot, 'settings.txt');
+  if (fs.existsSync(settingsPath)) {
+    fs.copyFileSync(settingsPath, path.join(outRoot, 'settings.txt'));
+  } else {
+    writeFile(path.join(outRoot, 'settings.txt'),
+      `description=${path.basename(projectRoot)}\n` +
+      `game=flare-game\n` +
+      `version=1.14\n` +
+      `engine_version_min=1.13.01\n`);
+  }
+
+  const maps = readProjectMaps(projectRoot);
+  if (maps.length === 0) {
+    logger.error(`No saved maps found in ${projectRoot}`);
+    return false;
+  }
+
+  let ok = true;
+  for (const map of maps) {
+    const exported = exportSavedMap(map);
+    writeFile(path.join(outRoot, 'maps', `${exported.fileBase}.txt`), exported.mapTxt);
+    writeFile(path.join(outRoot, 'tilesetdefs', `tileset_${exported.fileBase}.txt`), exported.tilesetDef);
+    logger.log(`Exported maps/${exported.fileBase}.txt`);
+
+    for (const image of exported.tilesetImages) {
+      if (!fs.existsSync(path.join(outRoot, 'images', 'tilesets', image))) {
+        logger.error(`${exported.mapName}: tileset image images/tilesets/${image} is missing from the project`);
+        ok = false;
+      }
+    }
+
+    for (const npc of (map.objects || []).filter(obj => obj.type === 'npc')) {
+      const npcFile = getNpcExportFilename(npc);
+      const flareNpc = mapObjectToFlareNpc(npc);
+      if (!isModRelativePath(npcFile)) {
+        logger.error(`${exported.mapName}: NPC "${flareNpc.name}" file ${npcFile} is not inside the mod`);
+        ok = false;
+        continue;
+      }
+      writeFile(path.join(outRoot, npcFile), serializeNpcFile(flareNpc));
+      logger.log(`Exported ${npcFile}`);
+
+      for (const reference of [flareNpc.gfx, flareNpc.portrait]) {
+        if (!reference) continue;
+        if (!isModRelativePath(reference) || !fs.existsSync(path.join(outRoot, reference))) {
+          logger.error(`${exported.mapName}: ${npcFile} references ${reference}, which is missing from the project`);
+          ok = false;
+        }
+      }
+    }
+
+    const intermapTarget = computeIntermapTarget(Boolean(map.isStartingMap), map.name);
+    if (intermapTarget) {
+      writeFile(path.join(outRoot, 'maps', 'spawn.txt'), buildSpawnContent(intermapTarget, { x: map.heroX ?? 0, y: map.heroY ?? 0 }));
+      logger.log(`Wrote maps/spawn.txt for ${exported.mapName}`);
+    }
+  }
+
+  const results = await validateAllFlareDataFiles(outRoot, schemaDir ? path.resolve(schemaDir) : undefined);
+  for (const result of results) {
+    for (const error of result.errors) logger.error(`${result.filePath}: ${error}`);
+    for (const warning of result.warnings) logger.error(`${result.filePath}: ${warning}`);
+    if (result.errors.length > 0 || result.warnings.length > 0) ok = false;
+  }
+  logger.log(`Flare Shield checked ${results.length} file(s)`);
+
+  return ok;
+}
+
+async function runCli(argv: string[], logger: CliLogger = console): Promise<number> {
+  const args = [...argv];
+  let schemaDir: string | undefined;
+  const schemaIndex = args.indexOf('--schema');
+  if (schemaIndex !== -1) {
+    schemaDir = args[schemaIndex + 1];
+    args.splice(schemaIndex, 2);
+  }
+
+  const [command, projectDir, outDir] = args;
+  if (command !== 'export' || !projectDir || !outDir || (schemaIndex !== -1 && !schemaDir)) {
+    logger.error(USAGE);
+    return 2;
+  }
+
+  try {
+    return (await exportProject(projectDir, outDir, schemaDir, logger)) ? 0 : 1;
+  } catch (e) {
+    logger.error(`Export failed: ${e instanceof Error ? e.message : String(e)}`);
+    return 1;
+  }
+}
+
+runCli(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyCollisionOverrides,
+  combineCollisionSources,
+  NO_COLLISION_OVERRIDE
+} from './editor/collisionRebuild';
+import { clickCell, createTestEditor, fakeImageDataUrl, flushImages } from './editorTestHarness';
+
+const NO = NO_COLLISION_OVERRIDE;
+
+describe('Collision rebuild', () => {
+  it('should let later sources win where they define collision', () => {
+    const background = [2, 2, 0, 0];
+    const objects = [0, 1, 0, 5];
+    expect(combineCollisionSources([background, objects], 4)).toEqual([2, 1, 0, 5]);
+    expect(combineCollisionSources([], 2)).toEqual([0, 0]);
+  });
+
+  it('should keep overridden cells, erased ones included', () => {
+    expect(applyCollisionOverrides([2, 0, 2, 0], [NO, 1, 0, NO])).toEqual([2, 1, 0, 0]);
+  });
+
+  it('should keep cells painted by hand but rebuild imported collision', async () => {
+    const editor = createTestEditor();
+    try {
+      await editor.loadFlareMapTxt(
+        '[header]\nwidth=3\nheight=1\n\n[tilesets]\ntileset=images/tilesets/grass.png,64,32,0,0\n\n[layer]\ntype=background\ndata=\n1,1,1\n\n[layer]\ntype=collision\ndata=\n1,0,0\n',
+        async () => fakeImageDataUrl(128, 64)
+      );
+      await flushImages();
+      const collision = () => editor.getLayers().find(layer => layer.type === 'collision')!;
+      editor.setActiveLayer(collision().id);
+      editor.setActiveGid(2);
+      clickCell(editor, 1, 0);
+
+      expect(editor.rebuildCollision()).toEqual({ changed: 1, overrides: 1 });
+      expect(collision().data).toEqual([0, 2, 0]);
+
+      // Rebuilding again keeps the hand edit until the overrides are dropped
+      expect(editor.rebuildCollision()).toEqual({ changed: 0, overrides: 1 });
+      expect(editor.rebuildCollision(false)).toEqual({ changed: 1, overrides: 0 });
+      expect(collision().data).toEqual([0, 0, 0]);
+    } finally {
+      editor.dispose();
+    }
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { blocksMovement, COLLISION_TYPES, getCollisionType, toFlareCollisionValue } from './editor/collisionTypes';
+import { exportSavedMap } from './editor/savedMapExport';
+
+describe('Collision types', () => {
+  it('should cover every Flare collision value with its own colour', () => {
+    expect(COLLISION_TYPES.map(type => type.value)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(new Set(COLLISION_TYPES.map(type => type.color.join(','))).size).toBe(COLLISION_TYPES.length);
+    expect(getCollisionType(2)?.label).toBe('Blocks movement');
+    expect(getCollisionType(7)).toBeNull();
+
+    expect([0, 1, 2, 3, 4, 5, 6].map(blocksMovement)).toEqual([false, true, true, true, true, false, false]);
+  });
+
+  it('should export collision values as they are and unknown ones as blocks all', () => {
+    expect(toFlareCollisionValue(5)).toBe(5);
+    expect(toFlareCollisionValue(9)).toBe(1);
+    expect(toFlareCollisionValue(-1)).toBe(0);
+
+    const exported = exportSavedMap({
+      name: 'Lake',
+      width: 4,
+      height: 1,
+      layers: [{ id: 1, name: 'Collision', type: 'collision', data: [2, 6, 12, 0], visible: true }],
+      objects: []
+    });
+    expect(exported.mapTxt).toContain('[layer]\ntype=collision\ndata=\n2,6,1,0\n');
+  });
+});
@@ -2,6 +2,18 @@ import React, { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import Tooltip from '@/components/ui/tooltip';
 import MainMenuDialog from '@/components/MainMenuDialog';
+import ModPackageDialog from '@/components/ModPackageDialog';
+import MapImageDialog from '@/components/MapImageDialog';
+import MapDiffDialog from '@/components/MapDiffDialog';
+import MapGeneratorDialog from '@/components/MapGeneratorDialog';
+import ReachabilityPanel from '@/components/ReachabilityPanel';
+import WorldGraphDialog from '@/components/WorldGraphDialog';
+import type { ModSettings } from '@/editor/modPackage';
+import type { MapImageOptions } from '@/editor/mapImage';
+import type { MapDiff, MapMerge } from '@/editor/mapDiff';
+import type { GeneratorSettings, GeneratorTiles } from '@/editor/mapGenerator';
+import type { ReachabilityResult } from '@/editor/reachability';
+import type { WorldGraph, WorldLink } from '@/editor/worldGraph';
 import { Menu, Save, Settings } from 'lucide-react';
 
 type Props = {
@@ -12,7 +24,19 @@ type Props = {
   onShowHelp: () => void;
   onSaveAsCopy: () => Promise<void>;
   onRestart: () => void;
-  onExport: () => void;
+  onExportModPackage: (settings: ModSettings, outputDir: string, updateProjectSettings: boolean) => Promise<boolean>;
+  onImportTiledMap: () => void;
+  onExportTiledMap: () => void;
+  onExportMapImage: (options: MapImageOptions) => Promise<boolean>;
+  onCompareMap: (projectPath: string, mapName: string) => Promise<MapDiff | null>;
+  onHighlightMapDiff: (cells: Array<{ x: number; y: number }> | null) => void;
+  onApplyMapMerge: (merge: MapMerge) => boolean;
+  onGenerateMap: (settings: Omit<GeneratorSettings, 'width' | 'height'>, tiles: GeneratorTiles) => boolean;
+  onCheckReachability: () => Promise<ReachabilityResult | null>;
+  onShadeUnreachable: (cells: Array<{ x: number; y: number }> | null) => void;
+  onPanToTile: (x: number, y: number) => void;
+  onBuildWorldGraph: () => Promise<WorldGraph | null>;
+  onOpenWorldLink: (link: WorldLink, mapName: string) => Promise<void>;
   onCheckUpdates: () => void;
   toast: typeof import('@/hooks/use-toast').toast;
   handleManualSave: () => void;
@@ -34,7 +58,19 @@ const AppControls: React.FC<Props> = ({
   onShowHelp,
   onSaveAsCopy,
   onRestart,
-  onExport,
+  onExportModPackage,
+  onImportTiledMap,
+  onExportTiledMap,
+  onExportMapImage,
+  onCompareMap,
+  onHighlightMapDiff,
+  onApplyMapMerge,
+  onGenerateMap,
+  onCheckReachability,
+  onShadeUnreachable,
+  onPanToTile,
+  onBuildWorldGraph,
+  onOpenWorldLink,
   onCheckUpdates,
   handleManualSave,
   isManuallySaving,
@@ -47,6 +83,12 @@ const AppControls: React.FC<Props> = ({
   const btnRef = useRef<HTMLButtonElement>(null);
   const [menuOpen, setMenuOpen] = useState(false);
   const [menuPos, setMenuPos] = useState<{ left: number; top: number } | null>(null);
+  const [showModPackage, setShowModPackage] = useState(false);
+  const [showMapImage, setShowMapImage] = useState(false);
+  const [showMapDiff, setShowMapDiff] = useState(false);
+  const [showMapGenerator, setShowMapGenerator] = useState(false);
+  const [showReachability, setShowReachability] = useState(false);
+  const [showWorldGraph, setShowWorldGraph] = useState(false);
 
   return (
     <div className="flex items-center gap-2">
@@ -78,9 +120,59 @@ const AppControls: React.FC<Props> = ({
           onShowHelp={() => { onShowHelp(); setMenuOpen(false); }}
           onSaveAsCopy={async () => { await onSaveAsCopy(); setMenuOpen(false); }}
           onRestart={onRestart}
-          onExport={() => { onExport(); setMenuOpen(false); }}
+          onExport={() => { setShowModPackage(true); setMenuOpen(false); }}
+          onImportTiledMap={() => { onImportTiledMap(); setMenuOpen(false); }}
+          onExportTiledMap={() => { onExportTiledMap(); setMenuOpen(false); }}
+          onExportMapImage={() => { setShowMapImage(true); setMenuOpen(false); }}
+          onCompareMap={() => { setShowMapDiff(true); setMenuOpen(false); }}
+          onGenerateMap={() => { setShowMapGenerator(true); setMenuOpen(false); }}
+          onCheckReachability={() => { setShowReachability(true); setMenuOpen(false); }}
+          onShowWorldGraph={() => { setShowWorldGraph(true); setMenuOpen(false); }}
           onCheckUpdates={() => { onCheckUpdates(); setMenuOpen(false); }}
         />
+
+        <ModPackageDialog
+          open={showModPackage}
+          projectPath={currentProjectPath}
+          onClose={() => setShowModPackage(false)}
+          onExport={onExportModPackage}
+        />
+
+        <MapImageDialog
+          open={showMapImage}
+          onClose={() => setShowMapImage(false)}
+          onExport={onExportMapImage}
+        />
+
+        <MapDiffDialog
+          open={showMapDiff}
+          projectPath={currentProjectPath}
+          onClose={() => setShowMapDiff(false)}
+          onCompare={onCompareMap}
+          onHighlight={onHighlightMapDiff}
+          onMerge={onApplyMapMerge}
+        />
+
+        <MapGeneratorDialog
+          open={showMapGenerator}
+          onClose={() => setShowMapGenerator(false)}
+          onGenerate={onGenerateMap}
+        />
+
+        <ReachabilityPanel
+          open={showReachability}
+          onClose={() => setShowReachability(false)}
+          onCheck={onCheckReachability}
+          onShade={onShadeUnreachable}
+          onPanTo={onPanToTile}
+        />
+
+        <WorldGraphDialog
+          open={showWorldGraph}
+          onClose={() => setShowWorldGraph(false)}
+          onBuild={onBuildWorldGraph}
+          onOpenLink={onOpenWorldLink}
+        />
       </div>
 
       <Tooltip content={hasUnsavedChanges ? 'Unsaved changes — click to save (Ctrl+S)' : 'All changes saved'}>
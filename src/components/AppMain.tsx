@@ -60,6 +60,7 @@ export default function AppMain() {
     isStartingMap,
     updateStartingMap,
     handleMapResize,
+    handleSaveMapHeader,
     showClearLayerDialog,
     handleClearLayerClose,
     handleClearLayerConfirm,
@@ -303,6 +304,9 @@ export default function AppMain() {
           updateStartingMap={updateStartingMap}
           handleMapResize={handleMapResize}
           handleDeleteMap={handleDeleteMap}
+          editor={editor}
+          mapHeader={editor?.getMapHeaderSettings?.() ?? {}}
+          onSaveMapHeader={handleSaveMapHeader}
         />
 
         <EventDialog open={eventDialogOpen} onOpenChange={setEventDialogOpen} eventLocation={eventDialogLocation} editingEventId={editingEventId} />
@@ -8,7 +8,7 @@ import SidebarItemsArea from '@/components/SidebarItemsArea';
 import TilesetPanel from '@/components/sidebar/TilesetPanel';
 import SidebarLayersArea from '@/components/SidebarLayersArea';
 import SidebarControlsArea, { ControlsProps } from '@/components/SidebarControlsArea';
-import type { MapObject, TileLayer } from '@/types';
+import type { MapObject, TileLayer, FlareRenderLayerType } from '@/types';
 import type { TileMapEditor } from '@/editor/TileMapEditor';
 import type { RuleStartType } from '@/editor/ruleOptions';
 import type { ItemRole, ItemResourceSubtype } from '@/editor/itemRoles';
@@ -116,6 +116,9 @@ type SidebarProps = {
     handleSetActiveLayer: (id: number) => void;
     handleToggleLayerVisibility: (id: number) => void;
     handleLayerTransparencyChange: (id: number, delta: number) => void;
+    handleAddLayer?: (type: FlareRenderLayerType) => void;
+    handleDeleteLayer?: (id: number) => void;
+    handleMoveLayer?: (id: number, direction: 'up' | 'down') => void;
       showTooltipWithDelay: (text: React.ReactNode, target: HTMLElement) => void;
       hideTooltip: () => void;
       uiHelpers?: {
@@ -228,6 +231,9 @@ export default function AppSidebar(p: SidebarProps) {
         handleSetActiveLayer={p.layers.handleSetActiveLayer}
         handleToggleLayerVisibility={p.layers.handleToggleLayerVisibility}
         handleLayerTransparencyChange={p.layers.handleLayerTransparencyChange}
+        handleAddLayer={p.layers.handleAddLayer}
+        handleDeleteLayer={p.layers.handleDeleteLayer}
+        handleMoveLayer={p.layers.handleMoveLayer}
         showTooltipWithDelay={p.layers.showTooltipWithDelay}
         hideTooltip={p.layers.hideTooltip}
         uiHelpers={p.layers.uiHelpers}
@@ -4,6 +4,7 @@ import Tooltip from '@/components/ui/tooltip';
 import {
   Circle,
   Eraser,
+  Mountain,
   PaintBucket,
   Paintbrush2,
   Pen,
@@ -39,8 +40,8 @@ type BottomToolbarProps = {
   showBrushOptions: boolean;
   handleShowBrushOptions: () => void;
   handleHideBrushOptions: () => void;
-  selectedBrushTool: 'brush' | 'bucket' | 'eraser' | 'clear';
-  setSelectedBrushTool: React.Dispatch<React.SetStateAction<'brush' | 'bucket' | 'eraser' | 'clear'>>;
+  selectedBrushTool: 'brush' | 'bucket' | 'eraser' | 'terrain' | 'clear';
+  setSelectedBrushTool: React.Dispatch<React.SetStateAction<'brush' | 'bucket' | 'eraser' | 'terrain' | 'clear'>>;
   setShowClearLayerDialog: React.Dispatch<React.SetStateAction<boolean>>;
   
   showSelectionOptions: boolean;
@@ -108,6 +109,8 @@ const BottomToolbar = ({
         return <PaintBucket className="w-4 h-4" />;
       case 'eraser':
         return <Eraser className="w-4 h-4" />;
+      case 'terrain':
+        return <Mountain className="w-4 h-4" />;
       default:
         return <Paintbrush2 className="w-4 h-4" />;
     }
@@ -210,6 +213,16 @@ const BottomToolbar = ({
                 <Eraser className="w-3 h-3" />
               </Button>
             </Tooltip>
+            <Tooltip content="Terrain Brush (right click erases terrain)" side="top">
+              <Button
+                variant={selectedBrushTool === 'terrain' ? 'default' : 'ghost'}
+                size="sm"
+                className="w-6 h-6 p-1 rounded-full sub-tool-button"
+                onClick={() => { setSelectedBrushTool('terrain'); handleSelectTool('brush'); }}
+              >
+                <Mountain className="w-3 h-3" />
+              </Button>
+            </Tooltip>
             <Tooltip content="Clear Layer" side="top">
               <Button
                 variant={selectedBrushTool === 'clear' ? 'default' : 'ghost'}
@@ -1,9 +1,10 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import Tooltip from '@/components/ui/tooltip';
-import { ZoomIn, ZoomOut, Upload, X, XCircle } from 'lucide-react';
+import { ZoomIn, ZoomOut, Upload, X, XCircle, Wand2, Eraser } from 'lucide-react';
 import type { TileLayer } from '@/types';
 import type { TileMapEditor } from '@/editor/TileMapEditor';
+import { isFlareRenderLayerType } from '@/editor/flareLayers';
 import useBrushToolbar from '@/hooks/useBrushToolbar';
 
 type BrushToolbarProps = {
@@ -152,6 +153,18 @@ const BrushToolbar = ({
     }
   };
 
+  const handleRebuildCollision = (keepOverrides: boolean) => {
+    const result = editor?.rebuildCollision(keepOverrides);
+    if (!result) {
+      toastInvoke({ title: 'No collision layer', description: 'Add a collision layer to rebuild collision.', variant: 'destructive' });
+      return;
+    }
+    toastInvoke({
+      title: 'Collision rebuilt',
+      description: `${result.changed} cell(s) changed, ${result.overrides} hand-edited cell(s) kept. Undo reverts the rebuild.`
+    });
+  };
+
   return (
   <div className="sticky bottom-0 z-10 bg-transparent py-2">
     <div className="text-xs text-muted-foreground"></div>
@@ -160,10 +173,34 @@ const BrushToolbar = ({
         ref={setNode}
         className="flex items-center transition-all duration-300 ease-in-out gap-1 transform -translate-x-1 mt-2 mb-2"
       >
+        {isCollisionLayer && (
+          <div className="flex-shrink-0 flex items-center gap-1">
+            <Tooltip content="Rebuild collision from the tiles' default collision, keeping hand edits" side="bottom">
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-xs px-1 py-1 h-6 shadow-sm"
+                onClick={() => handleRebuildCollision(true)}
+              >
+                <Wand2 className="w-3 h-3" />
+              </Button>
+            </Tooltip>
+            <Tooltip content="Rebuild collision from tiles only, discarding hand edits" side="bottom">
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-xs px-1 py-1 h-6 shadow-sm"
+                onClick={() => handleRebuildCollision(false)}
+              >
+                <Eraser className="w-3 h-3" />
+              </Button>
+            </Tooltip>
+          </div>
+        )}
         {!isCollisionLayer && (
           <>
             <div className="flex-shrink-0 flex items-center gap-1">
-              {(activeLayer?.type === 'background' || activeLayer?.type === 'object') && (
+              {activeLayer && isFlareRenderLayerType(activeLayer.type) && (
                 <Tooltip content="Add tab" side="bottom">
                   <Button
                     variant="outline"
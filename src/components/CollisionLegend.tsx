@@ -0,0 +1,65 @@
+import React from 'react';
+import { ChevronDown, ChevronRight, Shield } from 'lucide-react';
+import type { TileMapEditor } from '@/editor/TileMapEditor';
+import { COLLISION_TYPES, collisionColor } from '@/editor/collisionTypes';
+
+type Props = {
+  editor: TileMapEditor | null;
+};
+
+/** Colour key for the collision overlay; unticking a value hides it from the overlay only. */
+const CollisionLegend: React.FC<Props> = ({ editor }) => {
+  const [expanded, setExpanded] = React.useState(false);
+  const [hidden, setHidden] = React.useState<number[]>(() => editor?.getHiddenCollisionTypes() ?? []);
+
+  if (!editor) return null;
+
+  const toggle = (value: number) => {
+    const next = hidden.includes(value) ? hidden.filter(v => v !== value) : [...hidden, value];
+    setHidden(next);
+    editor.setHiddenCollisionTypes(next);
+  };
+
+  return (
+    <div className="p-1.5 rounded-md text-xs bg-white/90 dark:bg-neutral-900/90 border border-gray-200 dark:border-neutral-600 text-gray-800 dark:text-white shadow-sm">
+      <button
+        type="button"
+        onClick={() => setExpanded(e => !e)}
+        className="flex items-center gap-1 w-full px-1 h-6 rounded hover:bg-accent"
+        aria-expanded={expanded}
+      >
+        <Shield className="h-3.5 w-3.5" />
+        <span className="flex-1 text-left">Collision</span>
+        {expanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+      </button>
+      {expanded && (
+        <ul className="mt-1 space-y-0.5">
+          {COLLISION_TYPES.map(type => (
+            <li key={type.value}>
+              <label className="flex items-center gap-2 px-1 py-0.5 cursor-pointer" title={type.description}>
+                <input
+                  type="checkbox"
+                  checked={!hidden.includes(type.value)}
+                  onChange={() => toggle(type.value)}
+                  aria-label={`Show ${type.label} in the collision overlay`}
+                />
+                <span
+                  className="inline-block w-3 h-3 rotate-45 border-2"
+                  style={{
+                    borderColor: collisionColor(type, 1),
+                    borderStyle: type.dashed ? 'dashed' : 'solid',
+                    backgroundColor: type.fill ? collisionColor(type, 0.35) : 'transparent'
+                  }}
+                />
+                <span className="font-mono text-muted-foreground">{type.value}</span>
+                <span>{type.label}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CollisionLegend;
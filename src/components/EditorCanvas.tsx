@@ -5,6 +5,9 @@ import MapHoverDisplay from '@/components/MapHoverDisplay';
 import NpcDeletePopup from '@/components/NpcDeletePopup';
 import NpcHoverTooltip from '@/components/NpcHoverTooltip';
 import SelectionInfo from '@/components/SelectionInfo';
+import SymmetryControls from '@/components/SymmetryControls';
+import CollisionLegend from '@/components/CollisionLegend';
+import EnemyZonesLegend from '@/components/EnemyZonesLegend';
 import BottomToolbar from '@/components/BottomToolbar';
 import {
   CellContextMenu,
@@ -504,6 +507,14 @@ export default function EditorCanvas(props: Props) {
 
       <MapInitOverlay mapInitialized={mapInitialized} handleOpenCreateMapDialog={handleOpenCreateMapDialog} isPreparingNewMap={isPreparingNewMap} />
 
+      {mapInitialized && <SymmetryControls editor={editor} />}
+      {mapInitialized && (
+        <div className="absolute top-14 right-4 z-10 flex flex-col items-end gap-1">
+          <CollisionLegend editor={editor} />
+          <EnemyZonesLegend editor={editor} />
+        </div>
+      )}
+
       <MapHoverDisplay hoverCoords={hoverCoords} showActiveGid={showActiveGid} activeGidValue={activeGidValue} hoverGidValue={hoverGidValue} isEnemyTabActive={isEnemyTabActive} />
 
       <NpcDeletePopup npcDeletePopup={npcDeletePopup} onConfirm={handleUnplaceActorFromMap} onCancel={() => setNpcDeletePopup(null)} />
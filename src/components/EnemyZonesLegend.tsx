@@ -0,0 +1,74 @@
+import React from 'react';
+import { Skull } from 'lucide-react';
+import type { TileMapEditor } from '@/editor/TileMapEditor';
+
+type Props = {
+  editor: TileMapEditor | null;
+};
+
+const KEY: Array<{ label: string; description: string; style: React.CSSProperties }> = [
+  {
+    label: 'Spawn area',
+    description: 'Where the enemies of a spawn appear (location)',
+    style: { borderColor: 'rgb(217, 119, 6)', backgroundColor: 'rgba(245, 158, 11, 0.25)' }
+  },
+  {
+    label: 'Wander radius',
+    description: 'How far the enemies roam from where they spawned',
+    style: { borderColor: 'rgb(245, 158, 11)', borderStyle: 'dashed' }
+  },
+  {
+    label: 'Threat range',
+    description: 'Where the player is noticed and chased (threat_range)',
+    style: { borderColor: 'rgba(239, 68, 68, 0.7)', backgroundColor: 'rgba(239, 68, 68, 0.08)' }
+  },
+  {
+    label: 'Overlap',
+    description: 'Threat ranges of two spawns overlap, so their enemies may pull together',
+    style: { borderColor: 'rgb(147, 51, 234)', backgroundColor: 'rgba(147, 51, 234, 0.3)' }
+  },
+  {
+    label: 'Danger to hero spawn',
+    description: 'Enemies of this spawn notice the player right where the map starts',
+    style: { borderColor: 'rgb(220, 38, 38)', backgroundColor: 'rgba(220, 38, 38, 0.25)' }
+  }
+];
+
+/** Toggle for the enemy spawn overlay and its colour key. */
+const EnemyZonesLegend: React.FC<Props> = ({ editor }) => {
+  const [shown, setShown] = React.useState(() => editor?.getShowEnemyZones() ?? false);
+
+  if (!editor) return null;
+
+  const toggle = () => {
+    setShown(!shown);
+    editor.setShowEnemyZones(!shown);
+  };
+
+  return (
+    <div className="p-1.5 rounded-md text-xs bg-white/90 dark:bg-neutral-900/90 border border-gray-200 dark:border-neutral-600 text-gray-800 dark:text-white shadow-sm">
+      <button
+        type="button"
+        onClick={toggle}
+        className={`flex items-center gap-1 w-full px-1 h-6 rounded hover:bg-accent ${shown ? 'bg-accent' : ''}`}
+        aria-pressed={shown}
+        title="Show enemy spawn areas, wander radius and threat range"
+      >
+        <Skull className="h-3.5 w-3.5" />
+        <span className="flex-1 text-left">Enemy zones</span>
+      </button>
+      {shown && (
+        <ul className="mt-1 space-y-0.5">
+          {KEY.map(entry => (
+            <li key={entry.label} className="flex items-center gap-2 px-1 py-0.5" title={entry.description}>
+              <span className="inline-block w-3 h-3 rounded-sm border-2" style={entry.style} />
+              <span>{entry.label}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default EnemyZonesLegend;
@@ -3,11 +3,14 @@ import { createPortal } from 'react-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from '@/components/ui/select';
-import { HelpCircle, X, Save, MapPinPlus, MousePointerClick, MapPinMinus, LogIn, LogOut, SquareCheckBig, Repeat2, ChevronDown, ChevronUp } from 'lucide-react';
+import { HelpCircle, X, Save, MapPinPlus, MousePointerClick, MapPinMinus, LogIn, LogOut, SquareCheckBig, Repeat2, ChevronDown, ChevronUp, Circle, Eye, EyeOff, Trash2, Boxes } from 'lucide-react';
 import Tooltip from '@/components/ui/tooltip';
 import { useAppContext } from '@/context/AppContext';
 import { useDraggableResizable } from '@/hooks/useDraggableResizable';
 import { ACTIVATION_COLORS } from '@/editor/eventActivationColors';
+import { MAPMOD_TILESETS_PROPERTY, parseMapmods, serializeMapmods, type MapMod } from '@/editor/mapmods';
+import type { PrefabEvent } from '@/editor/eventPrefabs';
+import EventPrefabPanel from '@/components/EventPrefabPanel';
 
 type EventActivation = 'Trigger' | 'Interact' | 'Load' | 'Leave' | 'MapExit' | 'MapClear' | 'Loop';
 
@@ -56,6 +59,7 @@ type EventData = {
     teleportX: number;
     teleportY: number;
     sound: string;
+    mapmods: MapMod[];
   };
   engine: {
     chance: number;
@@ -122,6 +126,15 @@ const FLARE_TO_ACTIVATION: Record<string, EventActivation> = {
   static: 'Loop',
 };
 
+// Properties written by buildProps; any other property of an event is kept as it is on save
+const DIALOG_PROPERTY_KEYS = new Set([
+  'activate', 'location', 'hotspot', 'cooldown', 'delay',
+  'requires_status', 'requires_level', 'requires_item', 'requires_not_item', 'requires_currency',
+  'msg', 'reward_xp', 'reward_currency', 'remove_currency', 'reward_item', 'remove_item',
+  'loot', 'reward_loot', 'reward_loot_count', 'spawn', 'intermap', 'soundfx',
+  'mapmod', MAPMOD_TILESETS_PROPERTY, 'chance_exec', 'save_game', 'script', '_description'
+]);
+
 const ACTIVATION_TO_FLARE: Record<string, string> = {
   Interact: 'on_interact',
   Trigger: 'on_trigger',
@@ -140,6 +153,9 @@ const EventDialog: React.FC<EventDialogProps> = ({ open, onOpenChange, eventLoca
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const currentProjectPath: string | null = (controls as any)?.currentProjectPath ?? null;
   const [projectMaps, setProjectMaps] = useState<string[]>([]);
+  const [isRecordingMapmods, setIsRecordingMapmods] = useState(false);
+  const [showMapmodsBefore, setShowMapmodsBefore] = useState(false);
+  const [manualMapmod, setManualMapmod] = useState('');
 
   const isEditing = editingEventId != null;
 
@@ -148,7 +164,7 @@ const EventDialog: React.FC<EventDialogProps> = ({ open, onOpenChange, eventLoca
     return { id: id || '', quantity: parseInt(quantity || '1', 10) || 1 };
   };
 
-  const buildProps = (): Record<string, string | string[]> => {
+  const buildProps = (mapmods: MapMod[] = eventData.rewards.mapmods): Record<string, string | string[]> => {
     const { coordinates, size, hotspot } = eventData.positioning;
     const flareActivate = ACTIVATION_TO_FLARE[eventData.timing.activeActivation || ''] || '';
     const props: Record<string, string | string[]> = {};
@@ -211,6 +227,11 @@ const EventDialog: React.FC<EventDialogProps> = ({ open, onOpenChange, eventLoca
       props.intermap = `${mapFile},${eventData.rewards.teleportX},${eventData.rewards.teleportY}`;
     }
     if (eventData.rewards.sound.trim()) props.soundfx = eventData.rewards.sound.trim();
+    if (mapmods.length > 0) {
+      const { mapmod, tilesets } = serializeMapmods(mapmods);
+      props.mapmod = mapmod;
+      if (tilesets) props[MAPMOD_TILESETS_PROPERTY] = tilesets;
+    }
     if (eventData.engine.chance < 100) props.chance_exec = String(eventData.engine.chance);
     if (eventData.engine.autoSave) props.save_game = 'true';
     if (eventData.engine.script.trim()) props.script = eventData.engine.script.trim();
@@ -218,11 +239,60 @@ const EventDialog: React.FC<EventDialogProps> = ({ open, onOpenChange, eventLoca
     return props;
   };
 
+  // Properties of the edited event the dialog has no fields for (set_status, power, repeat, ...)
+  const getUnmanagedProps = (): Record<string, string | string[]> => {
+    if (!isEditing || typeof editor?.getMapObjects !== 'function') return {};
+    const obj = editor.getMapObjects().find((o: { id: number }) => o.id === editingEventId);
+    const unmanaged: Record<string, string | string[]> = {};
+    for (const [key, value] of Object.entries(obj?.properties ?? {})) {
+      if (!DIALOG_PROPERTY_KEYS.has(key)) unmanaged[key] = value as string | string[];
+    }
+    return unmanaged;
+  };
+
+  const getCurrentPrefabEvent = (): PrefabEvent => {
+    const { coordinates, size } = eventData.positioning;
+    const activate = ACTIVATION_TO_FLARE[eventData.timing.activeActivation || ''] || 'on_trigger';
+    return {
+      name: eventData.name || 'Event',
+      x: coordinates.x,
+      y: coordinates.y,
+      width: size.width,
+      height: size.height,
+      activate,
+      properties: { ...getUnmanagedProps(), ...buildProps() }
+    };
+  };
+
+  const handlePlacePrefab = (events: PrefabEvent[]) => {
+    if (!editor || typeof editor.addMapObject !== 'function') return;
+    for (const event of events) {
+      const newObject = editor.addMapObject('event', event.x, event.y, event.width, event.height);
+      if (newObject && typeof editor.updateMapObject === 'function') {
+        editor.updateMapObject(newObject.id, {
+          name: event.name,
+          description: '',
+          type: 'event',
+          activate: event.activate,
+          x: event.x,
+          y: event.y,
+          width: event.width,
+          height: event.height,
+          properties: event.properties
+        });
+      }
+    }
+    if (typeof syncMapObjectsWrapper === 'function') syncMapObjectsWrapper();
+    onOpenChange(false);
+  };
+
   const handleSave = () => {
     if (!editor) return;
     const { coordinates, size } = eventData.positioning;
     const flareActivate = ACTIVATION_TO_FLARE[eventData.timing.activeActivation || ''] || 'on_trigger';
-    const props = buildProps();
+    // Saving while recording keeps what was painted so far
+    const recorded = isRecordingMapmods ? editor.endMapmodRecording(true) : null;
+    const props = { ...getUnmanagedProps(), ...buildProps(recorded ?? undefined) };
 
     if (isEditing && typeof editor.updateMapObject === 'function') {
       // Update existing event
@@ -308,6 +378,7 @@ const EventDialog: React.FC<EventDialogProps> = ({ open, onOpenChange, eventLoca
       teleportX: 0,
       teleportY: 0,
       sound: '',
+      mapmods: [],
     },
     engine: {
       chance: 100,
@@ -420,6 +491,7 @@ const EventDialog: React.FC<EventDialogProps> = ({ open, onOpenChange, eventLoca
             teleportX: intermapParts.length >= 3 ? parseInt(intermapParts[1]) || 0 : 0,
             teleportY: intermapParts.length >= 3 ? parseInt(intermapParts[2]) || 0 : 0,
             sound: p.soundfx || '',
+            mapmods: parseMapmods(p.mapmod, p[MAPMOD_TILESETS_PROPERTY]),
           },
           engine: {
             chance: parseInt(p.chance_exec || '100') || 100,
@@ -445,7 +517,7 @@ const EventDialog: React.FC<EventDialogProps> = ({ open, onOpenChange, eventLoca
         },
         timing: { activeActivation: null, cooldown: 0, delay: 0 },
         requirements: { status: [], minLevel: 0, itemRequirements: [], currency: 0 },
-        rewards: { message: '', expReward: 0, rewardCurrency: 0, removeCurrency: 0, rewardItemId: '', rewardItemQuantity: 1, removeItemId: '', removeItemQuantity: 1, lootGroup: '', rewardLootGroup: '', rewardLootCountMin: 1, rewardLootCountMax: 1, enemySpawn: '', teleportMap: '', teleportX: 0, teleportY: 0, sound: '' },
+        rewards: { message: '', expReward: 0, rewardCurrency: 0, removeCurrency: 0, rewardItemId: '', rewardItemQuantity: 1, removeItemId: '', removeItemQuantity: 1, lootGroup: '', rewardLootGroup: '', rewardLootCountMin: 1, rewardLootCountMax: 1, enemySpawn: '', teleportMap: '', teleportX: 0, teleportY: 0, sound: '', mapmods: [] },
         engine: { chance: 100, autoSave: false, script: '' },
       });
     }
@@ -505,6 +577,61 @@ const EventDialog: React.FC<EventDialogProps> = ({ open, onOpenChange, eventLoca
     };
   }, [open, eventData.timing.activeActivation, eventData.positioning.hotspot]);
 
+  // Resize handles on both previews; dragged rectangles come back into the draft
+  useEffect(() => {
+    if (!open || !editor?.setEventAreaResize) return;
+    editor.setEventAreaResize(editingEventId ?? null, (target: 'area' | 'hotspot', rect: { x: number; y: number; width: number; height: number }) => {
+      setEventData(prev => ({
+        ...prev,
+        positioning: target === 'area'
+          ? { ...prev.positioning, coordinates: { x: rect.x, y: rect.y }, size: { width: rect.width, height: rect.height } }
+          : { ...prev.positioning, hotspot: { ...rect } }
+      }));
+    });
+    return () => editor.setEventAreaResize(null, null);
+  }, [open, editor, editingEventId]);
+
+  // Recording ends with the dialog; strokes not saved into the event are dropped
+  useEffect(() => {
+    if (open) return;
+    if (editor?.isRecordingMapmods?.()) editor.endMapmodRecording(false);
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    setIsRecordingMapmods(false);
+    setShowMapmodsBefore(false);
+  }, [open, editor]);
+
+  const setMapmods = (mapmods: MapMod[]) => {
+    setEventData(prev => ({ ...prev, rewards: { ...prev.rewards, mapmods } }));
+  };
+
+  const startMapmodRecording = () => {
+    if (!editor?.beginMapmodRecording) return;
+    editor.beginMapmodRecording(eventData.rewards.mapmods);
+    setIsRecordingMapmods(true);
+    setShowMapmodsBefore(false);
+  };
+
+  const stopMapmodRecording = (keep: boolean) => {
+    const recorded = editor?.endMapmodRecording?.(keep);
+    if (recorded) setMapmods(recorded);
+    setIsRecordingMapmods(false);
+    setShowMapmodsBefore(false);
+  };
+
+  const toggleMapmodsBefore = () => {
+    editor?.setMapmodShowBefore?.(!showMapmodsBefore);
+    setShowMapmodsBefore(!showMapmodsBefore);
+  };
+
+  // Hand-typed "layer,x,y,value" entries replace recorded ones for the same cell
+  const addManualMapmods = () => {
+    const added = parseMapmods(manualMapmod);
+    if (added.length === 0) return;
+    const kept = eventData.rewards.mapmods.filter(mod => !added.some(a => a.layer === mod.layer && a.x === mod.x && a.y === mod.y));
+    setMapmods([...kept, ...added]);
+    setManualMapmod('');
+  };
+
   const setActivation = (activation: EventActivation) => {
     setEventData(prev => ({
       ...prev,
@@ -586,6 +713,7 @@ const EventDialog: React.FC<EventDialogProps> = ({ open, onOpenChange, eventLoca
   };
 
   const [expandedSections, setExpandedSections] = useState({
+    prefabs: true,
     eventInfo: true,
     positioning: true,
     requirements: true,
@@ -651,6 +779,36 @@ const EventDialog: React.FC<EventDialogProps> = ({ open, onOpenChange, eventLoca
         </div>
 
         <div className="flex-1 overflow-y-auto space-y-6 px-6 py-4 [&::-webkit-scrollbar]:w-2 [&::-webkit-scrollbar-track]:bg-transparent [&::-webkit-scrollbar-thumb]:bg-white/15 [&::-webkit-scrollbar-thumb]:rounded-full">
+          {/* Prefabs Section: same look as CollapsibleSection, which remounts its children on every render */}
+          <div className="border border-border/50 rounded-lg overflow-hidden mb-4 shadow-sm" id="section-prefabs">
+            <button
+              type="button"
+              onClick={() => toggleSection('prefabs')}
+              className="w-full flex items-center justify-between p-3 bg-muted/20 hover:bg-muted/30 transition-colors select-none"
+            >
+              <div className="flex items-center gap-2">
+                <Boxes className="w-4 h-4 text-orange-500" />
+                <span className="text-sm font-semibold tracking-wide">Prefabs</span>
+              </div>
+              {expandedSections.prefabs ? <ChevronUp className="w-4 h-4 text-muted-foreground" /> : <ChevronDown className="w-4 h-4 text-muted-foreground" />}
+            </button>
+            {expandedSections.prefabs && (
+              <div className="p-4 bg-background border-t border-border/10">
+                <EventPrefabPanel
+                  projectPath={currentProjectPath}
+                  origin={eventData.positioning.coordinates}
+                  mapWidth={mapWidth}
+                  mapHeight={mapHeight}
+                  items={inventoryItems}
+                  lootGroups={itemGroups}
+                  canPlace={!isEditing}
+                  onPlace={handlePlacePrefab}
+                  getCurrentEvent={getCurrentPrefabEvent}
+                />
+              </div>
+            )}
+          </div>
+
           {/* Event Information Section */}
           <CollapsibleSection
             title="Event Information"
@@ -1556,6 +1714,83 @@ const EventDialog: React.FC<EventDialogProps> = ({ open, onOpenChange, eventLoca
                 </div>
               </div>
 
+              {/* Map Modifications */}
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <label className="text-xs font-medium text-foreground/80">Map Modifications</label>
+                  <Tooltip content="Cells this event changes when it fires, e.g. an opened door, a bridge or a collapsed wall">
+                    <HelpCircle className="h-3.5 w-3.5 text-muted-foreground" />
+                  </Tooltip>
+                </div>
+                {isRecordingMapmods ? (
+                  <div className="flex items-center gap-2 rounded-md border border-red-500/50 bg-red-500/10 px-2 py-1.5 text-xs">
+                    <Circle className="h-3 w-3 fill-red-500 text-red-500 animate-pulse" />
+                    <span className="flex-1">Paint on the map; the changes are recorded for this event instead of changing the map.</span>
+                    <Button size="sm" variant="outline" className="h-6 text-xs" onClick={toggleMapmodsBefore}>
+                      {showMapmodsBefore ? <EyeOff className="h-3 w-3 mr-1" /> : <Eye className="h-3 w-3 mr-1" />}
+                      {showMapmodsBefore ? 'Before' : 'After'}
+                    </Button>
+                    <Button size="sm" className="h-6 text-xs" onClick={() => stopMapmodRecording(true)}>Done</Button>
+                    <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => stopMapmodRecording(false)}>Cancel</Button>
+                  </div>
+                ) : (
+                  <Button size="sm" variant="outline" className="h-7 text-xs" onClick={startMapmodRecording} disabled={!editor}>
+                    <Circle className="h-3 w-3 mr-1 text-red-500" />
+                    Record map changes
+                  </Button>
+                )}
+                {eventData.rewards.mapmods.length > 0 && (
+                  <div className="max-h-40 overflow-y-auto rounded-md border border-border">
+                    <table className="min-w-full text-left text-xs">
+                      <thead className="bg-muted/50">
+                        <tr>
+                          <th className="px-2 py-1">Layer</th>
+                          <th className="px-2 py-1">X</th>
+                          <th className="px-2 py-1">Y</th>
+                          <th className="px-2 py-1">Tile / Value</th>
+                          <th className="px-2 py-1" />
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-border">
+                        {eventData.rewards.mapmods.map((mod, index) => (
+                          <tr key={`${mod.layer}-${mod.x}-${mod.y}`}>
+                            <td className="px-2 py-1">{mod.layer}</td>
+                            <td className="px-2 py-1">{mod.x}</td>
+                            <td className="px-2 py-1">{mod.y}</td>
+                            <td className="px-2 py-1">{mod.value === 0 ? 'cleared' : mod.value}</td>
+                            <td className="px-2 py-1 text-right">
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-5 w-5"
+                                disabled={isRecordingMapmods}
+                                onClick={() => setMapmods(eventData.rewards.mapmods.filter((_, i) => i !== index))}
+                                aria-label="Remove map modification"
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={manualMapmod}
+                    onChange={e => setManualMapmod(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter') addManualMapmods(); }}
+                    placeholder="layer,x,y,value (e.g. collision,4,7,0)"
+                    className="h-7 text-xs flex-1"
+                    disabled={isRecordingMapmods}
+                  />
+                  <Button size="sm" variant="outline" className="h-7 text-xs" onClick={addManualMapmods} disabled={isRecordingMapmods || !manualMapmod.trim()}>
+                    Add
+                  </Button>
+                </div>
+              </div>
+
               {/* Sound */}
               <div className="space-y-2">
                 <label className="text-xs font-medium text-foreground/80">Sound File</label>
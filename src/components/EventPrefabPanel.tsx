@@ -0,0 +1,216 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from '@/components/ui/select';
+import { BookmarkPlus, PackagePlus, Trash2 } from 'lucide-react';
+import {
+  BUILT_IN_EVENT_PREFABS,
+  createSavedPrefab,
+  EVENT_PREFABS_FILE,
+  getPrefabDefaults,
+  parseSavedPrefabs,
+  savedPrefabToEventPrefab,
+  serializeSavedPrefabs,
+  type EventPrefab,
+  type PrefabEvent,
+  type PrefabParam,
+  type SavedEventPrefab
+} from '@/editor/eventPrefabs';
+
+type ListEntry = { id: string | number; name?: string; fileName?: string };
+
+type Props = {
+  projectPath: string | null;
+  origin: { x: number; y: number };
+  mapWidth: number;
+  mapHeight: number;
+  items: ListEntry[];
+  lootGroups: ListEntry[];
+  // Placing is only offered for new events; saving works for both
+  canPlace: boolean;
+  onPlace: (events: PrefabEvent[]) => void;
+  getCurrentEvent: () => PrefabEvent;
+};
+
+const EventPrefabPanel: React.FC<Props> = ({ projectPath, origin, mapWidth, mapHeight, items, lootGroups, canPlace, onPlace, getCurrentEvent }) => {
+  const [savedPrefabs, setSavedPrefabs] = useState<SavedEventPrefab[]>([]);
+  const [selectedId, setSelectedId] = useState<string>(BUILT_IN_EVENT_PREFABS[0].id);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [newPrefabName, setNewPrefabName] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+
+  const prefabsPath = projectPath ? `${projectPath}/${EVENT_PREFABS_FILE}` : null;
+
+  useEffect(() => {
+    if (!prefabsPath || !window.electronAPI?.readFile) return;
+    let cancelled = false;
+    window.electronAPI.readFile(prefabsPath).then(content => {
+      if (!cancelled) setSavedPrefabs(parseSavedPrefabs(content));
+    }).catch(() => {
+      if (!cancelled) setSavedPrefabs([]);
+    });
+    return () => { cancelled = true; };
+  }, [prefabsPath]);
+
+  const prefabs = useMemo<EventPrefab[]>(
+    () => [...BUILT_IN_EVENT_PREFABS, ...savedPrefabs.map(savedPrefabToEventPrefab)],
+    [savedPrefabs]
+  );
+  const selected = prefabs.find(prefab => prefab.id === selectedId) ?? prefabs[0];
+
+  // Parameters start over for every prefab and placement cell
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    setValues(getPrefabDefaults(selected, origin));
+  }, [selected, origin.x, origin.y]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const events = useMemo(() => selected.build(origin, values), [selected, origin, values]);
+  const outside = events.filter(event => event.x < 0 || event.y < 0 || event.x >= mapWidth || event.y >= mapHeight);
+
+  const writePrefabs = async (next: SavedEventPrefab[], message: string) => {
+    if (!prefabsPath || !window.electronAPI?.writeFile) return;
+    const ok = await window.electronAPI.writeFile(prefabsPath, serializeSavedPrefabs(next));
+    if (!ok) {
+      setStatus(`Could not write ${EVENT_PREFABS_FILE}`);
+      return;
+    }
+    setSavedPrefabs(next);
+    setStatus(message);
+  };
+
+  const handleSaveCurrent = async () => {
+    const name = newPrefabName.trim();
+    if (!name) return;
+    const saved = createSavedPrefab(name, '', [getCurrentEvent()]);
+    await writePrefabs([...savedPrefabs, saved], `Saved "${saved.name}" to ${EVENT_PREFABS_FILE}`);
+    setNewPrefabName('');
+    setSelectedId(saved.id);
+  };
+
+  const handleDelete = async () => {
+    if (selected.builtIn) return;
+    await writePrefabs(savedPrefabs.filter(prefab => prefab.id !== selected.id), `Deleted "${selected.name}"`);
+    setSelectedId(BUILT_IN_EVENT_PREFABS[0].id);
+  };
+
+  const setValue = (key: string, value: string) => setValues(prev => ({ ...prev, [key]: value }));
+
+  const renderParam = (param: PrefabParam) => {
+    const value = values[param.key] ?? '';
+    if (param.type === 'flag') {
+      return (
+        <label key={param.key} className="flex items-center gap-2 text-xs font-medium text-foreground/80">
+          <input
+            type="checkbox"
+            checked={value === 'true'}
+            onChange={e => setValue(param.key, String(e.target.checked))}
+            className="h-4 w-4 rounded border-border/70"
+          />
+          {param.label}
+        </label>
+      );
+    }
+    let field: React.ReactNode;
+    if (param.type === 'item' || param.type === 'lootGroup') {
+      const entries = param.type === 'item' ? items : lootGroups;
+      field = (
+        <Select value={value || '__none__'} onValueChange={next => setValue(param.key, next === '__none__' ? '' : next)}>
+          <SelectTrigger className="h-7 text-xs w-full">
+            <SelectValue placeholder={param.type === 'item' ? 'Select item' : 'Select loot group'} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="__none__" className="text-xs">None</SelectItem>
+            {entries.map(entry => (
+              <SelectItem key={`${param.key}-${entry.id}`} value={String(entry.id)} className="text-xs">
+                {String(entry.id)} {entry.name || entry.fileName || ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    } else if (param.type === 'cell') {
+      const [x = '', y = ''] = value.split(',');
+      field = (
+        <div className="flex gap-2">
+          <Input type="number" value={x} onChange={e => setValue(param.key, `${e.target.value},${y}`)} className="h-7 text-xs" />
+          <Input type="number" value={y} onChange={e => setValue(param.key, `${x},${e.target.value}`)} className="h-7 text-xs" />
+        </div>
+      );
+    } else {
+      field = (
+        <Input
+          type={param.type === 'number' ? 'number' : 'text'}
+          value={value}
+          placeholder={param.placeholder}
+          onChange={e => setValue(param.key, e.target.value)}
+          className="h-7 text-xs"
+        />
+      );
+    }
+    return (
+      <div key={param.key} className="space-y-1">
+        <label className="text-xs font-medium text-foreground/80">{param.label}</label>
+        {field}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Select value={selected.id} onValueChange={setSelectedId}>
+          <SelectTrigger className="h-8 text-xs flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {prefabs.map(prefab => (
+              <SelectItem key={prefab.id} value={prefab.id} className="text-xs">
+                {prefab.name}{prefab.builtIn ? '' : ' (project)'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!selected.builtIn && (
+          <Button size="icon" variant="ghost" onClick={handleDelete} title="Delete project prefab" className="h-7 w-7 text-red-500 hover:bg-red-500/10">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {selected.description && <p className="text-xs text-muted-foreground">{selected.description}</p>}
+
+      {canPlace && (
+        <>
+          {selected.params.length > 0 && <div className="grid grid-cols-2 gap-3">{selected.params.map(renderParam)}</div>}
+          <div className="flex items-center justify-between gap-2">
+            <span className={`text-xs ${outside.length > 0 ? 'text-red-500' : 'text-muted-foreground'}`}>
+              {outside.length > 0
+                ? `${outside.length} event(s) would be outside the map`
+                : `Places ${events.length} event(s) at ${origin.x},${origin.y}`}
+            </span>
+            <Button size="sm" onClick={() => onPlace(events)} disabled={outside.length > 0} className="h-7 text-xs gap-1">
+              <PackagePlus className="h-3.5 w-3.5" />
+              Place
+            </Button>
+          </div>
+        </>
+      )}
+
+      <div className="flex items-center gap-2 border-t border-border/30 pt-3">
+        <Input
+          value={newPrefabName}
+          onChange={e => setNewPrefabName(e.target.value)}
+          placeholder={projectPath ? 'Save this event as a prefab...' : 'Open a project to save prefabs'}
+          disabled={!projectPath}
+          className="h-7 text-xs flex-1"
+        />
+        <Button size="sm" variant="outline" onClick={handleSaveCurrent} disabled={!projectPath || !newPrefabName.trim()} className="h-7 text-xs gap-1">
+          <BookmarkPlus className="h-3.5 w-3.5" />
+          Save
+        </Button>
+      </div>
+      {status && <p className="text-xs text-muted-foreground">{status}</p>}
+    </div>
+  );
+};
+
+export default EventPrefabPanel;
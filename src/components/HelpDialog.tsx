@@ -268,23 +268,33 @@ const HelpDialog = ({ open, activeTab, setActiveTab, onClose }: HelpDialogProps)
                       <tbody className="text-gray-700 dark:text-gray-300">
                         <tr>
                           <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-mono bg-red-50 dark:bg-red-900/20">1</td>
-                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-medium text-red-600 dark:text-red-400">Red Block</td>
-                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2">Impassable wall, visible on minimap</td>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-medium text-red-600 dark:text-red-400">Blocks All (Red)</td>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2">Impassable wall, blocks movement and line of sight, visible on minimap</td>
                         </tr>
                         <tr>
-                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-mono bg-red-50 dark:bg-red-900/20">2</td>
-                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-medium text-red-600 dark:text-red-400">Dithered Red</td>
-                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2">Still blocks entities, minimap shows dithered tile</td>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-mono bg-blue-50 dark:bg-blue-900/20">2</td>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-medium text-blue-600 dark:text-blue-400">Blocks Movement (Blue)</td>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2">Water or pits: walkers are stopped, projectiles and flying entities pass</td>
                         </tr>
                         <tr>
-                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-mono bg-blue-50 dark:bg-blue-900/20">3</td>
-                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-medium text-blue-600 dark:text-blue-400">Pit (Blue)</td>
-                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2">Ground entities blocked; air can pass</td>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-mono bg-orange-50 dark:bg-orange-900/20">3</td>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-medium text-orange-600 dark:text-orange-400">Hidden Blocks All</td>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2">Same as 1, but not drawn on the minimap</td>
                         </tr>
                         <tr>
-                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-mono bg-blue-50 dark:bg-blue-900/20">4</td>
-                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-medium text-blue-600 dark:text-blue-400">Dithered Pit</td>
-                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2">Same as 3, but minimap shows dithered</td>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-mono bg-cyan-50 dark:bg-cyan-900/20">4</td>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-medium text-cyan-600 dark:text-cyan-400">Hidden Blocks Movement</td>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2">Same as 2, but not drawn on the minimap</td>
+                        </tr>
+                        <tr>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-mono bg-yellow-50 dark:bg-yellow-900/20">5</td>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-medium text-yellow-600 dark:text-yellow-400">Map Only</td>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2">Blocks nothing; drawn as a wall on the minimap</td>
+                        </tr>
+                        <tr>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-mono bg-purple-50 dark:bg-purple-900/20">6</td>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 font-medium text-purple-600 dark:text-purple-400">Map Only (Alt)</td>
+                          <td className="border border-gray-300 dark:border-gray-600 px-4 py-2">Blocks nothing; drawn in the minimap&apos;s alternate colour, e.g. doors</td>
                         </tr>
                       </tbody>
                     </table>
@@ -296,10 +306,11 @@ const HelpDialog = ({ open, activeTab, setActiveTab, onClose }: HelpDialogProps)
                       Usage Guidelines
                     </h5>
                     <ul className="text-blue-700 dark:text-blue-300 text-sm space-y-1 list-disc list-inside">
-                      <li><strong>Value 1 (Red Block):</strong> Use for walls, buildings, and solid obstacles that should be clearly visible on the minimap</li>
-                      <li><strong>Value 2 (Dithered Red):</strong> Use for partial barriers or decorative walls that still block movement</li>
-                      <li><strong>Value 3 (Pit):</strong> Use for water, lava, or ground hazards that flying entities can cross</li>
-                      <li><strong>Value 4 (Dithered Pit):</strong> Use for shallow water or transitional pit areas</li>
+                      <li><strong>Value 1:</strong> Use for walls, buildings, and solid obstacles that should be clearly visible on the minimap</li>
+                      <li><strong>Value 2:</strong> Use for water, lava, or chasms that players can shoot across but not walk through</li>
+                      <li><strong>Values 3 and 4:</strong> Use where the collision should not give away secrets on the minimap</li>
+                      <li><strong>Values 5 and 6:</strong> Use to draw walkable features (doors, bridges) on the minimap</li>
+                      <li>The collision legend at the top right of the map shows each value&apos;s overlay colour and can hide values from the overlay</li>
                     </ul>
                   </div>
 
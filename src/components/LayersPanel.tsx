@@ -1,7 +1,14 @@
 import React, { useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import Tooltip from '@/components/ui/tooltip';
-import type { TileLayer } from '@/types';
+import type { TileLayer, FlareRenderLayerType } from '@/types';
+import {
+  FLARE_RENDER_LAYER_TYPES,
+  FLARE_RENDER_LAYER_LABELS,
+  isFlareRenderLayerType,
+  canDeleteRenderLayer,
+  getRenderLayerSwapIndex
+} from '@/editor/flareLayers';
 import {
   Eye,
   EyeOff,
@@ -16,9 +23,28 @@ import {
   Locate,
   Clock,
   Map as MapIcon,
-  Tag
+  Tag,
+  Layers,
+  Trees,
+  ChevronUp,
+  ChevronDown,
+  Trash2,
+  Plus
 } from 'lucide-react';
 
+const renderLayerIcon = (type: FlareRenderLayerType) => {
+  switch (type) {
+    case 'background':
+      return <MapImage className="w-3 h-3" />;
+    case 'fringe':
+      return <Layers className="w-3 h-3" />;
+    case 'object':
+      return <Box className="w-3 h-3" />;
+    case 'foreground':
+      return <Trees className="w-3 h-3" />;
+  }
+};
+
 type Props = {
   layers: TileLayer[];
   activeLayerId: number | null;
@@ -31,6 +57,9 @@ type Props = {
   showTooltipWithDelay: (text: React.ReactNode, target: HTMLElement) => void;
   hideTooltip: () => void;
   handleLayerTransparencyChange: (id: number, delta: number) => void;
+  handleAddLayer?: (type: FlareRenderLayerType) => void;
+  handleDeleteLayer?: (id: number) => void;
+  handleMoveLayer?: (id: number, direction: 'up' | 'down') => void;
   leftCollapsed: boolean;
 };
 
@@ -46,6 +75,9 @@ const LayersPanel: React.FC<Props> = ({
   showTooltipWithDelay,
   hideTooltip,
   handleLayerTransparencyChange,
+  handleAddLayer,
+  handleDeleteLayer,
+  handleMoveLayer,
   leftCollapsed
 }) => {
   useEffect(() => {
@@ -176,6 +208,10 @@ const LayersPanel: React.FC<Props> = ({
                                 case 'background':
                                 case 'bg':
                                   return <MapImage className="w-4 h-4" />;
+                                case 'fringe':
+                                  return <Layers className="w-4 h-4" />;
+                                case 'foreground':
+                                  return <Trees className="w-4 h-4" />;
                                 case 'collision':
                                 case 'collision layer':
                                   return <Grid className="w-4 h-4" />;
@@ -204,11 +240,80 @@ const LayersPanel: React.FC<Props> = ({
                           {layer.type === 'rules' ? 'Quests' : layer.name.replace(/ Layer$/i, '')}
                         </span>
                       </div>
+
+                      {isHovered && !leftCollapsed && isFlareRenderLayerType(layer.type) && (
+                        <div className="ml-auto flex items-center gap-0.5">
+                          {handleMoveLayer && (
+                            <>
+                              <Tooltip content="Move layer up">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  disabled={getRenderLayerSwapIndex(layers, layer.id, 'up') === -1}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleMoveLayer(layer.id, 'up');
+                                  }}
+                                  className="w-4 h-4 p-0 hover:bg-gray-200 dark:hover:bg-gray-700"
+                                >
+                                  <ChevronUp className="w-3 h-3" />
+                                </Button>
+                              </Tooltip>
+                              <Tooltip content="Move layer down">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  disabled={getRenderLayerSwapIndex(layers, layer.id, 'down') === -1}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleMoveLayer(layer.id, 'down');
+                                  }}
+                                  className="w-4 h-4 p-0 hover:bg-gray-200 dark:hover:bg-gray-700"
+                                >
+                                  <ChevronDown className="w-3 h-3" />
+                                </Button>
+                              </Tooltip>
+                            </>
+                          )}
+                          {handleDeleteLayer && canDeleteRenderLayer(layers, layer.id) && (
+                            <Tooltip content="Delete layer">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleDeleteLayer(layer.id);
+                                }}
+                                className="w-4 h-4 p-0 hover:bg-gray-200 dark:hover:bg-gray-700"
+                              >
+                                <Trash2 className="w-3 h-3" />
+                              </Button>
+                            </Tooltip>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
               );
             })}
+            {handleAddLayer && layersPanelExpanded && !leftCollapsed && (
+              <div className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground">
+                <Plus className="w-3 h-3" />
+                {FLARE_RENDER_LAYER_TYPES.map(type => (
+                  <Tooltip key={type} content={`Add ${FLARE_RENDER_LAYER_LABELS[type]} layer`}>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleAddLayer(type)}
+                      className="w-5 h-5 p-0 hover:bg-gray-200 dark:hover:bg-gray-700"
+                    >
+                      {renderLayerIcon(type)}
+                    </Button>
+                  </Tooltip>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -9,7 +9,14 @@ import {
   RotateCcw,
   Package,
   RefreshCw,
-  Loader2
+  Loader2,
+  FileInput,
+  FileOutput,
+  Image,
+  GitCompare,
+  Wand2,
+  Footprints,
+  Network
 } from 'lucide-react';
 
 type MainMenuDialogProps = {
@@ -24,6 +31,13 @@ type MainMenuDialogProps = {
   onSaveAsCopy: () => Promise<void>;
   onRestart: () => void;
   onExport: () => void;
+  onImportTiledMap: () => void;
+  onExportTiledMap: () => void;
+  onExportMapImage: () => void;
+  onCompareMap: () => void;
+  onGenerateMap: () => void;
+  onCheckReachability: () => void;
+  onShowWorldGraph: () => void;
   onCheckUpdates: () => void;
 };
 
@@ -39,6 +53,13 @@ const MainMenuDialog: React.FC<MainMenuDialogProps> = ({
   onSaveAsCopy,
   onRestart,
   onExport,
+  onImportTiledMap,
+  onExportTiledMap,
+  onExportMapImage,
+  onCompareMap,
+  onGenerateMap,
+  onCheckReachability,
+  onShowWorldGraph,
   onCheckUpdates
 }) => {
   const menuRef = useRef<HTMLDivElement>(null);
@@ -132,6 +153,48 @@ const MainMenuDialog: React.FC<MainMenuDialogProps> = ({
       loading: copyingProject,
       disabled: !hasProject
     },
+    {
+      label: 'Import Tiled Map (.tmx)',
+      icon: <FileInput className="w-3 h-3" />,
+      onClick: onImportTiledMap,
+      disabled: !hasProject
+    },
+    {
+      label: 'Export to Tiled (.tmx)',
+      icon: <FileOutput className="w-3 h-3" />,
+      onClick: onExportTiledMap,
+      disabled: !hasProject
+    },
+    {
+      label: 'Export Map Image (.png)',
+      icon: <Image className="w-3 h-3" />,
+      onClick: onExportMapImage,
+      disabled: !hasProject
+    },
+    {
+      label: 'Compare with Map...',
+      icon: <GitCompare className="w-3 h-3" />,
+      onClick: onCompareMap,
+      disabled: !hasProject
+    },
+    {
+      label: 'Generate Map...',
+      icon: <Wand2 className="w-3 h-3" />,
+      onClick: onGenerateMap,
+      disabled: !hasProject
+    },
+    {
+      label: 'Check Reachability',
+      icon: <Footprints className="w-3 h-3" />,
+      onClick: onCheckReachability,
+      disabled: !hasProject
+    },
+    {
+      label: 'World Graph...',
+      icon: <Network className="w-3 h-3" />,
+      onClick: onShowWorldGraph,
+      disabled: !hasProject
+    },
     { label: '', icon: null, onClick: () => {}, separator: true },
     {
       label: 'Help & Documentation',
@@ -139,10 +202,10 @@ const MainMenuDialog: React.FC<MainMenuDialogProps> = ({
       onClick: onShowHelp
     },
     {
-      label: 'Export Project',
+      label: 'Export Mod Package',
       icon: <Package className="w-3 h-3" />,
       onClick: onExport,
-      variant: 'muted'
+      disabled: !hasProject
     },
     {
       label: 'Check for Updates',
@@ -0,0 +1,291 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Eye, EyeOff, FolderOpen, Loader2, X } from 'lucide-react';
+import { buildMapMerge, formatDiffValue, type MapDiff, type MapMerge, type MapMergePicks } from '@/editor/mapDiff';
+
+type MapDiffDialogProps = {
+  open: boolean;
+  projectPath: string | null;
+  onClose: () => void;
+  onCompare: (projectPath: string, mapName: string) => Promise<MapDiff | null>;
+  onHighlight: (cells: Array<{ x: number; y: number }> | null) => void;
+  onMerge: (merge: MapMerge) => boolean;
+};
+
+const EMPTY_PICKS: MapMergePicks = { layers: [], objects: [], header: [] };
+
+const STATUS_LABELS: Record<'added' | 'removed' | 'changed', { sign: string; className: string; title: string }> = {
+  added: { sign: '+', className: 'text-green-600', title: 'Only in the other map' },
+  removed: { sign: '−', className: 'text-red-600', title: 'Only in this map' },
+  changed: { sign: '~', className: 'text-amber-600', title: 'Changed' }
+};
+
+const toggle = <T,>(list: T[], value: T): T[] => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+
+/**
+ * Compare the open map with a saved map (from this project or a copy of it)
+ * and merge picked differences into the open map. The result panel does not
+ * cover the canvas so changed cells can be highlighted on the map.
+ */
+const MapDiffDialog = ({ open, projectPath, onClose, onCompare, onHighlight, onMerge }: MapDiffDialogProps) => {
+  const [sourcePath, setSourcePath] = useState('');
+  const [maps, setMaps] = useState<string[]>([]);
+  const [otherMap, setOtherMap] = useState('');
+  const [diff, setDiff] = useState<MapDiff | null>(null);
+  const [picks, setPicks] = useState<MapMergePicks>(EMPTY_PICKS);
+  const [highlightedLayer, setHighlightedLayer] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+
+  useEffect(() => {
+    if (!open || !projectPath) return;
+    setSourcePath(projectPath);
+    setDiff(null);
+    setPicks(EMPTY_PICKS);
+    setHighlightedLayer(null);
+  }, [open, projectPath]);
+
+  useEffect(() => {
+    if (!open || !sourcePath) return;
+    let cancelled = false;
+    void (async () => {
+      const list = await window.electronAPI?.listMaps?.(sourcePath);
+      if (cancelled) return;
+      setMaps(list ?? []);
+      setOtherMap(current => (list ?? []).includes(current) ? current : '');
+    })();
+    return () => { cancelled = true; };
+  }, [open, sourcePath]);
+
+  if (!open) return null;
+
+  const handleClose = () => {
+    onHighlight(null);
+    setDiff(null);
+    onClose();
+  };
+
+  const handleBrowse = async () => {
+    const selected = await window.electronAPI?.selectDirectory?.();
+    if (selected) setSourcePath(selected);
+  };
+
+  const handleCompare = async () => {
+    setIsComparing(true);
+    try {
+      const result = await onCompare(sourcePath, otherMap);
+      if (result) {
+        setDiff(result);
+        setPicks(EMPTY_PICKS);
+        setHighlightedLayer(null);
+        onHighlight(null);
+      }
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const handleToggleHighlight = (key: string) => {
+    const layer = diff?.layers.find(l => l.key === key);
+    const next = highlightedLayer === key ? null : key;
+    setHighlightedLayer(next);
+    onHighlight(next && layer ? layer.cells : null);
+  };
+
+  const handleMerge = async () => {
+    if (!diff) return;
+    if (onMerge(buildMapMerge(diff, picks))) {
+      // Show what is still different after the merge
+      await handleCompare();
+    }
+  };
+
+  if (!diff) {
+    return (
+      <Dialog open={open} onOpenChange={(next) => { if (!next && !isComparing) handleClose(); }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Compare with Map</DialogTitle>
+            <DialogDescription>
+              Compare the open map with a saved map, for example the same map in a copy of this project,
+              and merge the changes you pick.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3 my-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Project folder</label>
+              <div className="flex gap-2">
+                <Input value={sourcePath} onChange={(e) => setSourcePath(e.target.value)} />
+                <Button variant="outline" size="sm" onClick={handleBrowse} className="h-10">
+                  <FolderOpen className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Map</label>
+              <Select value={otherMap} onValueChange={setOtherMap}>
+                <SelectTrigger>
+                  <SelectValue placeholder={maps.length > 0 ? 'Select a map' : 'No maps in this folder'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {maps.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={handleClose} disabled={isComparing}>
+              Cancel
+            </Button>
+            <Button onClick={handleCompare} disabled={isComparing || !sourcePath.trim() || !otherMap}>
+              {isComparing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Compare
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  const sizeDiffers = diff.oursSize.width !== diff.theirsSize.width || diff.oursSize.height !== diff.theirsSize.height;
+  const identical = diff.layers.length === 0 && diff.objects.length === 0 && diff.header.length === 0;
+  const pickCount = picks.layers.length + picks.objects.length + picks.header.length;
+
+  return createPortal(
+    <div className="fixed right-4 top-16 z-50 w-[26rem] max-h-[80vh] flex flex-col bg-background border border-border rounded-lg shadow-lg text-sm">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+        <div className="font-semibold">Compare with {otherMap}</div>
+        <button
+          type="button"
+          onClick={handleClose}
+          className="h-6 w-6 inline-flex items-center justify-center rounded hover:bg-accent"
+          aria-label="Close"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-4">
+        {sizeDiffers && (
+          <p className="text-xs text-muted-foreground">
+            This map is {diff.oursSize.width}x{diff.oursSize.height}, the other is {diff.theirsSize.width}x{diff.theirsSize.height}.
+            Only the area both cover is compared.
+          </p>
+        )}
+        {identical && <p className="text-muted-foreground">No differences found.</p>}
+
+        {diff.header.length > 0 && (
+          <section>
+            <h4 className="text-xs font-semibold uppercase text-muted-foreground mb-1">Header</h4>
+            {diff.header.map(entry => (
+              <label key={entry.key} className="flex items-start gap-2 py-0.5">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={picks.header.includes(entry.key)}
+                  onChange={() => setPicks(p => ({ ...p, header: toggle(p.header, entry.key) }))}
+                />
+                <span className="flex-1">
+                  <span className="font-medium">{entry.key}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {formatDiffValue(entry.ours)} → {formatDiffValue(entry.theirs)}
+                  </span>
+                </span>
+              </label>
+            ))}
+          </section>
+        )}
+
+        {diff.layers.length > 0 && (
+          <section>
+            <h4 className="text-xs font-semibold uppercase text-muted-foreground mb-1">Layers</h4>
+            {diff.layers.map(layer => {
+              const onlyOneSide = layer.oursLayerId === null || layer.theirsLayerId === null;
+              return (
+                <div key={layer.key} className="flex items-center gap-2 py-0.5">
+                  <input
+                    type="checkbox"
+                    checked={picks.layers.includes(layer.key)}
+                    disabled={onlyOneSide}
+                    onChange={() => setPicks(p => ({ ...p, layers: toggle(p.layers, layer.key) }))}
+                    aria-label={`Merge ${layer.name}`}
+                  />
+                  <span className="flex-1">
+                    {layer.name}
+                    <span className="text-xs text-muted-foreground ml-2">
+                      {layer.oursLayerId === null
+                        ? 'only in the other map'
+                        : layer.theirsLayerId === null
+                          ? 'only in this map'
+                          : `${layer.cells.length} changed cell(s)`}
+                    </span>
+                  </span>
+                  {!onlyOneSide && (
+                    <button
+                      type="button"
+                      onClick={() => handleToggleHighlight(layer.key)}
+                      className="h-6 w-6 inline-flex items-center justify-center rounded hover:bg-accent"
+                      aria-label={highlightedLayer === layer.key ? 'Hide on map' : 'Show on map'}
+                      title={highlightedLayer === layer.key ? 'Hide on map' : 'Show on map'}
+                    >
+                      {highlightedLayer === layer.key ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </section>
+        )}
+
+        {diff.objects.length > 0 && (
+          <section>
+            <h4 className="text-xs font-semibold uppercase text-muted-foreground mb-1">Objects</h4>
+            {diff.objects.map(object => {
+              const status = STATUS_LABELS[object.status];
+              return (
+                <label key={object.id} className="flex items-start gap-2 py-0.5">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={picks.objects.includes(object.id)}
+                    onChange={() => setPicks(p => ({ ...p, objects: toggle(p.objects, object.id) }))}
+                  />
+                  <span className="flex-1">
+                    <span className={`font-mono mr-1 ${status.className}`} title={status.title}>{status.sign}</span>
+                    {object.name}
+                    <span className="text-xs text-muted-foreground ml-1">#{object.id} {object.type}</span>
+                    {object.changes.map(change => (
+                      <span key={change.key} className="block text-xs text-muted-foreground">
+                        {change.key}: {formatDiffValue(change.ours)} → {formatDiffValue(change.theirs)}
+                      </span>
+                    ))}
+                  </span>
+                </label>
+              );
+            })}
+          </section>
+        )}
+      </div>
+
+      <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-border">
+        <Button variant="outline" size="sm" onClick={() => { onHighlight(null); setDiff(null); }} disabled={isComparing}>
+          Back
+        </Button>
+        <Button size="sm" onClick={handleMerge} disabled={isComparing || pickCount === 0}>
+          {isComparing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Merge selected
+        </Button>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default MapDiffDialog;
@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Dices } from 'lucide-react';
+import { FLARE_RENDER_LAYER_LABELS, FLARE_RENDER_LAYER_TYPES } from '@/editor/flareLayers';
+import {
+  DEFAULT_GENERATOR_SETTINGS,
+  type GeneratorAlgorithm,
+  type GeneratorSettings,
+  type GeneratorTiles
+} from '@/editor/mapGenerator';
+
+type MapGeneratorDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  onGenerate: (settings: Omit<GeneratorSettings, 'width' | 'height'>, tiles: GeneratorTiles) => boolean;
+};
+
+const ALGORITHMS: Array<{ value: GeneratorAlgorithm; label: string; description: string }> = [
+  { value: 'dungeon', label: 'Dungeon', description: 'Rooms joined by corridors (BSP).' },
+  { value: 'caves', label: 'Caves', description: 'Organic caverns (cellular automata).' },
+  { value: 'walk', label: 'Path', description: 'A winding carved path (drunkard\'s walk).' }
+];
+
+const DEFAULT_TILES: GeneratorTiles = {
+  floorLayerType: 'background',
+  floorGid: 0,
+  wallLayerType: 'object',
+  wallGid: 0
+};
+
+const randomSeed = () => Math.floor(Math.random() * 1_000_000) + 1;
+
+const MapGeneratorDialog = ({ open, onClose, onGenerate }: MapGeneratorDialogProps) => {
+  const [settings, setSettings] = useState(DEFAULT_GENERATOR_SETTINGS);
+  const [tiles, setTiles] = useState<GeneratorTiles>(DEFAULT_TILES);
+
+  const numberField = (
+    label: string,
+    value: number,
+    onChange: (value: number) => void,
+    props: { min?: number; max?: number; step?: number; placeholder?: string } = {}
+  ) => (
+    <label className="flex items-center justify-between gap-2">
+      <span className="text-sm">{label}</span>
+      <Input
+        type="number"
+        className="h-8 w-24 text-xs"
+        value={value || ''}
+        onChange={(e) => onChange(Number(e.target.value) || 0)}
+        {...props}
+      />
+    </label>
+  );
+
+  const layerSelect = (key: 'floorLayerType' | 'wallLayerType') => (
+    <select
+      className="h-8 text-xs border rounded px-2 bg-background"
+      value={tiles[key]}
+      onChange={(e) => setTiles(t => ({ ...t, [key]: e.target.value }))}
+    >
+      {FLARE_RENDER_LAYER_TYPES.map(type => (
+        <option key={type} value={type}>{FLARE_RENDER_LAYER_LABELS[type]}</option>
+      ))}
+    </select>
+  );
+
+  const update = (patch: Partial<typeof settings>) => setSettings(s => ({ ...s, ...patch }));
+
+  const handleGenerate = () => {
+    if (onGenerate(settings, tiles)) onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) onClose(); }}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Generate Map</DialogTitle>
+          <DialogDescription>
+            Replaces the chosen layers and collision of the whole map with a generated layout.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 my-4">
+          <div>
+            <div className="flex gap-1">
+              {ALGORITHMS.map(({ value, label }) => (
+                <Button
+                  key={value}
+                  size="sm"
+                  variant={settings.algorithm === value ? 'default' : 'outline'}
+                  onClick={() => update({ algorithm: value })}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {ALGORITHMS.find(a => a.value === settings.algorithm)?.description}
+            </p>
+          </div>
+
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-sm">Seed</span>
+            <span className="flex items-center gap-1">
+              <Input
+                type="number"
+                className="h-8 w-24 text-xs"
+                value={settings.seed}
+                onChange={(e) => update({ seed: Math.floor(Number(e.target.value)) || 0 })}
+              />
+              <Button size="sm" variant="outline" className="h-8 w-8 p-0" onClick={() => update({ seed: randomSeed() })} title="Random seed">
+                <Dices className="w-3 h-3" />
+              </Button>
+            </span>
+          </label>
+
+          {settings.algorithm === 'dungeon' && (
+            <>
+              {numberField('Min room size', settings.minRoomSize, v => update({ minRoomSize: v }), { min: 2 })}
+              {numberField('Max room size', settings.maxRoomSize, v => update({ maxRoomSize: v }), { min: 2 })}
+            </>
+          )}
+          {settings.algorithm === 'caves' && (
+            <>
+              {numberField('Wall chance (%)', Math.round(settings.wallChance * 100), v => update({ wallChance: Math.min(90, v) / 100 }), { min: 0, max: 90 })}
+              {numberField('Smoothing steps', settings.smoothingSteps, v => update({ smoothingSteps: v }), { min: 0, max: 10 })}
+            </>
+          )}
+          {settings.algorithm === 'walk' && (
+            numberField('Floor coverage (%)', Math.round(settings.floorCoverage * 100), v => update({ floorCoverage: Math.min(90, v) / 100 }), { min: 1, max: 90 })
+          )}
+          {numberField('Enemy areas', settings.enemyAreas, v => update({ enemyAreas: v }), { min: 0 })}
+
+          <div className="border-t pt-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm">Floor</span>
+              <span className="flex items-center gap-1">
+                {layerSelect('floorLayerType')}
+                <Input
+                  type="number"
+                  className="h-8 w-20 text-xs"
+                  min={0}
+                  placeholder="Selected"
+                  value={tiles.floorGid || ''}
+                  onChange={(e) => setTiles(t => ({ ...t, floorGid: Number(e.target.value) || 0 }))}
+                  aria-label="Floor tile id"
+                />
+              </span>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm">Wall</span>
+              <span className="flex items-center gap-1">
+                {layerSelect('wallLayerType')}
+                <Input
+                  type="number"
+                  className="h-8 w-20 text-xs"
+                  min={0}
+                  placeholder="Selected"
+                  value={tiles.wallGid || ''}
+                  onChange={(e) => setTiles(t => ({ ...t, wallGid: Number(e.target.value) || 0 }))}
+                  aria-label="Wall tile id"
+                />
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Leave a tile id empty to use the tile selected in that layer&apos;s palette.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleGenerate}>
+            Generate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MapGeneratorDialog;
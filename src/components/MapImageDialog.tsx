@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { DEFAULT_MAP_IMAGE_OPTIONS, MAP_IMAGE_ZOOM_LEVELS, type MapImageOptions } from '@/editor/mapImage';
+
+type MapImageDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  onExport: (options: MapImageOptions) => Promise<boolean>;
+};
+
+const OVERLAYS: Array<{ key: 'grid' | 'collision' | 'markers' | 'heroSpawn'; label: string }> = [
+  { key: 'grid', label: 'Grid' },
+  { key: 'collision', label: 'Collision overlay' },
+  { key: 'markers', label: 'Event, NPC and enemy markers' },
+  { key: 'heroSpawn', label: 'Hero spawn' }
+];
+
+const MapImageDialog = ({ open, onClose, onExport }: MapImageDialogProps) => {
+  const [options, setOptions] = useState<MapImageOptions>(DEFAULT_MAP_IMAGE_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      if (await onExport(options)) onClose();
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next && !isExporting) onClose(); }}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Export Map Image</DialogTitle>
+          <DialogDescription>
+            Renders every visible layer of the whole map to a PNG.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 my-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Zoom</label>
+            <div className="flex gap-1">
+              {MAP_IMAGE_ZOOM_LEVELS.map(level => (
+                <Button
+                  key={level}
+                  size="sm"
+                  variant={options.zoom === level ? 'default' : 'outline'}
+                  onClick={() => setOptions(o => ({ ...o, zoom: level }))}
+                >
+                  {Math.round(level * 100)}%
+                </Button>
+              ))}
+            </div>
+          </div>
+          {OVERLAYS.map(({ key, label }) => (
+            <div key={key} className="flex items-center justify-between">
+              <span className="text-sm">{label}</span>
+              <Switch
+                checked={options[key]}
+                onCheckedChange={(checked) => setOptions(o => ({ ...o, [key]: checked }))}
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MapImageDialog;
@@ -1,10 +1,21 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import Tooltip from '@/components/ui/tooltip';
 import { HelpCircle, X, Save, Trash2, Check } from 'lucide-react';
 import { createPortal } from 'react-dom';
 import { useDraggableResizable } from '@/hooks/useDraggableResizable';
+import { FOG_OF_WAR_OPTIONS, type MapHeaderSettings } from '@/editor/mapHeader';
+import { getAnchorOffset, type ResizeAnchor } from '@/editor/mapResize';
+import type { TileMapEditor } from '@/editor/TileMapEditor';
+
+const ANCHOR_STEPS = [0, 1, 2] as const;
+const ANCHOR_LABELS = [
+  ['top left', 'top', 'top right'],
+  ['left', 'center', 'right'],
+  ['bottom left', 'bottom', 'bottom right']
+];
 
 type MapSettingsDialogProps = {
   open: boolean;
@@ -17,8 +28,11 @@ type MapSettingsDialogProps = {
   setMapHeight: (value: number) => void;
   isStartingMap: boolean;
   updateStartingMap: (nextValue: boolean) => void;
-  handleMapResize: () => void;
+  handleMapResize: (offsetX: number, offsetY: number) => void;
   handleDeleteMap: () => Promise<boolean>;
+  editor: TileMapEditor | null;
+  mapHeader: MapHeaderSettings;
+  onSaveMapHeader: (settings: MapHeaderSettings) => void;
 };
 
 const MapSettingsDialog = ({
@@ -33,16 +47,37 @@ const MapSettingsDialog = ({
   isStartingMap,
   updateStartingMap,
   handleMapResize,
-  handleDeleteMap
+  handleDeleteMap,
+  editor,
+  mapHeader,
+  onSaveMapHeader
 }: MapSettingsDialogProps) => {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [headerDraft, setHeaderDraft] = useState<MapHeaderSettings>(mapHeader);
+  const [resizeAnchor, setResizeAnchor] = useState<ResizeAnchor>({ col: 0, row: 0 });
+  // Typed-in offset; null follows the anchor
+  const [offsetOverride, setOffsetOverride] = useState<{ x: number; y: number } | null>(null);
   const {
     position,
     size,
     dialogRef,
     handleHeaderMouseDown,
     handleResizeMouseDown,
-  } = useDraggableResizable({ id: 'map_settings', initialWidth: 420, initialHeight: 350, minWidth: 380, minHeight: 300 });
+  } = useDraggableResizable({ id: 'map_settings', initialWidth: 420, initialHeight: 620, minWidth: 380, minHeight: 300 });
+
+  // Start each opening from the map's saved header values
+  useEffect(() => {
+    if (open) {
+      setHeaderDraft(mapHeader);
+      setResizeAnchor({ col: 0, row: 0 });
+      setOffsetOverride(null);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const updateHeaderText = (key: 'title' | 'music' | 'tileset' | 'parallaxLayers' | 'backgroundColor', value: string) => {
+    setHeaderDraft(prev => ({ ...prev, [key]: value.trim() ? value : undefined }));
+  };
   
   const handleConfirmDelete = async () => {
     const success = await handleDeleteMap();
@@ -54,6 +89,18 @@ const MapSettingsDialog = ({
 
   if (!open) return null;
 
+  const currentWidth = editor?.getMapWidth() ?? mapWidth;
+  const currentHeight = editor?.getMapHeight() ?? mapHeight;
+  const resizeOffset = offsetOverride ?? getAnchorOffset(resizeAnchor, currentWidth, currentHeight, mapWidth, mapHeight);
+  const crop = editor?.getResizeCropSummary(mapWidth, mapHeight, resizeOffset.x, resizeOffset.y);
+  const cropParts = crop
+    ? [
+        crop.tiles > 0 ? `${crop.tiles} tiles` : '',
+        crop.objects > 0 ? `${crop.objects} events, NPCs or enemies` : '',
+        crop.placedObjects > 0 ? `${crop.placedObjects} placed objects` : ''
+      ].filter(Boolean)
+    : [];
+
   const dialogContent = (
     <>
       <div 
@@ -119,6 +166,64 @@ const MapSettingsDialog = ({
               className="w-full"
             />
           </div>
+          <div className="space-y-2 rounded-md border border-border px-3 py-3">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">Resize Anchor</span>
+              <Tooltip content="Where the current content sits in the resized map. The offset is where its top-left cell lands; objects, the hero and teleports into this map move along.">
+                <HelpCircle className="h-4 w-4 text-muted-foreground" aria-hidden />
+              </Tooltip>
+            </div>
+            <div className="flex items-start gap-4">
+              <div className="grid grid-cols-3 gap-1">
+                {ANCHOR_STEPS.map(row => ANCHOR_STEPS.map(col => {
+                  const selected = !offsetOverride && resizeAnchor.col === col && resizeAnchor.row === row;
+                  return (
+                    <button
+                      key={`${col}-${row}`}
+                      type="button"
+                      onClick={() => {
+                        setResizeAnchor({ col, row });
+                        setOffsetOverride(null);
+                      }}
+                      className={`h-6 w-6 rounded border border-border ${selected ? 'bg-orange-500' : 'hover:bg-accent'}`}
+                      aria-label={`Anchor ${ANCHOR_LABELS[row][col]}`}
+                      aria-pressed={selected}
+                    />
+                  );
+                }))}
+              </div>
+              <div className="flex gap-2">
+                <div>
+                  <label className="block text-xs font-medium text-muted-foreground mb-1">Offset X</label>
+                  <Input
+                    type="number"
+                    value={resizeOffset.x}
+                    onChange={(e) => setOffsetOverride({ ...resizeOffset, x: Math.round(Number(e.target.value)) || 0 })}
+                    className="w-20"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-muted-foreground mb-1">Offset Y</label>
+                  <Input
+                    type="number"
+                    value={resizeOffset.y}
+                    onChange={(e) => setOffsetOverride({ ...resizeOffset, y: Math.round(Number(e.target.value)) || 0 })}
+                    className="w-20"
+                  />
+                </div>
+              </div>
+            </div>
+            {cropParts.length > 0 && (
+              <p className="text-xs text-destructive">
+                Saving crops {cropParts.join(', ')} outside the new bounds.
+              </p>
+            )}
+            {crop?.hero && (
+              <p className="text-xs text-destructive">
+                The hero start is outside the new bounds and moves to the nearest cell.
+              </p>
+            )}
+          </div>
           <div className="flex items-center gap-2 rounded-md border border-border px-3 py-2">
             <div className="flex items-center gap-2">
               <label htmlFor="starting-map-checkbox-modal" className="text-sm font-medium text-muted-foreground">
@@ -138,6 +243,96 @@ const MapSettingsDialog = ({
               aria-label="Set this map as the starting map"
             />
           </div>
+          <div className="space-y-3 rounded-md border border-border px-3 py-3">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">Map Header</span>
+              <Tooltip content="Values written to the [header] section of the exported Flare map. Leave a field empty to use the default.">
+                <HelpCircle className="h-4 w-4 text-muted-foreground" aria-hidden />
+              </Tooltip>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-muted-foreground mb-1">Title</label>
+              <Input
+                type="text"
+                value={headerDraft.title ?? ''}
+                onChange={(e) => updateHeaderText('title', e.target.value)}
+                placeholder={mapName}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-muted-foreground mb-1">Music</label>
+              <Input
+                type="text"
+                value={headerDraft.music ?? ''}
+                onChange={(e) => updateHeaderText('music', e.target.value)}
+                placeholder="music/default_theme.ogg"
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-muted-foreground mb-1">Tileset Definition</label>
+              <Input
+                type="text"
+                value={headerDraft.tileset ?? ''}
+                onChange={(e) => updateHeaderText('tileset', e.target.value)}
+                placeholder="Generated tilesetdefs file"
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-muted-foreground mb-1">Parallax Layers</label>
+              <Input
+                type="text"
+                value={headerDraft.parallaxLayers ?? ''}
+                onChange={(e) => updateHeaderText('parallaxLayers', e.target.value)}
+                placeholder="maps/parallax/example.txt"
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-muted-foreground mb-1">Background Color (r,g,b,a)</label>
+              <Input
+                type="text"
+                value={headerDraft.backgroundColor ?? ''}
+                onChange={(e) => updateHeaderText('backgroundColor', e.target.value)}
+                placeholder="0,0,0,255"
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-muted-foreground mb-1">Fog of War</label>
+              <Select
+                value={headerDraft.fogOfWar === undefined ? 'default' : String(headerDraft.fogOfWar)}
+                onValueChange={(value) => setHeaderDraft(prev => ({ ...prev, fogOfWar: value === 'default' ? undefined : Number(value) }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Engine default" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Engine default</SelectItem>
+                  {FOG_OF_WAR_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <label htmlFor="save-onload-checkbox-modal" className="text-xs font-medium text-muted-foreground">
+                Save game when this map loads
+              </label>
+              <input
+                id="save-onload-checkbox-modal"
+                type="checkbox"
+                className="h-4 w-4 rounded border border-border accent-orange-500"
+                checked={headerDraft.saveOnLoad ?? false}
+                onChange={(e) => setHeaderDraft(prev => ({ ...prev, saveOnLoad: e.target.checked ? true : undefined }))}
+                aria-label="Save the game when this map loads"
+              />
+            </div>
+          </div>
           <div className="flex items-center justify-between gap-2 mt-6">
             <Tooltip content="Delete Map">
               <Button
@@ -156,7 +351,8 @@ const MapSettingsDialog = ({
                 variant="outline"
                 size="icon"
                 onClick={() => {
-                  handleMapResize();
+                  handleMapResize(resizeOffset.x, resizeOffset.y);
+                  onSaveMapHeader(headerDraft);
                   onClose();
                 }}
                 className="w-8 h-8 p-0"
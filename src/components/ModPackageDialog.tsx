@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { FolderOpen, Loader2 } from 'lucide-react';
+import { modPackageName, parseModSettings, type ModSettings } from '@/editor/modPackage';
+
+type ModPackageDialogProps = {
+  open: boolean;
+  projectPath: string | null;
+  onClose: () => void;
+  onExport: (settings: ModSettings, outputDir: string, updateProjectSettings: boolean) => Promise<boolean>;
+};
+
+const parentFolder = (folder: string): string => folder.replace(/[\\/]+$/, '').replace(/[\\/][^\\/]*$/, '');
+
+const ModPackageDialog = ({ open, projectPath, onClose, onExport }: ModPackageDialogProps) => {
+  const [settings, setSettings] = useState<ModSettings>({ description: '', version: '', requires: [], other: [] });
+  const [requiresText, setRequiresText] = useState('');
+  const [outputDir, setOutputDir] = useState('');
+  const [updateProjectSettings, setUpdateProjectSettings] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Start each opening from the project's settings.txt
+  useEffect(() => {
+    if (!open || !projectPath) return;
+    let cancelled = false;
+    void (async () => {
+      const content = await window.electronAPI?.readFile?.(`${projectPath}/settings.txt`);
+      if (cancelled) return;
+      const parsed = parseModSettings(content ?? '');
+      setSettings({ ...parsed, description: parsed.description || modPackageName(projectPath) });
+      setRequiresText(parsed.requires.join(', '));
+      setOutputDir(parentFolder(projectPath));
+      setUpdateProjectSettings(false);
+    })();
+    return () => { cancelled = true; };
+  }, [open, projectPath]);
+
+  const handleBrowse = async () => {
+    const selected = await window.electronAPI?.selectDirectory?.();
+    if (selected) setOutputDir(selected);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const requires = requiresText.split(',').map(s => s.trim()).filter(Boolean);
+      if (await onExport({ ...settings, requires }, outputDir, updateProjectSettings)) onClose();
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const canExport = !!projectPath && !!outputDir.trim() && !!settings.description.trim() && !!settings.version.trim();
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next && !isExporting) onClose(); }}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Mod Package</DialogTitle>
+          <DialogDescription>
+            Writes a .zip of the mod for Flare&apos;s mods folder and a manifest of the files it contains.
+            Editor files and images or sounds no data file uses are left out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 my-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Description</label>
+            <Input value={settings.description} onChange={(e) => setSettings(s => ({ ...s, description: e.target.value }))} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Version</label>
+            <Input value={settings.version} placeholder="1.0" onChange={(e) => setSettings(s => ({ ...s, version: e.target.value }))} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Required mods</label>
+            <Input value={requiresText} placeholder="fantasycore, ..." onChange={(e) => setRequiresText(e.target.value)} />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={updateProjectSettings}
+              onChange={(e) => setUpdateProjectSettings(e.target.checked)}
+              className="h-4 w-4 rounded border-border/70"
+            />
+            Also save these settings to the project&apos;s settings.txt
+          </label>
+          <div>
+            <label className="block text-sm font-medium mb-1">Output folder</label>
+            <div className="flex gap-2">
+              <Input value={outputDir} onChange={(e) => setOutputDir(e.target.value)} />
+              <Button variant="outline" size="sm" onClick={handleBrowse} aria-label="Choose output folder">
+                <FolderOpen className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={!canExport || isExporting}>
+            {isExporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ModPackageDialog;
@@ -1,10 +1,10 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from '@/components/ui/select';
 import Tooltip from '@/components/ui/tooltip';
 import AnimationPreview from '@/components/AnimationPreview';
-import { ArrowUp, ArrowUpRight, ArrowRight, ArrowDownRight, ArrowDown, ArrowDownLeft, ArrowLeft, ArrowUpLeft, Check, ChevronDown, ChevronUp, HandCoins, HelpCircle, Image, MessagesSquare, MessageCircleQuestionMark, Settings, Sparkles, User } from 'lucide-react';
+import { ArrowUp, ArrowUpRight, ArrowRight, ArrowDownRight, ArrowDown, ArrowDownLeft, ArrowLeft, ArrowUpLeft, Check, ChevronDown, ChevronUp, HandCoins, HelpCircle, Image, MessagesSquare, MessageCircleQuestionMark, Route, Settings, Sparkles, User } from 'lucide-react';
 import type { MapObject } from '@/types';
 import type { TileMapEditor } from '@/editor/TileMapEditor';
 import type { ItemSummary } from '@/utils/items';
@@ -49,6 +49,22 @@ const NpcEditDialog = ({
   const [animationExpanded, setAnimationExpanded] = useState(false);
   const [spawnReqExpanded, setSpawnReqExpanded] = useState(false);
   const [audioExpanded, setAudioExpanded] = useState(false);
+  const [waypointEditId, setWaypointEditId] = useState<number | null>(null);
+  const isEditingWaypoints = waypointEditId === editingObject.id;
+
+  // Leave waypoint mode when the dialog closes or shows another NPC
+  useEffect(() => () => editor?.endWaypointEdit(), [editor, editingObject.id]);
+
+  const toggleWaypointEdit = () => {
+    if (!editor) return;
+    if (isEditingWaypoints) {
+      editor.endWaypointEdit();
+      setWaypointEditId(null);
+      return;
+    }
+    editor.beginWaypointEdit(editingObject.id, getEditingObjectProperty('waypoints', ''), (value) => updateEditingObjectProperty('waypoints', value));
+    setWaypointEditId(editingObject.id);
+  };
 
   const isTalker = editingObject?.properties?.talker === 'true';
   const isVendor = editingObject?.properties?.vendor === 'true';
@@ -528,13 +544,31 @@ const NpcEditDialog = ({
                     <Tooltip content="NPC waypoints; negates wander_radius">
                       <HelpCircle className="w-3 h-3 text-muted-foreground" />
                     </Tooltip>
+                    {editor && (
+                      <button
+                        type="button"
+                        onClick={toggleWaypointEdit}
+                        className={`ml-auto inline-flex items-center gap-1 px-1 rounded text-xs ${isEditingWaypoints ? 'bg-sky-600 text-white' : 'text-muted-foreground hover:bg-muted'}`}
+                      >
+                        <Route className="w-3 h-3" />
+                        {isEditingWaypoints ? 'Done' : 'Edit on map'}
+                      </button>
+                    )}
                   </div>
                   <Input
                     className="h-7 text-xs"
                     value={getEditingObjectProperty('waypoints', '')}
-                    onChange={(e) => updateEditingObjectProperty('waypoints', e.target.value)}
-                    placeholder="Will be implemented later"
+                    onChange={(e) => {
+                      updateEditingObjectProperty('waypoints', e.target.value);
+                      if (isEditingWaypoints) editor?.beginWaypointEdit(editingObject.id, e.target.value, (value) => updateEditingObjectProperty('waypoints', value));
+                    }}
+                    placeholder="e.g. 5,5;10,5;10,10"
                   />
+                  {isEditingWaypoints && (
+                    <p className="text-[10px] text-muted-foreground mt-1">
+                      Click tiles to add points, drag to move, right-click to delete. Red segments are blocked by collision.
+                    </p>
+                  )}
                 </div>
               </SpawnFieldOverlay>
               <SpawnFieldOverlay
@@ -553,7 +587,7 @@ const NpcEditDialog = ({
                     className="h-7 text-xs"
                     value={getEditingObjectProperty('wander_radius', '')}
                     onChange={(e) => updateEditingObjectProperty('wander_radius', e.target.value)}
-                    placeholder="Will be implemented later"
+                    placeholder="e.g. 3"
                     min="0"
                   />
                 </div>
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Button } from '@/components/ui/button';
+import { Loader2, RefreshCw, X } from 'lucide-react';
+import type { ReachabilityResult, ReachabilityTargetKind } from '@/editor/reachability';
+
+type ReachabilityPanelProps = {
+  open: boolean;
+  onClose: () => void;
+  onCheck: () => Promise<ReachabilityResult | null>;
+  onShade: (cells: Array<{ x: number; y: number }> | null) => void;
+  onPanTo: (x: number, y: number) => void;
+};
+
+const KIND_LABELS: Array<{ kind: ReachabilityTargetKind; label: string }> = [
+  { kind: 'exit', label: 'Exits' },
+  { kind: 'event', label: 'Event hotspots' },
+  { kind: 'npc', label: 'NPCs' },
+  { kind: 'enemy', label: 'Enemy spawns' }
+];
+
+/**
+ * Lists what the player cannot walk to from the hero position or any arriving
+ * intermap target. Unreachable walkable cells stay shaded on the canvas while
+ * the panel is open.
+ */
+const ReachabilityPanel = ({ open, onClose, onCheck, onShade, onPanTo }: ReachabilityPanelProps) => {
+  const [result, setResult] = useState<ReachabilityResult | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const runCheck = useCallback(async () => {
+    setIsChecking(true);
+    try {
+      setResult(await onCheck());
+    } finally {
+      setIsChecking(false);
+    }
+  }, [onCheck]);
+
+  useEffect(() => {
+    if (!open) return;
+    setResult(null);
+    void runCheck();
+    // Only check when the panel opens; "Check again" re-runs it afterwards
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  if (!open) return null;
+
+  const handleClose = () => {
+    onShade(null);
+    setResult(null);
+    onClose();
+  };
+
+  const targets = result?.unreachableTargets ?? [];
+
+  return createPortal(
+    <div className="fixed right-4 top-16 z-50 w-[22rem] max-h-[80vh] flex flex-col bg-background border border-border rounded-lg shadow-lg text-sm">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+        <div className="font-semibold">Reachability</div>
+        <button
+          type="button"
+          onClick={handleClose}
+          className="h-6 w-6 inline-flex items-center justify-center rounded hover:bg-accent"
+          aria-label="Close"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-4">
+        {isChecking && (
+          <p className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Checking...
+          </p>
+        )}
+        {!isChecking && !result && <p className="text-muted-foreground">Open a map to check it.</p>}
+        {!isChecking && result && (
+          <>
+            <p className="text-xs text-muted-foreground">
+              {result.unreachableCells.length > 0
+                ? `${result.unreachableCells.length} walkable cell(s) cannot be reached; they are shaded on the map.`
+                : 'Every walkable cell can be reached.'}
+            </p>
+            {targets.length === 0 && <p className="text-muted-foreground">All events, NPCs, enemies and exits can be reached.</p>}
+            {KIND_LABELS.map(({ kind, label }) => {
+              const ofKind = targets.filter(target => target.kind === kind);
+              if (ofKind.length === 0) return null;
+              return (
+                <section key={kind}>
+                  <h4 className="text-xs font-semibold uppercase text-muted-foreground mb-1">
+                    {label} ({ofKind.length})
+                  </h4>
+                  {ofKind.map(target => (
+                    <button
+                      key={target.objectId}
+                      type="button"
+                      onClick={() => onPanTo(target.x, target.y)}
+                      className="w-full flex items-center justify-between gap-2 px-1 py-0.5 rounded text-left hover:bg-accent"
+                      title="Show on map"
+                    >
+                      <span className="truncate">{target.name}</span>
+                      <span className="text-xs text-muted-foreground shrink-0">{target.x}, {target.y}</span>
+                    </button>
+                  ))}
+                </section>
+              );
+            })}
+          </>
+        )}
+      </div>
+
+      <div className="flex justify-end px-4 py-3 border-t border-border">
+        <Button size="sm" variant="outline" onClick={() => void runCheck()} disabled={isChecking}>
+          <RefreshCw className="w-3 h-3 mr-2" />
+          Check again
+        </Button>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ReachabilityPanel;
@@ -0,0 +1,79 @@
+import { X } from 'lucide-react';
+import type { ScatterEntry } from '@/editor/scatterBrush';
+
+type ScatterPanelProps = {
+  entries: ScatterEntry[];
+  density: number;
+  onEntriesChange: (entries: ScatterEntry[]) => void;
+  onDensityChange: (density: number) => void;
+  onClose: () => void;
+};
+
+/** Tiles the brush and bucket fill pick from at random, with their weights and the share of cells painted. */
+const ScatterPanel = ({ entries, density, onEntriesChange, onDensityChange, onClose }: ScatterPanelProps) => {
+  const total = entries.reduce((sum, entry) => sum + Math.max(0, entry.weight), 0);
+
+  return (
+    <div className="px-3 py-2 border-t border-border text-xs space-y-1.5">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">Scatter</span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="h-6 w-6 inline-flex items-center justify-center rounded hover:bg-accent"
+          aria-label="Stop scattering"
+          title="Stop scattering"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+      <div className="text-muted-foreground">
+        Click palette tiles to add or remove them; the brush and bucket fill pick one per cell by weight.
+      </div>
+      <div className="max-h-32 overflow-y-auto space-y-1">
+        {entries.map(entry => (
+          <div key={entry.gid} className="flex items-center gap-2">
+            <span className="flex-1">Tile #{entry.gid}</span>
+            <input
+              type="number"
+              min={0}
+              value={entry.weight}
+              onChange={(e) => {
+                const weight = Math.max(0, parseFloat(e.target.value) || 0);
+                onEntriesChange(entries.map(en => (en.gid === entry.gid ? { ...en, weight } : en)));
+              }}
+              className="w-14 h-6 px-1 rounded border border-border bg-background"
+              aria-label={`Tile ${entry.gid} weight`}
+            />
+            <span className="w-9 text-right text-muted-foreground">
+              {total > 0 ? Math.round((Math.max(0, entry.weight) / total) * 100) : 0}%
+            </span>
+            <button
+              type="button"
+              onClick={() => onEntriesChange(entries.filter(en => en.gid !== entry.gid))}
+              className="h-6 w-6 inline-flex items-center justify-center rounded hover:bg-accent"
+              aria-label={`Remove tile ${entry.gid}`}
+              title="Remove tile"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <label className="flex items-center gap-2">
+        <span>Density</span>
+        <input
+          type="range"
+          min={1}
+          max={100}
+          value={Math.round(density * 100)}
+          onChange={(e) => onDensityChange(parseInt(e.target.value, 10) / 100)}
+          className="flex-1"
+        />
+        <span className="w-9 text-right text-muted-foreground">{Math.round(density * 100)}%</span>
+      </label>
+    </div>
+  );
+};
+
+export default ScatterPanel;
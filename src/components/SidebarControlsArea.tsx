@@ -1,5 +1,11 @@
 import React from 'react';
 import AppControls from '@/components/AppControls';
+import type { ModSettings } from '@/editor/modPackage';
+import type { MapImageOptions } from '@/editor/mapImage';
+import type { MapDiff, MapMerge } from '@/editor/mapDiff';
+import type { GeneratorSettings, GeneratorTiles } from '@/editor/mapGenerator';
+import type { ReachabilityResult } from '@/editor/reachability';
+import type { WorldGraph, WorldLink } from '@/editor/worldGraph';
 
 type ControlsProps = {
   currentProjectPath: string | null;
@@ -9,7 +15,19 @@ type ControlsProps = {
   onShowHelp: () => void;
   onSaveAsCopy: () => Promise<void>;
   onRestart: () => void;
-  onExport: () => void;
+  onExportModPackage: (settings: ModSettings, outputDir: string) => Promise<boolean>;
+  onImportTiledMap: () => void;
+  onExportTiledMap: () => void;
+  onExportMapImage: (options: MapImageOptions) => Promise<boolean>;
+  onCompareMap: (projectPath: string, mapName: string) => Promise<MapDiff | null>;
+  onHighlightMapDiff: (cells: Array<{ x: number; y: number }> | null) => void;
+  onApplyMapMerge: (merge: MapMerge) => boolean;
+  onGenerateMap: (settings: Omit<GeneratorSettings, 'width' | 'height'>, tiles: GeneratorTiles) => boolean;
+  onCheckReachability: () => Promise<ReachabilityResult | null>;
+  onShadeUnreachable: (cells: Array<{ x: number; y: number }> | null) => void;
+  onPanToTile: (x: number, y: number) => void;
+  onBuildWorldGraph: () => Promise<WorldGraph | null>;
+  onOpenWorldLink: (link: WorldLink, mapName: string) => Promise<void>;
   onCheckUpdates: () => void;
   toast: typeof import('@/hooks/use-toast').toast;
   handleManualSave: () => Promise<void>;
@@ -35,7 +53,19 @@ const SidebarControlsArea: React.FC<{ controls: ControlsProps }> = ({ controls }
         onShowHelp={c.onShowHelp}
         onSaveAsCopy={c.onSaveAsCopy}
         onRestart={c.onRestart}
-        onExport={c.onExport}
+        onExportModPackage={c.onExportModPackage}
+        onImportTiledMap={c.onImportTiledMap}
+        onExportTiledMap={c.onExportTiledMap}
+        onExportMapImage={c.onExportMapImage}
+        onCompareMap={c.onCompareMap}
+        onHighlightMapDiff={c.onHighlightMapDiff}
+        onApplyMapMerge={c.onApplyMapMerge}
+        onGenerateMap={c.onGenerateMap}
+        onCheckReachability={c.onCheckReachability}
+        onShadeUnreachable={c.onShadeUnreachable}
+        onPanToTile={c.onPanToTile}
+        onBuildWorldGraph={c.onBuildWorldGraph}
+        onOpenWorldLink={c.onOpenWorldLink}
         onCheckUpdates={c.onCheckUpdates}
         toast={c.toast}
         handleManualSave={c.handleManualSave}
@@ -1,6 +1,6 @@
 import React from 'react';
 import LayersPanel from '@/components/LayersPanel';
-import type { TileLayer } from '@/types';
+import type { TileLayer, FlareRenderLayerType } from '@/types';
 
 type Props = {
   layers: TileLayer[];
@@ -12,6 +12,9 @@ type Props = {
   handleSetActiveLayer: (id: number) => void;
   handleToggleLayerVisibility: (id: number) => void;
   handleLayerTransparencyChange: (id: number, delta: number) => void;
+  handleAddLayer?: (type: FlareRenderLayerType) => void;
+  handleDeleteLayer?: (id: number) => void;
+  handleMoveLayer?: (id: number, direction: 'up' | 'down') => void;
   showTooltipWithDelay: (text: React.ReactNode, target: HTMLElement) => void;
   hideTooltip: () => void;
   uiHelpers?: {
@@ -31,6 +34,9 @@ const SidebarLayersArea: React.FC<Props> = ({
   handleSetActiveLayer,
   handleToggleLayerVisibility,
   handleLayerTransparencyChange,
+  handleAddLayer,
+  handleDeleteLayer,
+  handleMoveLayer,
   showTooltipWithDelay,
   hideTooltip,
   uiHelpers,
@@ -47,6 +53,9 @@ const SidebarLayersArea: React.FC<Props> = ({
       handleSetActiveLayer={handleSetActiveLayer}
       handleToggleLayerVisibility={handleToggleLayerVisibility}
       handleLayerTransparencyChange={handleLayerTransparencyChange}
+      handleAddLayer={handleAddLayer}
+      handleDeleteLayer={handleDeleteLayer}
+      handleMoveLayer={handleMoveLayer}
       showTooltipWithDelay={uiHelpers?.showTooltipWithDelay ?? showTooltipWithDelay}
       hideTooltip={uiHelpers?.hideTooltip ?? hideTooltip}
       leftCollapsed={leftCollapsed}
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Crosshair, FlipHorizontal2, FlipVertical2, Grid2x2, Slash } from 'lucide-react';
+import type { TileMapEditor } from '@/editor/TileMapEditor';
+import type { SymmetryMode } from '@/editor/symmetry';
+
+type Props = {
+  editor: TileMapEditor | null;
+};
+
+const MODES: Array<{ mode: SymmetryMode; label: string; icon: React.ComponentType<{ className?: string }> }> = [
+  { mode: 'off', label: 'Symmetry off', icon: Slash },
+  { mode: 'horizontal', label: 'Mirror left/right (x axis)', icon: FlipHorizontal2 },
+  { mode: 'vertical', label: 'Mirror top/bottom (y axis)', icon: FlipVertical2 },
+  { mode: 'both', label: 'Mirror both axes', icon: Grid2x2 }
+];
+
+/** Mirror painting mode and axis position; Alt+drag on the map moves the axis too. */
+const SymmetryControls: React.FC<Props> = ({ editor }) => {
+  // Symmetry lives in the editor; re-render whenever it changes there
+  const [, setRevision] = React.useState(0);
+
+  React.useEffect(() => {
+    if (!editor) return;
+    editor.setSymmetryChangeCallback(() => setRevision(r => r + 1));
+    return () => editor.setSymmetryChangeCallback(null);
+  }, [editor]);
+
+  if (!editor) return null;
+  const { mode, axis } = editor.getSymmetry();
+
+  const axisInput = (key: 'x' | 'y', disabled: boolean) => (
+    <label className={`flex items-center gap-1 ${disabled ? 'opacity-40' : ''}`}>
+      <span>{key.toUpperCase()}</span>
+      <input
+        type="number"
+        step={0.5}
+        min={0}
+        value={axis[key]}
+        disabled={disabled}
+        onChange={(e) => {
+          const value = parseFloat(e.target.value);
+          if (Number.isFinite(value)) editor.setSymmetryAxis({ ...axis, [key]: value });
+        }}
+        className="w-14 h-6 px-1 rounded border border-border bg-background"
+        aria-label={`Symmetry axis ${key}`}
+      />
+    </label>
+  );
+
+  return (
+    <div className="absolute top-4 right-4 z-10 p-1.5 rounded-md text-xs flex items-center gap-1 bg-white/90 dark:bg-neutral-900/90 border border-gray-200 dark:border-neutral-600 text-gray-800 dark:text-white shadow-sm">
+      {MODES.map(({ mode: m, label, icon: Icon }) => (
+        <button
+          key={m}
+          type="button"
+          onClick={() => editor.setSymmetryMode(m)}
+          className={`h-6 w-6 inline-flex items-center justify-center rounded hover:bg-accent ${mode === m ? 'bg-accent' : ''}`}
+          aria-label={label}
+          aria-pressed={mode === m}
+          title={label}
+        >
+          <Icon className="h-3.5 w-3.5" />
+        </button>
+      ))}
+      {mode !== 'off' && (
+        <>
+          {axisInput('x', mode === 'vertical')}
+          {axisInput('y', mode === 'horizontal')}
+          <button
+            type="button"
+            onClick={() => editor.setSymmetryAxis(null)}
+            className="h-6 w-6 inline-flex items-center justify-center rounded hover:bg-accent"
+            aria-label="Center symmetry axis"
+            title="Center axis (Alt+drag on the map to move it)"
+          >
+            <Crosshair className="h-3.5 w-3.5" />
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SymmetryControls;
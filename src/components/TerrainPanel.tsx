@@ -0,0 +1,85 @@
+import { Plus, Trash2, X } from 'lucide-react';
+import { TERRAIN_COLORS, type TerrainDefinition } from '@/editor/terrainBrush';
+
+type TerrainPanelProps = {
+  terrains: TerrainDefinition[];
+  activeTerrainId: number | null;
+  onChange: (terrains: TerrainDefinition[]) => void;
+  onSelect: (terrainId: number) => void;
+  onClose: () => void;
+};
+
+/** Terrains of the active tileset tab; the selected one is tagged onto tile corners and painted by the terrain brush. */
+const TerrainPanel = ({ terrains, activeTerrainId, onChange, onSelect, onClose }: TerrainPanelProps) => {
+  const handleAdd = () => {
+    const id = terrains.reduce((max, t) => Math.max(max, t.id), 0) + 1;
+    onChange([...terrains, { id, name: `Terrain ${id}`, color: TERRAIN_COLORS[(id - 1) % TERRAIN_COLORS.length] }]);
+    onSelect(id);
+  };
+
+  const update = (id: number, changes: Partial<TerrainDefinition>) => {
+    onChange(terrains.map(t => (t.id === id ? { ...t, ...changes } : t)));
+  };
+
+  return (
+    <div className="px-3 py-2 border-t border-border text-xs space-y-1.5">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">Terrains</span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="h-6 w-6 inline-flex items-center justify-center rounded hover:bg-accent"
+          aria-label="Close terrains"
+          title="Close"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+      <div className="text-muted-foreground">
+        Click a tile corner to tag it with the selected terrain (its centre tags all four, a tagged corner clears),
+        then paint with the Terrain Brush.
+      </div>
+      <div className="max-h-32 overflow-y-auto space-y-1">
+        {terrains.map(terrain => (
+          <div
+            key={terrain.id}
+            className={`flex items-center gap-2 rounded px-1 ${terrain.id === activeTerrainId ? 'bg-accent' : ''}`}
+            onClick={() => onSelect(terrain.id)}
+          >
+            <input
+              type="color"
+              value={terrain.color}
+              onChange={(e) => update(terrain.id, { color: e.target.value })}
+              className="w-5 h-5 p-0 border-0 bg-transparent cursor-pointer"
+              aria-label={`${terrain.name} colour`}
+            />
+            <input
+              value={terrain.name}
+              onChange={(e) => update(terrain.id, { name: e.target.value })}
+              className="flex-1 h-6 px-1 rounded border border-border bg-background"
+              aria-label="Terrain name"
+            />
+            <button
+              type="button"
+              onClick={(e) => { e.stopPropagation(); onChange(terrains.filter(t => t.id !== terrain.id)); }}
+              className="h-6 w-6 inline-flex items-center justify-center rounded hover:bg-accent text-destructive"
+              aria-label={`Remove ${terrain.name}`}
+              title="Remove terrain and its tags"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={handleAdd}
+        className="h-6 px-2 inline-flex items-center gap-1 rounded hover:bg-accent"
+      >
+        <Plus className="h-3.5 w-3.5" /> Add terrain
+      </button>
+    </div>
+  );
+};
+
+export default TerrainPanel;
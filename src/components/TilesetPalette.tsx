@@ -1,8 +1,15 @@
 import React, { useEffect, useCallback, useState, useRef, useLayoutEffect, useMemo } from 'react';
 import type { TileLayer } from '@/types';
 import type { TileMapEditor } from '@/editor/TileMapEditor';
+import { isFlareRenderLayerType } from '@/editor/flareLayers';
+import { DEFAULT_FRAME_DURATION, getTileAnimationFrameIndex, type TileAnimationFrame } from '@/editor/tileAnimation';
+import type { TerrainCorners, TerrainDefinition } from '@/editor/terrainBrush';
+import { DEFAULT_SCATTER_WEIGHT, type ScatterEntry } from '@/editor/scatterBrush';
+import { COLLISION_TYPES } from '@/editor/collisionTypes';
 import usePreferences from '@/hooks/usePreferences';
-import { Check, X, FlipHorizontal2, FlipVertical2 } from 'lucide-react';
+import TerrainPanel from './TerrainPanel';
+import ScatterPanel from './ScatterPanel';
+import { Check, X, FlipHorizontal2, FlipVertical2, Film, Mountain, Shuffle, Trash2 } from 'lucide-react';
 
 type TilesetPaletteProps = {
   editor: TileMapEditor | null;
@@ -73,6 +80,18 @@ const TilesetPalette = ({
   const [selectedTileInfo, setSelectedTileInfo] = useState<{ gid: number; description?: string } | null>(null);
   const [detectedTiles, setDetectedTiles] = useState<DetectedTileRect[]>([]);
   const [selectedDetectedGids, setSelectedDetectedGids] = useState<number[]>([]);
+  // Animations of the active tab, and the one being edited (palette clicks add frames)
+  const [tileAnimations, setTileAnimations] = useState<Map<number, TileAnimationFrame[]>>(new Map());
+  const [tileCollisions, setTileCollisions] = useState<Map<number, number>>(new Map());
+  const [animationDraft, setAnimationDraft] = useState<{ gid: number; frames: TileAnimationFrame[] } | null>(null);
+  // Terrain sets of the active tab; while the panel is open palette clicks tag tile corners
+  const [terrainSet, setTerrainSet] = useState<{ terrains: TerrainDefinition[]; tiles: Map<number, TerrainCorners> }>({ terrains: [], tiles: new Map() });
+  const [activeTerrainId, setActiveTerrainId] = useState<number | null>(null);
+  const [showTerrains, setShowTerrains] = useState(false);
+  // Scatter painting: while the panel is open palette clicks add or remove weighted tiles
+  const [showScatter, setShowScatter] = useState(false);
+  const [scatterEntries, setScatterEntries] = useState<ScatterEntry[]>([]);
+  const [scatterDensity, setScatterDensity] = useState(1);
   
   // Refs for panning
   const isPanningRef = useRef(false);
@@ -82,12 +101,9 @@ const TilesetPalette = ({
   const prefs = usePreferences();
   
   // Collision tile descriptions
-  const COLLISION_TILE_DESCRIPTIONS = useMemo(() => ({
-    1: 'Full Collision: Nothing will able to pass from this cell.',
-    2: 'Ground Collision: Only flying units will pass from this cell',
-    3: 'Hidden Full Collision: Same as "Full Collision" but not visible on map.',
-    4: 'Hidden Ground Collision: Same as "Ground Collision" but not visible on map.'
-  }), []);
+  const COLLISION_TILE_DESCRIPTIONS = useMemo(() => Object.fromEntries(
+    COLLISION_TYPES.map(type => [type.value, type.description])
+  ) as Record<number, string>, []);
 
   // Create a clear selection function to pass to parent
   const clearSelection = useCallback(() => {
@@ -101,6 +117,26 @@ const TilesetPalette = ({
     }
   }, [selection, onSelectionChange, clearSelection]);
 
+  // Reload animations when the editor, layer or tab changes
+  const animationSource = `${activeLayer?.type ?? ''}:${tabTick}`;
+  const [loadedAnimationSource, setLoadedAnimationSource] = useState<{ editor: TileMapEditor | null; source: string } | null>(null);
+  if (loadedAnimationSource?.editor !== editor || loadedAnimationSource?.source !== animationSource) {
+    setLoadedAnimationSource({ editor, source: animationSource });
+    setTileAnimations(editor && activeLayer?.type ? editor.getTileAnimations(activeLayer.type) : new Map());
+    setTileCollisions(editor && activeLayer?.type ? editor.getTileCollisions(activeLayer.type) : new Map());
+    setAnimationDraft(null);
+    setTerrainSet(editor && activeLayer?.type ? editor.getTerrainSet(activeLayer.type) : { terrains: [], tiles: new Map() });
+    setActiveTerrainId(editor && activeLayer?.type ? editor.getActiveTerrain(activeLayer.type) : null);
+    setShowScatter(false);
+    setScatterEntries([]);
+  }
+
+  // The editor paints with the scatter tiles only while the panel is open
+  useEffect(() => {
+    editor?.setScatterBrush(showScatter ? { entries: scatterEntries, density: scatterDensity } : null);
+    return () => editor?.setScatterBrush(null);
+  }, [editor, showScatter, scatterEntries, scatterDensity]);
+
   // Refresh tileset palette from editor
   useEffect(() => {
     
@@ -289,6 +325,29 @@ const TilesetPalette = ({
     };
   }, [tilesetImage]);
 
+  // Source rectangle of a tile in the image: its detected asset, or its grid cell
+  const getTileSourceRect = useCallback((gid: number): DetectedTileRect | null => {
+    if (detectedTiles.length > 0) {
+      return detectedTiles.find(t => t.gid === gid) ?? null;
+    }
+    const cols = Math.max(1, Math.floor(imageSize.width / tileSize.width));
+    return {
+      gid,
+      sourceX: ((gid - 1) % cols) * tileSize.width,
+      sourceY: Math.floor((gid - 1) / cols) * tileSize.height,
+      width: tileSize.width,
+      height: tileSize.height
+    };
+  }, [detectedTiles, imageSize.width, tileSize.width, tileSize.height]);
+
+  const playingAnimations = useMemo(() => {
+    const playing = new Map(tileAnimations);
+    if (animationDraft && animationDraft.frames.length > 0) {
+      playing.set(animationDraft.gid, animationDraft.frames);
+    }
+    return playing;
+  }, [tileAnimations, animationDraft]);
+
   // Draw the tileset with grid overlay on canvas
   const drawTilesetCanvas = useCallback(() => {
     const canvas = canvasRef.current;
@@ -313,6 +372,23 @@ const TilesetPalette = ({
     // Draw the tileset image
     ctx.drawImage(tilesetImage, 0, 0);
 
+    // Animated tiles show their current frame in place, marked in the corner
+    const now = performance.now();
+    for (const [gid, frames] of playingAnimations) {
+      const base = getTileSourceRect(gid);
+      if (!base || frames.length === 0) continue;
+      const frame = frames[getTileAnimationFrameIndex(frames, now)];
+      ctx.clearRect(base.sourceX, base.sourceY, base.width, base.height);
+      ctx.drawImage(tilesetImage, frame.sourceX, frame.sourceY, base.width, base.height, base.sourceX, base.sourceY, base.width, base.height);
+      ctx.fillStyle = 'rgba(245, 158, 11, 0.9)';
+      ctx.beginPath();
+      ctx.moveTo(base.sourceX + base.width - 8, base.sourceY);
+      ctx.lineTo(base.sourceX + base.width, base.sourceY);
+      ctx.lineTo(base.sourceX + base.width, base.sourceY + 8);
+      ctx.closePath();
+      ctx.fill();
+    }
+
     const hasDetectedAssets = detectedTiles.length > 0;
 
     if (hasDetectedAssets) {
@@ -382,7 +458,64 @@ const TilesetPalette = ({
       ctx.lineWidth = 2.5;
       ctx.strokeRect(x + 1, y + 1, w - 2, h - 2);
     }
-  }, [tilesetImage, imageSize, selection, prefs.isDarkMode, tileSize.width, tileSize.height, detectedTiles, selectedDetectedGids]);
+
+    // Number the frames of the animation being edited
+    const draftBase = animationDraft ? getTileSourceRect(animationDraft.gid) : null;
+    if (animationDraft && draftBase) {
+      ctx.strokeStyle = 'rgba(245, 158, 11, 1)';
+      ctx.fillStyle = 'rgba(245, 158, 11, 1)';
+      ctx.lineWidth = 2;
+      ctx.font = 'bold 11px sans-serif';
+      animationDraft.frames.forEach((frame, index) => {
+        ctx.strokeRect(frame.sourceX + 1, frame.sourceY + 1, Math.max(1, draftBase.width - 2), Math.max(1, draftBase.height - 2));
+        ctx.fillText(String(index + 1), frame.sourceX + 4, frame.sourceY + 13);
+      });
+    }
+
+    // Scatter tiles, labelled with their weight
+    if (showScatter) {
+      ctx.strokeStyle = 'rgba(16, 185, 129, 1)';
+      ctx.fillStyle = 'rgba(16, 185, 129, 1)';
+      ctx.lineWidth = 2;
+      ctx.font = 'bold 11px sans-serif';
+      for (const entry of scatterEntries) {
+        const rect = getTileSourceRect(entry.gid);
+        if (!rect) continue;
+        ctx.strokeRect(rect.sourceX + 1, rect.sourceY + 1, Math.max(1, rect.width - 2), Math.max(1, rect.height - 2));
+        ctx.fillText(`×${entry.weight}`, rect.sourceX + 4, rect.sourceY + 13);
+      }
+    }
+
+    // Tagged corners, as the N/E/S/W triangles between the tile's diagonals
+    if (showTerrains) {
+      const colors = new Map(terrainSet.terrains.map(t => [t.id, t.color]));
+      ctx.globalAlpha = 0.55;
+      for (const [gid, corners] of terrainSet.tiles) {
+        const rect = getTileSourceRect(gid);
+        if (!rect) continue;
+        const cx = rect.sourceX + rect.width / 2;
+        const cy = rect.sourceY + rect.height / 2;
+        const points: Array<[number, number]> = [
+          [rect.sourceX, rect.sourceY], [rect.sourceX + rect.width, rect.sourceY],
+          [rect.sourceX + rect.width, rect.sourceY + rect.height], [rect.sourceX, rect.sourceY + rect.height]
+        ];
+        corners.forEach((terrainId, corner) => {
+          const color = terrainId !== null ? colors.get(terrainId) : undefined;
+          if (!color) return;
+          const [ax, ay] = points[corner];
+          const [bx, by] = points[(corner + 1) % 4];
+          ctx.fillStyle = color;
+          ctx.beginPath();
+          ctx.moveTo(ax, ay);
+          ctx.lineTo(bx, by);
+          ctx.lineTo(cx, cy);
+          ctx.closePath();
+          ctx.fill();
+        });
+      }
+      ctx.globalAlpha = 1;
+    }
+  }, [tilesetImage, imageSize, selection, prefs.isDarkMode, tileSize.width, tileSize.height, detectedTiles, selectedDetectedGids, playingAnimations, animationDraft, getTileSourceRect, showTerrains, terrainSet, showScatter, scatterEntries]);
 
   const getCanvasPixelPosition = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
@@ -512,6 +645,107 @@ const TilesetPalette = ({
     drawTilesetCanvas();
   }, [drawTilesetCanvas]);
 
+  // Keep animated tiles playing; redraw only when one of them changes frame
+  useEffect(() => {
+    if (playingAnimations.size === 0) return;
+    let frameRequest = 0;
+    let lastKey = '';
+    const tick = () => {
+      const now = performance.now();
+      const key = Array.from(playingAnimations.values()).map(frames => getTileAnimationFrameIndex(frames, now)).join(',');
+      if (key !== lastKey) {
+        lastKey = key;
+        drawTilesetCanvas();
+      }
+      frameRequest = requestAnimationFrame(tick);
+    };
+    frameRequest = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameRequest);
+  }, [playingAnimations, drawTilesetCanvas]);
+
+  const handleStartAnimation = useCallback((gid: number) => {
+    const existing = tileAnimations.get(gid);
+    const base = getTileSourceRect(gid);
+    if (existing) {
+      setAnimationDraft({ gid, frames: existing.map(frame => ({ ...frame })) });
+    } else if (base) {
+      setAnimationDraft({ gid, frames: [{ sourceX: base.sourceX, sourceY: base.sourceY, duration: DEFAULT_FRAME_DURATION }] });
+    }
+  }, [tileAnimations, getTileSourceRect]);
+
+  const handleSaveAnimation = useCallback((frames: TileAnimationFrame[] | null) => {
+    const layerType = activeLayer?.type;
+    if (!editor || !layerType || !animationDraft) return;
+    editor.setTileAnimation(layerType, animationDraft.gid, frames);
+    setTileAnimations(editor.getTileAnimations(layerType));
+    setAnimationDraft(null);
+  }, [editor, activeLayer?.type, animationDraft]);
+
+  const handleSetTileCollision = useCallback((gid: number, value: number) => {
+    const layerType = activeLayer?.type;
+    if (!editor || !layerType) return;
+    editor.setTileCollision(layerType, gid, value);
+    setTileCollisions(editor.getTileCollisions(layerType));
+  }, [editor, activeLayer?.type]);
+
+  const updateDraftFrames = useCallback((update: (frames: TileAnimationFrame[]) => TileAnimationFrame[]) => {
+    setAnimationDraft(draft => draft ? { ...draft, frames: update(draft.frames) } : draft);
+  }, []);
+
+  const handleTerrainsChange = useCallback((terrains: TerrainDefinition[]) => {
+    const layerType = activeLayer?.type;
+    if (!editor || !layerType) return;
+    editor.setTerrains(layerType, terrains);
+    setTerrainSet(editor.getTerrainSet(layerType));
+    setActiveTerrainId(editor.getActiveTerrain(layerType));
+  }, [editor, activeLayer?.type]);
+
+  // Start scattering with the tiles currently selected in the palette
+  const handleToggleScatter = useCallback(() => {
+    if (showScatter) {
+      setShowScatter(false);
+      return;
+    }
+    let gids = selectedDetectedGids;
+    if (detectedTiles.length === 0 && selection) {
+      const cols = Math.max(1, Math.floor(imageSize.width / tileSize.width));
+      gids = [];
+      for (let row = Math.min(selection.startRow, selection.endRow); row <= Math.max(selection.startRow, selection.endRow); row++) {
+        for (let col = Math.min(selection.startCol, selection.endCol); col <= Math.max(selection.startCol, selection.endCol); col++) {
+          gids.push(row * cols + col + 1);
+        }
+      }
+    }
+    setScatterEntries(gids.map(gid => ({ gid, weight: DEFAULT_SCATTER_WEIGHT })));
+    setShowScatter(true);
+    setShowTerrains(false);
+    setAnimationDraft(null);
+  }, [showScatter, selectedDetectedGids, detectedTiles.length, selection, imageSize.width, tileSize.width]);
+
+  const handleSelectTerrain = useCallback((terrainId: number) => {
+    editor?.setActiveTerrain(terrainId);
+    setActiveTerrainId(terrainId);
+  }, [editor]);
+
+  // Tag the clicked corner of a tile (its centre: all corners) with the selected terrain
+  const handleTagTerrainCorner = useCallback((rect: DetectedTileRect, px: number, py: number) => {
+    const layerType = activeLayer?.type;
+    if (!editor || !layerType || activeTerrainId === null) return;
+    const dx = (px - (rect.sourceX + rect.width / 2)) / Math.max(1, rect.width / 2);
+    const dy = (py - (rect.sourceY + rect.height / 2)) / Math.max(1, rect.height / 2);
+    const current: TerrainCorners = terrainSet.tiles.get(rect.gid) ?? [null, null, null, null];
+    let next: TerrainCorners;
+    if (Math.abs(dx) + Math.abs(dy) < 0.35) {
+      next = [activeTerrainId, activeTerrainId, activeTerrainId, activeTerrainId];
+    } else {
+      const corner = Math.abs(dy) > Math.abs(dx) ? (dy < 0 ? 0 : 2) : (dx > 0 ? 1 : 3);
+      next = [...current] as TerrainCorners;
+      next[corner] = current[corner] === activeTerrainId ? null : activeTerrainId;
+    }
+    editor.setTileTerrain(layerType, rect.gid, next);
+    setTerrainSet(editor.getTerrainSet(layerType));
+  }, [editor, activeLayer?.type, activeTerrainId, terrainSet]);
+
   // Track wrapper size with a ResizeObserver so we can keep the tileset
   // selector box at least as large as the viewport (users will zoom/pan).
   useLayoutEffect(() => {
@@ -572,6 +806,45 @@ const TilesetPalette = ({
     if (isSpacePressed || isPanning) return; // Don't start selection while panning
     if (e.button !== 0) return; // Only left click
 
+    const getClickedTileRect = (): DetectedTileRect | null => {
+      if (detectedTiles.length > 0) {
+        const pos = getCanvasPixelPosition(e);
+        const gid = pos ? getDetectedGidAtPosition(pos.x, pos.y) : null;
+        return gid !== null ? getTileSourceRect(gid) : null;
+      }
+      const cell = getGridPosition(e);
+      return cell ? getTileSourceRect(cell.row * Math.max(1, Math.floor(imageSize.width / tileSize.width)) + cell.col + 1) : null;
+    };
+
+    // While editing an animation, clicked tiles are appended as frames
+    if (animationDraft) {
+      const rect = getClickedTileRect();
+      if (rect) {
+        const lastDuration = animationDraft.frames[animationDraft.frames.length - 1]?.duration ?? DEFAULT_FRAME_DURATION;
+        updateDraftFrames(frames => [...frames, { sourceX: rect.sourceX, sourceY: rect.sourceY, duration: lastDuration }]);
+      }
+      return;
+    }
+
+    // While scattering, clicks add or remove tiles
+    if (showScatter) {
+      const rect = getClickedTileRect();
+      if (rect) {
+        setScatterEntries(entries => entries.some(entry => entry.gid === rect.gid)
+          ? entries.filter(entry => entry.gid !== rect.gid)
+          : [...entries, { gid: rect.gid, weight: DEFAULT_SCATTER_WEIGHT }]);
+      }
+      return;
+    }
+
+    // While the terrain panel is open, clicks tag tile corners
+    if (showTerrains) {
+      const rect = getClickedTileRect();
+      const pos = getCanvasPixelPosition(e);
+      if (rect && pos) handleTagTerrainCorner(rect, pos.x, pos.y);
+      return;
+    }
+
     // Asset mode: select by detected rectangle hit-test instead of grid cell.
     if (detectedTiles.length > 0 && editor) {
       const pos = getCanvasPixelPosition(e);
@@ -600,7 +873,7 @@ const TilesetPalette = ({
       if (isCollisionLayer) {
         setSelectedTileInfo({
           gid,
-          description: COLLISION_TILE_DESCRIPTIONS[gid as keyof typeof COLLISION_TILE_DESCRIPTIONS]
+          description: COLLISION_TILE_DESCRIPTIONS[gid]
         });
       } else {
         setSelectedTileInfo({ gid });
@@ -638,7 +911,7 @@ const TilesetPalette = ({
       endCol: pos.col,
       endRow: pos.row
     });
-  }, [getGridPosition, isSpacePressed, isPanning, detectedTiles, editor, getCanvasPixelPosition, getDetectedGidAtPosition, activeLayer?.type, COLLISION_TILE_DESCRIPTIONS]);
+  }, [getGridPosition, isSpacePressed, isPanning, detectedTiles, editor, getCanvasPixelPosition, getDetectedGidAtPosition, activeLayer?.type, COLLISION_TILE_DESCRIPTIONS, animationDraft, getTileSourceRect, imageSize.width, tileSize.width, updateDraftFrames, showTerrains, handleTagTerrainCorner, showScatter]);
 
   const handleCanvasMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
     if (detectedTiles.length > 0) return;
@@ -678,8 +951,10 @@ const TilesetPalette = ({
       if (isCollisionLayer) {
         setSelectedTileInfo({
           gid,
-          description: COLLISION_TILE_DESCRIPTIONS[gid as keyof typeof COLLISION_TILE_DESCRIPTIONS]
+          description: COLLISION_TILE_DESCRIPTIONS[gid]
         });
+      } else {
+        setSelectedTileInfo({ gid });
       }
       
       // Clear multiSelectedBrushes when selecting a single tile
@@ -822,7 +1097,7 @@ const TilesetPalette = ({
       {/* Tab navigation */}
       {(() => {
         const activeLayerType = activeLayer?.type;
-        const showTabs = activeLayerType === 'background' || activeLayerType === 'object';
+        const showTabs = !!activeLayerType && isFlareRenderLayerType(activeLayerType);
         if (!showTabs) return null;
         return (
           <div key={tabTick} className="flex items-center gap-2 px-2 py-2 overflow-visible">
@@ -862,6 +1137,24 @@ const TilesetPalette = ({
                 <div className="text-xs text-muted-foreground">No tabs</div>
               )}
             </div>
+            <button
+              type="button"
+              onClick={() => { setShowTerrains(v => !v); setShowScatter(false); setAnimationDraft(null); }}
+              className={`h-6 w-6 inline-flex items-center justify-center rounded hover:bg-accent ${showTerrains ? 'bg-accent' : ''}`}
+              aria-label="Terrains"
+              title="Terrains"
+            >
+              <Mountain className="h-3.5 w-3.5" />
+            </button>
+            <button
+              type="button"
+              onClick={handleToggleScatter}
+              className={`h-6 w-6 inline-flex items-center justify-center rounded hover:bg-accent ${showScatter ? 'bg-accent' : ''}`}
+              aria-label="Scatter brush"
+              title="Scatter brush: paint the selected tiles at random"
+            >
+              <Shuffle className="h-3.5 w-3.5" />
+            </button>
           </div>
         );
       })()}
@@ -933,7 +1226,7 @@ const TilesetPalette = ({
           </div>
         </div>
 
-        {detectedTiles.length > 0 && selectedDetectedGids.length > 1 && (
+        {!animationDraft && !showTerrains && !showScatter && detectedTiles.length > 0 && selectedDetectedGids.length > 1 && (
           <div className="absolute bottom-3 right-3 z-20 bg-background/95 border border-border shadow-md rounded-md px-2 py-1.5 text-xs flex items-center gap-2">
             <span className="text-muted-foreground">merge this assets?</span>
             <button
@@ -957,7 +1250,7 @@ const TilesetPalette = ({
           </div>
         )}
 
-        {detectedTiles.length > 0 && selectedDetectedGids.length === 1 && (
+        {!animationDraft && !showTerrains && !showScatter && detectedTiles.length > 0 && selectedDetectedGids.length === 1 && (
           <div className="absolute bottom-3 right-3 z-20 bg-background/95 border border-border shadow-md rounded-md px-2 py-1.5 text-xs flex items-center gap-2">
             <span className="text-muted-foreground">slice this asset?</span>
             <button
@@ -990,9 +1283,133 @@ const TilesetPalette = ({
           </div>
         )}
 
+        {!animationDraft && !showTerrains && !showScatter && selectedTileInfo && activeLayer && isFlareRenderLayerType(activeLayer.type) && selectedDetectedGids.length <= 1 && (
+          <div className="absolute bottom-3 left-3 z-20 bg-background/95 border border-border shadow-md rounded-md px-2 py-1.5 text-xs flex items-center gap-2">
+            {(activeLayer.type === 'background' || activeLayer.type === 'object') && (
+              <select
+                className="h-6 text-xs border rounded px-1 bg-background"
+                value={tileCollisions.get(selectedTileInfo.gid) ?? 0}
+                onChange={(e) => handleSetTileCollision(selectedTileInfo.gid, parseInt(e.target.value, 10) || 0)}
+                aria-label="Default collision"
+                title="Default collision, used by Rebuild collision on the collision layer"
+              >
+                <option value={0}>No collision</option>
+                {COLLISION_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.value}: {type.label}</option>
+                ))}
+              </select>
+            )}
+            <span className="text-muted-foreground">{tileAnimations.has(selectedTileInfo.gid) ? 'edit animation?' : 'animate this tile?'}</span>
+            <button
+              type="button"
+              onClick={() => handleStartAnimation(selectedTileInfo.gid)}
+              className="h-6 w-6 inline-flex items-center justify-center rounded hover:bg-accent"
+              aria-label="Animate tile"
+              title="Animate tile"
+            >
+              <Film className="h-3.5 w-3.5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => { setSelectedTileInfo(null); }}
+              className="h-6 w-6 inline-flex items-center justify-center rounded hover:bg-accent"
+              aria-label="Dismiss"
+              title="Dismiss"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        )}
+
         <div data-brush-tool={brushTool} className="hidden"></div>
       </div>
 
+      {/* Animation editor: frames in play order with their durations */}
+      {animationDraft && (
+        <div className="px-3 py-2 border-t border-border text-xs space-y-1.5">
+          <div className="text-muted-foreground">
+            Tile #{animationDraft.gid}: click tiles in the palette to add frames
+          </div>
+          <div className="max-h-32 overflow-y-auto space-y-1">
+            {animationDraft.frames.map((frame, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="w-5 text-right">{index + 1}</span>
+                <span className="flex-1 text-muted-foreground">{frame.sourceX}, {frame.sourceY}</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={frame.duration}
+                  onChange={(e) => {
+                    const duration = Math.max(1, parseInt(e.target.value, 10) || 1);
+                    updateDraftFrames(frames => frames.map((f, i) => (i === index ? { ...f, duration } : f)));
+                  }}
+                  className="w-16 h-6 px-1 rounded border border-border bg-background"
+                  aria-label={`Frame ${index + 1} duration`}
+                />
+                <span className="text-muted-foreground">ms</span>
+                <button
+                  type="button"
+                  onClick={() => updateDraftFrames(frames => frames.filter((_, i) => i !== index))}
+                  className="h-6 w-6 inline-flex items-center justify-center rounded hover:bg-accent"
+                  aria-label={`Remove frame ${index + 1}`}
+                  title="Remove frame"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-end gap-1">
+            {tileAnimations.has(animationDraft.gid) && (
+              <button
+                type="button"
+                onClick={() => handleSaveAnimation(null)}
+                className="h-6 px-2 inline-flex items-center gap-1 rounded hover:bg-accent text-destructive"
+                title="Remove animation"
+              >
+                <Trash2 className="h-3.5 w-3.5" /> Remove
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setAnimationDraft(null)}
+              className="h-6 px-2 inline-flex items-center rounded hover:bg-accent"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => handleSaveAnimation(animationDraft.frames)}
+              disabled={animationDraft.frames.length < 2}
+              className="h-6 px-2 inline-flex items-center gap-1 rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+              title={animationDraft.frames.length < 2 ? 'Add at least two frames' : 'Save animation'}
+            >
+              <Check className="h-3.5 w-3.5" /> Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showScatter && (
+        <ScatterPanel
+          entries={scatterEntries}
+          density={scatterDensity}
+          onEntriesChange={setScatterEntries}
+          onDensityChange={setScatterDensity}
+          onClose={() => setShowScatter(false)}
+        />
+      )}
+
+      {showTerrains && !animationDraft && activeLayer && isFlareRenderLayerType(activeLayer.type) && (
+        <TerrainPanel
+          terrains={terrainSet.terrains}
+          activeTerrainId={activeTerrainId}
+          onChange={handleTerrainsChange}
+          onSelect={handleSelectTerrain}
+          onClose={() => setShowTerrains(false)}
+        />
+      )}
+
       {/* Selected tile info display */}
       {selectedTileInfo?.description && (
         <div className="px-3 py-2 bg-accent/50 border-t border-border text-sm text-foreground">
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Plus, FolderOpen, Grid3X3, Folder, Minus, Square, X } from 'lucide-react';
+import { Plus, FolderOpen, FolderInput, Grid3X3, Folder, Minus, Square, X } from 'lucide-react';
+import { importModContent, MOD_CONTENT_LABELS, type ModContentKind, type ModImportReport, type ModImportTarget } from '@/editor/modImporter';
+import { TileMapEditor } from '@/editor/TileMapEditor';
 import flareIconUrl from '/flare-ico.png?url';
 import flareLogoUrl from '/flare-logo.png?url';
 
@@ -27,8 +29,50 @@ interface RecentMap {
   path: string;
 }
 
+// Imported maps are converted by an off-screen editor and saved as project maps; loot tables become item groups
+const createModImportTarget = (projectPath: string, editor: TileMapEditor): ModImportTarget => {
+  const api = window.electronAPI;
+  // Map paths are relative to the project (mod) root
+  const projectFile = (relative: string) => `${projectPath}/${relative.replace(/^(\.\.\/)+/, '')}`;
+  return {
+    convertMap: async (mapName, content) => {
+      const parsed = await editor.loadFlareMapTxt(
+        content,
+        async (tilesetPath) => (api.readFileAsDataURL ? api.readFileAsDataURL(projectFile(tilesetPath)) : null),
+        async (tilesetDefPath) => (api.readFile ? api.readFile(projectFile(tilesetDefPath)) : null)
+      );
+      editor.setMapName(mapName);
+      await editor.ensureTilesetsLoaded();
+      return { project: { ...editor.getProjectData(), name: mapName }, warnings: parsed.warnings };
+    },
+    saveMap: (project) => api.saveMapProject(projectPath, {
+      ...project,
+      name: project.name || 'Untitled Map',
+      width: project.width ?? 20,
+      height: project.height ?? 15,
+      tileSize: project.tileSize ?? 32,
+      layers: project.layers || [],
+      objects: project.objects || [],
+      tilesets: project.tilesets || [],
+      tilesetImages: project.tilesetImages || {},
+      version: project.version || '1.0'
+    }),
+    addLootGroup: async (group) => {
+      if (!api.createItemFile || !api.getNextItemId) return false;
+      const next = await api.getNextItemId(projectPath);
+      if (!next.success) return false;
+      const result = await api.createItemFile(projectPath, { name: group.name, id: next.nextId, category: 'Loot', role: 'loot_groups' });
+      return result.success;
+    }
+  };
+};
+
 const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onCreateNewMap, onOpenMap, isDarkMode }) => {
   const [showCreateForm, setShowCreateForm] = useState(false);
+  // Set when the create form is importing an existing mod instead of starting empty
+  const [importSourcePath, setImportSourcePath] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<{ projectPath: string; report: ModImportReport } | null>(null);
   const [recentMaps, setRecentMaps] = useState<RecentMap[]>([]);
   const [thumbnails, setThumbnails] = useState<Record<string, string | null>>({});
   const [mapConfig, setMapConfig] = useState<MapConfig>({
@@ -227,6 +271,77 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onCreateNewMap, onOpenMap
     }
   };
 
+  const handleSelectModFolder = async () => {
+    try {
+      if (!window.electronAPI?.selectDirectory || !window.electronAPI?.importFlareMod) {
+        alert('Importing a Flare mod requires the desktop app');
+        return;
+      }
+      const selectedPath = await window.electronAPI.selectDirectory();
+      if (!selectedPath) return;
+      const segments = selectedPath.replace(/\\/g, '/').replace(/\/+$/, '').split('/');
+      const modName = segments.pop() || 'ImportedMod';
+      setImportSourcePath(selectedPath);
+      setMapConfig({ ...mapConfig, name: modName, location: mapConfig.location || segments.join('/') });
+      setShowCreateForm(true);
+    } catch (error) {
+      console.error('Error selecting mod folder:', error);
+    }
+  };
+
+  const handleImportMod = async () => {
+    if (!importSourcePath || !window.electronAPI?.importFlareMod) return;
+    if (!mapConfig.location) {
+      alert('Please select a location for your map project');
+      return;
+    }
+
+    const normalizedName = mapConfig.name.trim().toLowerCase();
+    if (recentMaps.some((map) => map.name.trim().toLowerCase() === normalizedName)) {
+      alert("There can't be maps that have the same name. Please type another name.");
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const result = await window.electronAPI.importFlareMod(importSourcePath, { name: mapConfig.name, location: mapConfig.location });
+      if (!result?.success || !result.projectPath) {
+        throw new Error(result?.error || 'Unable to import mod');
+      }
+
+      const newRecentMap: RecentMap = {
+        id: Date.now().toString(),
+        name: mapConfig.name,
+        lastModified: 'Just now',
+        path: result.projectPath
+      };
+      saveRecentMaps([newRecentMap, ...recentMaps.slice(0, 9)]);
+
+      const editor = new TileMapEditor(document.createElement('canvas'));
+      let report: ModImportReport;
+      try {
+        editor.setAutoSaveEnabled(false);
+        report = await importModContent(result.files ?? [], createModImportTarget(result.projectPath, editor));
+      } finally {
+        editor.dispose();
+      }
+      if (report.issues.length > 0 || report.skipped.length > 0) {
+        console.warn('Flare mod import report:', report);
+      }
+      setImportResult({ projectPath: result.projectPath, report });
+    } catch (error) {
+      console.error('Error importing Flare mod:', error);
+      alert(`Error importing Flare mod. ${error instanceof Error ? error.message : ''}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleCloseCreateForm = () => {
+    setShowCreateForm(false);
+    setImportSourcePath(null);
+  };
+
   const handleOpenRecentMap = (recentMap: RecentMap) => {
     onOpenMap(recentMap.path);
   };
@@ -271,7 +386,7 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onCreateNewMap, onOpenMap
     }
   };
 
-  if (showCreateForm) {
+  if (showCreateForm || importResult) {
     return (
       <div className={`min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-neutral-900 dark:to-neutral-800 flex flex-col ${isDarkMode ? 'dark' : ''}`}>
         {/* Custom Title Bar */}
@@ -311,14 +426,63 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onCreateNewMap, onOpenMap
         
         <div className="flex-1 flex items-center justify-center p-4">
           <div className="bg-white dark:bg-neutral-900 rounded-lg shadow-xl p-8 w-full max-w-md">
+          {importResult ? (
+            <>
+              <div className="text-center mb-4">
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Mod Imported</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 break-all">{importResult.projectPath}</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-gray-700 dark:text-gray-300">
+                {(Object.keys(MOD_CONTENT_LABELS) as ModContentKind[]).map((kind) => (
+                  <React.Fragment key={kind}>
+                    <span>{MOD_CONTENT_LABELS[kind]}</span>
+                    <span className="text-right font-medium">{importResult.report.counts[kind]}</span>
+                  </React.Fragment>
+                ))}
+              </div>
+
+              {(importResult.report.issues.length > 0 || importResult.report.skipped.length > 0) && (
+                <div className="mt-4 max-h-48 overflow-y-auto minimal-scroll rounded border border-slate-200 dark:border-neutral-700 p-2 text-xs text-gray-600 dark:text-gray-400 space-y-1">
+                  {importResult.report.issues.map((issue, index) => (
+                    <p key={`issue-${index}`}><span className="font-medium text-orange-600 dark:text-orange-400">{issue.file}</span>: {issue.message}</p>
+                  ))}
+                  {importResult.report.skipped.length > 0 && (
+                    <p>
+                      <span className="font-medium">Copied but not understood by the editor:</span> {importResult.report.skipped.join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="flex gap-3 mt-6">
+                <Button
+                  onClick={() => onOpenMap(importResult.projectPath)}
+                  className="flex-1"
+                >
+                  Open Project
+                </Button>
+              </div>
+            </>
+          ) : (
+          <>
           <div className="text-center mb-6">
             <div className="inline-flex items-center justify-center">
               <img src={flareLogoUrl} alt="Flare Logo" className="w-40 h-40 object-contain" />
             </div>
-            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Create a New Flare Project</h2>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">{importSourcePath ? 'Import a Flare Mod' : 'Create a New Flare Project'}</h2>
           </div>
 
           <div className="space-y-4">
+            {importSourcePath && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Mod Folder
+                </label>
+                <Input value={importSourcePath} readOnly />
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                 Project Name
@@ -355,18 +519,21 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onCreateNewMap, onOpenMap
           <div className="flex gap-3 mt-6">
             <Button 
               variant="outline" 
-              onClick={() => setShowCreateForm(false)}
+              onClick={handleCloseCreateForm}
               className="flex-1"
             >
               Back
             </Button>
             <Button 
-              onClick={handleCreateMap}
+              onClick={importSourcePath ? handleImportMod : handleCreateMap}
+              disabled={isImporting}
               className="flex-1"
             >
-              Confirm
+              {isImporting ? 'Importing...' : 'Confirm'}
             </Button>
           </div>
+          </>
+          )}
           </div>
         </div>
       </div>
@@ -485,6 +652,16 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onCreateNewMap, onOpenMap
                 <FolderOpen className="w-5 h-5 mr-2" />
                 Open Existing Project
               </Button>
+
+              <Button 
+                variant="outline"
+                onClick={handleSelectModFolder}
+                className="w-full h-12 text-lg"
+                size="lg"
+              >
+                <FolderInput className="w-5 h-5 mr-2" />
+                Import Existing Flare Mod
+              </Button>
             </div>
           </div>
         </div>
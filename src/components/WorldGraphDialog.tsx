@@ -0,0 +1,301 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, RefreshCw } from 'lucide-react';
+import type { WorldGraph, WorldLink, WorldLinkKind } from '@/editor/worldGraph';
+
+type WorldGraphDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  onBuild: () => Promise<WorldGraph | null>;
+  onOpenLink: (link: WorldLink, mapName: string) => Promise<void>;
+};
+
+type PlacedNode = { file: string; name: string; x: number; y: number; thumbnail: string | null; missing: boolean; isStart: boolean; reachable: boolean };
+
+const NODE_WIDTH = 128;
+const NODE_HEIGHT = 92;
+const COLUMN_GAP = 96;
+const ROW_GAP = 32;
+const PADDING = 24;
+
+const KIND_LABELS: Record<WorldLinkKind, string> = {
+  intermap: 'intermap',
+  intermap_random: 'intermap_random',
+  dialogue: 'dialogue teleport'
+};
+
+const linkColor = (link: WorldLink) => (link.broken ? '#dc2626' : link.oneWay ? '#d97706' : '#64748b');
+
+const formatArrival = (link: WorldLink) => (link.x !== null && link.y !== null ? `${link.x}, ${link.y}` : 'random spot');
+
+/**
+ * Columns by teleport distance from the starting map; maps that cannot be
+ * reached, and targets that do not exist, go into the last columns.
+ */
+function layoutGraph(graph: WorldGraph): PlacedNode[] {
+  const key = (file: string) => file.toLowerCase();
+  const depth = new Map<string, number>();
+  const start = graph.nodes.find(node => node.isStart);
+  if (start) {
+    depth.set(key(start.file), 0);
+    const queue = [key(start.file)];
+    for (let head = 0; head < queue.length; head++) {
+      for (const link of graph.links) {
+        if (link.broken || link.unresolved || key(link.from) !== queue[head] || depth.has(key(link.to))) continue;
+        depth.set(key(link.to), (depth.get(queue[head]) ?? 0) + 1);
+        queue.push(key(link.to));
+      }
+    }
+  }
+
+  const columns: Array<Array<Omit<PlacedNode, 'x' | 'y'>>> = [];
+  const place = (column: number, node: Omit<PlacedNode, 'x' | 'y'>) => {
+    while (columns.length <= column) columns.push([]);
+    columns[column].push(node);
+  };
+  const deepest = Math.max(0, ...depth.values());
+  graph.nodes.forEach(node => {
+    const column = depth.get(key(node.file)) ?? (start ? deepest + 1 : 0);
+    place(column, { file: node.file, name: node.name, thumbnail: node.thumbnail, missing: false, isStart: node.isStart, reachable: node.reachable });
+  });
+  const known = new Set(graph.nodes.map(node => key(node.file)));
+  const missingColumn = columns.length;
+  graph.links.forEach(link => {
+    if (link.unresolved || known.has(key(link.to))) return;
+    known.add(key(link.to));
+    place(missingColumn, { file: link.to, name: link.to.replace(/^maps\//, '').replace(/\.txt$/, ''), thumbnail: null, missing: true, isStart: false, reachable: true });
+  });
+
+  return columns.flatMap((column, columnIndex) => column.map((node, rowIndex) => ({
+    ...node,
+    x: PADDING + columnIndex * (NODE_WIDTH + COLUMN_GAP),
+    y: PADDING + rowIndex * (NODE_HEIGHT + ROW_GAP)
+  })));
+}
+
+/**
+ * Every map of the project with the teleports between them. Broken links,
+ * one-way exits and maps the player cannot reach from the starting map are
+ * highlighted; clicking a link opens the event or NPC it comes from.
+ */
+const WorldGraphDialog = ({ open, onClose, onBuild, onOpenLink }: WorldGraphDialogProps) => {
+  const [graph, setGraph] = useState<WorldGraph | null>(null);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [hoveredLink, setHoveredLink] = useState<number | null>(null);
+
+  const build = useCallback(async () => {
+    setIsBuilding(true);
+    try {
+      setGraph(await onBuild());
+    } finally {
+      setIsBuilding(false);
+    }
+  }, [onBuild]);
+
+  useEffect(() => {
+    if (!open) return;
+    setGraph(null);
+    void build();
+    // Only build when the dialog opens; "Refresh" rebuilds it afterwards
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const placed = useMemo(() => (graph ? layoutGraph(graph) : []), [graph]);
+
+  if (!open) return null;
+
+  const byFile = new Map(placed.map(node => [node.file.toLowerCase(), node]));
+  const width = Math.max(...placed.map(node => node.x + NODE_WIDTH), 0) + PADDING;
+  const height = Math.max(...placed.map(node => node.y + NODE_HEIGHT), 0) + PADDING;
+  const links = graph?.links ?? [];
+  const broken = links.filter(link => link.broken);
+  const oneWay = links.filter(link => link.oneWay);
+  const unresolved = links.filter(link => link.unresolved);
+  const unreachable = graph?.nodes.filter(node => !node.reachable) ?? [];
+  const nameOf = (file: string) => byFile.get(file.toLowerCase())?.name ?? file;
+
+  const openLink = (link: WorldLink) => {
+    onClose();
+    void onOpenLink(link, nameOf(link.from));
+  };
+
+  // Links between the same two maps are bent apart so each stays clickable
+  const pairCount = new Map<string, number>();
+  const edges = links.map((link, index) => {
+    const from = byFile.get(link.from.toLowerCase());
+    const to = byFile.get(link.to.toLowerCase());
+    if (!from || !to) return null;
+    const pair = [link.from, link.to].map(file => file.toLowerCase()).sort().join('>');
+    const nth = pairCount.get(pair) ?? 0;
+    pairCount.set(pair, nth + 1);
+
+    const x1 = from.x + NODE_WIDTH / 2;
+    const y1 = from.y + NODE_HEIGHT / 2;
+    const x2 = to.x + NODE_WIDTH / 2;
+    const y2 = to.y + NODE_HEIGHT / 2;
+    let path: string;
+    let labelX: number;
+    let labelY: number;
+    if (from === to) {
+      const top = from.y - 28 - nth * 12;
+      path = `M ${x1 - 20} ${from.y} C ${x1 - 40} ${top}, ${x1 + 40} ${top}, ${x1 + 20} ${from.y}`;
+      labelX = x1;
+      labelY = top + 6;
+    } else {
+      const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+      const bend = (link.from < link.to ? 1 : -1) * (18 + nth * 18);
+      const cx = (x1 + x2) / 2 - ((y2 - y1) / length) * bend;
+      const cy = (y1 + y2) / 2 + ((x2 - x1) / length) * bend;
+      path = `M ${x1} ${y1} Q ${cx} ${cy} ${x2} ${y2}`;
+      labelX = (x1 + 2 * cx + x2) / 4;
+      labelY = (y1 + 2 * cy + y2) / 4;
+    }
+    return { link, index, path, labelX, labelY };
+  });
+
+  const issueButton = (link: WorldLink, index: number) => (
+    <button
+      key={index}
+      type="button"
+      onClick={() => openLink(link)}
+      className="w-full flex items-center justify-between gap-2 px-1 py-0.5 rounded text-left hover:bg-accent"
+      title="Open the event"
+    >
+      <span className="truncate">{nameOf(link.from)} → {nameOf(link.to)}</span>
+      <span className="text-xs text-muted-foreground shrink-0">{link.objectName}</span>
+    </button>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) onClose(); }}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>World Graph</DialogTitle>
+          <DialogDescription>
+            Maps of the project and the teleports between them. Click a link to open the event or NPC it comes from.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isBuilding && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Reading maps...
+          </p>
+        )}
+        {!isBuilding && !graph && <p className="text-sm text-muted-foreground">Open a project to see its maps.</p>}
+        {!isBuilding && graph && (
+          <div className="flex gap-4 min-h-0">
+            <div className="flex-1 overflow-auto max-h-[65vh] border border-border rounded bg-muted/30">
+              <svg width={width} height={height} className="text-xs">
+                <defs>
+                  {['#64748b', '#d97706', '#dc2626'].map(color => (
+                    <marker key={color} id={`world-arrow-${color.slice(1)}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                      <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+                    </marker>
+                  ))}
+                </defs>
+
+                {placed.map(node => (
+                  <g key={node.file}>
+                    <rect
+                      x={node.x}
+                      y={node.y}
+                      width={NODE_WIDTH}
+                      height={NODE_HEIGHT}
+                      rx={6}
+                      className="fill-background"
+                      stroke={node.missing || !node.reachable ? '#dc2626' : node.isStart ? '#16a34a' : '#94a3b8'}
+                      strokeWidth={node.isStart ? 2.5 : 1.5}
+                      strokeDasharray={node.missing || !node.reachable ? '5 3' : undefined}
+                    />
+                    {node.thumbnail && (
+                      <image href={node.thumbnail} x={node.x + 4} y={node.y + 4} width={NODE_WIDTH - 8} height={NODE_HEIGHT - 26} preserveAspectRatio="xMidYMid meet" />
+                    )}
+                    <text x={node.x + NODE_WIDTH / 2} y={node.y + NODE_HEIGHT - 8} textAnchor="middle" className="fill-foreground">
+                      {node.name.length > 18 ? `${node.name.slice(0, 17)}…` : node.name}
+                    </text>
+                    <title>
+                      {node.missing ? `${node.file} does not exist` : `${node.name}${node.isStart ? ' (starting map)' : ''}${node.reachable ? '' : ' — cannot be reached from the starting map'}`}
+                    </title>
+                  </g>
+                ))}
+
+                {edges.map(edge => edge && (
+                  <g
+                    key={edge.index}
+                    className="cursor-pointer"
+                    onClick={() => openLink(edge.link)}
+                    onMouseEnter={() => setHoveredLink(edge.index)}
+                    onMouseLeave={() => setHoveredLink(null)}
+                  >
+                    <path d={edge.path} fill="none" stroke="transparent" strokeWidth={10} />
+                    <path
+                      d={edge.path}
+                      fill="none"
+                      stroke={linkColor(edge.link)}
+                      strokeWidth={hoveredLink === edge.index ? 3 : 1.5}
+                      strokeDasharray={edge.link.kind === 'intermap' ? undefined : '6 3'}
+                      markerEnd={`url(#world-arrow-${linkColor(edge.link).slice(1)})`}
+                    />
+                    <text x={edge.labelX} y={edge.labelY} textAnchor="middle" fill={linkColor(edge.link)} className="select-none">
+                      {formatArrival(edge.link)}
+                    </text>
+                    <title>
+                      {`${edge.link.objectName} (${KIND_LABELS[edge.link.kind]}): ${nameOf(edge.link.from)} → ${nameOf(edge.link.to)} at ${formatArrival(edge.link)}`}
+                      {edge.link.broken ? ' — broken' : edge.link.oneWay ? ' — one-way' : ''}
+                    </title>
+                  </g>
+                ))}
+              </svg>
+            </div>
+
+            <div className="w-60 shrink-0 overflow-y-auto max-h-[65vh] space-y-4 text-sm">
+              {broken.length === 0 && oneWay.length === 0 && unresolved.length === 0 && unreachable.length === 0 && (
+                <p className="text-muted-foreground">Every link works and every map can be reached.</p>
+              )}
+              {broken.length > 0 && (
+                <section>
+                  <h4 className="text-xs font-semibold uppercase text-red-600 mb-1">Broken links ({broken.length})</h4>
+                  {broken.map(link => issueButton(link, links.indexOf(link)))}
+                </section>
+              )}
+              {oneWay.length > 0 && (
+                <section>
+                  <h4 className="text-xs font-semibold uppercase text-amber-600 mb-1">One-way exits ({oneWay.length})</h4>
+                  {oneWay.map(link => issueButton(link, links.indexOf(link)))}
+                </section>
+              )}
+              {unresolved.length > 0 && (
+                <section>
+                  <h4 className="text-xs font-semibold uppercase text-muted-foreground mb-1">Unread map lists ({unresolved.length})</h4>
+                  {unresolved.map(link => issueButton(link, links.indexOf(link)))}
+                </section>
+              )}
+              {unreachable.length > 0 && (
+                <section>
+                  <h4 className="text-xs font-semibold uppercase text-red-600 mb-1">Unreachable maps ({unreachable.length})</h4>
+                  {unreachable.map(node => <div key={node.file} className="px-1 py-0.5 truncate">{node.name}</div>)}
+                </section>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Solid links are intermap events, dashed ones random or dialogue teleports. Labels show the arrival cell.
+                Random teleports whose map list could not be read are not drawn.
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => void build()} disabled={isBuilding}>
+            <RefreshCw className="w-3 h-3 mr-2" />
+            Refresh
+          </Button>
+          <Button onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorldGraphDialog;
@@ -8,9 +8,83 @@
   StampTile,
   AssetRecord,
   ObjectInstance,
-  PaintMode
+  PaintMode,
+  FlareRenderLayerType
 } from '../types';
 import { TileDetector } from './tileDetection';
+import { parseFlareMapTxt, parseTilesetDefTiles, parseTilesetDefImages, measureTilesetGrid, type ParsedFlareMap, type ParsedTilesetDefImage, type ParsedTilesetDefTile } from './flareMapParser';
+import {
+  COLLISION_TILESET_IMAGE,
+  generateCollisionTilesetImage,
+  generateTmxMap,
+  generateTsx,
+  parseTmxMap,
+  type TmxExportTileset
+} from './tiledMapFormat';
+import {
+  FLARE_RENDER_LAYER_TYPES,
+  isFlareRenderLayerType,
+  isPrimaryLayerOfType,
+  getRenderLayerInsertIndex,
+  getRenderLayerSwapIndex,
+  getNewRenderLayerName,
+  canDeleteRenderLayer,
+  getFlareExportLayers
+} from './flareLayers';
+import { parseMapHeaderSettings, type MapHeaderSettings } from './mapHeader';
+import { computeMapImageLayout, type MapImageOptions } from './mapImage';
+import { getTileAnimationFrameIndex, type SerializedTileAnimation, type TileAnimationFrame } from './tileAnimation';
+import { tilesetImageName, type MapMerge } from './mapDiff';
+import { computeTerrainPaint, type SerializedTerrainTile, type TerrainCorners, type TerrainDefinition } from './terrainBrush';
+import { pickScatterTile, type ScatterSettings } from './scatterBrush';
+import {
+  cropRegion,
+  getMapClipboard,
+  getSelectionRect,
+  remapTilesetKey,
+  setMapClipboard,
+  type ClipboardLayer,
+  type MapClipboard
+} from './mapClipboard';
+import { getWallCells, type GeneratedMap, type GeneratorTiles } from './mapGenerator';
+import { COLLISION_TYPES, drawCollisionDiamond, toFlareCollisionValue } from './collisionTypes';
+import {
+  applyCollisionOverrides,
+  combineCollisionSources,
+  countCollisionOverrides,
+  emptyCollisionOverrides,
+  NO_COLLISION_OVERRIDE,
+  type CollisionRebuildState
+} from './collisionRebuild';
+import { shiftGrid, shiftIntermapTargets, shiftMapmods, shiftPointList, shiftSpawns } from './mapResize';
+import { sanitizeMapFileBase } from './mapSpawnUtils';
+import { getCenteredSymmetryAxis, getSymmetricCells, type SymmetryAxis, type SymmetryMode } from './symmetry';
+import { findOverlappingZones, getEnemyZones, getZoneReach, roundedRectOutline, threatensCell } from './enemyZones';
+import type { MapMod } from './mapmods';
+import { getPatrolSegments, parseWaypoints, serializeWaypoints, type Waypoint } from './npcWaypoints';
+import {
+  formatAreaRect,
+  getAreaHandles,
+  parseAreaRect,
+  resizeArea,
+  sameAreaRect,
+  type AreaRect,
+  type HandleEdges
+} from './eventAreaHandles';
+import {
+  buildFlareMapTxt,
+  buildFlareTilesetDef,
+  assignTilesetOffsets,
+  findTabsUsedByCells,
+  INTERNAL_TILESET_FILENAMES,
+  isInternalTilesetFile,
+  normalizeTilesetKey,
+  sortExportTilesets,
+  stampObjectLayer,
+  type FlareExportLayer,
+  type StampedObjectTile,
+  type TilesetDefRect
+} from './flareExport';
 
 interface LayerTilesetEntry {
   image: HTMLImageElement | null;
@@ -53,6 +127,14 @@ interface FlareExportOptions {
   mapName?: string;
 }
 
+// What generating a map took off its layers and where it moved the hero; undo puts it back, redo takes it away again
+interface GeneratedMapUndo {
+  spriteObjects: NonNullable<EditorProjectData['placedSpriteObjects']>;
+  objectInstances: ObjectInstance[];
+  heroBefore: { x: number; y: number };
+  heroAfter: { x: number; y: number };
+}
+
 export type SerializedDetectedTile = [number, {
   sourceX: number;
   sourceY: number;
@@ -92,9 +174,16 @@ export interface EditorProjectData {
   tilesetImages?: Record<string, string>;
   // Persist per-layer tab layout so each map can restore its own tab/palette state
   // Now includes per-tab painted data arrays to preserve painting data across tabs
-  layerTabs?: Record<string, Array<{ id: number; name?: string; data?: number[]; tileset?: SavedTilesetEntry; detectedTiles?: SerializedDetectedTile[] }>>;
+  layerTabs?: Record<string, Array<{ id: number; name?: string; data?: number[]; tileset?: SavedTilesetEntry; detectedTiles?: SerializedDetectedTile[]; animations?: SerializedTileAnimation[]; terrains?: TerrainDefinition[]; terrainTiles?: SerializedTerrainTile[]; tileCollisions?: Array<[number, number]> }>>;
   // Persist which tab id was active per layer type
   layerActiveTabId?: Record<string, number>;
+  // Per-cell tileset file names for additional render layers of a type (and shared-tab layers), keyed by layer id
+  layerCellTilesetKeys?: Record<string, Array<string | null>>;
+  // Layer types whose tabs all paint into the one primary layer (imported layers that mix tilesets)
+  sharedTabLayers?: string[];
+  // Hand-authored Flare [header] keys (music, parallax, fog of war, ...)
+  mapHeader?: MapHeaderSettings;
+  collisionRebuild?: CollisionRebuildState; // Hand-painted collision kept across "Rebuild collision"
   // Persist active layer selection for tab switching
   activeLayerId?: number | null;
   minimap?: string | null;
@@ -126,8 +215,10 @@ export interface EditorProjectData {
   paintMode?: PaintMode;  // Current paint mode (ground/object)
 }
 
-const INTERNAL_TILESET_FILENAMES = new Set<string>(['collision-tile.png', 'collision_tileset.png']);
 const COLLISION_LAYER_TYPE = 'collision';
+const EVENT_AREA_HANDLE_RADIUS = 4;
+
+export type EventAreaTarget = 'area' | 'hotspot';
 
 export class TileMapEditor {
   public isStartingMap: boolean = false;
@@ -173,12 +264,6 @@ export class TileMapEditor {
   public tilesetRows: number = 0;
   public tileCount: number = 0;
 
-  // Stub: load a Flare-format TXT into the editor.
-  // Implementing a full parser is optional; this stub exists to provide a typed
-  // entry point so the renderer can call the loader without using `any`.
-  // Parameters: the raw text contents of the .txt map file.
-  public loadFlareMapTxt?(txt: string): void;
-
   public getTileCount(): number {
     return this.tileCount;
   }
@@ -253,6 +338,11 @@ export class TileMapEditor {
     return [];
   }
 
+  /** Tile selected in a layer type's palette (0 when none). */
+  public getLayerActiveGid(layerType: string): number {
+    return this.layerActiveGid.get(layerType) || 0;
+  }
+
   // Get the active GID for the current layer
   private getCurrentLayerActiveGid(): number {
     const activeLayer = this.tileLayers.find(l => l.id === this.activeLayerId);
@@ -573,6 +663,7 @@ export class TileMapEditor {
   private mapWidth: number = 20;
   private mapHeight: number = 15;
   private mapName: string = 'Untitled Map';
+  private mapHeader: MapHeaderSettings = {};
   private currentProjectPath: string | null = null;
   private readonly tileSizeX: number = 64;
   private readonly tileSizeY: number = 32;
@@ -603,6 +694,7 @@ export class TileMapEditor {
   private static tilesetImageCache: Map<string, { image: HTMLImageElement; dataUrl: string }> = new Map();
   
   private collisionTilesetLoading: boolean = false;
+  private hiddenCollisionTypes: Set<number> = new Set();
   private collisionTooltipEl: HTMLDivElement | null = null;
   private collisionTooltipHideTimeout: number | null = null;
   
@@ -614,11 +706,51 @@ export class TileMapEditor {
     data?: number[]; // Painted tile data specific to this tab
     tileset?: LayerTilesetEntry;
     detectedTiles?: Map<number, { sourceX: number; sourceY: number; width: number; height: number; originX?: number; originY?: number }>;
+    animations?: Map<number, TileAnimationFrame[]>; // Tile animations keyed by gid
+    terrains?: TerrainDefinition[];                 // Terrains the tiles below refer to
+    terrainTiles?: Map<number, TerrainCorners>;     // Corner terrain of tagged tiles, keyed by gid
+    tileCollisions?: Map<number, number>;           // Default collision value of tiles, keyed by gid
     brushes?: Array<{ image: HTMLImageElement; fileName: string; width: number; height: number }>;
   }>> = new Map();
 
   // Active tab id per layer type
   private layerActiveTabId: Map<string, number> = new Map();
+
+  // Tile animations of all tabs by tileset file name, rebuilt on every drawTiles pass
+  private tileAnimationLookup: Map<string, Map<number, TileAnimationFrame[]>> = new Map();
+  private tileAnimationTime = 0;
+  private tileAnimationLoopActive = false;
+
+  // Cells outlined by the map comparison dialog
+  private mapDiffHighlight: Array<{ x: number; y: number }> | null = null;
+  private reachabilityShade: Array<{ x: number; y: number }> | null = null;
+  private showEnemyZones = false;
+
+  // Painting while an event records its map modifications; base holds the map without them
+  private mapmodRecording: {
+    base: Map<string, { data: number[]; keys: Array<string | null> }>;
+    historyIndex: number;
+    showBefore: boolean;
+    baseShown: boolean;    // True while withMapmodBase has the base swapped in
+  } | null = null;
+
+  // Content shift of resizes not saved yet; teleports from other maps into this one follow on save
+  private pendingIntermapShift: { x: number; y: number } | null = null;
+
+  // Patrol path of an NPC being edited on the canvas; onChange receives every new waypoints value
+  private waypointEdit: {
+    objectId: number;
+    points: Waypoint[];
+    dragIndex: number | null;
+    onChange: (waypoints: string) => void;
+  } | null = null;
+
+  // Event being edited in EventDialog; its area and hotspot previews get resize handles
+  private eventAreaResize: {
+    objectId: number | null;
+    onResize: (target: EventAreaTarget, rect: AreaRect) => void;
+  } | null = null;
+  private eventAreaDrag: { target: EventAreaTarget; edges: HandleEdges; startRect: AreaRect } | null = null;
   
   // Per-layer detected tile data
   private layerTileData: Map<string, Map<number, {
@@ -633,6 +765,8 @@ export class TileMapEditor {
   // Per-layer, per-cell tileset key (stores the tileset fileName used for each cell)
   // Key: layerType -> Array of length mapWidth*mapHeight with fileName or null
   private layerCellTilesetKey: Map<string, Array<string | null>> = new Map();
+  // Layer types whose tabs only switch the palette: the primary layer keeps every cell with its own tileset key
+  private sharedTabLayerTypes: Set<string> = new Set();
 
   // Per-layer active tile selection
   private layerActiveGid: Map<string, number> = new Map();
@@ -697,7 +831,26 @@ export class TileMapEditor {
 
   // Tool and interaction state
   private tool: Tool = 'tiles';
-  private currentTool: 'brush' | 'eraser' | 'bucket' = 'brush';
+  private currentTool: 'brush' | 'eraser' | 'bucket' | 'terrain' = 'brush';
+  // Terrain painted by the terrain brush, from the active tab's terrains
+  private activeTerrainId: number | null = null;
+  // Weighted tiles the brush and bucket pick from instead of the active gid
+  private scatterBrush: ScatterSettings | null = null;
+  // Cells already scattered in the current stroke, so dragging doesn't re-roll them
+  private scatterStrokeCells: Set<number> = new Set();
+  // Mirror painting; a null axis follows the map centre
+  private symmetryMode: SymmetryMode = 'off';
+  private symmetryAxis: SymmetryAxis | null = null;
+  private isMovingSymmetryAxis: boolean = false;
+  private symmetryChangeCallback: (() => void) | null = null;
+  // Open while a mirrored stroke is painted so the stroke is one undo entry. Painting a cell
+  // saves state before changing it, so the first save is kept; stamps save after placing,
+  // so each later save replaces the entry (savesAfterChange)
+  private historyBatch: { saved: boolean; savesAfterChange: boolean } | null = null;
+  // Clipboard region floating under the cursor until clicked into place
+  private pastePreview: MapClipboard | null = null;
+  private pasteNoticeCallback: ((message: string) => void) | null = null;
+  private intermapShiftCallback: ((projectPath: string, targetFile: string, dx: number, dy: number) => void) | null = null;
   private currentSelectionTool: 'rectangular' | 'multi-cell' | 'magic-wand' | 'same-tile' | 'circular' = 'rectangular';
   private currentShapeTool: 'rectangle' | 'circle' | 'line' = 'rectangle';
   private currentStampMode: 'select' | 'create' | 'place' = 'select';
@@ -764,7 +917,8 @@ export class TileMapEditor {
   private spacePressed: boolean = false;
 
   // History system for undo/redo
-  private history: Array<{ layers: TileLayer[], objects: MapObject[] }> = [];
+  private history: Array<{ layers: TileLayer[], objects: MapObject[], mapHeader?: MapHeaderSettings, collisionRebuild?: CollisionRebuildState | null, generation?: GeneratedMapUndo }> = [];
+  private collisionRebuild: CollisionRebuildState | null = null;
   private historyIndex: number = -1;
   private maxHistorySize: number = 50;
   private isApplyingHistory: boolean = false;
@@ -1361,7 +1515,7 @@ export class TileMapEditor {
     
     // Set the background layer as active by default
     this.activeLayerId = 8;
-    this.nextLayerId = 10;
+    this.nextLayerId = 11;
     this.sortLayersByPriority();
     // Initialize layer tabs for background and object with one tab each
     try {
@@ -1391,65 +1545,49 @@ export class TileMapEditor {
     }
   }
 
+  // The collision palette is drawn from COLLISION_TYPES, one tile per Flare
+  // value, so tile N paints collision value N in the overlay's colours
   private loadDefaultCollisionTileset(): void {
-    const candidates = Array.from(INTERNAL_TILESET_FILENAMES);
-    if (candidates.length === 0) {
-      return;
-    }
+    if (typeof document === 'undefined') return;
+    const canvas = document.createElement('canvas');
+    canvas.width = this.tileSizeX;
+    canvas.height = this.tileSizeY * COLLISION_TYPES.length;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    COLLISION_TYPES.forEach((type, row) => {
+      drawCollisionDiamond(ctx, this.tileSizeX / 2, (row + 0.5) * this.tileSizeY, this.tileSizeX / 2 - 1, this.tileSizeY / 2 - 1, type.value);
+    });
 
     const image = new Image();
+    image.onload = () => {
+      this.layerTilesets.set(COLLISION_LAYER_TYPE, {
+        image,
+        fileName: Array.from(INTERNAL_TILESET_FILENAMES)[0],
+        columns: 1,
+        rows: COLLISION_TYPES.length,
+        count: COLLISION_TYPES.length,
+        tileWidth: this.tileSizeX,
+        tileHeight: this.tileSizeY,
+        spacing: 0,
+        margin: 0,
+        sourcePath: null
+      });
 
-    const loadCandidate = (index: number): void => {
-      if (index >= candidates.length) {
-        this.collisionTilesetLoading = false;
-        return;
-      }
+      this.collisionTilesetLoading = false;
 
-      const candidateFile = candidates[index];
-      const resolvedPath = this.resolveInternalAssetPath(candidateFile);
-      if (!resolvedPath) {
-        loadCandidate(index + 1);
-        return;
+      // If collision layer is currently active, refresh the palette
+      if (this.getCurrentLayerType() === COLLISION_LAYER_TYPE) {
+        this.updateCurrentTileset(COLLISION_LAYER_TYPE);
+        this.refreshTilePalette(true);
+        this.draw();
       }
-
-      image.onload = () => {
-        const columns = Math.max(1, Math.floor(image.width / this.tileSizeX));
-        const rows = Math.max(1, Math.floor(image.height / this.tileSizeY));
-        const count = Math.max(1, columns * rows);
-
-        this.layerTilesets.set(COLLISION_LAYER_TYPE, {
-          image,
-          fileName: candidateFile,
-          columns,
-          rows,
-          count,
-          tileWidth: this.tileSizeX,
-          tileHeight: this.tileSizeY,
-          spacing: 0,
-          margin: 0,
-          sourcePath: resolvedPath
-        });
-
-        this.collisionTilesetLoading = false;
-
-        // If collision layer is currently active, refresh the palette
-        if (this.getCurrentLayerType() === COLLISION_LAYER_TYPE) {
-          this.updateCurrentTileset(COLLISION_LAYER_TYPE);
-          this.refreshTilePalette(true);
-          this.draw();
-        }
-      };
-
-      image.onerror = (_error) => {
-        void _error;
-        loadCandidate(index + 1);
-      };
-
-      this.collisionTilesetLoading = true;
-      image.src = resolvedPath;
+    };
+    image.onerror = () => {
+      this.collisionTilesetLoading = false;
     };
 
-    loadCandidate(0);
+    this.collisionTilesetLoading = true;
+    image.src = canvas.toDataURL('image/png');
   }
 
   private getDraggableActorAt(x: number, y: number): MapObject | null {
@@ -1507,6 +1645,7 @@ export class TileMapEditor {
     this.clickStartX = event.clientX;
     this.clickStartY = event.clientY;
     this.hasMovedSinceClick = false;
+    this.historyBatch = null;
 
     const rect = this.mapCanvas.getBoundingClientRect();
     const x = event.clientX - rect.left;
@@ -1545,8 +1684,37 @@ export class TileMapEditor {
     } else {
       // Normal tile editing or selection
       this.isMouseDown = true;
+
+      // Handles may sit past the map edge, so they are hit-tested before the tile lookup
+      const areaHandle = event.button === 0 && !this.pastePreview ? this.getEventAreaHandleAt(x, y) : null;
+      if (areaHandle) {
+        this.eventAreaDrag = areaHandle;
+        return;
+      }
+
       const tileCoords = this.screenToTile(x, y);
       if (tileCoords) {
+        // A floating paste lands on left click; any other button drops it
+        if (this.pastePreview) {
+          if (event.button === 0) this.commitPaste(tileCoords.x, tileCoords.y);
+          else this.pastePreview = null;
+          this.isMouseDown = false;
+          this.draw();
+          return;
+        }
+
+        if (this.waypointEdit) {
+          this.handleWaypointMouseDown(tileCoords.x, tileCoords.y, event.button === 2);
+          return;
+        }
+
+        // Alt+drag moves the symmetry axis
+        if (event.altKey && event.button === 0 && this.symmetryMode !== 'off') {
+          this.isMovingSymmetryAxis = true;
+          this.moveSymmetryAxisTo(tileCoords.x, tileCoords.y);
+          return;
+        }
+
         // Check if clicking on hero position
         if (this.isHeroAtPosition(tileCoords.x, tileCoords.y)) {
           this.isDraggingHero = true;
@@ -1722,6 +1890,9 @@ export class TileMapEditor {
         
         // Check if there's an object at hover position and update cursor
         this.updateCursorForHover();
+        if (this.eventAreaDrag || (!this.isMouseDown && this.getEventAreaHandleAt(x, y))) {
+          this.mapCanvas.style.cursor = 'pointer';
+        }
         
         // Update stamp preview position
         if (this.tool === 'stamp' && this.currentStampMode === 'place' && this.activeStamp) {
@@ -1731,7 +1902,13 @@ export class TileMapEditor {
         }
         
         if (this.isMouseDown && !this.spacePressed) {
-          if (this.isDraggingHero) {
+          if (this.isMovingSymmetryAxis) {
+            this.moveSymmetryAxisTo(tileCoords.x, tileCoords.y);
+          } else if (this.eventAreaDrag) {
+            this.dragEventAreaHandle(tileCoords.x, tileCoords.y);
+          } else if (this.waypointEdit) {
+            this.moveDraggedWaypoint(tileCoords.x, tileCoords.y);
+          } else if (this.isDraggingHero) {
             // Update hero position while dragging
             this.setHeroPosition(tileCoords.x, tileCoords.y);
           } else if (this.isDraggingActor) {
@@ -1742,7 +1919,7 @@ export class TileMapEditor {
             this.handleTileClick(tileCoords.x, tileCoords.y, false);
           } else if (this.tool === 'stamp' && this.currentStampMode === 'place' && this.activeStamp) {
             // Allow painting with stamp while dragging (make selection behave like a brush)
-            this.placeStamp(tileCoords.x, tileCoords.y);
+            this.placeStampSymmetric(tileCoords.x, tileCoords.y);
           } else if (this.isSelecting) {
             this.handleSelectionDrag(tileCoords.x, tileCoords.y);
           } else if (this.isDrawingShape) {
@@ -1757,12 +1934,32 @@ export class TileMapEditor {
 
   private handleMouseUp(): void {
     const wasClick = !this.hasMovedSinceClick;
+    this.scatterStrokeCells.clear();
+    this.historyBatch = null;
+
+    if (this.isMovingSymmetryAxis) {
+      this.isMovingSymmetryAxis = false;
+      this.isMouseDown = false;
+      return;
+    }
 
     if (this.isResizingMinimap) {
       this.isResizingMinimap = false;
       return;
     }
 
+    if (this.eventAreaDrag) {
+      this.finishEventAreaDrag();
+      this.isMouseDown = false;
+      return;
+    }
+
+    if (this.waypointEdit && this.isMouseDown) {
+      this.waypointEdit.dragIndex = null;
+      this.isMouseDown = false;
+      return;
+    }
+
     if (this.isSelecting) {
       this.handleSelectionEnd();
     } else if (this.isDrawingShape) {
@@ -1796,7 +1993,7 @@ export class TileMapEditor {
 
     if (wasClick && !this.isDraggingHero && !this.isDraggingActor && !this.isDraggingEvent) {
       const activeLayer = this.getActiveLayer();
-      const interactiveLayers = ['enemy', 'npc', 'object', 'event', 'background'];
+      const interactiveLayers = ['enemy', 'npc', 'event', ...FLARE_RENDER_LAYER_TYPES];
       
       if (activeLayer && interactiveLayers.includes(activeLayer.type) && this.hoverX >= 0 && this.hoverY >= 0) {
         const objectsAtPosition = this.getObjectsAtPosition(this.hoverX, this.hoverY);
@@ -1825,6 +2022,7 @@ export class TileMapEditor {
     this.draggingEventObjectId = null;
     this.isMinimapPanning = false;
     this.isResizingMinimap = false;
+    this.finishEventAreaDrag();
     this.draw();
   }
 
@@ -1938,6 +2136,16 @@ export class TileMapEditor {
           event.preventDefault();
           this.selectAll();
           break;
+        // Shift also copies the events, NPCs and enemies in the region
+        case 'KeyC':
+          if (this.copySelectionToClipboard(event.shiftKey)) event.preventDefault();
+          break;
+        case 'KeyX':
+          if (this.cutSelectionToClipboard(event.shiftKey)) event.preventDefault();
+          break;
+        case 'KeyV':
+          if (this.startPaste()) event.preventDefault();
+          break;
       }
     }
     
@@ -1950,6 +2158,7 @@ export class TileMapEditor {
         break;
       case 'Escape':
         event.preventDefault();
+        this.pastePreview = null;
         this.clearSelection();
         // Also cancel shape drawing if in progress
         if (this.isDrawingShape) {
@@ -1993,11 +2202,35 @@ export class TileMapEditor {
       this.handleSelectionStart(x, y, isRightClick);
     } else if (this.currentStampMode === 'place' && this.activeStamp) {
       // Place the active stamp
-      this.placeStamp(x, y);
+      this.placeStampSymmetric(x, y);
     }
   }
 
+  // Paint a cell and, with symmetry on, its mirror images; the whole stroke is one undo entry
   private handleTileClick(x: number, y: number, isRightClick: boolean): void {
+    if (this.symmetryMode === 'off') {
+      this.paintCell(x, y, isRightClick);
+      return;
+    }
+    if (!this.historyBatch) this.historyBatch = { saved: false, savesAfterChange: false };
+    for (const cell of this.getSymmetricCells(x, y)) {
+      this.paintCell(cell.x, cell.y, isRightClick);
+    }
+  }
+
+  private placeStampSymmetric(x: number, y: number): void {
+    if (this.symmetryMode === 'off') {
+      this.placeStamp(x, y);
+      return;
+    }
+    // Mirrors the anchor only: tiles keep their orientation since Flare can't flip them
+    if (!this.historyBatch) this.historyBatch = { saved: false, savesAfterChange: true };
+    for (const cell of this.getSymmetricCells(x, y)) {
+      this.placeStamp(cell.x, cell.y);
+    }
+  }
+
+  private paintCell(x: number, y: number, isRightClick: boolean): void {
     // Prevent editing while save is in progress
     if (this.isSaveLocked) {
       return;
@@ -2006,6 +2239,11 @@ export class TileMapEditor {
     if (this.activeLayerId !== null) {
       const layer = this.tileLayers.find(l => l.id === this.activeLayerId);
       if (layer) {
+        if (this.currentTool === 'terrain') {
+          this.handleTerrainPaint(layer, x, y, isRightClick);
+          return;
+        }
+
         const effectivePaintMode = this.getEffectivePaintModeForLayer(layer.type);
         const index = y * this.mapWidth + x;
         const currentValue = layer.data[index];
@@ -2038,6 +2276,15 @@ export class TileMapEditor {
           // Left-click behavior depends on current tool
           switch (this.currentTool) {
             case 'brush':
+              if (this.scatterBrush) {
+                if (!this.isInSelection(x, y) || this.scatterStrokeCells.has(index)) return;
+                this.scatterStrokeCells.add(index);
+                const picked = pickScatterTile(this.scatterBrush);
+                if (picked === null) return; // Left empty by the density setting
+                newValue = picked;
+                break;
+              }
+
               // Don't paint if no tile is selected (activeGid is 0)
               if (currentLayerActiveGid === 0 && this.multiSelectedBrushes.size === 0) {
                 console.warn(`[PAINT-BLOCKED] GID=0 for layer type="${layer.type}" activeLayerId=${this.activeLayerId} layerActiveGid=${JSON.stringify(Object.fromEntries(this.layerActiveGid))} activeGid=${this.activeGid}`);
@@ -2085,6 +2332,15 @@ export class TileMapEditor {
               }
               break;
             case 'bucket':
+              if (this.scatterBrush) {
+                this.saveState();
+                const scatter = this.scatterBrush;
+                this.bucketFill(layer, x, y, currentLayerActiveGid, () => pickScatterTile(scatter));
+                this.markAsChanged();
+                this.draw();
+                return;
+              }
+
               // Don't bucket fill if no tile is selected (activeGid is 0)
               if (currentLayerActiveGid === 0) {
                 return; // Exit early, don't paint anything
@@ -2138,30 +2394,8 @@ export class TileMapEditor {
             this.removeSpriteObjectAt(layer.type, x, y);
             
             layer.data[index] = newValue;
-            // Record which tileset (tab) this painted cell came from so tabs don't collide
-            try {
-              const layerType = layer.type;
-              let arr = this.layerCellTilesetKey.get(layerType);
-              if (!arr) {
-                arr = new Array(this.mapWidth * this.mapHeight).fill(null);
-                this.layerCellTilesetKey.set(layerType, arr);
-              }
-              // Determine current active tab tileset fileName if available
-              let tilesetFileName: string | null = null;
-              const activeTabId = this.layerActiveTabId.get(layerType);
-              const tabs = this.layerTabs.get(layerType) || [];
-              if (activeTabId) {
-                const tab = tabs.find(t => t.id === activeTabId);
-                if (tab && tab.tileset && tab.tileset.fileName) tilesetFileName = tab.tileset.fileName;
-              }
-              // Fallback to layer tileset or global tileset
-              if (!tilesetFileName) {
-                const lt = this.layerTilesets.get(layerType);
-                if (lt && lt.fileName) tilesetFileName = lt.fileName;
-              }
-              if (!tilesetFileName && this.tilesetFileName) tilesetFileName = this.tilesetFileName;
-              arr[index] = tilesetFileName;
-            } catch (_e) { void _e; }
+            this.recordCellTileset(layer, index);
+            this.recordCollisionOverride(layer, index);
             
             this.markAsChanged();
           }
@@ -2185,6 +2419,65 @@ export class TileMapEditor {
     }
   }
 
+  // Terrain brush: paint the active terrain (right click erases it) and pick
+  // the matching transition tiles around the cell
+  private handleTerrainPaint(layer: TileLayer, x: number, y: number, erase: boolean): void {
+    // Object layers place instances rather than tiles
+    if (this.getEffectivePaintModeForLayer(layer.type) === 'object') return;
+    if (!this.isInSelection(x, y)) return;
+
+    const tiles = this.getActiveLayerTab(layer.type)?.terrainTiles;
+    const terrain = erase ? null : this.getActiveTerrain(layer.type);
+    if (!tiles || tiles.size === 0 || (!erase && terrain === null)) return;
+
+    // Cells painted from another tileset are left alone
+    const tilesetFileName = this.getPaintingTilesetFileName(layer.type);
+    const cellKeys = this.layerCellTilesetKey.get(this.getCellTilesetKeyId(layer));
+    const changes = computeTerrainPaint({
+      width: this.mapWidth,
+      height: this.mapHeight,
+      getTile: (cx, cy) => {
+        const index = cy * this.mapWidth + cx;
+        const value = layer.data[index] || 0;
+        const key = cellKeys?.[index];
+        return value !== 0 && key && tilesetFileName && key !== tilesetFileName ? null : value;
+      }
+    }, tiles, x, y, terrain);
+    if (changes.length === 0) return;
+
+    this.saveState();
+    for (const change of changes) {
+      const index = change.y * this.mapWidth + change.x;
+      this.removeSpriteObjectAt(layer.type, change.x, change.y);
+      layer.data[index] = change.value;
+      this.recordCellTileset(layer, index);
+    }
+    this.markAsChanged();
+    this.draw();
+  }
+
+  // Tileset file name newly painted cells of a layer type come from: the active tab's, else the layer's or global one
+  private getPaintingTilesetFileName(layerType: string): string | null {
+    const tab = this.getActiveLayerTab(layerType);
+    if (tab && tab.tileset && tab.tileset.fileName) return tab.tileset.fileName;
+    const lt = this.layerTilesets.get(layerType);
+    if (lt && lt.fileName) return lt.fileName;
+    return this.tilesetFileName || null;
+  }
+
+  // Record which tileset (tab) a painted cell came from so tabs don't collide
+  private recordCellTileset(layer: TileLayer, index: number): void {
+    try {
+      const cellKeyId = this.getCellTilesetKeyId(layer);
+      let arr = this.layerCellTilesetKey.get(cellKeyId);
+      if (!arr) {
+        arr = new Array(this.mapWidth * this.mapHeight).fill(null);
+        this.layerCellTilesetKey.set(cellKeyId, arr);
+      }
+      arr[index] = this.getPaintingTilesetFileName(layer.type);
+    } catch (_e) { void _e; }
+  }
+
   // Selection event handlers
   private handleSelectionStart(x: number, y: number, isRightClick: boolean): void {
     if (isRightClick) {
@@ -2290,6 +2583,18 @@ export class TileMapEditor {
         break;
     }
 
+    if (this.symmetryMode !== 'off') {
+      const seen = new Set(this.shapeDrawing.preview.map(p => `${p.x},${p.y}`));
+      for (const point of [...this.shapeDrawing.preview]) {
+        for (const cell of this.getSymmetricCells(point.x, point.y)) {
+          const key = `${cell.x},${cell.y}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          this.shapeDrawing.preview.push(cell);
+        }
+      }
+    }
+
     this.draw(); // Update preview
   }
 
@@ -2309,6 +2614,7 @@ export class TileMapEditor {
       this.shapeDrawing.preview.forEach(point => {
         const index = point.y * this.mapWidth + point.x;
         layer.data[index] = currentLayerActiveGid;
+        this.recordCollisionOverride(layer, index);
       });
 
       this.markAsChanged();
@@ -2385,7 +2691,7 @@ export class TileMapEditor {
     this.drawGrid();
     
     // Draw tiles
-    this.drawTiles();
+    this.withMapmodView(() => this.drawTiles());
 
     // Draw hover
     if (this.hoverX >= 0 && this.hoverY >= 0) {
@@ -2405,12 +2711,16 @@ export class TileMapEditor {
     // Draw selection
     this.drawSelection();
     
+    this.drawEnemyZones();
+
     // Draw hero position marker
     this.drawHeroPosition();
 
     // Draw NPC/enemy placeholders when no tile assigned
     this.drawActorPlaceholders();
 
+    this.drawWaypointPath();
+
     // Draw events when event layer is active
     this.drawEvents();
 
@@ -2424,7 +2734,11 @@ export class TileMapEditor {
     this.drawActiveHotspotPreview();
 
     // Draw collision overlay last so collision borders are always on top.
-    this.drawCollisionOverlay();
+    this.withMapmodView(() => this.drawCollisionOverlay());
+
+    this.drawMapDiffHighlight();
+    this.drawReachabilityShade();
+    this.drawSymmetryAxis();
     
     // Restore context state
     this.ctx.restore();
@@ -2434,73 +2748,346 @@ export class TileMapEditor {
     
     // Draw stamp preview
     this.drawStampPreview();
+    this.drawPastePreview();
     
     // Draw debug info if enabled
     this.drawDebugInfo();
   }
 
-  private drawCollisionOverlay(): void {
-    const collisionLayer = this.tileLayers.find(l => l.type === COLLISION_LAYER_TYPE && l.visible);
+  private drawCollisionOverlay(includeHidden: boolean = false): void {
+    const collisionLayer = this.tileLayers.find(l => l.type === COLLISION_LAYER_TYPE && (l.visible || includeHidden));
     if (!collisionLayer) return;
 
     const halfTileX = (this.tileSizeX / 2) * this.zoom;
     const halfTileY = (this.tileSizeY / 2) * this.zoom;
 
-    this.ctx.save();
-    this.ctx.globalAlpha = 1;
-    this.ctx.lineWidth = Math.max(1, Math.min(2.5, 1.4 / this.zoom));
-
     for (let y = 0; y < this.mapHeight; y++) {
       for (let x = 0; x < this.mapWidth; x++) {
-        const index = y * this.mapWidth + x;
-        const gid = collisionLayer.data[index];
-        if (gid <= 0) continue;
-
+        const value = toFlareCollisionValue(collisionLayer.data[y * this.mapWidth + x]);
+        if (value <= 0 || this.hiddenCollisionTypes.has(value)) continue;
         const p = this.mapToScreen(x, y);
+        drawCollisionDiamond(this.ctx, p.x, p.y, halfTileX, halfTileY, value);
+      }
+    }
+  }
 
-        this.ctx.beginPath();
-        this.ctx.moveTo(p.x, p.y - halfTileY);
-        this.ctx.lineTo(p.x + halfTileX, p.y);
-        this.ctx.lineTo(p.x, p.y + halfTileY);
-        this.ctx.lineTo(p.x - halfTileX, p.y);
-        this.ctx.closePath();
+  /** Collision values left out of the overlay (the layer data is untouched). */
+  public setHiddenCollisionTypes(values: number[]): void {
+    this.hiddenCollisionTypes = new Set(values);
+    this.draw();
+  }
 
-        this.ctx.lineWidth = 2;
-        this.ctx.setLineDash([]);
-        this.ctx.globalAlpha = 1;
+  public getHiddenCollisionTypes(): number[] {
+    return Array.from(this.hiddenCollisionTypes);
+  }
 
-        switch (gid) {
-          case 1:
-            // full bold white stroke + 30% white fill overlay
-            this.ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
-            this.ctx.strokeStyle = 'rgba(255, 255, 255, 1)';
-            this.ctx.fill();
-            break;
-          case 2:
-            // full bold white dashed stroke + 30% white fill overlay
-            this.ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
-            this.ctx.strokeStyle = 'rgba(255, 255, 255, 1)';
-            this.ctx.setLineDash([6, 4]);
-            this.ctx.fill();
-            break;
-          case 3:
-            // half opacity bold white stroke
-            this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
-            break;
-          case 4:
-            // half opacity bold white dashed stroke
-            this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
-            this.ctx.setLineDash([6, 4]);
-            break;
-          default:
-            this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
-            break;
+  /**
+   * Rebuild the collision layer from the default collision of painted
+   * background and object tiles and of placed objects (object tiles win).
+   * Cells painted by hand are kept as overrides unless keepOverrides is
+   * false, which forgets them. Returns null when the map has no collision layer.
+   */
+  public rebuildCollision(keepOverrides: boolean = true): { changed: number; overrides: number } | null {
+    const collisionLayer = this.tileLayers.find(l => l.type === COLLISION_LAYER_TYPE);
+    if (!collisionLayer) return null;
+
+    const cellCount = this.mapWidth * this.mapHeight;
+    const inMap = (x: number, y: number) => x >= 0 && y >= 0 && x < this.mapWidth && y < this.mapHeight;
+    const sources: number[][] = [];
+    for (const layerType of ['background', 'object']) {
+      for (const layer of this.tileLayers.filter(l => l.type === layerType)) {
+        const keys = this.layerCellTilesetKey.get(this.getCellTilesetKeyId(layer));
+        sources.push(layer.data.map((gid, index) => this.getTileCollisionValue(layerType, keys?.[index], gid)));
+      }
+      const sprites = new Array<number>(cellCount).fill(0);
+      for (const sprite of this.placedSpriteObjects.get(layerType) ?? []) {
+        const value = this.getTileCollisionValue(layerType, sprite.tilesetKey, sprite.gid);
+        if (value > 0 && inMap(sprite.anchorX, sprite.anchorY)) sprites[sprite.anchorY * this.mapWidth + sprite.anchorX] = value;
+      }
+      sources.push(sprites);
+    }
+    const instances = new Array<number>(cellCount).fill(0);
+    for (const instance of this.objectInstances.values()) {
+      const asset = this.assetRecords.get(instance.assetRecordId);
+      if (!asset?.collisionType) continue;
+      const size = this.getCollisionFootprintSize(instance, asset);
+      for (let dy = 0; dy < size.height; dy++) {
+        for (let dx = 0; dx < size.width; dx++) {
+          const x = instance.gridX + dx;
+          const y = instance.gridY + dy;
+          if (inMap(x, y)) instances[y * this.mapWidth + x] = asset.collisionType;
         }
-
-        this.ctx.stroke();
       }
     }
+    sources.push(instances);
+
+    const overrides = keepOverrides && this.collisionRebuild?.overrides.length === cellCount
+      ? this.collisionRebuild.overrides
+      : emptyCollisionOverrides(cellCount);
+    const result = applyCollisionOverrides(combineCollisionSources(sources, cellCount), overrides);
+    const changed = result.filter((value, index) => value !== collisionLayer.data[index]).length;
+
+    collisionLayer.data = result;
+    this.collisionRebuild = keepOverrides ? this.collisionRebuild : null;
+    this.saveState();
+    this.markAsChanged(true);
+    this.draw();
+    return { changed, overrides: countCollisionOverrides(overrides) };
+  }
+
+  // Default collision of a tile, looked up in the tab whose tileset it was painted from
+  private getTileCollisionValue(layerType: string, tilesetKey: string | null | undefined, gid: number): number {
+    if (gid <= 0) return 0;
+    const key = this.normalizeTilesetKey(tilesetKey);
+    const tab = (key && (this.layerTabs.get(layerType) || []).find(t => this.normalizeTilesetKey(t.tileset?.fileName) === key))
+      || this.getActiveLayerTab(layerType);
+    return tab?.tileCollisions?.get(gid) ?? 0;
+  }
+
+  private copyCollisionRebuild(): CollisionRebuildState | null {
+    return this.collisionRebuild ? { overrides: [...this.collisionRebuild.overrides] } : null;
+  }
+
+  // A collision cell set by hand becomes an override that rebuilding keeps; cells painted into a mapmod recording are not map edits
+  private recordCollisionOverride(layer: TileLayer, index: number): void {
+    if (layer.type !== COLLISION_LAYER_TYPE || this.mapmodRecording) return;
+    const cellCount = this.mapWidth * this.mapHeight;
+    if (this.collisionRebuild?.overrides.length !== cellCount) {
+      this.collisionRebuild = { overrides: emptyCollisionOverrides(cellCount) };
+    }
+    this.collisionRebuild.overrides[index] = layer.data[index];
+  }
+
+  private drawMapDiffHighlight(): void {
+    if (!this.mapDiffHighlight) return;
+
+    const halfTileX = (this.tileSizeX / 2) * this.zoom;
+    const halfTileY = (this.tileSizeY / 2) * this.zoom;
+
+    this.ctx.save();
+    this.ctx.globalAlpha = 1;
+    this.ctx.setLineDash([]);
+    this.ctx.lineWidth = 2;
+    this.ctx.fillStyle = 'rgba(245, 158, 11, 0.3)';
+    this.ctx.strokeStyle = 'rgba(245, 158, 11, 1)';
+
+    for (const cell of this.mapDiffHighlight) {
+      if (cell.x >= this.mapWidth || cell.y >= this.mapHeight) continue;
+      const p = this.mapToScreen(cell.x, cell.y);
+      this.ctx.beginPath();
+      this.ctx.moveTo(p.x, p.y - halfTileY);
+      this.ctx.lineTo(p.x + halfTileX, p.y);
+      this.ctx.lineTo(p.x, p.y + halfTileY);
+      this.ctx.lineTo(p.x - halfTileX, p.y);
+      this.ctx.closePath();
+      this.ctx.fill();
+      this.ctx.stroke();
+    }
+
+    this.ctx.restore();
+  }
+
+  // Walkable cells the player cannot get to, from the reachability check
+  private drawReachabilityShade(): void {
+    if (!this.reachabilityShade) return;
+
+    const halfTileX = (this.tileSizeX / 2) * this.zoom;
+    const halfTileY = (this.tileSizeY / 2) * this.zoom;
+
+    this.ctx.save();
+    this.ctx.globalAlpha = 1;
+    this.ctx.fillStyle = 'rgba(190, 18, 60, 0.35)';
+
+    for (const cell of this.reachabilityShade) {
+      if (cell.x >= this.mapWidth || cell.y >= this.mapHeight) continue;
+      const p = this.mapToScreen(cell.x, cell.y);
+      this.ctx.beginPath();
+      this.ctx.moveTo(p.x, p.y - halfTileY);
+      this.ctx.lineTo(p.x + halfTileX, p.y);
+      this.ctx.lineTo(p.x, p.y + halfTileY);
+      this.ctx.lineTo(p.x - halfTileX, p.y);
+      this.ctx.closePath();
+      this.ctx.fill();
+    }
+
+    this.ctx.restore();
+  }
+
+  // Spawn area, wander radius and threat range of every enemy spawn. Where threat
+  // areas overlap is tinted; spawns that notice the hero at the hero spawn are red.
+  private drawEnemyZones(): void {
+    if (!this.showEnemyZones) return;
+    const zones = getEnemyZones(this.objects);
+    if (zones.length === 0) return;
+
+    const toPath = (points: Array<{ x: number; y: number }>): Path2D => {
+      const path = new Path2D();
+      points.forEach((point, index) => {
+        const p = this.mapToScreen(point.x, point.y);
+        if (index === 0) path.moveTo(p.x, p.y);
+        else path.lineTo(p.x, p.y);
+      });
+      path.closePath();
+      return path;
+    };
+    const threatPaths = new Map<number, Path2D>();
+    for (const zone of zones) threatPaths.set(zone.objectId, toPath(roundedRectOutline(zone.spawn, getZoneReach(zone, true))));
+    const heroThreatened = zones.some(zone => threatensCell(zone, this.heroX, this.heroY));
+
+    this.ctx.save();
+    this.ctx.globalAlpha = 1;
+    this.ctx.lineWidth = 1.5;
+
+    for (const zone of zones) {
+      const threatPath = threatPaths.get(zone.objectId)!;
+      const dangerous = threatensCell(zone, this.heroX, this.heroY);
+      this.ctx.setLineDash([]);
+      this.ctx.fillStyle = dangerous ? 'rgba(220, 38, 38, 0.25)' : 'rgba(239, 68, 68, 0.08)';
+      this.ctx.strokeStyle = dangerous ? 'rgba(220, 38, 38, 1)' : 'rgba(239, 68, 68, 0.7)';
+      this.ctx.fill(threatPath);
+      this.ctx.stroke(threatPath);
+    }
+
+    this.ctx.fillStyle = 'rgba(147, 51, 234, 0.3)';
+    for (const [first, second] of findOverlappingZones(zones)) {
+      this.ctx.save();
+      this.ctx.clip(threatPaths.get(first)!);
+      this.ctx.fill(threatPaths.get(second)!);
+      this.ctx.restore();
+    }
+
+    const fontSize = Math.max(10, 11 * this.zoom);
+    this.ctx.font = `${fontSize}px sans-serif`;
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    for (const zone of zones) {
+      if (zone.wanderRadius > 0) {
+        this.ctx.setLineDash([6, 4]);
+        this.ctx.strokeStyle = 'rgba(245, 158, 11, 0.9)';
+        this.ctx.stroke(toPath(roundedRectOutline(zone.spawn, zone.wanderRadius)));
+      }
+      const spawnPath = toPath(roundedRectOutline(zone.spawn, 0));
+      this.ctx.setLineDash([]);
+      this.ctx.fillStyle = 'rgba(245, 158, 11, 0.25)';
+      this.ctx.strokeStyle = 'rgba(217, 119, 6, 1)';
+      this.ctx.fill(spawnPath);
+      this.ctx.stroke(spawnPath);
+
+      const center = this.mapToScreen((zone.spawn.left + zone.spawn.right) / 2, (zone.spawn.top + zone.spawn.bottom) / 2);
+      const text = `${zone.count}× ${zone.label}`;
+      this.ctx.lineWidth = 3;
+      this.ctx.strokeStyle = 'rgba(0, 0, 0, 0.7)';
+      this.ctx.strokeText(text, center.x, center.y);
+      this.ctx.fillStyle = '#ffffff';
+      this.ctx.fillText(text, center.x, center.y);
+      this.ctx.lineWidth = 1.5;
+    }
+
+    if (heroThreatened) {
+      // Danger ring around the hero spawn
+      const p = this.mapToScreen(this.heroX, this.heroY);
+      const ringHalfX = this.tileSizeX * this.zoom;
+      const ringHalfY = this.tileSizeY * this.zoom;
+      this.ctx.beginPath();
+      this.ctx.moveTo(p.x, p.y - ringHalfY);
+      this.ctx.lineTo(p.x + ringHalfX, p.y);
+      this.ctx.lineTo(p.x, p.y + ringHalfY);
+      this.ctx.lineTo(p.x - ringHalfX, p.y);
+      this.ctx.closePath();
+      this.ctx.setLineDash([4, 3]);
+      this.ctx.lineWidth = 3;
+      this.ctx.strokeStyle = 'rgba(220, 38, 38, 1)';
+      this.ctx.stroke();
+    }
+
+    this.ctx.restore();
+  }
+
+  // Numbered patrol path of the NPC whose waypoints are being edited; blocked segments are red
+  private drawWaypointPath(): void {
+    const edit = this.waypointEdit;
+    const npc = edit ? this.objects.find(obj => obj.id === edit.objectId) : undefined;
+    if (!edit || !npc) return;
+
+    const collision = this.getPrimaryLayerOfType(COLLISION_LAYER_TYPE)?.data ?? [];
+    const segments = getPatrolSegments({ x: npc.x, y: npc.y }, edit.points, this.mapWidth, this.mapHeight, collision);
+    const radius = Math.max(7, 8 * this.zoom);
+
+    this.ctx.save();
+    this.ctx.globalAlpha = 1;
+    this.ctx.lineWidth = 2;
+    for (const segment of segments) {
+      const from = this.mapToScreen(segment.from.x, segment.from.y);
+      const to = this.mapToScreen(segment.to.x, segment.to.y);
+      const length = Math.hypot(to.x - from.x, to.y - from.y);
+      if (length <= radius * 2) continue;
+      const ux = (to.x - from.x) / length;
+      const uy = (to.y - from.y) / length;
+      const tipX = to.x - ux * radius;
+      const tipY = to.y - uy * radius;
+      const color = segment.blocked ? 'rgba(220, 38, 38, 1)' : 'rgba(14, 165, 233, 1)';
+
+      this.ctx.setLineDash(segment.blocked ? [6, 4] : []);
+      this.ctx.strokeStyle = color;
+      this.ctx.beginPath();
+      this.ctx.moveTo(from.x + ux * radius, from.y + uy * radius);
+      this.ctx.lineTo(tipX, tipY);
+      this.ctx.stroke();
+
+      const head = radius * 0.9;
+      this.ctx.setLineDash([]);
+      this.ctx.fillStyle = color;
+      this.ctx.beginPath();
+      this.ctx.moveTo(tipX, tipY);
+      this.ctx.lineTo(tipX - ux * head - uy * head * 0.5, tipY - uy * head + ux * head * 0.5);
+      this.ctx.lineTo(tipX - ux * head + uy * head * 0.5, tipY - uy * head - ux * head * 0.5);
+      this.ctx.closePath();
+      this.ctx.fill();
+    }
+
+    this.ctx.font = `bold ${Math.round(radius * 1.2)}px sans-serif`;
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    edit.points.forEach((point, index) => {
+      const p = this.mapToScreen(point.x, point.y);
+      const blocked = segments.some(segment => segment.toIndex === index && segment.blocked);
+      this.ctx.beginPath();
+      this.ctx.arc(p.x, p.y, radius, 0, Math.PI * 2);
+      this.ctx.fillStyle = blocked ? 'rgba(220, 38, 38, 1)' : 'rgba(2, 132, 199, 1)';
+      this.ctx.fill();
+      this.ctx.lineWidth = index === edit.dragIndex ? 3 : 1.5;
+      this.ctx.strokeStyle = '#ffffff';
+      this.ctx.stroke();
+      this.ctx.fillStyle = '#ffffff';
+      this.ctx.fillText(String(index + 1), p.x, p.y + 0.5);
+    });
+    this.ctx.restore();
+  }
+
+  // Dashed line through the cell edges or centres the symmetry axis runs along
+  private drawSymmetryAxis(): void {
+    if (this.symmetryMode === 'off') return;
+
+    const axis = this.getSymmetryAxis();
+    const lines: Array<[{ x: number; y: number }, { x: number; y: number }]> = [];
+    if (this.symmetryMode === 'horizontal' || this.symmetryMode === 'both') {
+      lines.push([this.mapToScreen(axis.x, -0.5), this.mapToScreen(axis.x, this.mapHeight - 0.5)]);
+    }
+    if (this.symmetryMode === 'vertical' || this.symmetryMode === 'both') {
+      lines.push([this.mapToScreen(-0.5, axis.y), this.mapToScreen(this.mapWidth - 0.5, axis.y)]);
+    }
 
+    this.ctx.save();
+    this.ctx.globalAlpha = 1;
+    this.ctx.lineWidth = 2;
+    this.ctx.setLineDash([8, 6]);
+    this.ctx.strokeStyle = 'rgba(236, 72, 153, 0.9)';
+    for (const [from, to] of lines) {
+      this.ctx.beginPath();
+      this.ctx.moveTo(from.x, from.y);
+      this.ctx.lineTo(to.x, to.y);
+      this.ctx.stroke();
+    }
     this.ctx.restore();
   }
 
@@ -2958,6 +3545,8 @@ export class TileMapEditor {
   }
 
   private drawTiles(): void {
+    this.rebuildTileAnimationLookup();
+
     // Render layers in reverse priority order so higher priority layers appear on top
     // Background (priority 6) renders first, collision (priority 4) renders later and appears on top
     const layersReversed = [...this.tileLayers].reverse();
@@ -2974,6 +3563,11 @@ export class TileMapEditor {
       transparency: number;
       sortKey: number; // For Y-sorting (isoX + isoY)
     }> = [];
+
+    // Render layers stacked above the topmost object layer (foreground, roofs) are
+    // drawn after the Y-sorted objects so they overhang them
+    const topObjectLayerIndex = this.tileLayers.findIndex(l => l.type === 'object');
+    const overlayDraws: Array<() => void> = [];
     
     for (const layer of layersReversed) {
       if (!layer.visible) continue;
@@ -2981,6 +3575,10 @@ export class TileMapEditor {
       
       // Check if this is an explicit object layer
       const isObjectLayer = this.objectLayerTypes.includes(layer.type);
+      const isOverlayLayer = !isObjectLayer &&
+        isFlareRenderLayerType(layer.type) &&
+        this.tileLayers.indexOf(layer) < topObjectLayerIndex;
+      const cellKeyArr = this.layerCellTilesetKey.get(this.getCellTilesetKeyId(layer));
       
       // Get the default tileset for this layer type (used as a fallback)
       const layerTilesetFallback = this.getLayerTilesetOrFallback(layer.type) || { image: null, fileName: null, columns: 1, rows: 1, count: 1 };
@@ -2996,6 +3594,15 @@ export class TileMapEditor {
         }
       }
 
+      // Cell keys are plain file names when imported and tab keys when painted after a reload
+      const tabsByTilesetKey = new Map<string, typeof tabs[number]>();
+      for (const tab of tabs) {
+        if (!tab.tileset?.fileName) continue;
+        tabsByTilesetKey.set(tab.tileset.fileName, tab);
+        const normalizedKey = this.normalizeTilesetKey(tab.tileset.fileName);
+        if (normalizedKey && !tabsByTilesetKey.has(normalizedKey)) tabsByTilesetKey.set(normalizedKey, tab);
+      }
+
       // Set layer transparency
       this.ctx.globalAlpha = layer.transparency || 1.0;
 
@@ -3006,8 +3613,7 @@ export class TileMapEditor {
           if (gid <= 0) continue;
 
           // Determine per-cell tileset key if any (fileName stored when painting)
-          const keyArr = this.layerCellTilesetKey.get(layer.type);
-          const cellTilesetKey = keyArr ? keyArr[index] : null;
+          const cellTilesetKey = cellKeyArr ? cellKeyArr[index] : null;
 
           // Resolve tileset info for this specific cell
           let tilesetForCell = layerTilesetFallback;
@@ -3015,7 +3621,7 @@ export class TileMapEditor {
           let layerTileDataForCell = this.layerTileData.get(layer.type) || activeTabDetectedTiles || new Map();
 
           if (cellTilesetKey) {
-            const tab = tabs.find(t => t.tileset && t.tileset.fileName === cellTilesetKey);
+            const tab = tabsByTilesetKey.get(cellTilesetKey) ?? tabsByTilesetKey.get(this.normalizeTilesetKey(cellTilesetKey) ?? '');
             if (tab && tab.tileset) {
               tilesetForCell = {
                 image: tab.tileset.image ?? null,
@@ -3061,7 +3667,19 @@ export class TileMapEditor {
           // 3. Ground-sized sprites on non-object layers -> render as tile
           const shouldRenderAsObject = isObjectLayer || this.isTallSprite(spriteWidth, spriteHeight);
 
-          if (shouldRenderAsObject) {
+          if (isOverlayLayer) {
+            const alpha = layer.transparency || 1.0;
+            const drawTileset = tilesetForCell;
+            const drawTileData = layerTileDataForCell;
+            overlayDraws.push(() => {
+              this.ctx.globalAlpha = alpha;
+              if (shouldRenderAsObject) {
+                this.drawObjectSprite(x, y, gid, drawTileset, drawTileData);
+              } else {
+                this.drawGroundTile(x, y, gid, drawTileset, drawTileData);
+              }
+            });
+          } else if (shouldRenderAsObject) {
             // Collect for Y-sorted object rendering
             // Sort key: x + y gives depth order in isometric view (further = rendered first)
             objectsToRender.push({
@@ -3082,7 +3700,7 @@ export class TileMapEditor {
       }
       
       // Also render sprite objects for this layer from placedSpriteObjects
-      const spriteObjects = this.placedSpriteObjects.get(layer.type);
+      const spriteObjects = this.isPrimaryLayer(layer) ? this.placedSpriteObjects.get(layer.type) : undefined;
       if (spriteObjects && spriteObjects.length > 0) {
         const hasInstanceOnLayer = this.getObjectInstancesByLayer(layer.id.toString()).length > 0;
         if (!hasInstanceOnLayer) {
@@ -3180,7 +3798,11 @@ export class TileMapEditor {
       this.ctx.globalAlpha = obj.transparency;
       this.drawObjectSprite(obj.x, obj.y, obj.gid, obj.tileset, obj.tileData);
     }
-    
+
+    for (const drawOverlay of overlayDraws) {
+      drawOverlay();
+    }
+    
     // Reset alpha for other drawing operations
     this.ctx.globalAlpha = 1.0;
   }
@@ -3218,6 +3840,12 @@ export class TileMapEditor {
       tileHeight = this.tileSizeY;
     }
 
+    const animationFrame = this.getTileAnimationFrame(layerTileset.fileName, gid);
+    if (animationFrame) {
+      sourceX = animationFrame.sourceX;
+      sourceY = animationFrame.sourceY;
+    }
+
     // If restored detected-tile metadata is stale/corrupt (out-of-bounds source rect),
     // fall back to grid slicing so painted data still renders on the main canvas.
     const imgW = layerTileset.image.naturalWidth || layerTileset.image.width;
@@ -3260,6 +3888,61 @@ export class TileMapEditor {
     );
   }
 
+  private rebuildTileAnimationLookup(): void {
+    this.tileAnimationLookup.clear();
+    this.tileAnimationTime = performance.now();
+    for (const tabs of this.layerTabs.values()) {
+      for (const tab of tabs) {
+        const fileName = tab.tileset?.fileName;
+        if (fileName && tab.animations && tab.animations.size > 0) {
+          this.tileAnimationLookup.set(fileName, tab.animations);
+        }
+      }
+    }
+    if (this.tileAnimationLookup.size > 0) {
+      this.startTileAnimationLoop();
+    }
+  }
+
+  private getTileAnimationFrame(fileName: string | null, gid: number): TileAnimationFrame | null {
+    if (!fileName) return null;
+    const frames = this.tileAnimationLookup.get(fileName)?.get(gid);
+    if (!frames || frames.length === 0) return null;
+    return frames[getTileAnimationFrameIndex(frames, this.tileAnimationTime)];
+  }
+
+  private getTileAnimationFrameKey(time: number): string {
+    const parts: number[] = [];
+    for (const animations of this.tileAnimationLookup.values()) {
+      for (const frames of animations.values()) {
+        parts.push(getTileAnimationFrameIndex(frames, time));
+      }
+    }
+    return parts.join(',');
+  }
+
+  // Redraws only when some animated tile changes frame. Stops once no animations
+  // are left or the canvas was removed (editors are replaced, not disposed).
+  private startTileAnimationLoop(): void {
+    if (this.tileAnimationLoopActive) return;
+    this.tileAnimationLoopActive = true;
+    let lastKey = this.getTileAnimationFrameKey(this.tileAnimationTime);
+
+    const tick = () => {
+      if (this.tileAnimationLookup.size === 0 || !this.mapCanvas.isConnected) {
+        this.tileAnimationLoopActive = false;
+        return;
+      }
+      const key = this.getTileAnimationFrameKey(performance.now());
+      if (key !== lastKey) {
+        lastKey = key;
+        this.draw();
+      }
+      requestAnimationFrame(tick);
+    };
+    requestAnimationFrame(tick);
+  }
+
   /**
    * Draw an object sprite with bottom-center anchoring (no clipping).
    * Objects can be larger than tiles and should be positioned so their
@@ -3296,6 +3979,12 @@ export class TileMapEditor {
       spriteHeight = this.tileSizeY;
     }
 
+    const animationFrame = this.getTileAnimationFrame(layerTileset.fileName, gid);
+    if (animationFrame) {
+      sourceX = animationFrame.sourceX;
+      sourceY = animationFrame.sourceY;
+    }
+
     // Same safety guard as ground tiles: if source rect is invalid, recover using grid slicing.
     const imgW = layerTileset.image.naturalWidth || layerTileset.image.width;
     const imgH = layerTileset.image.naturalHeight || layerTileset.image.height;
@@ -3409,7 +4098,7 @@ export class TileMapEditor {
     
     // Check if we're hovering over an object on an interactive layer
     const activeLayer = this.getActiveLayer();
-    const interactiveLayers = ['enemy', 'npc', 'object', 'event', 'background'];
+    const interactiveLayers = ['enemy', 'npc', 'event', ...FLARE_RENDER_LAYER_TYPES];
     const hasObjectAtPosition = activeLayer && 
                                interactiveLayers.includes(activeLayer.type) && 
                                this.getObjectsAtPosition(this.hoverX, this.hoverY).length > 0;
@@ -3808,6 +4497,8 @@ export class TileMapEditor {
     this.ctx.stroke();
 
     this.ctx.restore();
+
+    if (this.eventAreaResize) this.drawEventAreaHandles(this.activeEventPreview, 'rgba(255, 140, 0, 0.9)');
   }
 
   private drawActiveHotspotPreview(): void {
@@ -3861,6 +4552,22 @@ export class TileMapEditor {
     this.ctx.stroke();
 
     this.ctx.restore();
+
+    if (this.eventAreaResize) this.drawEventAreaHandles(this.activeHotspotPreview, 'rgba(219, 39, 119, 0.9)');
+  }
+
+  private drawEventAreaHandles(rect: AreaRect, color: string): void {
+    const size = EVENT_AREA_HANDLE_RADIUS;
+    this.ctx.save();
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.strokeStyle = color;
+    this.ctx.lineWidth = 2;
+    for (const handle of getAreaHandles(rect)) {
+      const pos = this.mapToScreen(handle.x, handle.y);
+      this.ctx.fillRect(pos.x - size, pos.y - size, size * 2, size * 2);
+      this.ctx.strokeRect(pos.x - size, pos.y - size, size * 2, size * 2);
+    }
+    this.ctx.restore();
   }
 
   private drawShapePreview(): void {
@@ -5546,26 +6253,86 @@ export class TileMapEditor {
     });
   }
 
-  public resizeMap(width: number, height: number): void {
+  /**
+   * Resize the map, moving the old (0, 0) to (offsetX, offsetY). Tiles,
+   * objects, sprites, instances and the hero move along; whatever ends up
+   * outside the new bounds is dropped and a hero outside is moved to the
+   * nearest cell (see getResizeCropSummary). Teleports from other maps follow
+   * the next time the map is saved.
+   */
+  public resizeMap(width: number, height: number, offsetX: number = 0, offsetY: number = 0): void {
     const oldWidth = this.mapWidth;
     const oldHeight = this.mapHeight;
+    const inMap = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height;
     this.mapWidth = width;
     this.mapHeight = height;
     
     // Resize layer data — tiles outside the new bounds are dropped (filled with 0)
     for (const layer of this.tileLayers) {
-      const newData = new Array(width * height).fill(0);
-      for (let y = 0; y < Math.min(height, oldHeight); y++) {
-        for (let x = 0; x < Math.min(width, oldWidth); x++) {
-          const oldIndex = y * oldWidth + x;
-          const newIndex = y * width + x;
-          if (oldIndex < layer.data.length) {
-            newData[newIndex] = layer.data[oldIndex];
-          }
+      layer.data = shiftGrid(layer.data, oldWidth, oldHeight, width, height, offsetX, offsetY, 0);
+    }
+    for (const [key, cellKeys] of Array.from(this.layerCellTilesetKey.entries())) {
+      this.layerCellTilesetKey.set(key, shiftGrid(cellKeys, oldWidth, oldHeight, width, height, offsetX, offsetY, null));
+    }
+    this.collisionData = new Array(width * height).fill(0);
+    if (this.collisionRebuild) {
+      this.collisionRebuild = {
+        overrides: shiftGrid(this.collisionRebuild.overrides, oldWidth, oldHeight, width, height, offsetX, offsetY, NO_COLLISION_OVERRIDE)
+      };
+    }
+
+    if (offsetX !== 0 || offsetY !== 0) {
+      this.pendingIntermapShift = {
+        x: (this.pendingIntermapShift?.x ?? 0) + offsetX,
+        y: (this.pendingIntermapShift?.y ?? 0) + offsetY
+      };
+      // Coordinates in event properties (repeated keys hold one value per line), and teleports into this same map
+      const selfTarget = `maps/${sanitizeMapFileBase(this.mapName)}.txt`;
+      const shiftProperty = (value: string | string[] | undefined, shift: (v: string, dx: number, dy: number) => string) =>
+        Array.isArray(value) ? value.map(v => shift(v, offsetX, offsetY)) : typeof value === 'string' ? shift(value, offsetX, offsetY) : value;
+      this.objects = shiftIntermapTargets(this.objects, selfTarget, offsetX, offsetY).objects.map(obj => {
+        const properties = { ...obj.properties };
+        const shifters: Array<[string, (v: string, dx: number, dy: number) => string]> = [
+          ['location', shiftPointList],
+          ['waypoints', shiftPointList],
+          ['mapmod', shiftMapmods],
+          ['spawn', shiftSpawns]
+        ];
+        // A hotspot of "location" follows the location by itself
+        if (properties.hotspot !== 'location') shifters.push(['hotspot', shiftPointList]);
+        for (const [key, shift] of shifters) {
+          const value = shiftProperty(properties[key], shift);
+          if (value !== undefined) properties[key] = value;
         }
-      }
-      layer.data = newData;
+        return {
+          ...obj,
+          x: obj.x + offsetX,
+          y: obj.y + offsetY,
+          properties,
+          mapmod: obj.mapmod ? shiftMapmods(obj.mapmod, offsetX, offsetY) : obj.mapmod
+        };
+      });
+    }
+    const objectCount = this.objects.length;
+    this.objects = this.objects.filter(obj => inMap(obj.x, obj.y));
+
+    for (const [layerType, sprites] of this.placedSpriteObjects.entries()) {
+      this.placedSpriteObjects.set(layerType, sprites
+        .map(sprite => ({ ...sprite, anchorX: sprite.anchorX + offsetX, anchorY: sprite.anchorY + offsetY }))
+        .filter(sprite => inMap(sprite.anchorX, sprite.anchorY)));
+    }
+    for (const instance of Array.from(this.objectInstances.values())) {
+      instance.gridX += offsetX;
+      instance.gridY += offsetY;
+      if (!inMap(instance.gridX, instance.gridY)) this.objectInstances.delete(instance.id);
     }
+    this.rebuildObjectInstanceSpatialIndex();
+
+    this.heroX = Math.max(0, Math.min(this.heroX + offsetX, width - 1));
+    this.heroY = Math.max(0, Math.min(this.heroY + offsetY, height - 1));
+    this.symmetryAxis = null;
+    this.clearSelection();
+    if (offsetX !== 0 || offsetY !== 0 || this.objects.length !== objectCount) this.notifyObjectsChanged();
     
     this.draw();
 
@@ -5573,17 +6340,39 @@ export class TileMapEditor {
     this.markAsChanged(true);
   }
 
-  public addLayer(name: string, type: 'background' | 'object' | 'collision' | 'event' | 'enemy' | 'npc'): boolean {
-    // Check if layer type already exists
+  /** What resizeMap would drop with the same arguments, to warn before resizing. */
+  public getResizeCropSummary(width: number, height: number, offsetX: number = 0, offsetY: number = 0): { tiles: number; objects: number; placedObjects: number; hero: boolean } {
+    const outside = (x: number, y: number) =>
+      x + offsetX < 0 || y + offsetY < 0 || x + offsetX >= width || y + offsetY >= height;
+
+    let tiles = 0;
+    for (const layer of this.tileLayers) {
+      for (let y = 0; y < this.mapHeight; y++) {
+        for (let x = 0; x < this.mapWidth; x++) {
+          if (layer.data[y * this.mapWidth + x] > 0 && outside(x, y)) tiles++;
+        }
+      }
+    }
+    const objects = this.objects.filter(obj => outside(obj.x, obj.y)).length;
+    let placedObjects = this.getAllObjectInstances().filter(inst => outside(inst.gridX, inst.gridY)).length;
+    for (const sprites of this.placedSpriteObjects.values()) {
+      placedObjects += sprites.filter(sprite => outside(sprite.anchorX, sprite.anchorY)).length;
+    }
+    return { tiles, objects, placedObjects, hero: outside(this.heroX, this.heroY) };
+  }
+
+  public addLayer(name: string, type: TileLayer['type']): boolean {
+    // Render layers may repeat; every other layer type exists at most once
+    const isRenderLayer = isFlareRenderLayerType(type);
     const existingLayer = this.tileLayers.find(layer => layer.type === type);
-    if (existingLayer) {
+    if (existingLayer && !isRenderLayer) {
       return false; // Layer type already exists
     }
 
     // Save state before adding layer
     this.saveState();
 
-    const newLayer = {
+    const newLayer: TileLayer = {
       id: this.nextLayerId++,
       name: name,
       type: type,
@@ -5592,9 +6381,19 @@ export class TileMapEditor {
       transparency: 1.0 // Default to fully opaque
     };
     
-    // Add layer and sort by type priority
-    this.tileLayers.push(newLayer);
-    this.sortLayersByPriority();
+    if (isRenderLayer) {
+      // Keep the user's render layer order; slot the new layer in above its type
+      this.tileLayers.splice(getRenderLayerInsertIndex(this.tileLayers, type), 0, newLayer);
+    } else {
+      // Add layer and sort by type priority
+      this.tileLayers.push(newLayer);
+      this.sortLayersByPriority();
+    }
+    this.layerCellTilesetKey.set(this.getCellTilesetKeyId(newLayer), new Array(this.mapWidth * this.mapHeight).fill(null));
+    if (isRenderLayer && !existingLayer && !this.layerTabs.has(type)) {
+      const tabId = this.createLayerTab(type);
+      this.setActiveLayerTab(type, tabId);
+    }
     this.activeLayerId = newLayer.id;
     this.draw();
 
@@ -5613,8 +6412,10 @@ export class TileMapEditor {
       'enemy': 4,
       'event': 5,
       'collision': 6,
-      'object': 7,
-      'background': 8
+      'foreground': 7,
+      'object': 8,
+      'fringe': 9,
+      'background': 10
     };
 
     this.tileLayers.sort((a, b) => {
@@ -5629,10 +6430,24 @@ export class TileMapEditor {
     
     const layerIndex = this.tileLayers.findIndex(l => l.id === layerId);
     if (layerIndex !== -1) {
+      const layer = this.tileLayers[layerIndex];
+      if (isFlareRenderLayerType(layer.type) && !canDeleteRenderLayer(this.tileLayers, layerId)) {
+        return false; // Primary layer still owns the tabs of other layers of its type
+      }
+
       // Save state before deleting layer
       this.saveState();
       
+      const cellKeyId = this.getCellTilesetKeyId(layer);
       this.tileLayers.splice(layerIndex, 1);
+      this.layerCellTilesetKey.delete(cellKeyId);
+      if (isFlareRenderLayerType(layer.type) && cellKeyId === layer.type) {
+        // Last layer of an optional type: drop its tabs so a re-added layer starts clean
+        this.layerTabs.delete(layer.type);
+        this.layerActiveTabId.delete(layer.type);
+        this.layerTilesets.delete(layer.type);
+        this.layerTileData.delete(layer.type);
+      }
       
       // Set active layer to the first available layer
       if (this.activeLayerId === layerId) {
@@ -5648,6 +6463,46 @@ export class TileMapEditor {
     return false; // Layer not found
   }
 
+  /**
+   * Move a render layer one step up or down the stack, swapping it with the
+   * next render layer in that direction.
+   */
+  public moveLayer(layerId: number, direction: 'up' | 'down'): boolean {
+    const index = this.tileLayers.findIndex(l => l.id === layerId);
+    const swapIndex = getRenderLayerSwapIndex(this.tileLayers, layerId, direction);
+    if (index === -1 || swapIndex === -1) {
+      return false;
+    }
+
+    this.saveState();
+    const layer = this.tileLayers[index];
+    this.tileLayers[index] = this.tileLayers[swapIndex];
+    this.tileLayers[swapIndex] = layer;
+    this.draw();
+    this.markAsChanged(true);
+    return true;
+  }
+
+  // The first layer of a type (lowest id) is the one the type's tabs swap data into
+  private getPrimaryLayerOfType(layerType: string): TileLayer | undefined {
+    let primary: TileLayer | undefined;
+    for (const layer of this.tileLayers) {
+      if (layer.type === layerType && (!primary || layer.id < primary.id)) {
+        primary = layer;
+      }
+    }
+    return primary;
+  }
+
+  private isPrimaryLayer(layer: TileLayer): boolean {
+    return isPrimaryLayerOfType(this.tileLayers, layer);
+  }
+
+  // Per-cell tileset keys are stored by layer type for primary layers and per layer id otherwise
+  private getCellTilesetKeyId(layer: TileLayer): string {
+    return this.isPrimaryLayer(layer) ? layer.type : `${layer.type}#${layer.id}`;
+  }
+
   public setActiveLayer(layerId: number): void {
     this.activeLayerId = layerId;
     
@@ -5703,6 +6558,482 @@ export class TileMapEditor {
     return this.mapName;
   }
 
+  public getMapHeaderSettings(): MapHeaderSettings {
+    return { ...this.mapHeader };
+  }
+
+  public setMapHeaderSettings(settings: MapHeaderSettings): void {
+    this.mapHeader = { ...settings };
+    this.saveState();
+    this.markAsChanged(true);
+  }
+
+  /**
+   * Apply differences picked from another map (see mapDiff.ts) as one undo step.
+   * Returns the tilesets merged tiles come from that this map does not have;
+   * nothing is merged then, as those tiles would draw the wrong image.
+   */
+  public applyMapMerge(merge: MapMerge): string[] {
+    const missingTilesets = new Set<string>();
+    const cells = merge.cells.flatMap(cell => {
+      const layer = this.tileLayers.find(l => l.id === cell.layerId);
+      if (!layer || cell.x >= this.mapWidth || cell.y >= this.mapHeight) return [];
+      // Tiles keep the tileset they come from; those the other map can't tell fall back to the layer's tileset
+      const name = cell.value !== 0 && cell.tileset ? tilesetImageName(cell.tileset) : null;
+      const tilesetKey = name ? this.getTilesetFileNames(layer.type).find(key => tilesetImageName(key) === name) ?? null : null;
+      if (name && !tilesetKey) missingTilesets.add(name);
+      return [{ layer, index: cell.y * this.mapWidth + cell.x, value: cell.value, tilesetKey }];
+    });
+    if (missingTilesets.size > 0) return Array.from(missingTilesets);
+
+    for (const { layer, index, value, tilesetKey } of cells) {
+      layer.data[index] = value;
+      const keyId = this.getCellTilesetKeyId(layer);
+      let keys = this.layerCellTilesetKey.get(keyId);
+      if (!keys) {
+        keys = new Array(this.mapWidth * this.mapHeight).fill(null);
+        this.layerCellTilesetKey.set(keyId, keys);
+      }
+      keys[index] = tilesetKey;
+    }
+
+    for (const { id, object } of merge.objects) {
+      const index = this.objects.findIndex(o => o.id === id);
+      if (!object) {
+        if (index >= 0) this.objects.splice(index, 1);
+      } else if (index >= 0) {
+        this.objects[index] = object;
+      } else {
+        this.objects.push(object);
+      }
+    }
+    if (merge.objects.length > 0) {
+      this.nextObjectId = this.calculateNextObjectId(this.objects);
+      this.notifyObjectsChanged();
+    }
+
+    for (const { key, value } of merge.header) {
+      if (value === undefined) {
+        delete this.mapHeader[key];
+      } else {
+        (this.mapHeader as Record<string, unknown>)[key] = value;
+      }
+    }
+
+    this.saveState();
+    this.draw();
+    return [];
+  }
+
+  /**
+   * Paint a generated layout over the whole map: floor tiles on the floor
+   * layer, wall tiles around the floor on the wall layer, walls everywhere off
+   * the floor on the collision layer. Moves the hero to the spawn and adds the
+   * suggested enemy areas as enemy objects. Undo reverts the whole generation.
+   */
+  public applyGeneratedMap(
+    generated: GeneratedMap,
+    tiles: GeneratorTiles
+  ): boolean {
+    if (generated.width !== this.mapWidth || generated.height !== this.mapHeight) return false;
+    const floorLayer = this.tileLayers.find(l => l.type === tiles.floorLayerType);
+    const wallLayer = this.tileLayers.find(l => l.type === tiles.wallLayerType);
+    const collisionLayer = this.tileLayers.find(l => l.type === COLLISION_LAYER_TYPE);
+    const walls = getWallCells(generated.floor, generated.width, generated.height);
+    const removed: GeneratedMapUndo = {
+      spriteObjects: {},
+      objectInstances: [],
+      heroBefore: { x: this.heroX, y: this.heroY },
+      heroAfter: { ...generated.heroSpawn }
+    };
+
+    const paint = (layer: TileLayer | undefined, valueAt: (index: number) => number, recordTileset: boolean) => {
+      if (!layer) return;
+      const keys = this.layerCellTilesetKey.get(this.getCellTilesetKeyId(layer));
+      for (let index = 0; index < layer.data.length; index++) {
+        layer.data[index] = valueAt(index);
+        if (recordTileset && layer.data[index] > 0) this.recordCellTileset(layer, index);
+        else if (keys) keys[index] = null;
+      }
+      this.removeSpriteObjectsOnLayer(layer.type, removed);
+    };
+    paint(floorLayer, index => (generated.floor[index] ? tiles.floorGid : 0), true);
+    if (wallLayer !== floorLayer) paint(wallLayer, index => (walls[index] ? tiles.wallGid : 0), true);
+    else if (wallLayer) {
+      walls.forEach((isWall, index) => {
+        if (!isWall) return;
+        wallLayer.data[index] = tiles.wallGid;
+        this.recordCellTileset(wallLayer, index);
+      });
+    }
+    paint(collisionLayer, index => (generated.floor[index] ? 0 : 1), false);
+
+    this.heroX = generated.heroSpawn.x;
+    this.heroY = generated.heroSpawn.y;
+    generated.enemyAreas.forEach((area, i) => {
+      this.objects.push({
+        id: this.nextObjectId++,
+        name: `Enemy area ${i + 1}`,
+        type: 'enemy',
+        x: area.x,
+        y: area.y,
+        width: area.width,
+        height: area.height,
+        properties: {},
+        category: 'enemy',
+        level: 1,
+        number: Math.max(1, Math.floor((area.width * area.height) / 12)),
+        wander_radius: 4
+      });
+    });
+    if (generated.enemyAreas.length > 0) this.notifyObjectsChanged();
+
+    this.clearSelection();
+    this.saveState();
+    // History states hold no sprites, instances or hero, so the generation entry carries them
+    if (this.history[this.historyIndex]) this.history[this.historyIndex].generation = removed;
+    this.markAsChanged(true);
+    this.draw();
+    return true;
+  }
+
+  private removeSpriteObjectsOnLayer(layerType: string, removed: GeneratedMapUndo): void {
+    const sprites = this.placedSpriteObjects.get(layerType);
+    if (sprites) {
+      if (sprites.length > 0) removed.spriteObjects[layerType] = sprites;
+      this.placedSpriteObjects.set(layerType, []);
+    }
+    for (const layer of this.tileLayers.filter(l => l.type === layerType)) {
+      for (const instance of this.getObjectInstancesByLayer(String(layer.id))) {
+        removed.objectInstances.push(instance);
+        this.removeObjectInstance(instance.id);
+      }
+    }
+  }
+
+  // Undoing a generation puts back what it removed and the hero; redoing it removes them again
+  private applyGeneratedMapUndo(generation: GeneratedMapUndo, undone: boolean): void {
+    for (const [layerType, sprites] of Object.entries(generation.spriteObjects)) {
+      const ids = new Set(sprites.map(sprite => sprite.id));
+      const kept = (this.placedSpriteObjects.get(layerType) ?? []).filter(sprite => !ids.has(sprite.id));
+      this.placedSpriteObjects.set(layerType, undone ? [...kept, ...sprites] : kept);
+    }
+    for (const instance of generation.objectInstances) {
+      this.removeObjectInstance(instance.id);
+      if (undone) {
+        this.objectInstances.set(instance.id, instance);
+        this.indexObjectInstance(instance);
+      }
+    }
+    const hero = undone ? generation.heroBefore : generation.heroAfter;
+    this.heroX = hero.x;
+    this.heroY = hero.y;
+    this.draw();
+  }
+
+  /** Outline cells on the map, e.g. the changed cells of a map comparison; null clears. */
+  public setMapDiffHighlight(cells: Array<{ x: number; y: number }> | null): void {
+    this.mapDiffHighlight = cells && cells.length > 0 ? cells : null;
+    this.draw();
+  }
+
+  public setReachabilityShade(cells: Array<{ x: number; y: number }> | null): void {
+    this.reachabilityShade = cells && cells.length > 0 ? cells : null;
+    this.draw();
+  }
+
+  // Layers an event's map modifications can change: the primary layer of each render type and collision
+  private getMapmodLayers(): TileLayer[] {
+    return [...FLARE_RENDER_LAYER_TYPES, COLLISION_LAYER_TYPE]
+      .map(type => this.getPrimaryLayerOfType(type))
+      .filter((layer): layer is TileLayer => Boolean(layer));
+  }
+
+  private getCellKeys(layer: TileLayer): Array<string | null> {
+    const keyId = this.getCellTilesetKeyId(layer);
+    let keys = this.layerCellTilesetKey.get(keyId);
+    if (!keys) {
+      keys = new Array(this.mapWidth * this.mapHeight).fill(null);
+      this.layerCellTilesetKey.set(keyId, keys);
+    }
+    return keys;
+  }
+
+  // Runs a draw step on the map without the recorded modifications when "before" is shown
+  private withMapmodView(drawStep: () => void): void {
+    if (this.mapmodRecording?.showBefore) {
+      this.withMapmodBase(drawStep);
+    } else {
+      drawStep();
+    }
+  }
+
+  // Runs a step on the map without the recorded modifications, so saves and exports never contain them
+  private withMapmodBase<T>(step: () => T): T {
+    const recording = this.mapmodRecording;
+    if (!recording || recording.baseShown) return step();
+
+    const swapped: Array<{ layer: TileLayer; data: number[]; keys: Array<string | null> }> = [];
+    for (const layer of this.getMapmodLayers()) {
+      const base = recording.base.get(layer.type);
+      if (!base) continue;
+      swapped.push({ layer, data: layer.data, keys: this.getCellKeys(layer) });
+      layer.data = [...base.data];
+      this.layerCellTilesetKey.set(this.getCellTilesetKeyId(layer), [...base.keys]);
+    }
+    recording.baseShown = true;
+    try {
+      return step();
+    } finally {
+      recording.baseShown = false;
+      for (const { layer, data, keys } of swapped) {
+        layer.data = data;
+        this.layerCellTilesetKey.set(this.getCellTilesetKeyId(layer), keys);
+      }
+    }
+  }
+
+  /**
+   * Start recording map modifications: the given modifications are shown on
+   * the map and everything painted from now on is recorded instead of
+   * changing the map. endMapmodRecording returns the result.
+   */
+  public beginMapmodRecording(mods: MapMod[]): void {
+    if (this.mapmodRecording) this.endMapmodRecording(false);
+
+    const base = new Map<string, { data: number[]; keys: Array<string | null> }>();
+    for (const layer of this.getMapmodLayers()) {
+      base.set(layer.type, { data: [...layer.data], keys: [...this.getCellKeys(layer)] });
+    }
+    this.mapmodRecording = { base, historyIndex: this.historyIndex, showBefore: false, baseShown: false };
+
+    for (const mod of mods) {
+      const layer = this.getPrimaryLayerOfType(mod.layer);
+      if (!layer || !base.has(layer.type) || mod.x < 0 || mod.y < 0 || mod.x >= this.mapWidth || mod.y >= this.mapHeight) continue;
+      const index = mod.y * this.mapWidth + mod.x;
+      layer.data[index] = mod.value;
+      this.getCellKeys(layer)[index] = mod.tilesetKey;
+    }
+    this.draw();
+  }
+
+  /**
+   * Stop recording and put the map back as it was. Returns the recorded
+   * modifications (cells that differ from the map), or null when discarded.
+   * Strokes made while recording leave the undo history.
+   */
+  public endMapmodRecording(keep: boolean = true): MapMod[] | null {
+    const recording = this.mapmodRecording;
+    if (!recording) return null;
+
+    const mods: MapMod[] = [];
+    for (const layer of this.getMapmodLayers()) {
+      const base = recording.base.get(layer.type);
+      if (!base) continue;
+      const keys = this.getCellKeys(layer);
+      const isCollision = layer.type === COLLISION_LAYER_TYPE;
+      for (let index = 0; index < layer.data.length && index < base.data.length; index++) {
+        const value = layer.data[index] ?? 0;
+        if (value === base.data[index]) continue;
+        mods.push({
+          layer: layer.type,
+          x: index % this.mapWidth,
+          y: Math.floor(index / this.mapWidth),
+          value,
+          tilesetKey: isCollision || value === 0 ? null : keys[index] ?? null
+        });
+      }
+      layer.data = [...base.data];
+      this.layerCellTilesetKey.set(this.getCellTilesetKeyId(layer), [...base.keys]);
+    }
+
+    this.history = this.history.slice(0, recording.historyIndex + 1);
+    this.historyIndex = Math.min(recording.historyIndex, this.history.length - 1);
+    this.mapmodRecording = null;
+    if (this.undoStateChangeCallback) this.undoStateChangeCallback();
+    this.draw();
+    return keep ? mods : null;
+  }
+
+  public isRecordingMapmods(): boolean {
+    return this.mapmodRecording !== null;
+  }
+
+  /** While recording, show the map without (true) or with (false) the recorded modifications. */
+  public setMapmodShowBefore(showBefore: boolean): void {
+    if (!this.mapmodRecording) return;
+    this.mapmodRecording.showBefore = showBefore;
+    this.draw();
+  }
+
+  /**
+   * Edit the patrol path of an NPC on the canvas: left clicks add waypoints or
+   * pick one up to drag, right clicks delete them. Every change is passed to
+   * onChange as a waypoints value; the NPC itself is not modified.
+   */
+  public beginWaypointEdit(objectId: number, waypoints: string, onChange: (waypoints: string) => void): void {
+    this.waypointEdit = { objectId, points: parseWaypoints(waypoints), dragIndex: null, onChange };
+    this.draw();
+  }
+
+  public endWaypointEdit(): void {
+    if (!this.waypointEdit) return;
+    this.waypointEdit = null;
+    this.draw();
+  }
+
+  public getWaypointEditObjectId(): number | null {
+    return this.waypointEdit?.objectId ?? null;
+  }
+
+  /**
+   * Show resize handles on the event area and hotspot previews. Dragging one
+   * passes the resized rectangle to onResize while the mouse moves; on release
+   * the placed event objectId (if any) is updated so the edit can be undone.
+   */
+  public setEventAreaResize(objectId: number | null, onResize: ((target: EventAreaTarget, rect: AreaRect) => void) | null): void {
+    this.eventAreaResize = onResize ? { objectId, onResize } : null;
+    this.eventAreaDrag = null;
+    this.draw();
+  }
+
+  private getEventAreaHandleAt(screenX: number, screenY: number): { target: EventAreaTarget; edges: HandleEdges; startRect: AreaRect } | null {
+    if (!this.eventAreaResize) return null;
+    // The hotspot is drawn on top, so its handles win where both overlap
+    const targets: Array<[EventAreaTarget, AreaRect | null]> = [['hotspot', this.activeHotspotPreview], ['area', this.activeEventPreview]];
+    const reach = EVENT_AREA_HANDLE_RADIUS + 2;
+    for (const [target, rect] of targets) {
+      if (!rect) continue;
+      for (const handle of getAreaHandles(rect)) {
+        const pos = this.mapToScreen(handle.x, handle.y);
+        if (Math.abs(pos.x - screenX) <= reach && Math.abs(pos.y - screenY) <= reach) {
+          return { target, edges: handle.edges, startRect: { ...rect } };
+        }
+      }
+    }
+    return null;
+  }
+
+  private dragEventAreaHandle(x: number, y: number): void {
+    const drag = this.eventAreaDrag;
+    if (!drag || !this.eventAreaResize) return;
+    const current = drag.target === 'area' ? this.activeEventPreview : this.activeHotspotPreview;
+    const rect = resizeArea(drag.startRect, drag.edges, x, y, this.mapWidth, this.mapHeight);
+    if (sameAreaRect(rect, current)) return;
+    if (drag.target === 'area') this.activeEventPreview = rect;
+    else this.activeHotspotPreview = rect;
+    this.eventAreaResize.onResize(drag.target, rect);
+  }
+
+  private finishEventAreaDrag(): void {
+    const drag = this.eventAreaDrag;
+    this.eventAreaDrag = null;
+    const objectId = this.eventAreaResize?.objectId;
+    if (!drag || objectId == null) return;
+    const rect = drag.target === 'area' ? this.activeEventPreview : this.activeHotspotPreview;
+    const obj = this.objects.find(o => o.id === objectId);
+    if (!rect || !obj || sameAreaRect(rect, drag.startRect)) return;
+    const properties = { ...obj.properties };
+    if (drag.target === 'hotspot') {
+      properties.hotspot = formatAreaRect(rect);
+      this.updateMapObject(obj.id, { properties });
+      return;
+    }
+    if (properties.location) properties.location = formatAreaRect(rect);
+    this.updateMapObject(obj.id, { ...rect, properties });
+  }
+
+  private getEventAreaRects(): { area: AreaRect; hotspot: AreaRect | null } | null {
+    const objectId = this.eventAreaResize?.objectId;
+    const obj = objectId != null ? this.objects.find(o => o.id === objectId) : undefined;
+    if (!obj) return null;
+    return {
+      area: { x: obj.x, y: obj.y, width: obj.width, height: obj.height },
+      hotspot: parseAreaRect(obj.properties?.hotspot)
+    };
+  }
+
+  private handleWaypointMouseDown(x: number, y: number, remove: boolean): void {
+    const edit = this.waypointEdit;
+    if (!edit) return;
+    let index = -1;
+    edit.points.forEach((point, i) => { if (point.x === x && point.y === y) index = i; });
+    if (remove) {
+      if (index < 0) return;
+      edit.points.splice(index, 1);
+    } else if (index >= 0) {
+      edit.dragIndex = index;
+      this.draw();
+      return;
+    } else {
+      edit.points.push({ x, y });
+      edit.dragIndex = edit.points.length - 1;
+    }
+    edit.onChange(serializeWaypoints(edit.points));
+    this.draw();
+  }
+
+  private moveDraggedWaypoint(x: number, y: number): void {
+    const edit = this.waypointEdit;
+    if (!edit || edit.dragIndex === null) return;
+    const point = edit.points[edit.dragIndex];
+    if (!point || (point.x === x && point.y === y)) return;
+    edit.points[edit.dragIndex] = { x, y };
+    edit.onChange(serializeWaypoints(edit.points));
+  }
+
+  public setShowEnemyZones(show: boolean): void {
+    this.showEnemyZones = show;
+    this.draw();
+  }
+
+  public getShowEnemyZones(): boolean {
+    return this.showEnemyZones;
+  }
+
+  public setSymmetryMode(mode: SymmetryMode): void {
+    this.symmetryMode = mode;
+    this.draw();
+    this.symmetryChangeCallback?.();
+  }
+
+  public getSymmetry(): { mode: SymmetryMode; axis: SymmetryAxis } {
+    return { mode: this.symmetryMode, axis: this.getSymmetryAxis() };
+  }
+
+  /** Axis position in cells (.5 = between two cells); null follows the map centre. */
+  public setSymmetryAxis(axis: SymmetryAxis | null): void {
+    this.symmetryAxis = axis
+      ? {
+          x: Math.max(0, Math.min(this.mapWidth - 1, Math.round(axis.x * 2) / 2)),
+          y: Math.max(0, Math.min(this.mapHeight - 1, Math.round(axis.y * 2) / 2))
+        }
+      : null;
+    this.draw();
+    this.symmetryChangeCallback?.();
+  }
+
+  public setSymmetryChangeCallback(callback: (() => void) | null): void {
+    this.symmetryChangeCallback = callback;
+  }
+
+  private getSymmetryAxis(): SymmetryAxis {
+    return this.symmetryAxis ?? getCenteredSymmetryAxis(this.mapWidth, this.mapHeight);
+  }
+
+  private getSymmetricCells(x: number, y: number): Array<{ x: number; y: number }> {
+    return getSymmetricCells(x, y, this.symmetryMode, this.getSymmetryAxis(), this.mapWidth, this.mapHeight);
+  }
+
+  // Alt+drag: the axes follow the hovered cell
+  private moveSymmetryAxisTo(x: number, y: number): void {
+    const axis = this.getSymmetryAxis();
+    this.setSymmetryAxis({
+      x: this.symmetryMode === 'vertical' ? axis.x : x,
+      y: this.symmetryMode === 'horizontal' ? axis.y : y
+    });
+  }
+
   public setMapSize(width: number, height: number): void {
     this.mapWidth = width;
     this.mapHeight = height;
@@ -5719,7 +7050,7 @@ export class TileMapEditor {
 
     // Re-initialize per-layer cell tileset key arrays for the new dimensions
     for (const l of this.tileLayers) {
-      this.layerCellTilesetKey.set(l.type, new Array(width * height).fill(null));
+      this.layerCellTilesetKey.set(this.getCellTilesetKeyId(l), new Array(width * height).fill(null));
     }
     
     this.draw();
@@ -5769,7 +7100,7 @@ export class TileMapEditor {
     }
   }
 
-  public changeLayerType(layerId: number, newType: 'background' | 'object' | 'collision' | 'event' | 'enemy' | 'npc', newName: string): boolean {
+  public changeLayerType(layerId: number, newType: FlareRenderLayerType | 'collision' | 'event' | 'enemy' | 'npc', newName: string): boolean {
     const layer = this.tileLayers.find(l => l.id === layerId);
     if (layer) {
       layer.type = newType;
@@ -5780,7 +7111,7 @@ export class TileMapEditor {
     return false;
   }
 
-  public setLayerType(layerId: number, newType: 'background' | 'object' | 'collision' | 'event' | 'enemy' | 'npc'): void {
+  public setLayerType(layerId: number, newType: FlareRenderLayerType | 'collision' | 'event' | 'enemy' | 'npc'): void {
     const layer = this.tileLayers.find(l => l.id === layerId);
     if (layer) {
       layer.type = newType;
@@ -5825,12 +7156,12 @@ export class TileMapEditor {
   }
 
   // Tool management methods
-  public setCurrentTool(tool: 'brush' | 'eraser' | 'bucket'): void {
+  public setCurrentTool(tool: 'brush' | 'eraser' | 'bucket' | 'terrain'): void {
     this.currentTool = tool;
     this.tool = 'tiles'; // Set main tool mode to tiles for brush tools
   }
 
-  public getCurrentTool(): 'brush' | 'eraser' | 'bucket' {
+  public getCurrentTool(): 'brush' | 'eraser' | 'bucket' | 'terrain' {
     return this.currentTool;
   }
 
@@ -6113,7 +7444,7 @@ export class TileMapEditor {
     if (!activeLayer) return;
     
     // Check if this is an object layer that should use sprite-based rendering
-    const isObjectLayer = this.objectLayerTypes.includes(activeLayer.type) || activeLayer.type === 'background';
+    const isObjectLayer = this.objectLayerTypes.includes(activeLayer.type) || isFlareRenderLayerType(activeLayer.type);
 
     // Calculate the bounding box of the stamp in map coordinates to clamp placement
     // so all tiles fit within the map bounds
@@ -6329,12 +7660,13 @@ export class TileMapEditor {
             }
 
             targetLayer.data[targetIndex] = stampTile.tileId;
+            this.recordCollisionOverride(targetLayer, targetIndex);
             try {
-              const lType = targetLayer.type;
-              let arr = this.layerCellTilesetKey.get(lType);
+              const cellKeyId = this.getCellTilesetKeyId(targetLayer);
+              let arr = this.layerCellTilesetKey.get(cellKeyId);
               if (!arr) {
                 arr = new Array(this.mapWidth * this.mapHeight).fill(null);
-                this.layerCellTilesetKey.set(lType, arr);
+                this.layerCellTilesetKey.set(cellKeyId, arr);
               }
               arr[targetIndex] = tilesetFileName;
             } catch (_e) { void _e; }
@@ -6460,15 +7792,17 @@ export class TileMapEditor {
         }
 
         layer.data[index] = t.tileId;
+        this.recordCollisionOverride(layer, index);
         console.log(`    [VERIFY] after set: layer.data[${index}] = ${layer.data[index]}`);
 
         // Record which tileset (tab) this painted cell came from so tabs don't collide
         try {
           const layerType = layer.type;
-          let arr = this.layerCellTilesetKey.get(layerType);
+          const cellKeyId = this.getCellTilesetKeyId(layer);
+          let arr = this.layerCellTilesetKey.get(cellKeyId);
           if (!arr) {
             arr = new Array(this.mapWidth * this.mapHeight).fill(null);
-            this.layerCellTilesetKey.set(layerType, arr);
+            this.layerCellTilesetKey.set(cellKeyId, arr);
           }
           // Determine current active tab tileset fileName if available
           let tilesetFileName: string | null = null;
@@ -6555,6 +7889,7 @@ export class TileMapEditor {
     this.selection.tiles.forEach(tile => {
       const index = tile.y * this.mapWidth + tile.x;
       layer.data[index] = 0;
+      this.recordCollisionOverride(layer, index);
     });
 
     this.clearSelection();
@@ -6574,18 +7909,293 @@ export class TileMapEditor {
     this.selection.tiles.forEach(tile => {
       const index = tile.y * this.mapWidth + tile.x;
       layer.data[index] = this.activeGid;
+      this.recordCollisionOverride(layer, index);
     });
 
     this.markAsChanged();
     this.draw();
   }
 
+  /**
+   * Copy the selection's bounding rectangle on every layer, with the sprite
+   * objects anchored in it and, with includeObjects, its events, NPCs and enemies.
+   */
+  public copySelectionToClipboard(includeObjects: boolean = false): boolean {
+    const rect = getSelectionRect(this.selection.active ? this.selection.tiles : []);
+    if (!rect) return false;
+    const inRect = (x: number, y: number) =>
+      x >= rect.x && y >= rect.y && x < rect.x + rect.width && y < rect.y + rect.height;
+    const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+    const ordinals = new Map<string, number>();
+    const layers: ClipboardLayer[] = this.tileLayers.map(layer => {
+      const ordinal = ordinals.get(layer.type) ?? 0;
+      ordinals.set(layer.type, ordinal + 1);
+      return {
+        type: layer.type,
+        ordinal,
+        data: cropRegion(layer.data, this.mapWidth, rect, 0),
+        tilesetKeys: cropRegion(this.layerCellTilesetKey.get(this.getCellTilesetKeyId(layer)) || [], this.mapWidth, rect, null)
+      };
+    });
+
+    const sprites: MapClipboard['sprites'] = [];
+    for (const [layerType, objs] of this.placedSpriteObjects.entries()) {
+      for (const obj of objs) {
+        if (!inRect(obj.anchorX, obj.anchorY)) continue;
+        sprites.push({
+          x: obj.anchorX - rect.x,
+          y: obj.anchorY - rect.y,
+          gid: obj.gid,
+          tilesetKey: obj.tilesetKey,
+          layerType,
+          width: obj.width,
+          height: obj.height,
+          sourceX: obj.sourceX,
+          sourceY: obj.sourceY
+        });
+      }
+    }
+
+    const instances = this.getAllObjectInstances()
+      .filter(inst => inRect(inst.gridX, inst.gridY))
+      .map(inst => ({
+        instance: { ...clone(inst), gridX: inst.gridX - rect.x, gridY: inst.gridY - rect.y },
+        asset: clone(this.getAssetRecord(inst.assetRecordId) ?? null),
+        layerType: this.tileLayers.find(l => String(l.id) === inst.layerId)?.type ?? ''
+      }));
+
+    const objects = includeObjects
+      ? this.objects
+          .filter(obj => ['event', 'npc', 'enemy'].includes(obj.type) && inRect(obj.x, obj.y))
+          .map(obj => ({ ...clone(obj), x: obj.x - rect.x, y: obj.y - rect.y }))
+      : [];
+
+    setMapClipboard({ width: rect.width, height: rect.height, layers, sprites, instances, objects });
+    return true;
+  }
+
+  /** Copy the selection to the clipboard, then clear what was copied from the map. */
+  public cutSelectionToClipboard(includeObjects: boolean = false): boolean {
+    const rect = getSelectionRect(this.selection.active ? this.selection.tiles : []);
+    if (!rect || !this.copySelectionToClipboard(includeObjects)) return false;
+    const inRect = (x: number, y: number) =>
+      x >= rect.x && y >= rect.y && x < rect.x + rect.width && y < rect.y + rect.height;
+
+    this.saveState();
+    for (const layer of this.tileLayers) {
+      const keys = this.layerCellTilesetKey.get(this.getCellTilesetKeyId(layer));
+      for (let y = rect.y; y < rect.y + rect.height; y++) {
+        for (let x = rect.x; x < rect.x + rect.width; x++) {
+          const index = y * this.mapWidth + x;
+          layer.data[index] = 0;
+          if (keys) keys[index] = null;
+          this.recordCollisionOverride(layer, index);
+        }
+      }
+    }
+    for (const [layerType, objs] of this.placedSpriteObjects.entries()) {
+      this.placedSpriteObjects.set(layerType, objs.filter(obj => !inRect(obj.anchorX, obj.anchorY)));
+    }
+    for (const inst of this.getAllObjectInstances()) {
+      if (inRect(inst.gridX, inst.gridY)) this.removeObjectInstance(inst.id);
+    }
+    if (includeObjects) {
+      this.objects = this.objects.filter(obj => !(['event', 'npc', 'enemy'].includes(obj.type) && inRect(obj.x, obj.y)));
+      this.notifyObjectsChanged();
+    }
+
+    this.clearSelection();
+    this.markAsChanged();
+    this.draw();
+    return true;
+  }
+
+  /** Float the clipboard under the cursor; works in any map, the one it was copied from or not. */
+  public startPaste(): boolean {
+    const clipboard = getMapClipboard();
+    if (!clipboard) return false;
+    this.pastePreview = clipboard;
+    this.draw();
+    return true;
+  }
+
+  private commitPaste(x: number, y: number): void {
+    const clipboard = this.pastePreview;
+    this.pastePreview = null;
+    if (!clipboard) return;
+    const inMap = (cx: number, cy: number) => cx >= 0 && cy >= 0 && cx < this.mapWidth && cy < this.mapHeight;
+    const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+    this.saveState();
+    // Tiles from a tileset this map does not have would draw the wrong image; they are left out
+    const missingTilesets = new Set<string>();
+    let skipped = 0;
+
+    // Layers match by type and position among that type; empty cells leave the target as it is
+    for (const clipLayer of clipboard.layers) {
+      const candidates = this.tileLayers.filter(l => l.type === clipLayer.type);
+      const layer = candidates[clipLayer.ordinal] ?? candidates[0];
+      if (!layer) continue;
+      const keyId = this.getCellTilesetKeyId(layer);
+      let keys = this.layerCellTilesetKey.get(keyId);
+      if (!keys) {
+        keys = new Array(this.mapWidth * this.mapHeight).fill(null);
+        this.layerCellTilesetKey.set(keyId, keys);
+      }
+      const targetKeys = this.getTilesetFileNames(layer.type);
+
+      for (let cy = 0; cy < clipboard.height; cy++) {
+        for (let cx = 0; cx < clipboard.width; cx++) {
+          const i = cy * clipboard.width + cx;
+          const value = clipLayer.data[i];
+          if (!value || !inMap(x + cx, y + cy)) continue;
+          const index = (y + cy) * this.mapWidth + (x + cx);
+          const key = clipLayer.tilesetKeys[i];
+          const targetKey = key ? remapTilesetKey(key, targetKeys) : null;
+          if (key && !targetKey) {
+            missingTilesets.add(key);
+            skipped++;
+            continue;
+          }
+          layer.data[index] = value;
+          keys[index] = targetKey;
+          this.recordCollisionOverride(layer, index);
+        }
+      }
+    }
+
+    for (const sprite of clipboard.sprites) {
+      const ax = x + sprite.x;
+      const ay = y + sprite.y;
+      if (!inMap(ax, ay) || !this.tileLayers.some(l => l.type === sprite.layerType)) continue;
+      const tilesetKey = sprite.tilesetKey
+        ? remapTilesetKey(sprite.tilesetKey, this.getTilesetFileNames(sprite.layerType))
+        : this.getPaintingTilesetFileName(sprite.layerType);
+      if (sprite.tilesetKey && !tilesetKey) {
+        missingTilesets.add(sprite.tilesetKey);
+        skipped++;
+        continue;
+      }
+      let objs = this.placedSpriteObjects.get(sprite.layerType);
+      if (!objs) {
+        objs = [];
+        this.placedSpriteObjects.set(sprite.layerType, objs);
+      }
+      objs.push({
+        id: this.nextSpriteObjectId++,
+        anchorX: ax,
+        anchorY: ay,
+        gid: sprite.gid,
+        tilesetKey,
+        width: sprite.width,
+        height: sprite.height,
+        sourceX: sprite.sourceX,
+        sourceY: sprite.sourceY
+      });
+    }
+
+    for (const { instance, asset, layerType } of clipboard.instances) {
+      const gridX = x + instance.gridX;
+      const gridY = y + instance.gridY;
+      const layer = this.tileLayers.find(l => l.type === layerType);
+      if (!layer || !inMap(gridX, gridY)) continue;
+      // Another map may not know the asset yet
+      if (!this.getAssetRecord(instance.assetRecordId)) {
+        if (!asset) continue;
+        this.addAssetRecord(clone(asset));
+      }
+      this.addObjectInstance({
+        ...clone(instance),
+        id: `obj_${this.nextObjectInstanceId++}`,
+        gridX,
+        gridY,
+        layerId: String(layer.id)
+      });
+    }
+
+    const objects = clipboard.objects.filter(obj => inMap(x + obj.x, y + obj.y));
+    for (const obj of objects) {
+      this.objects.push({ ...clone(obj), id: this.nextObjectId++, x: x + obj.x, y: y + obj.y });
+    }
+    if (objects.length > 0) this.notifyObjectsChanged();
+
+    if (skipped > 0) {
+      const message = `${skipped} tile(s) were not pasted: this map has no tileset ${Array.from(missingTilesets).join(', ')}`;
+      console.warn(`[Paste] ${message}`);
+      this.pasteNoticeCallback?.(message);
+    }
+    this.markAsChanged();
+    this.draw();
+  }
+
+  /** Called with a message when a paste leaves out tiles whose tileset this map does not have. */
+  public setPasteNoticeCallback(callback: ((message: string) => void) | null): void {
+    this.pasteNoticeCallback = callback;
+  }
+
+  // File names of every tileset a layer type can paint from
+  private getTilesetFileNames(layerType: string): string[] {
+    const names = (this.layerTabs.get(layerType) || [])
+      .map(tab => tab.tileset?.fileName)
+      .filter((name): name is string => !!name);
+    const layerTileset = this.layerTilesets.get(layerType)?.fileName;
+    if (layerTileset) names.push(layerTileset);
+    if (this.tilesetFileName) names.push(this.tilesetFileName);
+    return names;
+  }
+
+  // Outline of the floating paste and its non-empty cells at the hovered cell
+  private drawPastePreview(): void {
+    const clipboard = this.pastePreview;
+    if (!clipboard || this.hoverX < 0 || this.hoverY < 0) return;
+
+    const halfTileX = (this.tileSizeX / 2) * this.zoom;
+    const halfTileY = (this.tileSizeY / 2) * this.zoom;
+    const x = this.hoverX;
+    const y = this.hoverY;
+
+    this.ctx.save();
+    this.ctx.globalAlpha = 1;
+    this.ctx.setLineDash([]);
+    this.ctx.fillStyle = 'rgba(59, 130, 246, 0.3)';
+    for (let cy = 0; cy < clipboard.height; cy++) {
+      for (let cx = 0; cx < clipboard.width; cx++) {
+        const i = cy * clipboard.width + cx;
+        if (!clipboard.layers.some(layer => layer.data[i] > 0)) continue;
+        const p = this.mapToScreen(x + cx, y + cy);
+        this.ctx.beginPath();
+        this.ctx.moveTo(p.x, p.y - halfTileY);
+        this.ctx.lineTo(p.x + halfTileX, p.y);
+        this.ctx.lineTo(p.x, p.y + halfTileY);
+        this.ctx.lineTo(p.x - halfTileX, p.y);
+        this.ctx.closePath();
+        this.ctx.fill();
+      }
+    }
+
+    const corners = [
+      this.mapToScreen(x - 0.5, y - 0.5),
+      this.mapToScreen(x + clipboard.width - 0.5, y - 0.5),
+      this.mapToScreen(x + clipboard.width - 0.5, y + clipboard.height - 0.5),
+      this.mapToScreen(x - 0.5, y + clipboard.height - 0.5)
+    ];
+    this.ctx.lineWidth = 2;
+    this.ctx.strokeStyle = '#007acc';
+    this.ctx.beginPath();
+    corners.forEach((c, i) => (i === 0 ? this.ctx.moveTo(c.x, c.y) : this.ctx.lineTo(c.x, c.y)));
+    this.ctx.closePath();
+    this.ctx.stroke();
+    this.ctx.restore();
+  }
+
   // Bucket fill implementation using flood fill algorithm
-  private bucketFill(layer: TileLayer, startX: number, startY: number, newValue: number): void {
+  // With pickValue (scatter painting) every cell gets its own tile; null leaves the cell as it is
+  private bucketFill(layer: TileLayer, startX: number, startY: number, newValue: number, pickValue?: () => number | null): void {
     const targetValue = layer.data[startY * this.mapWidth + startX];
     
     // If the target value is the same as new value, no need to fill
-    if (targetValue === newValue) {
+    if (!pickValue && targetValue === newValue) {
       return;
     }
 
@@ -6613,7 +8223,16 @@ export class TileMapEditor {
 
       // Mark as visited and fill
       visited.add(index);
-      layer.data[index] = newValue;
+      if (pickValue) {
+        const picked = pickValue();
+        if (picked !== null) {
+          layer.data[index] = picked;
+          this.recordCellTileset(layer, index);
+        }
+      } else {
+        layer.data[index] = newValue;
+      }
+      this.recordCollisionOverride(layer, index);
 
       // Add neighboring tiles to stack
       stack.push({x: x + 1, y: y});
@@ -6810,68 +8429,16 @@ export class TileMapEditor {
     return points;
   }
 
-  private resolveInternalAssetPath(fileName: string): string {
-    if (typeof window === 'undefined') {
-      return fileName;
-    }
-
-    try {
-      const url = new URL(fileName, window.location.href);
-      return url.toString();
-    } catch {
-      return fileName;
-    }
-  }
-
   private normalizePath(input: string): string {
     return input.replace(/\\/g, '/');
   }
 
   private normalizeTilesetKey(key: string | null | undefined): string | null {
-    if (!key) return null;
-
-    let normalized = this.normalizePath(key).trim();
-    if (!normalized) return null;
-
-    // Use basename to avoid path prefix differences.
-    if (normalized.includes('/')) {
-      normalized = normalized.split('/').pop() || normalized;
-    }
-
-    // Strip repeated tab prefixes (legacy/rehydrated keys can accumulate these).
-    const uniqueKeyPattern = /^[a-zA-Z]+_tab\d+_/;
-    while (uniqueKeyPattern.test(normalized)) {
-      normalized = normalized.replace(uniqueKeyPattern, '');
-    }
-
-    return normalized || null;
-  }
-
-  private registerTilesetOffsetAliases(offsets: Map<string, number>, fileName: string, offset: number): void {
-    if (!offsets.has(fileName)) {
-      offsets.set(fileName, offset);
-    }
-
-    const normalized = this.normalizeTilesetKey(fileName);
-    if (normalized && !offsets.has(normalized)) {
-      offsets.set(normalized, offset);
-    }
-  }
-
-  private resolveTilesetOffset(offsets: Map<string, number>, rawKey: string | null | undefined): number | undefined {
-    if (!rawKey) return undefined;
-
-    const direct = offsets.get(rawKey);
-    if (typeof direct === 'number') return direct;
-
-    const normalized = this.normalizeTilesetKey(rawKey);
-    if (!normalized) return undefined;
-
-    return offsets.get(normalized);
+    return normalizeTilesetKey(key);
   }
 
   private isInternalTilesetFile(fileName: string | null | undefined): boolean {
-    return !!fileName && INTERNAL_TILESET_FILENAMES.has(fileName.toLowerCase());
+    return isInternalTilesetFile(fileName);
   }
 
   private extractFileSourcePath(file: File): string | null {
@@ -6994,12 +8561,15 @@ export class TileMapEditor {
   }
 
   public setActiveLayerTab(layerType: string, tabId: number): void {
+    // Shared tabs only change the palette; the layer keeps its cells
+    const sharedTabs = this.sharedTabLayerTypes.has(layerType);
+
     // First, save current layer's painting data to the previously active tab
     const currentActiveTabId = this.layerActiveTabId.get(layerType);
-    if (currentActiveTabId !== undefined) {
+    if (currentActiveTabId !== undefined && !sharedTabs) {
       const tabs = this.layerTabs.get(layerType);
       const currentActiveTab = tabs?.find(t => t.id === currentActiveTabId);
-      const layer = this.tileLayers.find(l => l.type === layerType);
+      const layer = this.getPrimaryLayerOfType(layerType);
       
       if (currentActiveTab && layer) {
         // Save the current layer's painting data to the current active tab
@@ -7014,9 +8584,9 @@ export class TileMapEditor {
     const tabs = this.layerTabs.get(layerType);
     if (tabs) {
       const tab = tabs.find(t => t.id === tabId);
-      const layer = this.tileLayers.find(l => l.type === layerType);
+      const layer = this.getPrimaryLayerOfType(layerType);
       
-      if (tab && layer) {
+      if (tab && layer && !sharedTabs) {
         // Restore the tab's painting data to the layer
         if (tab.data) {
           layer.data = [...tab.data];
@@ -7383,18 +8953,125 @@ export class TileMapEditor {
     } else { void 0; }
   }
 
-  public getActiveLayerTabId(layerType: string): number | null {
-    const activeId = this.layerActiveTabId.get(layerType);
-    if (typeof activeId === 'number') return activeId;
+  public getActiveLayerTabId(layerType: string): number | null {
+    const activeId = this.layerActiveTabId.get(layerType);
+    if (typeof activeId === 'number') return activeId;
+
+    const tabs = this.layerTabs.get(layerType) || [];
+    if (tabs.length > 0) {
+      const fallbackId = tabs[0].id;
+      this.layerActiveTabId.set(layerType, fallbackId);
+      return fallbackId;
+    }
+
+    return null;
+  }
+
+  private getActiveLayerTab(layerType: string) {
+    const activeId = this.layerActiveTabId.get(layerType);
+    return (this.layerTabs.get(layerType) || []).find(t => t.id === activeId);
+  }
+
+  /** Tile animations of the layer's active tab, keyed by gid. */
+  public getTileAnimations(layerType: string): Map<number, TileAnimationFrame[]> {
+    return new Map(this.getActiveLayerTab(layerType)?.animations ?? []);
+  }
+
+  /** Define (or with null / no frames, remove) the animation of a tile in the active tab. */
+  public setTileAnimation(layerType: string, gid: number, frames: TileAnimationFrame[] | null): void {
+    const tab = this.getActiveLayerTab(layerType);
+    if (!tab || gid <= 0) return;
+
+    if (frames && frames.length > 0) {
+      if (!tab.animations) tab.animations = new Map();
+      tab.animations.set(gid, frames.map(frame => ({ ...frame })));
+    } else if (!tab.animations?.delete(gid)) {
+      return;
+    }
+
+    this.markAsChanged();
+    this.draw();
+  }
+
+  /** Terrains of the layer's active tab and the corner terrain of its tagged tiles. */
+  public getTerrainSet(layerType: string): { terrains: TerrainDefinition[]; tiles: Map<number, TerrainCorners> } {
+    const tab = this.getActiveLayerTab(layerType);
+    return {
+      terrains: (tab?.terrains ?? []).map(terrain => ({ ...terrain })),
+      tiles: new Map(Array.from(tab?.terrainTiles ?? [], ([gid, corners]) => [gid, [...corners] as TerrainCorners]))
+    };
+  }
+
+  /** Replace the terrains of the active tab; tile corners tagged with a removed terrain are cleared. */
+  public setTerrains(layerType: string, terrains: TerrainDefinition[]): void {
+    const tab = this.getActiveLayerTab(layerType);
+    if (!tab) return;
 
-    const tabs = this.layerTabs.get(layerType) || [];
-    if (tabs.length > 0) {
-      const fallbackId = tabs[0].id;
-      this.layerActiveTabId.set(layerType, fallbackId);
-      return fallbackId;
+    tab.terrains = terrains.map(terrain => ({ ...terrain }));
+    const ids = new Set(terrains.map(terrain => terrain.id));
+    for (const [gid, corners] of tab.terrainTiles ?? []) {
+      const kept = corners.map(c => (c !== null && ids.has(c) ? c : null)) as TerrainCorners;
+      if (kept.every(c => c === null)) tab.terrainTiles!.delete(gid);
+      else tab.terrainTiles!.set(gid, kept);
     }
+    this.markAsChanged();
+  }
 
-    return null;
+  /** Tag (or with null / no terrain at any corner, untag) a tile of the active tab. */
+  public setTileTerrain(layerType: string, gid: number, corners: TerrainCorners | null): void {
+    const tab = this.getActiveLayerTab(layerType);
+    if (!tab || gid <= 0) return;
+
+    if (corners && corners.some(c => c !== null)) {
+      if (!tab.terrainTiles) tab.terrainTiles = new Map();
+      tab.terrainTiles.set(gid, [...corners] as TerrainCorners);
+    } else if (!tab.terrainTiles?.delete(gid)) {
+      return;
+    }
+    this.markAsChanged();
+  }
+
+  /** Default collision values of the active tab's tiles, keyed by gid. */
+  public getTileCollisions(layerType: string): Map<number, number> {
+    return new Map(this.getActiveLayerTab(layerType)?.tileCollisions ?? []);
+  }
+
+  /** Set (or with 0 / null, clear) a tile's default collision; its placed-object asset follows. */
+  public setTileCollision(layerType: string, gid: number, value: number | null): void {
+    const tab = this.getActiveLayerTab(layerType);
+    if (!tab || gid <= 0) return;
+
+    if (value && value > 0) {
+      if (!tab.tileCollisions) tab.tileCollisions = new Map();
+      tab.tileCollisions.set(gid, value);
+    } else if (!tab.tileCollisions?.delete(gid)) {
+      return;
+    }
+    const asset = this.assetRecords.get(`asset_${gid}`);
+    if (asset) asset.collisionType = value && value > 0 ? value : undefined;
+    this.markAsChanged();
+  }
+
+  /** Terrain the terrain brush paints: the chosen one if the active tab has it, else its first terrain. */
+  public getActiveTerrain(layerType: string): number | null {
+    const terrains = this.getActiveLayerTab(layerType)?.terrains ?? [];
+    if (terrains.some(terrain => terrain.id === this.activeTerrainId)) return this.activeTerrainId;
+    return terrains[0]?.id ?? null;
+  }
+
+  public setActiveTerrain(terrainId: number | null): void {
+    this.activeTerrainId = terrainId;
+  }
+
+  /** Paint with weighted random tiles (null or no entries: back to the single active tile). */
+  public setScatterBrush(settings: ScatterSettings | null): void {
+    this.scatterBrush = settings && settings.entries.length > 0
+      ? { entries: settings.entries.map(entry => ({ ...entry })), density: settings.density }
+      : null;
+  }
+
+  public getScatterBrush(): ScatterSettings | null {
+    return this.scatterBrush ? { entries: this.scatterBrush.entries.map(entry => ({ ...entry })), density: this.scatterBrush.density } : null;
   }
 
   public updateCurrentTileset(layerType: string): void {
@@ -7625,14 +9302,7 @@ export class TileMapEditor {
   }
 
   private assignTilesetOffsets(tilesets: GlobalTilesetInfo[]): void {
-    // Calculate cumulative offsets for each tileset.
-    // Offset starts at 1 (0 is reserved for empty/no-tile), and each tileset
-    // gets offset = cumulative count
-    let currentOffset = 1;
-    for (const tileset of tilesets) {
-      tileset.offset = currentOffset;
-      currentOffset += tileset.count;
-    }
+    assignTilesetOffsets(tilesets);
   }
 
   private collectGlobalTilesets(): GlobalTilesetInfo[] {
@@ -7735,33 +9405,35 @@ export class TileMapEditor {
       });
     }
 
-    const layerPriority: Record<string, number> = {
-      collision: 0,
-      main: 1,
-      background: 2,
-      object: 3,
-      event: 4,
-      enemy: 5,
-      npc: 6
-    };
-
-    results.sort((a, b) => {
-      const pa = layerPriority[a.layerType] ?? 99;
-      const pb = layerPriority[b.layerType] ?? 99;
-      if (pa !== pb) return pa - pb;
-      const fa = (a.fileName || '').toLowerCase();
-      const fb = (b.fileName || '').toLowerCase();
-      if (fa < fb) return -1;
-      if (fa > fb) return 1;
-      return 0;
-    });
-
-    let currentOffset = 1;
-    for (const entry of results) {
-      entry.offset = currentOffset;
-      currentOffset += Math.max(1, entry.count);
+    // Additional render layers (and shared-tab layers) may paint from tabs other than their type's active one
+    for (const layer of this.tileLayers) {
+      if (!isFlareRenderLayerType(layer.type)) continue;
+      if (this.isPrimaryLayer(layer) && !this.sharedTabLayerTypes.has(layer.type)) continue;
+      const usedTabs = findTabsUsedByCells(this.layerTabs.get(layer.type) || [], this.layerCellTilesetKey.get(this.getCellTilesetKeyId(layer)));
+      for (const tab of usedTabs) {
+        const tileset = tab.tileset;
+        if (!tileset || !tileset.fileName) continue;
+        const columns = tileset.columns || (tileset.image ? Math.max(1, Math.floor(tileset.image.width / this.tileSizeX)) : 1);
+        const rows = tileset.rows || (tileset.image ? Math.max(1, Math.floor(tileset.image.height / this.tileSizeY)) : 1);
+        pushTileset({
+          layerType: layer.type,
+          fileName: tileset.fileName,
+          count: tileset.count || Math.max(1, columns * rows),
+          columns,
+          rows,
+          tileWidth: tileset.tileWidth ?? this.tileSizeX,
+          tileHeight: tileset.tileHeight ?? this.tileSizeY,
+          spacing: tileset.spacing ?? 0,
+          margin: tileset.margin ?? 0,
+          sourcePath: tileset.sourcePath ?? null,
+          image: tileset.image ?? null
+        });
+      }
     }
 
+    sortExportTilesets(results);
+    this.assignTilesetOffsets(results);
+
     return results;
   }
 
@@ -7865,394 +9537,467 @@ export class TileMapEditor {
   }
 
   private buildObjectLayerExportState(layer: TileLayer): { data: number[]; cellTilesetKeys: Array<string | null> } {
-    const data = [...layer.data];
-    const size = this.mapWidth * this.mapHeight;
-    const existingKeys = this.layerCellTilesetKey.get(layer.type);
-    const cellTilesetKeys: Array<string | null> = existingKeys ? [...existingKeys] : new Array(size).fill(null);
-
     const objectInstances = this.getObjectInstancesByLayer(layer.id.toString());
-    for (const instance of objectInstances) {
-      if (instance.gridX < 0 || instance.gridY < 0 || instance.gridX >= this.mapWidth || instance.gridY >= this.mapHeight) {
-        continue;
-      }
-
+    const objects: StampedObjectTile[] = objectInstances.map(instance => {
       const asset = this.getAssetRecord(instance.assetRecordId);
       const tilesetKey = this.inferTilesetKeyFromAssetProfileId(asset?.profileId, layer.type);
-      const localGid = this.resolveLocalGidFromAssetRecord(asset, layer.type, tilesetKey);
-      if (localGid <= 0) {
-        continue;
-      }
-
-      const index = instance.gridY * this.mapWidth + instance.gridX;
-      data[index] = localGid;
-
-      if (tilesetKey) {
-        cellTilesetKeys[index] = tilesetKey;
-      }
-    }
+      return { x: instance.gridX, y: instance.gridY, gid: this.resolveLocalGidFromAssetRecord(asset, layer.type, tilesetKey), tilesetKey };
+    });
 
     // Backward compatibility for projects that still use legacy sprite objects.
-    if (objectInstances.length === 0) {
-      const legacyObjects = this.placedSpriteObjects.get(layer.type) || [];
-      for (const legacy of legacyObjects) {
-        if (legacy.anchorX < 0 || legacy.anchorY < 0 || legacy.anchorX >= this.mapWidth || legacy.anchorY >= this.mapHeight) {
-          continue;
-        }
-        if (legacy.gid <= 0) {
-          continue;
-        }
-
-        const index = legacy.anchorY * this.mapWidth + legacy.anchorX;
-        data[index] = legacy.gid;
-        if (legacy.tilesetKey) {
-          cellTilesetKeys[index] = legacy.tilesetKey;
-        }
+    if (objectInstances.length === 0 && this.isPrimaryLayer(layer)) {
+      for (const legacy of this.placedSpriteObjects.get(layer.type) || []) {
+        objects.push({ x: legacy.anchorX, y: legacy.anchorY, gid: legacy.gid, tilesetKey: legacy.tilesetKey });
       }
     }
 
-    return { data, cellTilesetKeys };
+    return stampObjectLayer(layer.data, this.layerCellTilesetKey.get(this.getCellTilesetKeyId(layer)), this.mapWidth, this.mapHeight, objects);
   }
 
   public generateFlareMapTxt(options: FlareExportOptions = {}): string {
-    const lines: string[] = [];
-
-    lines.push(`[header]`);
-    lines.push(`width=${this.mapWidth}`);
-    lines.push(`height=${this.mapHeight}`);
-    lines.push(`tilewidth=${this.tileSizeX}`);
-    lines.push(`tileheight=${this.tileSizeY}`);
-    lines.push(`orientation=isometric`);
-    lines.push(`hero_pos=${this.heroX},${this.heroY}`);
-    lines.push(`music=music/default_theme.ogg`);
-    // Use the exported tilesetdefs/tileset_mapname.txt for this map
-    const sanitizedMapName = (this.mapName || 'Map_Name')
-      .replace(/[<>:"/\\|?*]/g, '_')
-      .trim()
-      .replace(/\s+/g, '_')
-      .replace(/_{2,}/g, '_');
-    lines.push(`tileset=tilesetdefs/tileset_${sanitizedMapName}.txt`);
-    const mapTitle = (options.mapName && options.mapName.trim())
-      || this.mapName
-      || (this.tilesetFileName ? this.tilesetFileName.replace(/\.[^/.]+$/, '') : 'Untitled Map');
-    lines.push(`title=${mapTitle}`);
-    lines.push('');
-
+    if (this.mapmodRecording && !this.mapmodRecording.baseShown) return this.withMapmodBase(() => this.generateFlareMapTxt(options));
     const globalTilesets = this.collectGlobalTilesets();
     const mapTilesets = globalTilesets.filter(t => t.fileName && !this.isInternalTilesetFile(t.fileName));
     
     // Calculate proper offsets for each tileset
     this.assignTilesetOffsets(mapTilesets);
-    
-    const tilesetOffsets = new Map<string, number>();
-    const tilesetLayerByKey = new Map<string, string>();
-    for (const tileset of mapTilesets) {
-      if (!tileset.fileName) continue;
-      this.registerTilesetOffsetAliases(tilesetOffsets, tileset.fileName, tileset.offset);
-      tilesetLayerByKey.set(tileset.fileName, tileset.layerType);
-      const normalizedKey = this.normalizeTilesetKey(tileset.fileName);
-      if (normalizedKey) {
-        tilesetLayerByKey.set(normalizedKey, tileset.layerType);
-      }
-    }
 
-    lines.push(`[tilesets]`);
-    // Always use the exported/copy location for the tileset image
-    for (const tileset of mapTilesets) {
-      if (!tileset.fileName) continue;
-      // Use relative path to images/tilesets folder from map file
-      const exportPath = `images/tilesets/${tileset.fileName}`;
-      lines.push(`tileset=${exportPath},${tileset.tileWidth},${tileset.tileHeight},${tileset.spacing},${tileset.margin}`);
-    }
-    lines.push('');
+    const layers: FlareExportLayer[] = getFlareExportLayers(this.tileLayers).map(layer => {
+      const layerTileset = this.getLayerTilesetOrFallback(layer.type);
+      const exportState = layer.type === 'object'
+        ? this.buildObjectLayerExportState(layer)
+        : { data: layer.data, cellTilesetKeys: this.layerCellTilesetKey.get(this.getCellTilesetKeyId(layer)) };
+      return {
+        type: layer.type,
+        data: exportState.data,
+        cellTilesetKeys: exportState.cellTilesetKeys,
+        layerTilesetFileName: layerTileset?.fileName ?? null
+      };
+    });
 
-    const flareLayerOrder = ['background', 'object', 'collision'];
+    return buildFlareMapTxt({
+      width: this.mapWidth,
+      height: this.mapHeight,
+      tileWidth: this.tileSizeX,
+      tileHeight: this.tileSizeY,
+      heroX: this.heroX,
+      heroY: this.heroY,
+      mapName: this.mapName,
+      title: (options.mapName && options.mapName.trim())
+        || this.mapName
+        || (this.tilesetFileName ? this.tilesetFileName.replace(/\.[^/.]+$/, '') : 'Untitled Map'),
+      header: this.mapHeader,
+      tilesets: mapTilesets,
+      layers,
+      objects: this.objects
+    });
+  }
 
-    for (const layerType of flareLayerOrder) {
-      const layer = this.tileLayers.find(l => l.type === layerType && l.visible);
-      if (!layer) continue;
+  /**
+   * Load a Flare map .txt into the editor (inverse of generateFlareMapTxt).
+   * Global tile ids are mapped back to per-tileset local ids using the same
+   * cumulative offsets the exporter assigns, so tileset images are needed to
+   * know each tileset's tile count. `resolveTilesetImage` receives the tileset
+   * path as written in the map and should return a data URL (or null).
+   * `loadTilesetDef` receives the header's `tileset=` path and should return
+   * the tilesetdef text. Its tile animations are imported, and maps without a
+   * [tilesets] section resolve their tile ids through its `img=` entries.
+   */
+  public async loadFlareMapTxt(
+    txt: string,
+    resolveTilesetImage?: (tilesetPath: string) => Promise<string | null>,
+    loadTilesetDef?: (tilesetDefPath: string) => Promise<string | null>
+  ): Promise<ParsedFlareMap> {
+    const parsed = parseFlareMapTxt(txt);
+    let animations: Map<number, TileAnimationFrame[]> | undefined;
+    let tilesetDefImages: ParsedTilesetDefImage[] | undefined;
+    const tilesetDefPath = parsed.header.tileset;
+    if (tilesetDefPath && loadTilesetDef) {
+      try {
+        const content = await loadTilesetDef(tilesetDefPath);
+        if (content) {
+          animations = parseTilesetDefTiles(content).animations;
+          tilesetDefImages = parseTilesetDefImages(content);
+        } else {
+          parsed.warnings.push(`Tileset definition ${tilesetDefPath} could not be read; tile animations were not imported`);
+        }
+      } catch (_e) { void _e; }
+    }
+    await this.applyImportedMap(parsed, resolveTilesetImage, animations, tilesetDefImages);
+    return parsed;
+  }
 
-      lines.push(`[layer]`);
-      lines.push(`type=${layer.type}`);
-      lines.push(`data=`);
+  /**
+   * Load a Tiled .tmx map into the editor. Paths handed to both callbacks are
+   * relative to the .tmx file.
+   */
+  public async loadTiledMap(
+    tmxXml: string,
+    loaders: {
+      loadExternalTileset?: (source: string) => Promise<string | null>;
+      resolveTilesetImage?: (imagePath: string) => Promise<string | null>;
+    } = {}
+  ): Promise<ParsedFlareMap> {
+    const parsed = await parseTmxMap(tmxXml, loaders.loadExternalTileset);
+    await this.applyImportedMap(parsed, loaders.resolveTilesetImage);
+    return parsed;
+  }
 
-      const layerTileset = this.getLayerTilesetOrFallback(layerType);
-      const isCollisionLayer = layerType === COLLISION_LAYER_TYPE;
-      let exportLayerData = layer.data;
-      let exportCellTilesetKeys = this.layerCellTilesetKey.get(layerType);
+  /**
+   * Build a Tiled .tmx for the current map plus one .tsx per tileset. The .tsx
+   * image sources point at the exported images/tilesets folder, assuming the
+   * files are written to a sibling folder of it (e.g. <project>/tiled/).
+   */
+  public generateTiledMap(): { tmx: string; tsxFiles: Array<{ fileName: string; content: string }>; collisionImage: { fileName: string; content: string } | null } {
+    if (this.mapmodRecording && !this.mapmodRecording.baseShown) return this.withMapmodBase(() => this.generateTiledMap());
+    // Reuse the Flare export so tile ids and object fields match it exactly
+    const flare = parseFlareMapTxt(this.generateFlareMapTxt());
+    const mapTilesets = this.collectGlobalTilesets().filter(t => t.fileName && !this.isInternalTilesetFile(t.fileName));
+    this.assignTilesetOffsets(mapTilesets);
 
-      if (layerType === 'object') {
-        const objectExportState = this.buildObjectLayerExportState(layer);
-        exportLayerData = objectExportState.data;
-        exportCellTilesetKeys = objectExportState.cellTilesetKeys;
-      }
+    const tilesets: TmxExportTileset[] = mapTilesets.map(t => {
+      const baseName = t.fileName.replace(/\.[^/.]+$/, '');
+      return {
+        name: baseName,
+        tsxFileName: `${baseName}.tsx`,
+        firstGid: t.offset,
+        tileCount: t.count,
+        tileWidth: t.tileWidth,
+        tileHeight: t.tileHeight,
+        spacing: t.spacing,
+        margin: t.margin,
+        imageWidth: t.image?.width || t.columns * t.tileWidth,
+        imageHeight: t.image?.height || t.rows * t.tileHeight,
+        tilesetPngName: `../images/tilesets/${t.fileName}`
+      };
+    });
 
-      for (let y = 0; y < this.mapHeight; y++) {
-        const row: string[] = [];
-        for (let x = 0; x < this.mapWidth; x++) {
-          const index = y * this.mapWidth + x;
-          const localTileId = exportLayerData[index];
-          let globalTileId = 0;
-          if (localTileId > 0) {
-            // Determine which tileset this specific cell belongs to (per-cell key set at paint time)
-            const cellTilesetKey = exportCellTilesetKeys ? exportCellTilesetKeys[index] : (layerTileset ? layerTileset.fileName ?? null : null);
-            let effectiveTilesetKey = cellTilesetKey;
-
-            // Guard against cross-layer key leakage (e.g. background cells referencing object tileset keys).
-            if (!isCollisionLayer && effectiveTilesetKey) {
-              const normalizedCellKey = this.normalizeTilesetKey(effectiveTilesetKey);
-              const resolvedCellLayerType = tilesetLayerByKey.get(effectiveTilesetKey)
-                || (normalizedCellKey ? tilesetLayerByKey.get(normalizedCellKey) : undefined)
-                || null;
-
-              if (
-                resolvedCellLayerType &&
-                resolvedCellLayerType !== layerType &&
-                layerTileset?.fileName
-              ) {
-                effectiveTilesetKey = layerTileset.fileName;
-              }
-            }
+    const tmx = generateTmxMap({
+      mapWidth: this.mapWidth,
+      mapHeight: this.mapHeight,
+      tileWidth: this.tileSizeX,
+      tileHeight: this.tileSizeY,
+      header: flare.header,
+      tilesets,
+      layers: flare.layers,
+      objects: flare.objects
+    });
+    const tsxFiles = tilesets.map(ts => ({ fileName: ts.tsxFileName, content: generateTsx(ts) }));
+    const collisionImage = flare.layers.some(layer => layer.type === COLLISION_LAYER_TYPE)
+      ? { fileName: COLLISION_TILESET_IMAGE, content: generateCollisionTilesetImage(this.tileSizeX, this.tileSizeY) }
+      : null;
+    return { tmx, tsxFiles, collisionImage };
+  }
+
+  private async applyImportedMap(
+    parsed: ParsedFlareMap,
+    resolveTilesetImage?: (tilesetPath: string) => Promise<string | null>,
+    tileAnimations?: Map<number, TileAnimationFrame[]>,   // Keyed by global tile id
+    tilesetDefImages?: ParsedTilesetDefImage[]
+  ): Promise<void> {
+    const warnings = parsed.warnings;
+    const width = parsed.width;
+    const height = parsed.height;
+    const size = width * height;
 
-            let tilesetOffset = undefined as number | undefined;
-            if (!isCollisionLayer && effectiveTilesetKey) {
-              tilesetOffset = this.resolveTilesetOffset(tilesetOffsets, effectiveTilesetKey);
-            }
+    if (parsed.tileWidth !== this.tileSizeX || parsed.tileHeight !== this.tileSizeY) {
+      warnings.push(`Map uses ${parsed.tileWidth}x${parsed.tileHeight} tiles; the editor renders ${this.tileSizeX}x${this.tileSizeY}`);
+    }
 
-            // Final fallback: use the layer's own tileset when per-cell key is missing/unresolvable.
-            if (!isCollisionLayer && (tilesetOffset === undefined) && layerTileset?.fileName) {
-              tilesetOffset = this.resolveTilesetOffset(tilesetOffsets, layerTileset.fileName);
-            }
+    // Resolve tileset images and rebuild the exporter's global id ranges
+    type ImportedTileset = {
+      fileName: string;
+      path: string;
+      dataUrl: string | null;
+      columns: number;
+      rows: number;
+      count: number;
+      tileWidth: number;
+      tileHeight: number;
+      spacing: number;
+      margin: number;
+      offset: number;
+      tiles?: Map<number, ParsedTilesetDefTile>;   // Tilesetdef rects keyed by global tile id
+    };
+    const importedTilesets: ImportedTileset[] = [];
+    const resolveImage = async (path: string): Promise<string | null> => {
+      if (!resolveTilesetImage) return null;
+      try {
+        return await resolveTilesetImage(path);
+      } catch (_e) {
+        void _e;
+        return null;
+      }
+    };
+    let currentOffset = 1;
+    for (const ts of parsed.tilesets) {
+      const dataUrl = await resolveImage(ts.path);
+      const dims = dataUrl ? await this.measureImageDataUrl(dataUrl) : null;
+      if (!dims) {
+        warnings.push(`Tileset image ${ts.path} could not be loaded; tiles from later tilesets may be misaligned`);
+      }
+      const grid = dims ? measureTilesetGrid(dims.width, dims.height, ts) : { columns: 1, rows: 1, count: 1 };
+      importedTilesets.push({
+        fileName: ts.fileName,
+        path: ts.path,
+        dataUrl: dims ? dataUrl : null,
+        ...grid,
+        tileWidth: ts.tileWidth,
+        tileHeight: ts.tileHeight,
+        spacing: ts.spacing,
+        margin: ts.margin,
+        offset: ts.firstGid ?? currentOffset
+      });
+      currentOffset = (ts.firstGid ?? currentOffset) + grid.count;
+    }
 
-            if (tilesetOffset !== undefined && tilesetOffset >= 1) {
-              globalTileId = tilesetOffset + (localTileId - 1);
-            } else {
-              // Fallback: if no tileset offset, write the local id directly
-              globalTileId = localTileId;
-            }
-          }
-          row.push(globalTileId.toString());
+    // Without [tilesets] (flare-game maps) tile ids are the tilesetdef's: each img= owns the tile= ids after it
+    if (parsed.tilesets.length === 0 && tilesetDefImages) {
+      for (const def of tilesetDefImages) {
+        const ids = Array.from(def.tiles.keys());
+        const firstId = Math.min(...ids);
+        const lastId = Math.max(...ids);
+        if (firstId < currentOffset) {
+          warnings.push(`Tileset ${def.img} reuses tile ids of an earlier image; those tiles were not imported`);
         }
-        lines.push(row.join(','));
+        const dataUrl = await resolveImage(def.img);
+        const dims = dataUrl ? await this.measureImageDataUrl(dataUrl) : null;
+        if (!dims) warnings.push(`Tileset image ${def.img} could not be loaded`);
+        const grid = dims
+          ? measureTilesetGrid(dims.width, dims.height, { tileWidth: parsed.tileWidth, tileHeight: parsed.tileHeight, spacing: 0, margin: 0 })
+          : { columns: 1, rows: 1 };
+        importedTilesets.push({
+          fileName: def.img.split('/').pop() || def.img,
+          path: def.img,
+          dataUrl: dims ? dataUrl : null,
+          columns: grid.columns,
+          rows: grid.rows,
+          count: Math.max(1, lastId - currentOffset + 1),
+          tileWidth: parsed.tileWidth,
+          tileHeight: parsed.tileHeight,
+          spacing: 0,
+          margin: 0,
+          offset: currentOffset,
+          tiles: def.tiles
+        });
+        currentOffset = Math.max(currentOffset, lastId + 1);
       }
-      lines.push('');
     }
 
-    const events = this.objects.filter(obj => obj.type === 'event');
-    for (const event of events) {
-      // Write comment line with event name and optional description
-      const eName = event.name || '';
-      const eDesc = event.description || event.properties?._description || '';
-      if (eName) {
-        const commentLine = eDesc ? `#${eName} - ${eDesc}` : `#${eName}`;
-        lines.push(commentLine);
+    const findTilesetForGid = (gid: number): ImportedTileset | null => {
+      // Tilesetdef images list their ids explicitly; [tilesets] entries own contiguous ranges
+      if (importedTilesets.some(ts => ts.tiles)) {
+        return importedTilesets.find(ts => ts.tiles?.has(gid) && gid >= ts.offset) ?? null;
       }
-      lines.push(`[event]`);
+      for (let i = importedTilesets.length - 1; i >= 0; i--) {
+        if (gid >= importedTilesets[i].offset) return importedTilesets[i];
+      }
+      return null;
+    };
+
+    // Start from the default layer set sized to the imported map
+    this.setMapSize(width, height);
+    this.createDefaultLayers();
+    const defaultLayers: TileLayer[] = this.tileLayers.map(l => ({ ...l, data: new Array(size).fill(0) }));
+    let nextLayerId = defaultLayers.reduce((max, l) => Math.max(max, l.id), 0) + 1;
 
-      // activate (always first)
-      const activate = event.properties.activate || event.activate || 'on_trigger';
-      lines.push(`activate=${activate}`);
+    const layerTabs: NonNullable<EditorProjectData['layerTabs']> = {};
+    const layerActiveTabId: Record<string, number> = {};
+    const layerCellTilesetKeys: Record<string, Array<string | null>> = {};
+    const sharedTabLayers: string[] = [];
+    const tilesetImages: Record<string, string> = {};
+    let nextTabId = 1;
+    let collisionImported = false;
+    // Render layers in file order, bottom first
+    const renderStack: TileLayer[] = [];
 
-      // location
-      if (event.properties.location) {
-        lines.push(`location=${event.properties.location}`);
-      } else if (event.x >= 0 && event.y >= 0) {
-        lines.push(`location=${event.x},${event.y},${event.width},${event.height}`);
+    const createTab = (layerType: string, ts: ImportedTileset, data: number[]) => {
+      if (ts.dataUrl) tilesetImages[ts.fileName] = ts.dataUrl;
+      const animations: SerializedTileAnimation[] = [];
+      for (const [gid, frames] of tileAnimations ?? []) {
+        if (gid >= ts.offset && gid < ts.offset + ts.count) animations.push([gid - ts.offset + 1, frames]);
       }
+      const detectedTiles: SerializedDetectedTile[] = [];
+      for (const [gid, rect] of ts.tiles ?? []) {
+        if (gid >= ts.offset) detectedTiles.push([gid - ts.offset + 1, rect]);
+      }
+      return {
+        id: nextTabId++,
+        name: ts.fileName.replace(/\.[^/.]+$/, ''),
+        data,
+        detectedTiles: detectedTiles.length > 0 ? detectedTiles : undefined,
+        tileset: {
+          layerType,
+          fileName: ts.fileName,
+          name: ts.fileName,
+          columns: ts.columns,
+          rows: ts.rows,
+          count: ts.count,
+          tileWidth: ts.tileWidth,
+          tileHeight: ts.tileHeight,
+          spacing: ts.spacing,
+          margin: ts.margin,
+          sourcePath: ts.path
+        },
+        animations: animations.length > 0 ? animations : undefined
+      };
+    };
 
-      // hotspot
-      if (event.properties.hotspot) {
-        lines.push(`hotspot=${event.properties.hotspot}`);
-      } else if (event.hotspot) {
-        lines.push(`hotspot=${event.hotspot}`);
+    for (const parsedLayer of parsed.layers) {
+      // Collision values are written raw by the exporter
+      if (parsedLayer.type === COLLISION_LAYER_TYPE) {
+        if (collisionImported) {
+          warnings.push('Additional "collision" layer was skipped; only the first one is imported');
+          continue;
+        }
+        collisionImported = true;
+        const collisionLayer = defaultLayers.find(l => l.type === COLLISION_LAYER_TYPE);
+        if (collisionLayer) collisionLayer.data = [...parsedLayer.data];
+        continue;
       }
 
-      // tooltip (use event name if set)
-      if (event.properties.tooltip) {
-        lines.push(`tooltip=${event.properties.tooltip}`);
-      } else if (event.name && event.name !== 'Event' && !event.name.startsWith('event_')) {
-        lines.push(`tooltip=${event.name}`);
-      } else if (event.tooltip) {
-        lines.push(`tooltip=${event.tooltip}`);
+      const layerType = parsedLayer.type;
+      if (!isFlareRenderLayerType(layerType)) {
+        warnings.push(`Layer type "${layerType}" is not supported by the editor and was skipped`);
+        continue;
       }
 
-      // cooldown / delay
-      if (event.properties.cooldown) lines.push(`cooldown=${event.properties.cooldown}`);
-      if (event.properties.delay) lines.push(`delay=${event.properties.delay}`);
+      // The first layer of a type reuses the default layer (if any) and owns the type's tabs
+      const isPrimary = !renderStack.some(l => l.type === layerType);
+      const layer: TileLayer = (isPrimary ? defaultLayers.find(l => l.type === layerType) : undefined) ?? {
+        id: nextLayerId++,
+        name: getNewRenderLayerName(renderStack, layerType),
+        type: layerType,
+        data: new Array(size).fill(0),
+        visible: true,
+        transparency: 1.0
+      };
+      renderStack.push(layer);
+
+      // Split cells by source tileset and convert them to per-tileset local ids
+      const tabDataByTileset = new Map<ImportedTileset, number[]>();
+      const cellKeys: Array<string | null> = new Array(size).fill(null);
+      let unresolved = 0;
+      parsedLayer.data.forEach((gid, index) => {
+        if (gid <= 0) return;
+        const ts = findTilesetForGid(gid);
+        if (!ts) {
+          unresolved++;
+          return;
+        }
+        let data = tabDataByTileset.get(ts);
+        if (!data) {
+          data = new Array(size).fill(0);
+          tabDataByTileset.set(ts, data);
+        }
+        data[index] = gid - ts.offset + 1;
+        cellKeys[index] = ts.fileName;
+      });
+      if (unresolved > 0) {
+        warnings.push(`${unresolved} cell(s) in a "${layerType}" layer reference no tileset and were cleared`);
+      }
+      if (tabDataByTileset.size === 0) continue;
 
-      // requirements
-      const writeRepeatableEventProperty = (key: string) => {
-        const value = event.properties[key];
-        if (Array.isArray(value)) {
-          for (const item of value) {
-            if (item && String(item).trim()) {
-              lines.push(`${key}=${item}`);
-            }
+      if (!isPrimary) {
+        // Additional layers keep every cell and resolve tilesets per cell through the type's tabs
+        const tabs = layerTabs[layerType] ?? (layerTabs[layerType] = []);
+        for (const [ts, data] of tabDataByTileset.entries()) {
+          data.forEach((localId, index) => {
+            if (localId > 0) layer.data[index] = localId;
+          });
+          if (!tabs.some(t => t.tileset?.fileName === ts.fileName)) {
+            tabs.push(createTab(layerType, ts, new Array(size).fill(0)));
           }
-        } else if (value) {
-          lines.push(`${key}=${value}`);
         }
-      };
-
-      writeRepeatableEventProperty('requires_status');
-      writeRepeatableEventProperty('requires_not_status');
-      writeRepeatableEventProperty('requires_item');
-      writeRepeatableEventProperty('requires_not_item');
-      if (event.properties.requires_level) lines.push(`requires_level=${event.properties.requires_level}`);
-      if (event.properties.requires_currency) lines.push(`requires_currency=${event.properties.requires_currency}`);
-      if (event.properties.requires_not_currency) lines.push(`requires_not_currency=${event.properties.requires_not_currency}`);
-      if (event.properties.requires_class) lines.push(`requires_class=${event.properties.requires_class}`);
-
-      // actions / rewards
-      if (event.properties.msg) lines.push(`msg=${event.properties.msg}`);
-      if (event.properties.reward_xp) lines.push(`reward_xp=${event.properties.reward_xp}`);
-      if (event.properties.reward_currency) lines.push(`reward_currency=${event.properties.reward_currency}`);
-      if (event.properties.reward_item) lines.push(`reward_item=${event.properties.reward_item}`);
-      if (event.properties.reward_loot) lines.push(`reward_loot=${event.properties.reward_loot}`);
-      if (event.properties.reward_loot_count) lines.push(`reward_loot_count=${event.properties.reward_loot_count}`);
-      if (event.properties.spawn) lines.push(`spawn=${event.properties.spawn}`);
-      if (event.properties.set_status) lines.push(`set_status=${event.properties.set_status}`);
-      if (event.properties.unset_status) lines.push(`unset_status=${event.properties.unset_status}`);
-      if (event.properties.remove_item) lines.push(`remove_item=${event.properties.remove_item}`);
-      if (event.properties.remove_currency) lines.push(`remove_currency=${event.properties.remove_currency}`);
-
-      // teleport / map transitions
-      if (event.properties.intermap) {
-        lines.push(`intermap=${event.properties.intermap}`);
-      } else if (event.intermap) {
-        lines.push(`intermap=${event.intermap}`);
-      }
-      if (event.properties.intermap_random) lines.push(`intermap_random=${event.properties.intermap_random}`);
-      if (event.properties.intramap) lines.push(`intramap=${event.properties.intramap}`);
-
-      // sound / music / visual
-      if (event.properties.soundfx) {
-        lines.push(`soundfx=${event.properties.soundfx}`);
-      } else if (event.soundfx) {
-        lines.push(`soundfx=${event.soundfx}`);
-      }
-      if (event.properties.music) lines.push(`music=${event.properties.music}`);
-      if (event.properties.shakycam) lines.push(`shakycam=${event.properties.shakycam}`);
-
-      // map modifications
-      if (event.properties.mapmod) {
-        lines.push(`mapmod=${event.properties.mapmod}`);
-      } else if (event.mapmod) {
-        lines.push(`mapmod=${event.mapmod}`);
-      }
-
-      // npcs / loot
-      if (event.properties.npc) lines.push(`npc=${event.properties.npc}`);
-      if (event.properties.loot) {
-        lines.push(`loot=${event.properties.loot}`);
-      } else if (event.loot) {
-        lines.push(`loot=${event.loot}`);
-      }
-      if (event.properties.loot_count) lines.push(`loot_count=${event.properties.loot_count}`);
-
-      // power
-      if (event.properties.power) lines.push(`power=${event.properties.power}`);
-      if (event.properties.power_damage) lines.push(`power_damage=${event.properties.power_damage}`);
-      if (event.properties.power_path) lines.push(`power_path=${event.properties.power_path}`);
-
-      // engine/utility
-      if (event.properties.chance_exec) lines.push(`chance_exec=${event.properties.chance_exec}`);
-      if (event.properties.save_game) lines.push(`save_game=${event.properties.save_game}`);
-      if (event.properties.script) lines.push(`script=${event.properties.script}`);
-      if (event.properties.respec) lines.push(`respec=${event.properties.respec}`);
-      if (event.properties.stash) lines.push(`stash=${event.properties.stash}`);
-      if (event.properties.book) lines.push(`book=${event.properties.book}`);
-      if (event.properties.restore) lines.push(`restore=${event.properties.restore}`);
-      if (event.properties.cutscene) lines.push(`cutscene=${event.properties.cutscene}`);
-      if (event.properties.parallax_layers) lines.push(`parallax_layers=${event.properties.parallax_layers}`);
-      if (event.properties.random_status) lines.push(`random_status=${event.properties.random_status}`);
-      if (event.properties.show_on_minimap) lines.push(`show_on_minimap=${event.properties.show_on_minimap}`);
-      if (event.properties.reachable_from) lines.push(`reachable_from=${event.properties.reachable_from}`);
-
-      // repeat
-      if (event.properties.repeat !== undefined) {
-        lines.push(`repeat=${event.properties.repeat}`);
-      } else if (event.repeat !== undefined) {
-        lines.push(`repeat=${event.repeat}`);
-      }
-
-      lines.push('');
-    }
-
-    const enemies = this.objects.filter(obj => obj.type === 'enemy');
-    for (const enemy of enemies) {
-      lines.push(`[enemy]`);
-      lines.push(`type=enemy`);
-      lines.push(`location=${enemy.x},${enemy.y},${enemy.width},${enemy.height}`);
-
-      if (enemy.category) lines.push(`category=${enemy.category}`);
-      if (enemy.level) lines.push(`level=${enemy.level}`);
-      if (enemy.number) lines.push(`number=${enemy.number}`);
-      if (enemy.wander_radius !== undefined) lines.push(`wander_radius=${enemy.wander_radius}`);
-
-      for (const [key, value] of Object.entries(enemy.properties)) {
-        lines.push(`${key}=${value}`);
-      }
-
-      lines.push('');
-    }
-
-    const npcs = this.objects.filter(obj => obj.type === 'npc');
-    for (const npc of npcs) {
-      lines.push(`[npc]`);
-      lines.push(`type=npc`);
-      lines.push(`location=${npc.x},${npc.y},${npc.width},${npc.height}`);
-
-      const npcFilename = npc.properties?.npcFilename;
-      if (npcFilename) {
-        lines.push(`filename=${npcFilename}`);
-      } else {
-        const sanitized = (npc.name || `npc_${npc.id}`)
-          .toLowerCase()
-          .replace(/[<>:"/\\|?*]/g, '_')
-          .trim()
-          .replace(/\s+/g, '_')
-          .replace(/_{2,}/g, '_') || 'unnamed_npc';
-        lines.push(`filename=npcs/${sanitized}.txt`);
-      }
-
-      const conditionKeys = [
-        'requires_status', 'requires_not_status',
-        'requires_level', 'requires_not_level',
-        'requires_currency', 'requires_not_currency',
-        'requires_item', 'requires_not_item',
-        'requires_class', 'requires_not_class',
-      ];
-      for (const key of conditionKeys) {
-        if (npc.properties?.[key]) {
-          lines.push(`${key}=${npc.properties[key]}`);
+        if (layerActiveTabId[layerType] === undefined) {
+          layerActiveTabId[layerType] = tabs[0].id;
         }
+        layerCellTilesetKeys[String(layer.id)] = cellKeys;
+        continue;
       }
 
-      lines.push('');
+      // The tileset with the most painted cells becomes the active tab
+      const ordered = Array.from(tabDataByTileset.entries())
+        .map(([ts, data]) => ({ ts, data, used: data.reduce((acc, v) => acc + (v > 0 ? 1 : 0), 0) }))
+        .sort((a, b) => b.used - a.used);
+      if (ordered.length === 1) {
+        layerTabs[layerType] = [createTab(layerType, ordered[0].ts, ordered[0].data)];
+        layerActiveTabId[layerType] = layerTabs[layerType][0].id;
+        layer.data = [...ordered[0].data];
+        continue;
+      }
+
+      // A layer mixing tilesets keeps every cell; its tabs share the layer and each cell remembers its tileset
+      for (const { data } of ordered) {
+        data.forEach((localId, index) => {
+          if (localId > 0) layer.data[index] = localId;
+        });
+      }
+      layerTabs[layerType] = ordered.map(({ ts }) => createTab(layerType, ts, [...layer.data]));
+      layerActiveTabId[layerType] = layerTabs[layerType][0].id;
+      layerCellTilesetKeys[String(layer.id)] = cellKeys;
+      sharedTabLayers.push(layerType);
+    }
+
+    // Keep the default background/object layers the file did not provide, in their usual slots
+    const renderLayersTopFirst = [...renderStack].reverse();
+    for (const type of ['background', 'object'] as const) {
+      if (renderLayersTopFirst.some(l => l.type === type)) continue;
+      const fallback = defaultLayers.find(l => l.type === type);
+      if (fallback) {
+        renderLayersTopFirst.splice(getRenderLayerInsertIndex(renderLayersTopFirst, type), 0, fallback);
+      }
     }
+    const renderInsertIndex = defaultLayers.findIndex(l => isFlareRenderLayerType(l.type));
+    const layers = defaultLayers.filter(l => !isFlareRenderLayerType(l.type));
+    layers.splice(renderInsertIndex === -1 ? layers.length : renderInsertIndex, 0, ...renderLayersTopFirst);
 
-    return lines.join('\n');
+    // The title becomes the map name, and the exporter writes its own tilesetdef for the imported tilesets
+    const mapHeader = parseMapHeaderSettings(parsed.header);
+    delete mapHeader.title;
+    delete mapHeader.tileset;
+
+    this.loadProjectData({
+      name: parsed.title || this.mapName || 'Untitled Map',
+      width,
+      height,
+      layers,
+      objects: parsed.objects,
+      heroX: parsed.heroPos?.x,
+      heroY: parsed.heroPos?.y,
+      layerTabs,
+      layerActiveTabId,
+      layerCellTilesetKeys,
+      sharedTabLayers,
+      mapHeader,
+      tilesetImages,
+      activeLayerId: layers.find(l => l.type === 'background')?.id ?? null
+    });
   }
 
-  public generateFlareTilesetDef(_options: FlareExportOptions = {}): string {
-    const lines: string[] = [];
+  private measureImageDataUrl(dataUrl: string): Promise<{ width: number; height: number } | null> {
+    return new Promise((resolve) => {
+      const img = new Image();
+      img.onload = () => resolve({ width: img.width, height: img.height });
+      img.onerror = () => resolve(null);
+      img.src = dataUrl;
+    });
+  }
 
+  public generateFlareTilesetDef(_options: FlareExportOptions = {}): string {
+    if (this.mapmodRecording && !this.mapmodRecording.baseShown) return this.withMapmodBase(() => this.generateFlareTilesetDef(_options));
     const globalTilesets = this.collectGlobalTilesets();
     const exportedTilesets = globalTilesets.filter(t => t.fileName && !this.isInternalTilesetFile(t.fileName));
     
     // Calculate proper offsets for each tileset
     this.assignTilesetOffsets(exportedTilesets);
     
-    if (exportedTilesets.length === 0) {
-      return '# No tilesets found - please load tilesets before exporting\n';
-    }
-
     // Build strict per-tileset local-id lookup so tiles from one image can never
     // resolve rect/origin data from another image.
-    const detectedByTileset = new Map<string, Map<number, { sourceX: number; sourceY: number; width: number; height: number }>>();
+    const detectedByTileset = new Map<string, Map<number, TilesetDefRect>>();
     for (const tileset of exportedTilesets) {
       if (!tileset.fileName) continue;
-      const lookup = new Map<number, { sourceX: number; sourceY: number; width: number; height: number }>();
+      const lookup = new Map<number, TilesetDefRect>();
 
       // Primary source: layer-specific detected tiles for this exact tileset key.
       const matchingLayerTypes = new Set<string>();
@@ -8282,53 +10027,18 @@ export class TileMapEditor {
       detectedByTileset.set(tileset.fileName, lookup);
     }
 
-    // Emit vanilla-style sections: one [tileset] block per image.
-    for (const tileset of exportedTilesets) {
-      if (!tileset.fileName) continue;
-      lines.push('[tileset]');
-      lines.push(`img=images/tilesets/${tileset.fileName}`);
-
-      const columns = Math.max(1, tileset.columns);
-      const tileWidth = tileset.tileWidth || this.tileSizeX;
-      const tileHeight = tileset.tileHeight || this.tileSizeY;
-      const localLookup = detectedByTileset.get(tileset.fileName) || new Map<number, { sourceX: number; sourceY: number; width: number; height: number }>();
-
-      for (let i = 0; i < tileset.count; i++) {
-        const globalId = tileset.offset + i;
-        const localId = i + 1;
-        const detected = localLookup.get(localId);
-        let left_x: number;
-        let top_y: number;
-        let width: number;
-        let height: number;
-        let offset_x: number;
-        let offset_y: number;
-
-        if (detected) {
-          left_x = detected.sourceX;
-          top_y = detected.sourceY;
-          width = detected.width;
-          height = detected.height;
-          // Use bottom-center anchor for detected sprites so they align to ground
-          offset_x = Math.floor(width / 2);
-          offset_y = height;
-        } else {
-          left_x = (i % columns) * tileWidth;
-          top_y = Math.floor(i / columns) * tileHeight;
-          width = tileWidth;
-          height = tileHeight;
-          // For grid-based tiles default to bottom-center as well
-          offset_x = Math.floor(width / 2);
-          offset_y = height;
-        }
-
-        lines.push(`tile=${globalId},${left_x},${top_y},${width},${height},${offset_x},${offset_y}`);
-      }
+    const animatedTilesets = exportedTilesets.map(tileset => ({
+      ...tileset,
+      animations: this.findTabForTileset(tileset.layerType, tileset.fileName)?.animations
+    }));
 
-      lines.push('');
-    }
+    return buildFlareTilesetDef(animatedTilesets, detectedByTileset, this.tileSizeX, this.tileSizeY);
+  }
 
-    return lines.join('\n');
+  private findTabForTileset(layerType: string, fileName: string | null) {
+    const key = this.normalizeTilesetKey(fileName);
+    if (!key) return undefined;
+    return (this.layerTabs.get(layerType) || []).find(tab => this.normalizeTilesetKey(tab.tileset?.fileName) === key);
   }
 
   public getTilesetExportInfo(): TilesetExportInfo[] {
@@ -8345,40 +10055,14 @@ export class TileMapEditor {
 
   /**
    * Parse the contents of a Flare-style tilesetdefs TXT and populate
-   * the editor's detected tile data so rendering/export are consistent.
+   * the editor's detected tile data and tile animations so rendering/export are consistent.
    * If layerType is provided, tile entries will be stored in that layer's
    * per-layer tile map; otherwise they will be applied to the active layer.
    */
   public parseTilesetDefContent(content: string, layerType?: string): void {
     if (!content) return;
 
-    const lines = content.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
-
-    const parsed: Map<number, { sourceX: number; sourceY: number; width: number; height: number; originX?: number; originY?: number }> = new Map();
-
-    for (const line of lines) {
-      if (line.startsWith('#')) continue;
-      if (line.startsWith('img=')) continue;
-
-      if (line.startsWith('tile=')) {
-        const rest = line.substring('tile='.length);
-        const parts = rest.split(',').map(p => p.trim());
-        // Expected: id,left,top,width,height,origin_x,origin_y (origin optional)
-        if (parts.length >= 5) {
-          const id = parseInt(parts[0], 10);
-          const left = parseInt(parts[1], 10);
-          const top = parseInt(parts[2], 10);
-          const width = parseInt(parts[3], 10);
-          const height = parseInt(parts[4], 10);
-          const originX = parts[5] !== undefined ? parseInt(parts[5], 10) : Math.floor(width / 2);
-          const originY = parts[6] !== undefined ? parseInt(parts[6], 10) : height;
-
-          if (!Number.isNaN(id) && !Number.isNaN(left) && !Number.isNaN(top) && !Number.isNaN(width) && !Number.isNaN(height)) {
-            parsed.set(id, { sourceX: left, sourceY: top, width, height, originX, originY });
-          }
-        }
-      }
-    }
+    const { tiles: parsed, animations } = parseTilesetDefTiles(content);
 
     // Merge into global detectedTileData and per-layer map
     if (parsed.size > 0) {
@@ -8395,6 +10079,11 @@ export class TileMapEditor {
           layerTileMap.set(id, { sourceX: data.sourceX, sourceY: data.sourceY, width: data.width, height: data.height, originX: data.originX, originY: data.originY });
         }
         this.layerTileData.set(targetLayer, layerTileMap);
+
+        const tab = this.getActiveLayerTab(targetLayer);
+        if (tab) {
+          tab.animations = new Map(animations);
+        }
       }
 
       // Rebuild palette and redraw
@@ -8559,6 +10248,11 @@ export class TileMapEditor {
   // History management methods
   private saveState(): void {
     if (this.isApplyingHistory) return;
+    const replacesBatchEntry = Boolean(this.historyBatch?.saved);
+    if (this.historyBatch) {
+      if (this.historyBatch.saved && !this.historyBatch.savesAfterChange) return;
+      this.historyBatch.saved = true;
+    }
 
     // Deep copy current state
     const stateCopy = {
@@ -8566,20 +10260,26 @@ export class TileMapEditor {
         ...layer,
         data: [...layer.data]
       })),
-      objects: this.objects.map(obj => ({ ...obj }))
+      objects: this.objects.map(obj => ({ ...obj })),
+      mapHeader: { ...this.mapHeader },
+      collisionRebuild: this.copyCollisionRebuild()
     };
 
-    // Remove any history beyond current index
-    this.history = this.history.slice(0, this.historyIndex + 1);
-    
-    // Add new state
-    this.history.push(stateCopy);
-    this.historyIndex = this.history.length - 1;
+    if (replacesBatchEntry) {
+      this.history[this.historyIndex] = stateCopy;
+    } else {
+      // Remove any history beyond current index
+      this.history = this.history.slice(0, this.historyIndex + 1);
 
-    // Limit history size
-    if (this.history.length > this.maxHistorySize) {
-      this.history.shift();
-      this.historyIndex--;
+      // Add new state
+      this.history.push(stateCopy);
+      this.historyIndex = this.history.length - 1;
+
+      // Limit history size
+      if (this.history.length > this.maxHistorySize) {
+        this.history.shift();
+        this.historyIndex--;
+      }
     }
 
     // Notify about undo state change (for persistence)
@@ -8604,8 +10304,10 @@ export class TileMapEditor {
 
   public undo(): void {
     if (this.historyIndex > 0) {
+      const { generation } = this.history[this.historyIndex];
       this.historyIndex--;
       this.applyHistoryState();
+      if (generation) this.applyGeneratedMapUndo(generation, true);
     }
   }
 
@@ -8613,6 +10315,8 @@ export class TileMapEditor {
     if (this.historyIndex < this.history.length - 1) {
       this.historyIndex++;
       this.applyHistoryState();
+      const { generation } = this.history[this.historyIndex];
+      if (generation) this.applyGeneratedMapUndo(generation, false);
     }
   }
 
@@ -8626,8 +10330,30 @@ export class TileMapEditor {
       this.tileLayers = this.deepCopyLayers(state.layers);
       
       // Restore objects
+      const eventAreaBefore = this.getEventAreaRects();
       this.objects = this.deepCopyObjects(state.objects);
       this.notifyObjectsChanged();
+
+      // Hand a restored area or hotspot back to the event dialog showing resize handles
+      const eventAreaAfter = this.getEventAreaRects();
+      if (this.eventAreaResize && eventAreaAfter) {
+        if (!sameAreaRect(eventAreaBefore?.area ?? null, eventAreaAfter.area)) {
+          this.activeEventPreview = eventAreaAfter.area;
+          this.eventAreaResize.onResize('area', eventAreaAfter.area);
+        }
+        if (eventAreaAfter.hotspot && !sameAreaRect(eventAreaBefore?.hotspot ?? null, eventAreaAfter.hotspot)) {
+          this.activeHotspotPreview = eventAreaAfter.hotspot;
+          this.eventAreaResize.onResize('hotspot', eventAreaAfter.hotspot);
+        }
+      }
+
+      // Stacks persisted before headers were tracked have no header to restore
+      if (state.mapHeader) {
+        this.mapHeader = { ...state.mapHeader };
+      }
+      if (state.collisionRebuild !== undefined) {
+        this.collisionRebuild = state.collisionRebuild ? { overrides: [...state.collisionRebuild.overrides] } : null;
+      }
       
       // Redraw
       this.draw();
@@ -8637,6 +10363,11 @@ export class TileMapEditor {
   }
 
   // Auto-save system methods
+  /** Called when a saved resize moves teleports into this map (targetFile, e.g. "maps/Town.txt") by dx, dy. */
+  public setIntermapShiftCallback(callback: ((projectPath: string, targetFile: string, dx: number, dy: number) => void) | null): void {
+    this.intermapShiftCallback = callback;
+  }
+
   public setAutoSaveCallback(callback: (() => void) | null): void {
     this.autoSaveCallback = callback;
   }
@@ -8673,7 +10404,8 @@ export class TileMapEditor {
     this.hasUnsavedChanges = true;
     this.updateSaveStatus('unsaved');
 
-    if (!this.autoSaveEnabled) return;
+    // Strokes recorded as map modifications are not part of the map
+    if (!this.autoSaveEnabled || this.mapmodRecording) return;
 
     // Clear existing timeout
     if (this.autoSaveTimeout) {
@@ -8730,6 +10462,7 @@ export class TileMapEditor {
   }
 
   private saveToLocalStorage(): void {
+    if (this.mapmodRecording && !this.mapmodRecording.baseShown) return this.withMapmodBase(() => this.saveToLocalStorage());
     try {
       // Convert layerTabs and layerActiveTabId Maps to serializable objects
       // Note: We store minimal tab info (id and name) since the full tileset/brush data
@@ -8790,6 +10523,80 @@ export class TileMapEditor {
     return '';
   }
 
+  /**
+   * Render the whole map to a PNG data URL using the canvas draw routines, so
+   * layers come out in the same isometric order as on screen. Hover, selection
+   * and tool previews are left out. Returns the zoom actually used, which is
+   * lowered for maps that would not fit in a single canvas.
+   */
+  public renderMapImage(options: MapImageOptions): { dataUrl: string; width: number; height: number; zoom: number } | null {
+    if (this.mapmodRecording && !this.mapmodRecording.baseShown) return this.withMapmodBase(() => this.renderMapImage(options));
+    const layout = computeMapImageLayout(
+      this.mapWidth,
+      this.mapHeight,
+      this.tileSizeX,
+      this.tileSizeY,
+      this.getTallestSpriteHeight() - this.tileSizeY,
+      options.zoom
+    );
+    const canvas = document.createElement('canvas');
+    canvas.width = layout.width;
+    canvas.height = layout.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    const saved = {
+      ctx: this.ctx, zoom: this.zoom, panX: this.panX, panY: this.panY,
+      hoverX: this.hoverX, hoverY: this.hoverY, isDraggingActor: this.isDraggingActor
+    };
+    try {
+      this.ctx = ctx;
+      this.zoom = layout.zoom;
+      // mapToScreen offsets by half the editor canvas width and 100px
+      this.panX = layout.originX - this.mapCanvas.width / 2;
+      this.panY = layout.originY - 100;
+      this.hoverX = -1;
+      this.hoverY = -1;
+      this.isDraggingActor = false;
+
+      if (options.grid) this.drawGrid();
+      this.drawTiles();
+      if (options.heroSpawn) this.drawHeroPosition();
+      if (options.markers) {
+        for (const object of this.objects) {
+          const actorLayerType = this.getActorLayerType(object);
+          if (actorLayerType && object.x >= 0 && object.y >= 0) this.drawActorPlaceholder(object, actorLayerType);
+        }
+        this.drawEvents();
+      }
+      if (options.collision) this.drawCollisionOverlay(true);
+    } finally {
+      this.ctx = saved.ctx;
+      this.zoom = saved.zoom;
+      this.panX = saved.panX;
+      this.panY = saved.panY;
+      this.hoverX = saved.hoverX;
+      this.hoverY = saved.hoverY;
+      this.isDraggingActor = saved.isDraggingActor;
+    }
+
+    return { dataUrl: canvas.toDataURL('image/png'), width: layout.width, height: layout.height, zoom: layout.zoom };
+  }
+
+  // Tallest sprite any layer can draw; these overhang the row they stand on
+  private getTallestSpriteHeight(): number {
+    let tallest = this.tileSizeY;
+    const visit = (tiles: Map<number, { height: number }> | undefined) => {
+      tiles?.forEach(tile => { tallest = Math.max(tallest, tile.height); });
+    };
+    visit(this.detectedTileData);
+    this.layerTileData.forEach(visit);
+    this.layerTabs.forEach(tabs => tabs.forEach(tab => visit(tab.detectedTiles)));
+    this.assetRecords.forEach(asset => { tallest = Math.max(tallest, asset.height); });
+    this.placedSpriteObjects.forEach(sprites => sprites.forEach(sprite => { tallest = Math.max(tallest, sprite.height); }));
+    return tallest;
+  }
+
   // Generate a small top-down minimap as a PNG data URL for saving with the project
   private generateMinimapDataUrl(): string {
     try {
@@ -9063,6 +10870,9 @@ export class TileMapEditor {
           version: projectData.version || '1.0'
         };
         const success = await window.electronAPI.saveMapProject(projectPath, safeProjectData);
+        if (success && this.pendingIntermapShift) {
+          await this.shiftIntermapTargetsInOtherMaps(projectPath, safeProjectData.name);
+        }
         return success;
       } else {
         console.log('Falling back to localStorage save...');
@@ -9076,10 +10886,48 @@ export class TileMapEditor {
     }
   }
 
+  // Teleports from the project's other maps into this one follow the content shift of saved resizes
+  private async shiftIntermapTargetsInOtherMaps(projectPath: string, mapName: string): Promise<void> {
+    const api = window.electronAPI;
+    const shift = this.pendingIntermapShift;
+    this.pendingIntermapShift = null;
+    if (!shift) return;
+    const ownFile = sanitizeMapFileBase(mapName);
+    // Maps open in other tabs are saved from their snapshots, which have to follow too
+    this.intermapShiftCallback?.(projectPath, `maps/${ownFile}.txt`, shift.x, shift.y);
+    if (!api?.listMaps || !api.openMapProject || !api.saveMapProject) return;
+    try {
+      for (const file of await api.listMaps(projectPath)) {
+        const name = file.replace(/\.json$/i, '');
+        if (sanitizeMapFileBase(name) === ownFile) continue;
+        const data = await api.openMapProject(projectPath, name);
+        if (!data?.objects) continue;
+        const { objects, changed } = shiftIntermapTargets(data.objects, `maps/${ownFile}.txt`, shift.x, shift.y);
+        if (!changed) continue;
+        await api.saveMapProject(projectPath, {
+          ...data,
+          name: data.name || name,
+          width: data.width ?? 20,
+          height: data.height ?? 15,
+          tileSize: data.tileSize ?? 32,
+          layers: data.layers || [],
+          objects,
+          tilesets: data.tilesets || [],
+          tilesetImages: data.tilesetImages || {},
+          version: data.version || '1.0'
+        });
+      }
+    } catch (error) {
+      console.error('Failed to update teleports into the resized map:', error);
+    }
+  }
+
   // Return the current project data without writing to disk. This mirrors the
   // structure used by saveProjectData but is returned directly so the UI can
   // persist an in-memory snapshot (for tabs) without requiring a file save.
   public getProjectData(): EditorProjectData {
+    // Strokes being recorded as map modifications are not part of the saved map
+    if (this.mapmodRecording && !this.mapmodRecording.baseShown) return this.withMapmodBase(() => this.getProjectData());
     // CRITICAL: Sync current layer's painting data to the active tab before saving
     // This ensures any unpainted tiles are included in the save
     for (const layerType of this.layerTabs.keys()) {
@@ -9087,7 +10935,7 @@ export class TileMapEditor {
       if (activeTabId !== undefined) {
         const tabs = this.layerTabs.get(layerType);
         const activeTab = tabs?.find(t => t.id === activeTabId);
-        const layer = this.tileLayers.find(l => l.type === layerType);
+        const layer = this.getPrimaryLayerOfType(layerType);
         
         if (activeTab && layer) {
           // Save the current layer's painted tiles to the active tab
@@ -9202,7 +11050,7 @@ export class TileMapEditor {
       width: this.mapWidth,
       height: this.mapHeight,
       tileSize: this.tileSizeX,
-      layers: this.getLayers(),
+      layers: this.tileLayers.map(layer => ({ ...layer, data: [...layer.data] })),
       objects: this.getMapObjects(),
       tilesets: tilesets.length > 0 ? tilesets : undefined,
       tilesetImages: Object.keys(tilesetImages).length > 0 ? tilesetImages : undefined,
@@ -9214,18 +11062,20 @@ export class TileMapEditor {
       lastSaved: new Date().toISOString(),
       activeLayerId: this.activeLayerId,
       heroX: this.heroX,
-      heroY: this.heroY
+      heroY: this.heroY,
+      mapHeader: Object.keys(this.mapHeader).length > 0 ? { ...this.mapHeader } : undefined,
+      collisionRebuild: this.copyCollisionRebuild() ?? undefined
     };
 
     // Serialize per-layer tabs (tab names, per-tab painting data, tab-specific tileset metadata, detected tiles)
     // NOTE: Collision layer is NOT saved - it uses only the built-in collision tileset
     try {
-      const tabsObj: Record<string, Array<{ id: number; name?: string; data?: number[]; tileset?: SavedTilesetEntry; detectedTiles?: SerializedDetectedTile[] }>> = {};
+      const tabsObj: Record<string, Array<{ id: number; name?: string; data?: number[]; tileset?: SavedTilesetEntry; detectedTiles?: SerializedDetectedTile[]; animations?: SerializedTileAnimation[]; terrains?: TerrainDefinition[]; terrainTiles?: SerializedTerrainTile[]; tileCollisions?: Array<[number, number]> }>> = {};
       for (const [layerType, tabs] of this.layerTabs.entries()) {
         // Skip collision layer - it should never have tabs
         if (layerType === COLLISION_LAYER_TYPE) continue;
         tabsObj[layerType] = tabs.map(t => {
-          const ser: { id: number; name?: string; data?: number[]; tileset?: SavedTilesetEntry; detectedTiles?: SerializedDetectedTile[] } = { id: t.id, name: t.name };
+          const ser: { id: number; name?: string; data?: number[]; tileset?: SavedTilesetEntry; detectedTiles?: SerializedDetectedTile[]; animations?: SerializedTileAnimation[]; terrains?: TerrainDefinition[]; terrainTiles?: SerializedTerrainTile[]; tileCollisions?: Array<[number, number]> } = { id: t.id, name: t.name };
           
           // Save per-tab painting data
           if (t.data && t.data.length > 0) {
@@ -9274,6 +11124,18 @@ export class TileMapEditor {
           } else if (t.detectedTiles && t.detectedTiles.size > 0) {
             ser.detectedTiles = Array.from(t.detectedTiles.entries());
           }
+          if (t.animations && t.animations.size > 0) {
+            ser.animations = Array.from(t.animations.entries());
+          }
+          if (t.terrains && t.terrains.length > 0) {
+            ser.terrains = t.terrains.map(terrain => ({ ...terrain }));
+          }
+          if (t.terrainTiles && t.terrainTiles.size > 0) {
+            ser.terrainTiles = Array.from(t.terrainTiles.entries());
+          }
+          if (t.tileCollisions && t.tileCollisions.size > 0) {
+            ser.tileCollisions = Array.from(t.tileCollisions.entries());
+          }
           return ser;
         });
       }
@@ -9292,6 +11154,22 @@ export class TileMapEditor {
         projectData.layerActiveTabId = activeObj;
       }
 
+      // Additional layers of a type keep their own cell keys; primary layers follow their tabs unless they share them
+      const cellKeysObj: Record<string, Array<string | null>> = {};
+      for (const layer of this.tileLayers) {
+        if (this.isPrimaryLayer(layer) && !this.sharedTabLayerTypes.has(layer.type)) continue;
+        const keys = this.layerCellTilesetKey.get(this.getCellTilesetKeyId(layer));
+        if (keys && keys.some(k => k !== null)) {
+          cellKeysObj[String(layer.id)] = [...keys];
+        }
+      }
+      if (Object.keys(cellKeysObj).length > 0) {
+        projectData.layerCellTilesetKeys = cellKeysObj;
+      }
+      if (this.sharedTabLayerTypes.size > 0) {
+        projectData.sharedTabLayers = Array.from(this.sharedTabLayerTypes);
+      }
+
       // After the tabs loop has populated tilesetImages, assign it back to projectData.
       // (projectData.tilesetImages was set to undefined at construction time because tilesetImages
       // was empty then; the tabs loop fills it afterward, so we must re-assign here.)
@@ -9619,6 +11497,7 @@ export class TileMapEditor {
       footprintWidth: 1,
       footprintHeight: 1,
       category: layerType === 'object' ? 'object' : 'ground',
+      collisionType: activeTab?.tileCollisions?.get(gid),
       detectionConfidence: 0.95,
       userVerified: false,
       createdAt: new Date().toISOString(),
@@ -9944,7 +11823,7 @@ export class TileMapEditor {
       this.hoveredEventIndex = 0;
     // Check if we're hovering over an object on an interactive layer
     const activeLayer = this.getActiveLayer();
-    const interactiveLayers = ['enemy', 'npc', 'object', 'event', 'background'];
+    const interactiveLayers = ['enemy', 'npc', 'event', ...FLARE_RENDER_LAYER_TYPES];
     
     if (activeLayer && interactiveLayers.includes(activeLayer.type)) {
       const objectsAtPosition = this.getObjectsAtPosition(this.hoverX, this.hoverY);
@@ -10257,6 +12136,14 @@ export class TileMapEditor {
     this.tilesetImage = null;
     this.tilesetFileName = null;
     this.mapName = 'Untitled Map';
+    this.mapHeader = {};
+    this.collisionRebuild = null;
+    this.mapDiffHighlight = null;
+    this.reachabilityShade = null;
+    this.mapmodRecording = null;
+    this.pendingIntermapShift = null;
+    this.waypointEdit = null;
+    this.eventAreaDrag = null;
     this.tilesetColumns = 0;
     this.tilesetRows = 0;
     this.tileCount = 0;
@@ -10293,6 +12180,7 @@ export class TileMapEditor {
 
     // Clear per-cell tileset key overrides from the previous map
     this.layerCellTilesetKey.clear();
+    this.sharedTabLayerTypes.clear();
     
     // Reset per-layer active GID so the new map starts with no tile pre-selected.
     // Without this, GIDs from the previous map bleed into the new map and may paint
@@ -10396,6 +12284,7 @@ export class TileMapEditor {
       this.layerTileData.clear();
       // Clear per-cell tileset key overrides left over from the previous map
       this.layerCellTilesetKey.clear();
+      this.sharedTabLayerTypes = new Set(projectData.sharedTabLayers ?? []);
       // Clear per-layer active GID so loading a new map starts fresh (the auto-select
       // in updateCurrentTileset will pick GID=1 again when the tileset loads).
       this.layerActiveGid.clear();
@@ -10457,6 +12346,10 @@ export class TileMapEditor {
               data?: number[]; // Restored per-tab painting data
               tileset?: LayerTilesetEntry;
               detectedTiles?: Map<number, { sourceX: number; sourceY: number; width: number; height: number; originX?: number; originY?: number }>;
+              animations?: Map<number, TileAnimationFrame[]>;
+              terrains?: TerrainDefinition[];
+              terrainTiles?: Map<number, TerrainCorners>;
+              tileCollisions?: Map<number, number>;
               brushes?: Array<{ image: HTMLImageElement; fileName: string; width: number; height: number }>;
             };
 
@@ -10465,6 +12358,18 @@ export class TileMapEditor {
               const tabId = typeof t.id === 'number' ? t.id : (maxTabId++);
               const tabName = t.name || `Tab ${tabId}`;
               const tabObj: RestoredTab = { id: tabId, name: tabName };
+              if (Array.isArray(t.animations) && t.animations.length > 0) {
+                tabObj.animations = new Map(t.animations);
+              }
+              if (Array.isArray(t.terrains) && t.terrains.length > 0) {
+                tabObj.terrains = t.terrains.map(terrain => ({ ...terrain }));
+              }
+              if (Array.isArray(t.terrainTiles) && t.terrainTiles.length > 0) {
+                tabObj.terrainTiles = new Map(t.terrainTiles);
+              }
+              if (Array.isArray(t.tileCollisions) && t.tileCollisions.length > 0) {
+                tabObj.tileCollisions = new Map(t.tileCollisions);
+              }
               
               // Restore per-tab painting data if available
               if (t.data && Array.isArray(t.data)) {
@@ -10845,10 +12750,16 @@ export class TileMapEditor {
         this.createDefaultLayers();
       }
 
+      this.nextLayerId = Math.max(this.nextLayerId, ...this.tileLayers.map(l => l.id + 1));
+
       // Ensure per-layer cell tileset key arrays exist after loading layers
       for (const l of this.tileLayers) {
-        if (!this.layerCellTilesetKey.has(l.type)) {
-          this.layerCellTilesetKey.set(l.type, new Array(this.mapWidth * this.mapHeight).fill(null));
+        const cellKeyId = this.getCellTilesetKeyId(l);
+        const savedKeys = projectData.layerCellTilesetKeys?.[String(l.id)];
+        if (savedKeys && (!this.isPrimaryLayer(l) || this.sharedTabLayerTypes.has(l.type))) {
+          this.layerCellTilesetKey.set(cellKeyId, [...savedKeys]);
+        } else if (!this.layerCellTilesetKey.has(cellKeyId)) {
+          this.layerCellTilesetKey.set(cellKeyId, new Array(this.mapWidth * this.mapHeight).fill(null));
         }
       }
 
@@ -10883,6 +12794,13 @@ export class TileMapEditor {
         this.mapHeight = projectData.height;
       }
       
+      this.mapHeader = { ...(projectData.mapHeader ?? {}) };
+      const rebuild = projectData.collisionRebuild;
+      const cellCount = this.mapWidth * this.mapHeight;
+      this.collisionRebuild = rebuild && rebuild.overrides?.length === cellCount
+        ? { overrides: [...rebuild.overrides] }
+        : null;
+
       // Load hero position if provided, otherwise default to (0,0)
       if (projectData.heroX !== undefined && projectData.heroY !== undefined) {
         console.log('Loading hero position:', projectData.heroX, ',', projectData.heroY);
@@ -10903,7 +12821,7 @@ export class TileMapEditor {
         if (activeTabId !== undefined) {
           const tabs = this.layerTabs.get(layerType);
           const activeTab = tabs?.find(t => t.id === activeTabId);
-          const layer = this.tileLayers.find(l => l.type === layerType);
+          const layer = this.getPrimaryLayerOfType(layerType);
           
           if (activeTab && layer && activeTab.data) {
             layer.data = [...activeTab.data];
@@ -11119,6 +13037,13 @@ export class TileMapEditor {
     return this.mapHeight;
   }
 
+  // Detach an off-screen editor (e.g. one converting imported maps) from the window and its canvas
+  public dispose(): void {
+    this.setAutoSaveEnabled(false);
+    this.cleanupCanvasObservers();
+    this.cleanupCanvasEvents();
+  }
+
   // Method to update canvas reference when DOM element changes
   public updateCanvas(newCanvas: HTMLCanvasElement): void {
     // Clean up observers and events from the old canvas
@@ -11144,7 +13069,7 @@ export class TileMapEditor {
   /**
    * Get current undo/redo history state for persistence
    */
-  public getUndoStackState(): { history: Array<{ layers: TileLayer[]; objects: MapObject[] }>; historyIndex: number } {
+  public getUndoStackState(): { history: Array<{ layers: TileLayer[]; objects: MapObject[]; mapHeader?: MapHeaderSettings; collisionRebuild?: CollisionRebuildState | null; generation?: GeneratedMapUndo }>; historyIndex: number } {
     return {
       history: this.history,
       historyIndex: this.historyIndex
@@ -11154,7 +13079,7 @@ export class TileMapEditor {
   /**
    * Restore undo/redo history state from persistence
    */
-  public setUndoStackState(state: { history: Array<{ layers: TileLayer[]; objects: MapObject[] }>; historyIndex: number }): void {
+  public setUndoStackState(state: { history: Array<{ layers: TileLayer[]; objects: MapObject[]; mapHeader?: MapHeaderSettings; collisionRebuild?: CollisionRebuildState | null; generation?: GeneratedMapUndo }>; historyIndex: number }): void {
     if (!Array.isArray(state.history)) {
       console.warn('Invalid history state provided to setUndoStackState');
       return;
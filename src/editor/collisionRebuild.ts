@@ -0,0 +1,40 @@
+/**
+ * Collision derived from tile metadata. Tiles (and the assets of placed
+ * objects) may carry a default collision value; "Rebuild collision" recomputes
+ * the collision layer from them.
+ *
+ * Hand edits live in a separate override layer, filled in as collision cells
+ * are painted, erased, filled, stamped or pasted, so rebuilding never loses
+ * them. Collision that came with an imported map, from map modifications or
+ * from the generator is not a hand edit and is rebuilt.
+ */
+
+export const NO_COLLISION_OVERRIDE = -1;
+
+export interface CollisionRebuildState {
+  overrides: number[];   // Per cell: collision value set by hand, or NO_COLLISION_OVERRIDE
+}
+
+export const emptyCollisionOverrides = (cellCount: number): number[] =>
+  new Array<number>(cellCount).fill(NO_COLLISION_OVERRIDE);
+
+/** Per-cell collision of stacked sources (bottom first); a later non-zero value wins. */
+export function combineCollisionSources(sources: number[][], cellCount: number): number[] {
+  const combined = new Array<number>(cellCount).fill(0);
+  for (const source of sources) {
+    source.forEach((value, index) => {
+      if (value > 0 && index < cellCount) combined[index] = value;
+    });
+  }
+  return combined;
+}
+
+export function applyCollisionOverrides(derived: number[], overrides: number[]): number[] {
+  return derived.map((value, index) => {
+    const override = overrides[index];
+    return override !== undefined && override !== NO_COLLISION_OVERRIDE ? override : value;
+  });
+}
+
+export const countCollisionOverrides = (overrides: number[]): number =>
+  overrides.filter(value => value !== NO_COLLISION_OVERRIDE).length;
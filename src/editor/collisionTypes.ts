@@ -0,0 +1,117 @@
+/**
+ * Flare's collision layer values (MapCollision.h). Collision cells store the
+ * value itself, so the editor paints and exports them as they are.
+ *
+ * "Hidden" variants behave like their visible counterparts but are not drawn
+ * on the in-game minimap; "map only" cells block nothing and only show up on
+ * the minimap (the alt variant in a second colour, e.g. for doors).
+ */
+
+export interface CollisionType {
+  value: number;
+  label: string;
+  description: string;
+  color: [number, number, number];
+  dashed: boolean;   // Hidden and map-only values get a dashed outline
+  fill: boolean;     // Blocking values are filled
+}
+
+export const COLLISION_TYPES: CollisionType[] = [
+  {
+    value: 1,
+    label: 'Blocks all',
+    description: 'Full Collision: Nothing can pass through this cell.',
+    color: [239, 68, 68],
+    dashed: false,
+    fill: true
+  },
+  {
+    value: 2,
+    label: 'Blocks movement',
+    description: 'Ground Collision: Only flying units and projectiles pass (water, pits).',
+    color: [59, 130, 246],
+    dashed: false,
+    fill: true
+  },
+  {
+    value: 3,
+    label: 'Blocks all (hidden)',
+    description: 'Hidden Full Collision: Same as "Full Collision" but not visible on the minimap.',
+    color: [249, 115, 22],
+    dashed: true,
+    fill: true
+  },
+  {
+    value: 4,
+    label: 'Blocks movement (hidden)',
+    description: 'Hidden Ground Collision: Same as "Ground Collision" but not visible on the minimap.',
+    color: [6, 182, 212],
+    dashed: true,
+    fill: true
+  },
+  {
+    value: 5,
+    label: 'Map only',
+    description: 'Map Only: Blocks nothing, but is drawn as a wall on the minimap.',
+    color: [234, 179, 8],
+    dashed: true,
+    fill: false
+  },
+  {
+    value: 6,
+    label: 'Map only (alt)',
+    description: 'Map Only Alt: Blocks nothing, drawn in the minimap\'s alternate colour (e.g. doors).',
+    color: [168, 85, 247],
+    dashed: true,
+    fill: false
+  }
+];
+
+export function getCollisionType(value: number): CollisionType | null {
+  return COLLISION_TYPES.find(type => type.value === value) ?? null;
+}
+
+/** Value written to a Flare map; anything Flare does not know is exported as "blocks all". */
+export function toFlareCollisionValue(value: number): number {
+  if (!value || value < 0) return 0;
+  return getCollisionType(value) ? value : 1;
+}
+
+/** Whether walking actors are stopped by the value (map-only cells are walkable). */
+export function blocksMovement(value: number): boolean {
+  const flareValue = toFlareCollisionValue(value);
+  return flareValue >= 1 && flareValue <= 4;
+}
+
+export const collisionColor = (type: CollisionType, alpha: number): string =>
+  `rgba(${type.color[0]}, ${type.color[1]}, ${type.color[2]}, ${alpha})`;
+
+/** Outline (and fill, for blocking values) of a collision cell's diamond centred on (cx, cy). */
+export function drawCollisionDiamond(
+  ctx: CanvasRenderingContext2D,
+  cx: number,
+  cy: number,
+  halfWidth: number,
+  halfHeight: number,
+  value: number
+): void {
+  const type = getCollisionType(toFlareCollisionValue(value));
+  if (!type) return;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.moveTo(cx, cy - halfHeight);
+  ctx.lineTo(cx + halfWidth, cy);
+  ctx.lineTo(cx, cy + halfHeight);
+  ctx.lineTo(cx - halfWidth, cy);
+  ctx.closePath();
+  if (type.fill) {
+    ctx.fillStyle = collisionColor(type, type.dashed ? 0.2 : 0.35);
+    ctx.fill();
+  }
+  ctx.lineWidth = 2;
+  ctx.setLineDash(type.dashed ? [6, 4] : []);
+  ctx.strokeStyle = collisionColor(type, 1);
+  ctx.stroke();
+  ctx.restore();
+}
@@ -0,0 +1,128 @@
+import type { MapObject } from '../types';
+
+/**
+ * Where the enemies of a map spawn, roam and notice the player. Flare spawns
+ * `number` enemies inside the location rectangle; each wanders up to
+ * `wander_radius` cells from its spawn point and starts chasing the player
+ * within `threat_range` cells of where it stands.
+ *
+ * Areas are in continuous map coordinates with cell centres on whole numbers,
+ * so cell (x, y) covers x - 0.5 .. x + 0.5.
+ */
+
+export interface ZoneRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface EnemyZone {
+  objectId: number;
+  label: string;
+  count: number;
+  spawn: ZoneRect;
+  wanderRadius: number;
+  threatRange: number;
+}
+
+// First number of a value such as "4" or "2,4" (ranges and near/far pairs)
+const firstNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const parsed = parseFloat(value.split(',')[0]);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Highest number of a value such as "2,4"
+const lastNumber = (value: unknown): number | null => {
+  if (typeof value !== 'string') return firstNumber(value);
+  const parsed = value.split(',').map(part => parseFloat(part)).filter(Number.isFinite);
+  return parsed.length > 0 ? Math.max(...parsed) : null;
+};
+
+const isEnemy = (obj: MapObject) =>
+  (obj.type === 'enemy' || obj.type === 'creature' || obj.category === 'enemy' || obj.category === 'creature') && obj.category !== 'npc';
+
+/** Zones of the placed enemy spawns. The threat range is read from "threat_range", or the "thread_range" field of the enemy editor. */
+export function getEnemyZones(objects: MapObject[]): EnemyZone[] {
+  const zones: EnemyZone[] = [];
+  for (const obj of objects) {
+    if (!isEnemy(obj) || obj.x < 0 || obj.y < 0) continue;
+    const props = obj.properties || {};
+    const width = Math.max(1, obj.width || 1);
+    const height = Math.max(1, obj.height || 1);
+    const count = obj.number ?? lastNumber(props.number) ?? 1;
+    const category = obj.category && obj.category !== 'enemy' ? obj.category : '';
+    zones.push({
+      objectId: obj.id,
+      label: category || obj.name || `enemy #${obj.id}`,
+      count: Math.max(1, Math.round(count)),
+      spawn: { left: obj.x - 0.5, top: obj.y - 0.5, right: obj.x + width - 0.5, bottom: obj.y + height - 0.5 },
+      wanderRadius: Math.max(0, obj.wander_radius ?? firstNumber(props.wander_radius) ?? 0),
+      threatRange: Math.max(0, firstNumber(props.threat_range) ?? firstNumber(props.thread_range) ?? 0)
+    });
+  }
+  return zones;
+}
+
+/** Reach of the zone's enemies: spawn area plus wander radius, plus threat range when `withThreat`. */
+export const getZoneReach = (zone: EnemyZone, withThreat: boolean): number =>
+  zone.wanderRadius + (withThreat ? zone.threatRange : 0);
+
+/** Shortest distance between two rectangles (0 when they touch or overlap). */
+export function rectDistance(a: ZoneRect, b: ZoneRect): number {
+  const dx = Math.max(0, a.left - b.right, b.left - a.right);
+  const dy = Math.max(0, a.top - b.bottom, b.top - a.bottom);
+  return Math.hypot(dx, dy);
+}
+
+/** Pairs of zones whose threat areas overlap, as object ids. */
+export function findOverlappingZones(zones: EnemyZone[]): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < zones.length; i++) {
+    for (let j = i + 1; j < zones.length; j++) {
+      const distance = rectDistance(zones[i].spawn, zones[j].spawn);
+      if (distance === 0 || distance < getZoneReach(zones[i], true) + getZoneReach(zones[j], true)) {
+        pairs.push([zones[i].objectId, zones[j].objectId]);
+      }
+    }
+  }
+  return pairs;
+}
+
+/** Whether enemies of the zone notice the hero standing on its spawn cell. */
+export function threatensCell(zone: EnemyZone, x: number, y: number): boolean {
+  const cell = { left: x - 0.5, top: y - 0.5, right: x + 0.5, bottom: y + 0.5 };
+  const distance = rectDistance(zone.spawn, cell);
+  return distance === 0 || distance < getZoneReach(zone, true);
+}
+
+/**
+ * Outline of a rectangle grown by `radius` (straight sides, rounded corners),
+ * clockwise from the top-left corner arc.
+ */
+export function roundedRectOutline(rect: ZoneRect, radius: number, segmentsPerCorner: number = 6): Array<{ x: number; y: number }> {
+  if (radius <= 0) {
+    return [
+      { x: rect.left, y: rect.top },
+      { x: rect.right, y: rect.top },
+      { x: rect.right, y: rect.bottom },
+      { x: rect.left, y: rect.bottom }
+    ];
+  }
+  const corners = [
+    { x: rect.left, y: rect.top, start: Math.PI },
+    { x: rect.right, y: rect.top, start: Math.PI * 1.5 },
+    { x: rect.right, y: rect.bottom, start: 0 },
+    { x: rect.left, y: rect.bottom, start: Math.PI / 2 }
+  ];
+  const points: Array<{ x: number; y: number }> = [];
+  for (const corner of corners) {
+    for (let i = 0; i <= segmentsPerCorner; i++) {
+      const angle = corner.start + (Math.PI / 2) * (i / segmentsPerCorner);
+      points.push({ x: corner.x + Math.cos(angle) * radius, y: corner.y + Math.sin(angle) * radius });
+    }
+  }
+  return points;
+}
@@ -0,0 +1,77 @@
+/**
+ * Resize handles for event trigger areas and hotspots. A rectangle covers
+ * whole cells (x, y, width, height); its handles sit on the corners and edge
+ * midpoints of the covered cells, in continuous map coordinates with cell
+ * centres on whole numbers.
+ *
+ * Dragging a handle moves the edges it belongs to onto the cell under the
+ * cursor, so rectangles always snap to tiles and never shrink below one cell.
+ */
+
+export interface AreaRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface HandleEdges {
+  left?: boolean;
+  right?: boolean;
+  top?: boolean;
+  bottom?: boolean;
+}
+
+export interface AreaHandle {
+  edges: HandleEdges;
+  x: number;
+  y: number;
+}
+
+/** Rectangle of an "x,y,w,h" property value (width and height default to 1). */
+export function parseAreaRect(value: unknown): AreaRect | null {
+  if (typeof value !== 'string') return null;
+  const [x, y, width = 1, height = 1] = value.split(',').map(part => parseInt(part.trim(), 10));
+  if (Number.isNaN(x) || Number.isNaN(y) || y === undefined) return null;
+  return { x, y, width: Number.isNaN(width) ? 1 : width, height: Number.isNaN(height) ? 1 : height };
+}
+
+export const formatAreaRect = (rect: AreaRect): string => `${rect.x},${rect.y},${rect.width},${rect.height}`;
+
+export const sameAreaRect = (a: AreaRect | null, b: AreaRect | null): boolean =>
+  a === b || (!!a && !!b && a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height);
+
+/** Corner handles first, then edge midpoints. */
+export function getAreaHandles(rect: AreaRect): AreaHandle[] {
+  const left = rect.x - 0.5;
+  const top = rect.y - 0.5;
+  const right = rect.x + Math.max(1, rect.width) - 0.5;
+  const bottom = rect.y + Math.max(1, rect.height) - 0.5;
+  const midX = (left + right) / 2;
+  const midY = (top + bottom) / 2;
+  return [
+    { edges: { left: true, top: true }, x: left, y: top },
+    { edges: { right: true, top: true }, x: right, y: top },
+    { edges: { right: true, bottom: true }, x: right, y: bottom },
+    { edges: { left: true, bottom: true }, x: left, y: bottom },
+    { edges: { top: true }, x: midX, y: top },
+    { edges: { right: true }, x: right, y: midY },
+    { edges: { bottom: true }, x: midX, y: bottom },
+    { edges: { left: true }, x: left, y: midY }
+  ];
+}
+
+/** `rect` with the dragged edges moved onto cell (cellX, cellY), kept inside the map. */
+export function resizeArea(rect: AreaRect, edges: HandleEdges, cellX: number, cellY: number, mapWidth: number, mapHeight: number): AreaRect {
+  const cx = Math.max(0, Math.min(mapWidth - 1, cellX));
+  const cy = Math.max(0, Math.min(mapHeight - 1, cellY));
+  let left = rect.x;
+  let top = rect.y;
+  let right = rect.x + Math.max(1, rect.width) - 1;
+  let bottom = rect.y + Math.max(1, rect.height) - 1;
+  if (edges.left) left = Math.min(cx, right);
+  if (edges.right) right = Math.max(cx, left);
+  if (edges.top) top = Math.min(cy, bottom);
+  if (edges.bottom) bottom = Math.max(cy, top);
+  return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+}
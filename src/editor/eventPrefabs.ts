@@ -0,0 +1,325 @@
+/**
+ * Event prefabs: ready-made events (doors, chests, teleporters, …) that only
+ * ask for their own parameters and build fully configured event objects at a
+ * placement cell.
+ *
+ * Besides the built-in prefabs, teams can save their own events as prefabs.
+ * Those are stored per project in EVENT_PREFABS_FILE with every position
+ * relative to the first event, and are shifted to the placement cell again.
+ */
+
+export type PrefabParamType = 'text' | 'number' | 'item' | 'lootGroup' | 'cell' | 'flag';
+
+export interface PrefabParam {
+  key: string;
+  label: string;
+  type: PrefabParamType;
+  // Cell parameters default to an "x,y" offset from the placement cell
+  default: string;
+  placeholder?: string;
+}
+
+export interface PrefabEvent {
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  activate: string;
+  properties: Record<string, string | string[]>;
+}
+
+export interface EventPrefab {
+  id: string;
+  name: string;
+  description: string;
+  builtIn: boolean;
+  params: PrefabParam[];
+  build: (origin: { x: number; y: number }, values: Record<string, string>) => PrefabEvent[];
+}
+
+export interface SavedEventPrefab {
+  id: string;
+  name: string;
+  description: string;
+  events: PrefabEvent[];
+}
+
+export const EVENT_PREFABS_FILE = 'event-prefabs.json';
+
+const cellRect = (x: number, y: number): string => `${x},${y},1,1`;
+
+const slug = (value: string): string =>
+  value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'event';
+
+/** Status flag named after the prefab instance unless one was given. */
+const statusFlag = (values: Record<string, string>, fallbackName: string, x: number, y: number, suffix: string): string =>
+  values.status?.trim() || `${slug(values.name || fallbackName)}_${x}_${y}_${suffix}`;
+
+const parseCell = (value: string | undefined, origin: { x: number; y: number }): { x: number; y: number } => {
+  const [x, y] = (value ?? '').split(',').map(part => parseInt(part.trim(), 10));
+  return Number.isNaN(x) || Number.isNaN(y) || y === undefined ? origin : { x, y };
+};
+
+const isSet = (value: string | undefined): boolean => value === 'true';
+
+/** Default parameter values for a placement; cell offsets become absolute cells. */
+export function getPrefabDefaults(prefab: EventPrefab, origin: { x: number; y: number }): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const param of prefab.params) {
+    if (param.type === 'cell') {
+      const offset = parseCell(param.default, { x: 0, y: 0 });
+      values[param.key] = `${origin.x + offset.x},${origin.y + offset.y}`;
+    } else {
+      values[param.key] = param.default;
+    }
+  }
+  return values;
+}
+
+export const BUILT_IN_EVENT_PREFABS: EventPrefab[] = [
+  {
+    id: 'locked_door',
+    name: 'Locked door',
+    description: 'Opens with a key item by changing its tile and clearing collision; stays open when the map is loaded again.',
+    builtIn: true,
+    params: [
+      { key: 'name', label: 'Name', type: 'text', default: 'Door' },
+      { key: 'key', label: 'Key item', type: 'item', default: '' },
+      { key: 'consumeKey', label: 'Use up the key', type: 'flag', default: 'false' },
+      { key: 'layer', label: 'Door layer', type: 'text', default: 'object' },
+      { key: 'openTile', label: 'Open door tile (0 removes it)', type: 'number', default: '0' },
+      { key: 'status', label: 'Opened status', type: 'text', default: '', placeholder: 'Generated from the name' },
+      { key: 'sound', label: 'Sound', type: 'text', default: '' }
+    ],
+    build: ({ x, y }, values) => {
+      const name = values.name || 'Door';
+      const status = statusFlag(values, 'door', x, y, 'open');
+      const mapmod = `${values.layer || 'object'},${x},${y},${parseInt(values.openTile, 10) || 0};collision,${x},${y},0`;
+      const door: PrefabEvent['properties'] = {
+        activate: 'on_trigger',
+        location: cellRect(x, y),
+        hotspot: cellRect(x, y),
+        requires_not_status: status,
+        set_status: status,
+        mapmod
+      };
+      if (values.key) {
+        door.requires_item = `${values.key}:1`;
+        if (isSet(values.consumeKey)) door.remove_item = `${values.key}:1`;
+      }
+      if (values.sound) door.soundfx = values.sound;
+      return [
+        { name, x, y, width: 1, height: 1, activate: 'on_trigger', properties: door },
+        {
+          name: `${name} (stays open)`,
+          x, y, width: 1, height: 1,
+          activate: 'on_load',
+          properties: { activate: 'on_load', requires_status: status, mapmod }
+        }
+      ];
+    }
+  },
+  {
+    id: 'chest',
+    name: 'Chest',
+    description: 'Drops loot once and sets an "opened" status; can swap to an opened chest tile.',
+    builtIn: true,
+    params: [
+      { key: 'name', label: 'Name', type: 'text', default: 'Chest' },
+      { key: 'loot', label: 'Loot group', type: 'lootGroup', default: '' },
+      { key: 'lootCount', label: 'Loot count (min,max)', type: 'text', default: '1,1' },
+      { key: 'layer', label: 'Chest layer', type: 'text', default: 'object' },
+      { key: 'openTile', label: 'Opened chest tile (0 keeps the tile)', type: 'number', default: '0' },
+      { key: 'status', label: 'Opened status', type: 'text', default: '', placeholder: 'Generated from the name' },
+      { key: 'sound', label: 'Sound', type: 'text', default: '' }
+    ],
+    build: ({ x, y }, values) => {
+      const name = values.name || 'Chest';
+      const status = statusFlag(values, 'chest', x, y, 'opened');
+      const openTile = parseInt(values.openTile, 10) || 0;
+      const mapmod = openTile > 0 ? `${values.layer || 'object'},${x},${y},${openTile}` : '';
+      const chest: PrefabEvent['properties'] = {
+        activate: 'on_trigger',
+        location: cellRect(x, y),
+        hotspot: cellRect(x, y),
+        requires_not_status: status,
+        set_status: status
+      };
+      if (values.loot) {
+        chest.loot = values.loot;
+        if (values.lootCount) chest.loot_count = values.lootCount;
+      }
+      if (mapmod) chest.mapmod = mapmod;
+      if (values.sound) chest.soundfx = values.sound;
+      const events: PrefabEvent[] = [{ name, x, y, width: 1, height: 1, activate: 'on_trigger', properties: chest }];
+      if (mapmod) {
+        events.push({
+          name: `${name} (stays open)`,
+          x, y, width: 1, height: 1,
+          activate: 'on_load',
+          properties: { activate: 'on_load', requires_status: status, mapmod }
+        });
+      }
+      return events;
+    }
+  },
+  {
+    id: 'teleporter_pair',
+    name: 'Teleporter pair',
+    description: 'Two pads on this map; interacting with one moves the player onto the other.',
+    builtIn: true,
+    params: [
+      { key: 'name', label: 'Name', type: 'text', default: 'Teleporter' },
+      { key: 'exit', label: 'Second pad', type: 'cell', default: '4,0' },
+      { key: 'sound', label: 'Sound', type: 'text', default: '' }
+    ],
+    build: (origin, values) => {
+      const name = values.name || 'Teleporter';
+      const exit = parseCell(values.exit, { x: origin.x + 4, y: origin.y });
+      const pad = (label: string, from: { x: number; y: number }, to: { x: number; y: number }): PrefabEvent => {
+        const properties: PrefabEvent['properties'] = {
+          activate: 'on_interact',
+          hotspot: cellRect(from.x, from.y),
+          intramap: `${to.x},${to.y}`
+        };
+        if (values.sound) properties.soundfx = values.sound;
+        return { name: `${name} ${label}`, x: from.x, y: from.y, width: 1, height: 1, activate: 'on_interact', properties };
+      };
+      return [pad('A', origin, exit), pad('B', exit, origin)];
+    }
+  },
+  {
+    id: 'pressure_plate_trap',
+    name: 'Pressure plate trap',
+    description: 'Fires a power at the player whenever they step on the plate.',
+    builtIn: true,
+    params: [
+      { key: 'name', label: 'Name', type: 'text', default: 'Trap' },
+      { key: 'power', label: 'Power id', type: 'number', default: '' },
+      { key: 'source', label: 'Fired from', type: 'cell', default: '0,0' },
+      { key: 'damage', label: 'Damage (min,max)', type: 'text', default: '' },
+      { key: 'cooldown', label: 'Cooldown (ms)', type: 'number', default: '2000' }
+    ],
+    build: ({ x, y }, values) => {
+      const source = parseCell(values.source, { x, y });
+      const properties: PrefabEvent['properties'] = {
+        activate: 'on_trigger',
+        location: cellRect(x, y),
+        repeat: 'true'
+      };
+      if (values.power) {
+        properties.power = values.power;
+        properties.power_path = `${source.x},${source.y},hero`;
+      }
+      if (values.damage) properties.power_damage = values.damage;
+      const cooldown = parseInt(values.cooldown, 10) || 0;
+      if (cooldown > 0) properties.cooldown = `${cooldown}ms`;
+      return [{ name: values.name || 'Trap', x, y, width: 1, height: 1, activate: 'on_trigger', properties }];
+    }
+  },
+  {
+    id: 'save_shrine',
+    name: 'Save shrine',
+    description: 'Saves the game when the player interacts with it, optionally restoring HP and MP.',
+    builtIn: true,
+    params: [
+      { key: 'name', label: 'Name', type: 'text', default: 'Shrine' },
+      { key: 'message', label: 'Message', type: 'text', default: 'Your progress has been saved.' },
+      { key: 'restore', label: 'Restore HP and MP', type: 'flag', default: 'true' }
+    ],
+    build: ({ x, y }, values) => {
+      const properties: PrefabEvent['properties'] = {
+        activate: 'on_interact',
+        hotspot: cellRect(x, y),
+        save_game: 'true',
+        repeat: 'true'
+      };
+      if (values.message) properties.msg = values.message;
+      if (isSet(values.restore)) properties.restore = 'hpmp';
+      return [{ name: values.name || 'Shrine', x, y, width: 1, height: 1, activate: 'on_interact', properties }];
+    }
+  }
+];
+
+/** `value` with the "x,y" pair starting at part `index` moved by (dx, dy). */
+const shiftPair = (value: string, index: number, dx: number, dy: number): string => {
+  const parts = value.split(',');
+  const x = parseInt(parts[index], 10);
+  const y = parseInt(parts[index + 1], 10);
+  if (Number.isNaN(x) || Number.isNaN(y)) return value;
+  parts[index] = String(x + dx);
+  parts[index + 1] = String(y + dy);
+  return parts.join(',');
+};
+
+const shiftValue = (value: string | string[], shift: (entry: string) => string): string | string[] =>
+  Array.isArray(value) ? value.map(shift) : shift(value);
+
+/** Properties holding cells of this map, moved by (dx, dy). */
+export function shiftEventProperties(properties: Record<string, string | string[]>, dx: number, dy: number): Record<string, string | string[]> {
+  const shifted = { ...properties };
+  for (const key of ['location', 'hotspot', 'intramap']) {
+    if (shifted[key]) shifted[key] = shiftValue(shifted[key], entry => shiftPair(entry, 0, dx, dy));
+  }
+  if (shifted.mapmod) {
+    // layer,x,y,value;…
+    shifted.mapmod = shiftValue(shifted.mapmod, entry =>
+      entry.split(';').map(mod => shiftPair(mod, 1, dx, dy)).join(';'));
+  }
+  if (shifted.power_path) {
+    // x,y,hero or x,y,x,y
+    shifted.power_path = shiftValue(shifted.power_path, entry =>
+      shiftPair(shiftPair(entry, 0, dx, dy), 2, dx, dy));
+  }
+  return shifted;
+}
+
+/** A project prefab from placed events, with positions relative to the first one. */
+export function createSavedPrefab(name: string, description: string, events: PrefabEvent[]): SavedEventPrefab {
+  const origin = events[0] ?? { x: 0, y: 0 };
+  return {
+    id: `${slug(name)}_${Date.now().toString(36)}`,
+    name: name.trim() || 'Prefab',
+    description: description.trim(),
+    events: events.map(event => ({
+      ...event,
+      x: event.x - origin.x,
+      y: event.y - origin.y,
+      properties: shiftEventProperties(event.properties, -origin.x, -origin.y)
+    }))
+  };
+}
+
+export function savedPrefabToEventPrefab(saved: SavedEventPrefab): EventPrefab {
+  return {
+    id: saved.id,
+    name: saved.name,
+    description: saved.description,
+    builtIn: false,
+    params: [],
+    build: ({ x, y }) => saved.events.map(event => ({
+      ...event,
+      x: event.x + x,
+      y: event.y + y,
+      properties: shiftEventProperties(event.properties, x, y)
+    }))
+  };
+}
+
+/** Project prefabs of an EVENT_PREFABS_FILE; unreadable content gives none. */
+export function parseSavedPrefabs(content: string | null | undefined): SavedEventPrefab[] {
+  if (!content) return [];
+  try {
+    const parsed = JSON.parse(content);
+    const prefabs = Array.isArray(parsed?.prefabs) ? parsed.prefabs : [];
+    return prefabs.filter((prefab: SavedEventPrefab) =>
+      prefab && typeof prefab.id === 'string' && typeof prefab.name === 'string' && Array.isArray(prefab.events) && prefab.events.length > 0
+    ).map((prefab: SavedEventPrefab) => ({ ...prefab, description: prefab.description ?? '' }));
+  } catch {
+    return [];
+  }
+}
+
+export const serializeSavedPrefabs = (prefabs: SavedEventPrefab[]): string =>
+  JSON.stringify({ version: 1, prefabs }, null, 2);
@@ -0,0 +1,558 @@
+import type { MapObject } from '../types';
+import { formatOptionalMapHeaderLines, type MapHeaderSettings } from './mapHeader';
+import { formatTileAnimation, type TileAnimationFrame } from './tileAnimation';
+import { toFlareCollisionValue } from './collisionTypes';
+import { MAPMOD_TILESETS_PROPERTY, toFlareMapmods } from './mapmods';
+import { getNpcExportFilename } from '../utils/flareNpcUtils';
+
+/**
+ * Text generation for Flare map and tilesetdef exports.
+ *
+ * Works on a plain snapshot of the map (no canvas or images) so the editor and
+ * the headless command-line exporter write identical files.
+ */
+
+export interface FlareExportTileset {
+  fileName: string;
+  layerType: string;     // Layer type the tileset was collected for; drives id ordering
+  count: number;
+  columns: number;
+  tileWidth: number;
+  tileHeight: number;
+  spacing: number;
+  margin: number;
+  offset: number;        // First global tile id, see assignTilesetOffsets
+  animations?: Map<number, TileAnimationFrame[]>;  // Keyed by tileset-local id
+}
+
+export interface FlareExportLayer {
+  type: string;
+  data: number[];                              // Tileset-local ids, 0 = empty
+  cellTilesetKeys?: Array<string | null>;      // Tileset file name per cell
+  layerTilesetFileName: string | null;         // Fallback for cells without a key
+}
+
+export interface FlareMapExportInput {
+  width: number;
+  height: number;
+  tileWidth: number;
+  tileHeight: number;
+  heroX: number;
+  heroY: number;
+  mapName: string;
+  title: string;          // Used when the header has no title
+  header: MapHeaderSettings;
+  tilesets: FlareExportTileset[];
+  layers: FlareExportLayer[];   // Bottom first, as written to the file
+  objects: MapObject[];
+}
+
+export type TilesetDefRect = { sourceX: number; sourceY: number; width: number; height: number };
+
+export const sanitizeExportMapName = (mapName: string): string =>
+  mapName
+    .replace(/[<>:"/\\|?*]/g, '_')
+    .trim()
+    .replace(/\s+/g, '_')
+    .replace(/_{2,}/g, '_');
+
+/** Basename of a tileset key with any `<layer>_tab<id>_` prefixes from saved tabs removed. */
+export function normalizeTilesetKey(key: string | null | undefined): string | null {
+  if (!key) return null;
+
+  let normalized = key.replace(/\\/g, '/').trim();
+  if (!normalized) return null;
+
+  // Use basename to avoid path prefix differences.
+  if (normalized.includes('/')) {
+    normalized = normalized.split('/').pop() || normalized;
+  }
+
+  // Strip repeated tab prefixes (legacy/rehydrated keys can accumulate these).
+  const uniqueKeyPattern = /^[a-zA-Z]+_tab\d+_/;
+  while (uniqueKeyPattern.test(normalized)) {
+    normalized = normalized.replace(uniqueKeyPattern, '');
+  }
+
+  return normalized || null;
+}
+
+// Helper images the editor draws with (collision overlay); never exported
+export const INTERNAL_TILESET_FILENAMES: ReadonlySet<string> = new Set<string>(['collision-tile.png', 'collision_tileset.png']);
+
+export const isInternalTilesetFile = (fileName: string | null | undefined): boolean =>
+  !!fileName && INTERNAL_TILESET_FILENAMES.has(fileName.toLowerCase());
+
+const TILESET_LAYER_PRIORITY: Record<string, number> = {
+  collision: 0,
+  main: 1,
+  background: 2,
+  fringe: 3,
+  object: 4,
+  foreground: 5,
+  event: 6,
+  enemy: 7,
+  npc: 8
+};
+
+/** Order tilesets get their global id ranges in: by layer type, then by file name. */
+export function sortExportTilesets<T extends { layerType: string; fileName: string | null }>(tilesets: T[]): void {
+  tilesets.sort((a, b) => {
+    const pa = TILESET_LAYER_PRIORITY[a.layerType] ?? 99;
+    const pb = TILESET_LAYER_PRIORITY[b.layerType] ?? 99;
+    if (pa !== pb) return pa - pb;
+    const fa = (a.fileName || '').toLowerCase();
+    const fb = (b.fileName || '').toLowerCase();
+    if (fa < fb) return -1;
+    if (fa > fb) return 1;
+    return 0;
+  });
+}
+
+/** Tabs whose tileset paints at least one of a layer's cells. */
+export function findTabsUsedByCells<T extends { tileset?: { fileName?: string | null } | null }>(
+  tabs: T[],
+  cellTilesetKeys: Array<string | null> | undefined
+): T[] {
+  const usedKeys = new Set((cellTilesetKeys || []).map(key => normalizeTilesetKey(key)).filter(Boolean));
+  return tabs.filter(tab => usedKeys.has(normalizeTilesetKey(tab.tileset?.fileName)));
+}
+
+/** A placed object reduced to the tile it stamps into an object layer. */
+export interface StampedObjectTile {
+  x: number;
+  y: number;
+  gid: number;                 // Tileset-local id
+  tilesetKey: string | null;
+}
+
+/**
+ * Object layer contents for export: painted cells with placed objects stamped
+ * over them. Objects outside the map or without a tile are skipped.
+ */
+export function stampObjectLayer(
+  data: number[],
+  cellTilesetKeys: Array<string | null> | undefined,
+  width: number,
+  height: number,
+  objects: StampedObjectTile[]
+): { data: number[]; cellTilesetKeys: Array<string | null> } {
+  const stamped = [...data];
+  const keys: Array<string | null> = cellTilesetKeys ? [...cellTilesetKeys] : new Array(width * height).fill(null);
+  for (const object of objects) {
+    if (object.x < 0 || object.y < 0 || object.x >= width || object.y >= height || object.gid <= 0) continue;
+    const index = object.y * width + object.x;
+    stamped[index] = object.gid;
+    if (object.tilesetKey) keys[index] = object.tilesetKey;
+  }
+  return { data: stamped, cellTilesetKeys: keys };
+}
+
+export function assignTilesetOffsets(tilesets: Array<{ count: number; offset: number }>): void {
+  // Calculate cumulative offsets for each tileset.
+  // Offset starts at 1 (0 is reserved for empty/no-tile), and each tileset
+  // gets offset = cumulative count
+  let currentOffset = 1;
+  for (const tileset of tilesets) {
+    tileset.offset = currentOffset;
+    currentOffset += tileset.count;
+  }
+}
+
+const registerTilesetOffsetAliases = (offsets: Map<string, number>, fileName: string, offset: number): void => {
+  if (!offsets.has(fileName)) {
+    offsets.set(fileName, offset);
+  }
+
+  const normalized = normalizeTilesetKey(fileName);
+  if (normalized && !offsets.has(normalized)) {
+    offsets.set(normalized, offset);
+  }
+};
+
+const resolveTilesetOffset = (offsets: Map<string, number>, rawKey: string | null | undefined): number | undefined => {
+  if (!rawKey) return undefined;
+
+  const direct = offsets.get(rawKey);
+  if (typeof direct === 'number') return direct;
+
+  const normalized = normalizeTilesetKey(rawKey);
+  if (!normalized) return undefined;
+
+  return offsets.get(normalized);
+};
+
+/** Flare map .txt for a snapshot; tileset offsets must already be assigned. */
+export function buildFlareMapTxt(input: FlareMapExportInput): string {
+  const { header, objects } = input;
+  const lines: string[] = [];
+
+  lines.push(`[header]`);
+  lines.push(`width=${input.width}`);
+  lines.push(`height=${input.height}`);
+  lines.push(`tilewidth=${input.tileWidth}`);
+  lines.push(`tileheight=${input.tileHeight}`);
+  lines.push(`orientation=isometric`);
+  lines.push(`hero_pos=${input.heroX},${input.heroY}`);
+  lines.push(`music=${header.music?.trim() || 'music/default_theme.ogg'}`);
+  // Use the exported tilesetdefs/tileset_mapname.txt for this map unless the map overrides it
+  const sanitizedMapName = sanitizeExportMapName(input.mapName || 'Map_Name');
+  lines.push(`tileset=${header.tileset?.trim() || `tilesetdefs/tileset_${sanitizedMapName}.txt`}`);
+  lines.push(`title=${header.title?.trim() || input.title}`);
+  lines.push(...formatOptionalMapHeaderLines(header));
+  lines.push('');
+
+  const tilesetOffsets = new Map<string, number>();
+  const tilesetLayerByKey = new Map<string, string>();
+  for (const tileset of input.tilesets) {
+    if (!tileset.fileName) continue;
+    registerTilesetOffsetAliases(tilesetOffsets, tileset.fileName, tileset.offset);
+    tilesetLayerByKey.set(tileset.fileName, tileset.layerType);
+    const normalizedKey = normalizeTilesetKey(tileset.fileName);
+    if (normalizedKey) {
+      tilesetLayerByKey.set(normalizedKey, tileset.layerType);
+    }
+  }
+
+  lines.push(`[tilesets]`);
+  // Always use the exported/copy location for the tileset image
+  for (const tileset of input.tilesets) {
+    if (!tileset.fileName) continue;
+    // Use relative path to images/tilesets folder from map file
+    const exportPath = `images/tilesets/${tileset.fileName}`;
+    lines.push(`tileset=${exportPath},${tileset.tileWidth},${tileset.tileHeight},${tileset.spacing},${tileset.margin}`);
+  }
+  lines.push('');
+
+  for (const layer of input.layers) {
+    const layerType = layer.type;
+
+    lines.push(`[layer]`);
+    lines.push(`type=${layer.type}`);
+    lines.push(`data=`);
+
+    const layerTilesetFileName = layer.layerTilesetFileName;
+    const isCollisionLayer = layerType === 'collision';
+    const exportLayerData = layer.data;
+    const exportCellTilesetKeys = layer.cellTilesetKeys;
+
+    for (let y = 0; y < input.height; y++) {
+      const row: string[] = [];
+      for (let x = 0; x < input.width; x++) {
+        const index = y * input.width + x;
+        const localTileId = isCollisionLayer ? toFlareCollisionValue(exportLayerData[index]) : exportLayerData[index];
+        let globalTileId = 0;
+        if (localTileId > 0) {
+          // Determine which tileset this specific cell belongs to (per-cell key set at paint time)
+          const cellTilesetKey = exportCellTilesetKeys ? exportCellTilesetKeys[index] : layerTilesetFileName;
+          let effectiveTilesetKey = cellTilesetKey;
+
+          // Guard against cross-layer key leakage (e.g. background cells referencing object tileset keys).
+          if (!isCollisionLayer && effectiveTilesetKey) {
+            const normalizedCellKey = normalizeTilesetKey(effectiveTilesetKey);
+            const resolvedCellLayerType = tilesetLayerByKey.get(effectiveTilesetKey)
+              || (normalizedCellKey ? tilesetLayerByKey.get(normalizedCellKey) : undefined)
+              || null;
+
+            if (
+              resolvedCellLayerType &&
+              resolvedCellLayerType !== layerType &&
+              layerTilesetFileName
+            ) {
+              effectiveTilesetKey = layerTilesetFileName;
+            }
+          }
+
+          let tilesetOffset = undefined as number | undefined;
+          if (!isCollisionLayer && effectiveTilesetKey) {
+            tilesetOffset = resolveTilesetOffset(tilesetOffsets, effectiveTilesetKey);
+          }
+
+          // Final fallback: use the layer's own tileset when per-cell key is missing/unresolvable.
+          if (!isCollisionLayer && (tilesetOffset === undefined) && layerTilesetFileName) {
+            tilesetOffset = resolveTilesetOffset(tilesetOffsets, layerTilesetFileName);
+          }
+
+          if (tilesetOffset !== undefined && tilesetOffset >= 1) {
+            globalTileId = tilesetOffset + (localTileId - 1);
+          } else {
+            // Fallback: if no tileset offset, write the local id directly
+            globalTileId = localTileId;
+          }
+        }
+        row.push(globalTileId.toString());
+      }
+      lines.push(row.join(','));
+    }
+    lines.push('');
+  }
+
+  const events = objects.filter(obj => obj.type === 'event');
+  for (const event of events) {
+    // Write comment line with event name and optional description
+    const eName = event.name || '';
+    const eDesc = event.description || event.properties?._description || '';
+    if (eName) {
+      const commentLine = eDesc ? `#${eName} - ${eDesc}` : `#${eName}`;
+      lines.push(commentLine);
+    }
+    lines.push(`[event]`);
+
+    // activate (always first)
+    const activate = event.properties.activate || event.activate || 'on_trigger';
+    lines.push(`activate=${activate}`);
+
+    // location
+    if (event.properties.location) {
+      lines.push(`location=${event.properties.location}`);
+    } else if (event.x >= 0 && event.y >= 0) {
+      lines.push(`location=${event.x},${event.y},${event.width},${event.height}`);
+    }
+
+    // hotspot
+    if (event.properties.hotspot) {
+      lines.push(`hotspot=${event.properties.hotspot}`);
+    } else if (event.hotspot) {
+      lines.push(`hotspot=${event.hotspot}`);
+    }
+
+    // tooltip (use event name if set)
+    if (event.properties.tooltip) {
+      lines.push(`tooltip=${event.properties.tooltip}`);
+    } else if (event.name && event.name !== 'Event' && !event.name.startsWith('event_')) {
+      lines.push(`tooltip=${event.name}`);
+    } else if (event.tooltip) {
+      lines.push(`tooltip=${event.tooltip}`);
+    }
+
+    // cooldown / delay
+    if (event.properties.cooldown) lines.push(`cooldown=${event.properties.cooldown}`);
+    if (event.properties.delay) lines.push(`delay=${event.properties.delay}`);
+
+    // requirements
+    const writeRepeatableEventProperty = (key: string) => {
+      const value = event.properties[key];
+      if (Array.isArray(value)) {
+        for (const item of value) {
+          if (item && String(item).trim()) {
+            lines.push(`${key}=${item}`);
+          }
+        }
+      } else if (value) {
+        lines.push(`${key}=${value}`);
+      }
+    };
+
+    writeRepeatableEventProperty('requires_status');
+    writeRepeatableEventProperty('requires_not_status');
+    writeRepeatableEventProperty('requires_item');
+    writeRepeatableEventProperty('requires_not_item');
+    if (event.properties.requires_level) lines.push(`requires_level=${event.properties.requires_level}`);
+    if (event.properties.requires_currency) lines.push(`requires_currency=${event.properties.requires_currency}`);
+    if (event.properties.requires_not_currency) lines.push(`requires_not_currency=${event.properties.requires_not_currency}`);
+    if (event.properties.requires_class) lines.push(`requires_class=${event.properties.requires_class}`);
+
+    // actions / rewards
+    writeRepeatableEventProperty('msg');
+    if (event.properties.reward_xp) lines.push(`reward_xp=${event.properties.reward_xp}`);
+    if (event.properties.reward_currency) lines.push(`reward_currency=${event.properties.reward_currency}`);
+    writeRepeatableEventProperty('reward_item');
+    writeRepeatableEventProperty('reward_loot');
+    if (event.properties.reward_loot_count) lines.push(`reward_loot_count=${event.properties.reward_loot_count}`);
+    writeRepeatableEventProperty('spawn');
+    writeRepeatableEventProperty('set_status');
+    writeRepeatableEventProperty('unset_status');
+    writeRepeatableEventProperty('remove_item');
+    if (event.properties.remove_currency) lines.push(`remove_currency=${event.properties.remove_currency}`);
+
+    // teleport / map transitions
+    if (event.properties.intermap) {
+      lines.push(`intermap=${event.properties.intermap}`);
+    } else if (event.intermap) {
+      lines.push(`intermap=${event.intermap}`);
+    }
+    if (event.properties.intermap_random) lines.push(`intermap_random=${event.properties.intermap_random}`);
+    if (event.properties.intramap) lines.push(`intramap=${event.properties.intramap}`);
+
+    // sound / music / visual
+    if (event.properties.soundfx) {
+      lines.push(`soundfx=${event.properties.soundfx}`);
+    } else if (event.soundfx) {
+      lines.push(`soundfx=${event.soundfx}`);
+    }
+    if (event.properties.music) lines.push(`music=${event.properties.music}`);
+    if (event.properties.shakycam) lines.push(`shakycam=${event.properties.shakycam}`);
+
+    // map modifications
+    if (event.properties.mapmod) {
+      const mapmod = toFlareMapmods(
+        event.properties.mapmod,
+        event.properties[MAPMOD_TILESETS_PROPERTY],
+        key => resolveTilesetOffset(tilesetOffsets, key)
+      );
+      lines.push(`mapmod=${mapmod}`);
+    } else if (event.mapmod) {
+      lines.push(`mapmod=${event.mapmod}`);
+    }
+
+    // npcs / loot
+    if (event.properties.npc) lines.push(`npc=${event.properties.npc}`);
+    if (event.properties.loot) {
+      lines.push(`loot=${event.properties.loot}`);
+    } else if (event.loot) {
+      lines.push(`loot=${event.loot}`);
+    }
+    if (event.properties.loot_count) lines.push(`loot_count=${event.properties.loot_count}`);
+
+    // power
+    if (event.properties.power) lines.push(`power=${event.properties.power}`);
+    if (event.properties.power_damage) lines.push(`power_damage=${event.properties.power_damage}`);
+    if (event.properties.power_path) lines.push(`power_path=${event.properties.power_path}`);
+
+    // engine/utility
+    if (event.properties.chance_exec) lines.push(`chance_exec=${event.properties.chance_exec}`);
+    if (event.properties.save_game) lines.push(`save_game=${event.properties.save_game}`);
+    if (event.properties.script) lines.push(`script=${event.properties.script}`);
+    if (event.properties.respec) lines.push(`respec=${event.properties.respec}`);
+    if (event.properties.stash) lines.push(`stash=${event.properties.stash}`);
+    if (event.properties.book) lines.push(`book=${event.properties.book}`);
+    if (event.properties.restore) lines.push(`restore=${event.properties.restore}`);
+    if (event.properties.cutscene) lines.push(`cutscene=${event.properties.cutscene}`);
+    if (event.properties.parallax_layers) lines.push(`parallax_layers=${event.properties.parallax_layers}`);
+    writeRepeatableEventProperty('random_status');
+    if (event.properties.show_on_minimap) lines.push(`show_on_minimap=${event.properties.show_on_minimap}`);
+    if (event.properties.reachable_from) lines.push(`reachable_from=${event.properties.reachable_from}`);
+
+    // repeat
+    if (event.properties.repeat !== undefined) {
+      lines.push(`repeat=${event.properties.repeat}`);
+    } else if (event.repeat !== undefined) {
+      lines.push(`repeat=${event.repeat}`);
+    }
+
+    lines.push('');
+  }
+
+  const enemies = objects.filter(obj => obj.type === 'enemy');
+  for (const enemy of enemies) {
+    lines.push(`[enemy]`);
+    lines.push(`type=enemy`);
+    lines.push(`location=${enemy.x},${enemy.y},${enemy.width},${enemy.height}`);
+
+    if (enemy.category) lines.push(`category=${enemy.category}`);
+    if (enemy.level) lines.push(`level=${enemy.level}`);
+    if (enemy.number) lines.push(`number=${enemy.number}`);
+    if (enemy.wander_radius !== undefined) lines.push(`wander_radius=${enemy.wander_radius}`);
+
+    for (const [key, value] of Object.entries(enemy.properties)) {
+      lines.push(`${key}=${value}`);
+    }
+
+    lines.push('');
+  }
+
+  const npcs = objects.filter(obj => obj.type === 'npc');
+  for (const npc of npcs) {
+    lines.push(`[npc]`);
+    lines.push(`type=npc`);
+    lines.push(`location=${npc.x},${npc.y},${npc.width},${npc.height}`);
+
+    lines.push(`filename=${getNpcExportFilename(npc)}`);
+
+    const conditionKeys = [
+      'requires_status', 'requires_not_status',
+      'requires_level', 'requires_not_level',
+      'requires_currency', 'requires_not_currency',
+      'requires_item', 'requires_not_item',
+      'requires_class', 'requires_not_class',
+    ];
+    for (const key of conditionKeys) {
+      if (npc.properties?.[key]) {
+        lines.push(`${key}=${npc.properties[key]}`);
+      }
+    }
+
+    // Patrol path, or random wandering when there is none
+    const wanderRadius = parseInt(String(npc.properties?.wander_radius ?? ''), 10);
+    if (npc.properties?.waypoints) {
+      lines.push(`waypoints=${npc.properties.waypoints}`);
+    } else if (wanderRadius > 0) {
+      lines.push(`wander_radius=${wanderRadius}`);
+    }
+
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Flare tilesetdef .txt with one [tileset] block per image. Tiles found in
+ * `detected` (keyed by tileset file name, then local id) keep their detected
+ * rectangles; the rest fall back to the tileset grid.
+ */
+export function buildFlareTilesetDef(
+  tilesets: FlareExportTileset[],
+  detected: Map<string, Map<number, TilesetDefRect>>,
+  defaultTileWidth: number,
+  defaultTileHeight: number
+): string {
+  const lines: string[] = [];
+
+  if (tilesets.length === 0) {
+    return '# No tilesets found - please load tilesets before exporting\n';
+  }
+
+  // Emit vanilla-style sections: one [tileset] block per image.
+  for (const tileset of tilesets) {
+    if (!tileset.fileName) continue;
+    lines.push('[tileset]');
+    lines.push(`img=images/tilesets/${tileset.fileName}`);
+
+    const columns = Math.max(1, tileset.columns);
+    const tileWidth = tileset.tileWidth || defaultTileWidth;
+    const tileHeight = tileset.tileHeight || defaultTileHeight;
+    const localLookup = detected.get(tileset.fileName) || new Map<number, TilesetDefRect>();
+
+    for (let i = 0; i < tileset.count; i++) {
+      const globalId = tileset.offset + i;
+      const localId = i + 1;
+      const rect = localLookup.get(localId);
+      let left_x: number;
+      let top_y: number;
+      let width: number;
+      let height: number;
+      let offset_x: number;
+      let offset_y: number;
+
+      if (rect) {
+        left_x = rect.sourceX;
+        top_y = rect.sourceY;
+        width = rect.width;
+        height = rect.height;
+        // Use bottom-center anchor for detected sprites so they align to ground
+        offset_x = Math.floor(width / 2);
+        offset_y = height;
+      } else {
+        left_x = (i % columns) * tileWidth;
+        top_y = Math.floor(i / columns) * tileHeight;
+        width = tileWidth;
+        height = tileHeight;
+        // For grid-based tiles default to bottom-center as well
+        offset_x = Math.floor(width / 2);
+        offset_y = height;
+      }
+
+      lines.push(`tile=${globalId},${left_x},${top_y},${width},${height},${offset_x},${offset_y}`);
+    }
+
+    for (const [localId, frames] of tileset.animations ?? []) {
+      if (localId < 1 || localId > tileset.count || frames.length === 0) continue;
+      lines.push(formatTileAnimation(tileset.offset + localId - 1, frames));
+    }
+
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
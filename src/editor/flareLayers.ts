@@ -0,0 +1,96 @@
+import type { TileLayer, FlareRenderLayerType } from '../types';
+
+/**
+ * Ordering rules for Flare render layers (background, fringe, object, foreground).
+ *
+ * The layer list is kept top-first, like the layers panel. A map may contain
+ * several layers of one render type; the first one created (lowest id) is the
+ * primary layer and owns the type's tileset tabs.
+ */
+
+// Bottom-to-top order Flare maps conventionally stack render layers in
+export const FLARE_RENDER_LAYER_TYPES: FlareRenderLayerType[] = ['background', 'fringe', 'object', 'foreground'];
+
+export const FLARE_RENDER_LAYER_LABELS: Record<FlareRenderLayerType, string> = {
+  background: 'Background',
+  fringe: 'Fringe',
+  object: 'Object',
+  foreground: 'Foreground'
+};
+
+// Render types that exist only when the user adds them and may be removed entirely
+const OPTIONAL_RENDER_LAYER_TYPES = new Set<string>(['fringe', 'foreground']);
+
+export function isFlareRenderLayerType(type: string): type is FlareRenderLayerType {
+  return (FLARE_RENDER_LAYER_TYPES as string[]).includes(type);
+}
+
+export function isPrimaryLayerOfType(layers: TileLayer[], layer: TileLayer): boolean {
+  return !layers.some(l => l.type === layer.type && l.id < layer.id);
+}
+
+/** Name for a newly added render layer, numbered when the type already exists. */
+export function getNewRenderLayerName(layers: TileLayer[], type: FlareRenderLayerType): string {
+  const existing = layers.filter(l => l.type === type).length;
+  const label = `${FLARE_RENDER_LAYER_LABELS[type]} Layer`;
+  return existing === 0 ? label : `${label} ${existing + 1}`;
+}
+
+/**
+ * Index at which a new render layer of `type` is inserted: directly above the
+ * topmost layer of the same type, otherwise above the nearest type beneath it
+ * in the Flare stack (fringe above background, foreground above object).
+ */
+export function getRenderLayerInsertIndex(layers: TileLayer[], type: FlareRenderLayerType): number {
+  const sameType = layers.findIndex(l => l.type === type);
+  if (sameType !== -1) return sameType;
+
+  const rank = FLARE_RENDER_LAYER_TYPES.indexOf(type);
+  for (let i = rank - 1; i >= 0; i--) {
+    const below = layers.findIndex(l => l.type === FLARE_RENDER_LAYER_TYPES[i]);
+    if (below !== -1) return below;
+  }
+  for (let i = rank + 1; i < FLARE_RENDER_LAYER_TYPES.length; i++) {
+    const above = FLARE_RENDER_LAYER_TYPES[i];
+    let lastAbove = -1;
+    layers.forEach((l, index) => { if (l.type === above) lastAbove = index; });
+    if (lastAbove !== -1) return lastAbove + 1;
+  }
+  return layers.length;
+}
+
+/**
+ * Index of the render layer a layer swaps with when moved one step up or down,
+ * skipping over non-render layers in between. Returns -1 when it cannot move.
+ */
+export function getRenderLayerSwapIndex(layers: TileLayer[], layerId: number, direction: 'up' | 'down'): number {
+  const index = layers.findIndex(l => l.id === layerId);
+  if (index === -1 || !isFlareRenderLayerType(layers[index].type)) return -1;
+  const step = direction === 'up' ? -1 : 1;
+  for (let i = index + step; i >= 0 && i < layers.length; i += step) {
+    if (isFlareRenderLayerType(layers[i].type)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Extra render layers can always be removed. A primary layer can only be
+ * removed for fringe/foreground and once it is the last layer of its type,
+ * since removing it would orphan the type's tabs.
+ */
+export function canDeleteRenderLayer(layers: TileLayer[], layerId: number): boolean {
+  const layer = layers.find(l => l.id === layerId);
+  if (!layer || !isFlareRenderLayerType(layer.type)) return false;
+  if (!isPrimaryLayerOfType(layers, layer)) return true;
+  return OPTIONAL_RENDER_LAYER_TYPES.has(layer.type) && !layers.some(l => l.type === layer.type && l.id !== layer.id);
+}
+
+/**
+ * Layers written to a Flare map, bottom first: every visible render layer in
+ * the user's order, then the first visible collision layer.
+ */
+export function getFlareExportLayers(layers: TileLayer[]): TileLayer[] {
+  const renderLayers = layers.filter(l => l.visible && isFlareRenderLayerType(l.type)).reverse();
+  const collision = layers.find(l => l.visible && l.type === 'collision');
+  return collision ? [...renderLayers, collision] : renderLayers;
+}
@@ -0,0 +1,506 @@
+import type { MapObject } from '../types';
+import { parseTileAnimation, type TileAnimationFrame } from './tileAnimation';
+
+/**
+ * Parser for Flare engine map files (maps/*.txt).
+ *
+ * Pure text -> data conversion with no DOM or editor dependencies so it can be
+ * shared by the editor, the mod importer and tests.
+ */
+
+export interface ParsedFlareTileset {
+  path: string;          // Path as written in the map (e.g. images/tilesets/tileset_grassland.png)
+  fileName: string;      // Basename of the image
+  tileWidth: number;
+  tileHeight: number;
+  spacing: number;
+  margin: number;
+  firstGid?: number;     // Explicit first global id (Tiled maps); Flare maps use cumulative tile counts
+}
+
+export interface ParsedFlareLayer {
+  type: string;
+  data: number[];
+}
+
+export interface ParsedFlareMap {
+  header: Record<string, string>;
+  width: number;
+  height: number;
+  tileWidth: number;
+  tileHeight: number;
+  heroPos: { x: number; y: number } | null;
+  title: string | null;
+  tilesets: ParsedFlareTileset[];
+  layers: ParsedFlareLayer[];
+  objects: MapObject[];
+  warnings: string[];
+}
+
+type SectionName = 'header' | 'tilesets' | 'layer' | 'event' | 'enemy' | 'npc';
+
+interface RawSection {
+  name: SectionName;
+  comment: string | null;
+  entries: Array<[string, string]>;
+  dataRows: string[];
+}
+
+// Keys that Flare allows more than once per section; collected into arrays.
+const REPEATABLE_KEYS = new Set<string>([
+  'requires_status',
+  'requires_not_status',
+  'set_status',
+  'unset_status',
+  'random_status',
+  'requires_item',
+  'requires_not_item',
+  'mapmod',
+  'spawn',
+  'msg',
+  'soundfx',
+  'reward_item',
+  'reward_loot',
+  'remove_item',
+  'loot'
+]);
+
+const KNOWN_SECTIONS = new Set<string>(['header', 'tilesets', 'layer', 'event', 'enemy', 'npc']);
+
+const toInt = (value: string | undefined, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const parsed = parseInt(value.trim(), 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+
+const isPlainInt = (value: string): boolean => /^-?\d+$/.test(value.trim());
+
+const basename = (filePath: string): string => filePath.split('/').pop()?.split('\\').pop() || filePath;
+
+const parseRect = (value: string | undefined): { x: number; y: number; width: number; height: number } | null => {
+  if (!value) return null;
+  const parts = value.split(',').map(p => parseInt(p.trim(), 10));
+  if (parts.length < 2 || Number.isNaN(parts[0]) || Number.isNaN(parts[1])) return null;
+  const width = parts.length > 2 && !Number.isNaN(parts[2]) && parts[2] > 0 ? parts[2] : 1;
+  const height = parts.length > 3 && !Number.isNaN(parts[3]) && parts[3] > 0 ? parts[3] : 1;
+  return { x: parts[0], y: parts[1], width, height };
+};
+
+const splitSections = (txt: string, warnings: string[]): RawSection[] => {
+  const sections: RawSection[] = [];
+  let current: RawSection | null = null;
+  let pendingComment: string | null = null;
+  let readingData = false;
+
+  const lines = txt.replace(/^\uFEFF/, '').split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    if (!line) {
+      readingData = false;
+      continue;
+    }
+
+    if (line.startsWith('#')) {
+      pendingComment = line.slice(1).trim();
+      continue;
+    }
+
+    const sectionMatch = /^\[([^\]]+)\]$/.exec(line);
+    if (sectionMatch) {
+      readingData = false;
+      const name = sectionMatch[1].trim().toLowerCase();
+      if (!KNOWN_SECTIONS.has(name)) {
+        warnings.push(`Line ${i + 1}: unknown section [${name}] was ignored`);
+        current = null;
+        pendingComment = null;
+        continue;
+      }
+      current = { name: name as SectionName, comment: pendingComment, entries: [], dataRows: [] };
+      sections.push(current);
+      pendingComment = null;
+      continue;
+    }
+
+    if (!current) {
+      warnings.push(`Line ${i + 1}: content outside of a section was ignored`);
+      continue;
+    }
+
+    if (readingData && /^[\d\s,]+$/.test(line)) {
+      current.dataRows.push(line);
+      continue;
+    }
+
+    const eq = line.indexOf('=');
+    if (eq < 0) {
+      warnings.push(`Line ${i + 1}: expected key=value in [${current.name}]`);
+      continue;
+    }
+
+    const key = line.slice(0, eq).trim();
+    const value = line.slice(eq + 1).trim();
+
+    if (current.name === 'layer' && key === 'data') {
+      readingData = true;
+      if (value) current.dataRows.push(value);
+      continue;
+    }
+
+    current.entries.push([key, value]);
+  }
+
+  return sections;
+};
+
+const parseLayerData = (rows: string[], width: number, height: number, layerType: string, warnings: string[]): number[] => {
+  const values = rows
+    .join(',')
+    .split(',')
+    .map(v => v.trim())
+    .filter(v => v !== '')
+    .map(v => {
+      const n = parseInt(v, 10);
+      return Number.isNaN(n) || n < 0 ? 0 : n;
+    });
+
+  const size = width * height;
+  if (values.length !== size) {
+    warnings.push(`Layer "${layerType}" has ${values.length} cells, expected ${size}; data was padded/truncated`);
+  }
+
+  const data = new Array(size).fill(0);
+  for (let i = 0; i < Math.min(size, values.length); i++) {
+    data[i] = values[i];
+  }
+  return data;
+};
+
+const collectProperties = (entries: Array<[string, string]>, skip: Set<string>): Record<string, string | string[]> => {
+  const properties: Record<string, string | string[]> = {};
+  for (const [key, value] of entries) {
+    if (skip.has(key)) continue;
+    const existing = properties[key];
+    if (existing === undefined) {
+      properties[key] = value;
+    } else if (REPEATABLE_KEYS.has(key)) {
+      properties[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+    } else {
+      // Last value wins for keys Flare does not treat as repeatable
+      properties[key] = value;
+    }
+  }
+  return properties;
+};
+
+const firstValue = (entries: Array<[string, string]>, key: string): string | undefined => {
+  const entry = entries.find(([k]) => k === key);
+  return entry ? entry[1] : undefined;
+};
+
+// Keys given twice that Flare reads only once: the last value is kept, which may not be what the author meant
+const warnRepeatedKeys = (section: RawSection, warnings: string[]): void => {
+  const seen = new Set<string>();
+  const reported = new Set<string>();
+  const location = firstValue(section.entries, 'location');
+  for (const [key] of section.entries) {
+    if (seen.has(key) && !REPEATABLE_KEYS.has(key) && !reported.has(key)) {
+      reported.add(key);
+      warnings.push(`[${section.name}]${location ? ` at ${location}` : ''}: ${key}= appears more than once; only the last value was kept`);
+    }
+    seen.add(key);
+  }
+};
+
+type FlareObjectKind = 'event' | 'enemy' | 'npc';
+
+const buildEventObject = (section: RawSection, id: number): MapObject => {
+  const location = parseRect(firstValue(section.entries, 'location'));
+  const properties = collectProperties(section.entries, new Set(['type']));
+
+  // Exporter writes "#Name - Description" above each event block
+  let name = '';
+  if (section.comment) {
+    const sep = section.comment.indexOf(' - ');
+    if (sep >= 0) {
+      name = section.comment.slice(0, sep).trim();
+      properties._description = section.comment.slice(sep + 3).trim();
+    } else {
+      name = section.comment;
+    }
+  }
+  const tooltip = typeof properties.tooltip === 'string' ? properties.tooltip : '';
+  const activate = typeof properties.activate === 'string' ? properties.activate : 'on_trigger';
+  const description = typeof properties._description === 'string' ? properties._description : undefined;
+
+  return {
+    id,
+    name: name || tooltip || `event_${id}`,
+    ...(description ? { description } : {}),
+    type: 'event',
+    x: location ? location.x : -1,
+    y: location ? location.y : -1,
+    width: location ? location.width : 1,
+    height: location ? location.height : 1,
+    activate,
+    properties
+  };
+};
+
+const buildEnemyObject = (section: RawSection, id: number): MapObject => {
+  const location = parseRect(firstValue(section.entries, 'location'));
+  const skip = new Set(['type', 'location', 'category']);
+  const category = firstValue(section.entries, 'category');
+  const level = firstValue(section.entries, 'level');
+  const number = firstValue(section.entries, 'number');
+  const wander = firstValue(section.entries, 'wander_radius');
+
+  // Plain integers map onto the typed MapObject fields; ranges ("2,4") stay as raw properties
+  if (level !== undefined && isPlainInt(level)) skip.add('level');
+  if (number !== undefined && isPlainInt(number)) skip.add('number');
+  if (wander !== undefined && isPlainInt(wander)) skip.add('wander_radius');
+
+  const object: MapObject = {
+    id,
+    name: category ? `${category}_${id}` : `enemy_${id}`,
+    type: 'enemy',
+    x: location ? location.x : 0,
+    y: location ? location.y : 0,
+    width: location ? location.width : 1,
+    height: location ? location.height : 1,
+    category: category || 'enemy',
+    properties: collectProperties(section.entries, skip)
+  };
+  if (skip.has('level')) object.level = toInt(level, 1);
+  if (skip.has('number')) object.number = toInt(number, 1);
+  if (skip.has('wander_radius')) object.wander_radius = toInt(wander, 0);
+  return object;
+};
+
+const buildNpcObject = (section: RawSection, id: number): MapObject => {
+  const location = parseRect(firstValue(section.entries, 'location'));
+  const filename = firstValue(section.entries, 'filename');
+  const properties = collectProperties(section.entries, new Set(['type', 'location', 'filename']));
+  if (filename) properties.npcFilename = filename;
+
+  const name = filename ? basename(filename).replace(/\.txt$/i, '') : `npc_${id}`;
+  return {
+    id,
+    name,
+    type: 'npc',
+    x: location ? location.x : 0,
+    y: location ? location.y : 0,
+    width: 1,
+    height: 1,
+    category: 'npc',
+    wander_radius: 0,
+    properties
+  };
+};
+
+/**
+ * Build an editor MapObject from the key/value entries of an [event], [enemy]
+ * or [npc] block. `comment` is the "#Name - Description" line preceding it.
+ */
+export function buildFlareObject(kind: FlareObjectKind, entries: Array<[string, string]>, comment: string | null, id: number): MapObject {
+  const section: RawSection = { name: kind, comment, entries, dataRows: [] };
+  if (kind === 'enemy') return buildEnemyObject(section, id);
+  if (kind === 'npc') return buildNpcObject(section, id);
+  return buildEventObject(section, id);
+}
+
+/**
+ * Parse a Flare map file into header values, tilesets, raw layer data and
+ * editor MapObjects for every [event], [enemy] and [npc] section.
+ * Problems that do not prevent loading are reported in `warnings`.
+ */
+export function parseFlareMapTxt(txt: string): ParsedFlareMap {
+  const warnings: string[] = [];
+  const sections = splitSections(txt || '', warnings);
+
+  const header: Record<string, string> = {};
+  for (const section of sections.filter(s => s.name === 'header')) {
+    for (const [key, value] of section.entries) {
+      header[key] = value;
+    }
+  }
+
+  const width = Math.max(1, toInt(header.width, 0));
+  const height = Math.max(1, toInt(header.height, 0));
+  if (!header.width || !header.height) {
+    warnings.push('Map header is missing width/height');
+  }
+
+  const heroRect = parseRect(header.hero_pos);
+  const heroPos = heroRect ? { x: heroRect.x, y: heroRect.y } : null;
+
+  const tilesets: ParsedFlareTileset[] = [];
+  for (const section of sections.filter(s => s.name === 'tilesets')) {
+    for (const [key, value] of section.entries) {
+      if (key !== 'tileset') continue;
+      const parts = value.split(',').map(p => p.trim());
+      if (!parts[0]) continue;
+      tilesets.push({
+        path: parts[0],
+        fileName: basename(parts[0]),
+        tileWidth: toInt(parts[1], 64),
+        tileHeight: toInt(parts[2], 32),
+        spacing: toInt(parts[3], 0),
+        margin: toInt(parts[4], 0)
+      });
+    }
+  }
+
+  const layers: ParsedFlareLayer[] = [];
+  const objects: MapObject[] = [];
+  let nextId = 1;
+
+  for (const section of sections) {
+    switch (section.name) {
+      case 'layer': {
+        const type = (firstValue(section.entries, 'type') || '').toLowerCase();
+        if (!type) {
+          warnings.push('A [layer] section without type= was ignored');
+          break;
+        }
+        layers.push({ type, data: parseLayerData(section.dataRows, width, height, type, warnings) });
+        break;
+      }
+      case 'event':
+        warnRepeatedKeys(section, warnings);
+        objects.push(buildEventObject(section, nextId++));
+        break;
+      case 'enemy':
+        warnRepeatedKeys(section, warnings);
+        objects.push(buildEnemyObject(section, nextId++));
+        break;
+      case 'npc':
+        warnRepeatedKeys(section, warnings);
+        objects.push(buildNpcObject(section, nextId++));
+        break;
+      default:
+        break;
+    }
+  }
+
+  return {
+    header,
+    width,
+    height,
+    tileWidth: toInt(header.tilewidth, 64),
+    tileHeight: toInt(header.tileheight, 32),
+    heroPos,
+    title: header.title ?? null,
+    tilesets,
+    layers,
+    objects,
+    warnings
+  };
+}
+
+/**
+ * Grid dimensions of a tileset image for the given tile size. The tile count
+ * is what the exporter uses to build the cumulative global tile id ranges.
+ */
+export function measureTilesetGrid(
+  imageWidth: number,
+  imageHeight: number,
+  tileset: Pick<ParsedFlareTileset, 'tileWidth' | 'tileHeight' | 'spacing' | 'margin'>
+): { columns: number; rows: number; count: number } {
+  const stepX = Math.max(1, tileset.tileWidth + tileset.spacing);
+  const stepY = Math.max(1, tileset.tileHeight + tileset.spacing);
+  const columns = Math.max(1, Math.floor((imageWidth - tileset.margin * 2 + tileset.spacing) / stepX));
+  const rows = Math.max(1, Math.floor((imageHeight - tileset.margin * 2 + tileset.spacing) / stepY));
+  return { columns, rows, count: columns * rows };
+}
+
+export interface ParsedTilesetDefTile {
+  sourceX: number;
+  sourceY: number;
+  width: number;
+  height: number;
+  originX: number;
+  originY: number;
+}
+
+// `tile=id,left,top,width,height[,origin_x,origin_y]`; origins default to bottom-centre like Flare does
+function parseTileDefLine(value: string): [number, ParsedTilesetDefTile] | null {
+  const parts = value.split(',').map(p => p.trim());
+  if (parts.length < 5) return null;
+  const id = parseInt(parts[0], 10);
+  const left = parseInt(parts[1], 10);
+  const top = parseInt(parts[2], 10);
+  const width = parseInt(parts[3], 10);
+  const height = parseInt(parts[4], 10);
+  if (Number.isNaN(id) || Number.isNaN(left) || Number.isNaN(top) || Number.isNaN(width) || Number.isNaN(height)) return null;
+  const originX = parts[5] !== undefined ? parseInt(parts[5], 10) : Math.floor(width / 2);
+  const originY = parts[6] !== undefined ? parseInt(parts[6], 10) : height;
+  return [id, { sourceX: left, sourceY: top, width, height, originX, originY }];
+}
+
+/**
+ * Parse a Flare tilesetdefs/*.txt. Each `tile=id,left,top,width,height[,origin_x,origin_y]`
+ * entry is keyed by its id; origins default to bottom-centre like Flare does.
+ * `animation=` lines are returned separately, keyed by the same ids.
+ * Multiple `img=` lines are allowed by Flare, but only the first is reported.
+ */
+export function parseTilesetDefTiles(content: string): {
+  img: string | null;
+  tiles: Map<number, ParsedTilesetDefTile>;
+  animations: Map<number, TileAnimationFrame[]>;
+} {
+  const tiles = new Map<number, ParsedTilesetDefTile>();
+  const animations = new Map<number, TileAnimationFrame[]>();
+  let img: string | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    if (line.startsWith('img=')) {
+      if (img === null) img = line.substring('img='.length).trim() || null;
+      continue;
+    }
+
+    if (line.startsWith('tile=')) {
+      const tile = parseTileDefLine(line.substring('tile='.length));
+      if (tile) tiles.set(tile[0], tile[1]);
+      continue;
+    }
+
+    if (line.startsWith('animation=')) {
+      const animation = parseTileAnimation(line.substring('animation='.length));
+      if (animation) animations.set(animation.id, animation.frames);
+    }
+  }
+
+  return { img, tiles, animations };
+}
+
+export interface ParsedTilesetDefImage {
+  img: string;
+  tiles: Map<number, ParsedTilesetDefTile>;   // Keyed by global tile id
+}
+
+/**
+ * Every `img=` of a tilesetdef with the `tile=` entries that follow it. Maps
+ * without a [tilesets] section (like flare-game's) use these global ids.
+ */
+export function parseTilesetDefImages(content: string): ParsedTilesetDefImage[] {
+  const images: ParsedTilesetDefImage[] = [];
+  let current: ParsedTilesetDefImage | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith('img=')) {
+      const img = line.substring('img='.length).trim();
+      current = img ? { img, tiles: new Map() } : null;
+      if (current) images.push(current);
+    } else if (line.startsWith('tile=') && current) {
+      const tile = parseTileDefLine(line.substring('tile='.length));
+      if (tile) current.tiles.set(tile[0], tile[1]);
+    }
+  }
+
+  return images.filter(image => image.tiles.size > 0);
+}
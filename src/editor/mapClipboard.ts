@@ -0,0 +1,97 @@
+import type { AssetRecord, MapObject, ObjectInstance } from '../types';
+
+/**
+ * Clipboard for copying a rectangular map region between maps. It lives at
+ * module level so it survives switching map tabs, but not restarting the app.
+ *
+ * Everything is stored relative to the region's top-left cell. Tiles keep
+ * the file name of the tileset they were painted from; pasting into a map
+ * that loads its tilesets from elsewhere remaps them with `remapTilesetKey`,
+ * and tiles whose tileset the map does not have are left out.
+ */
+
+export interface ClipboardRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ClipboardLayer {
+  type: string;
+  ordinal: number;   // Index among the source map's layers of the same type
+  data: number[];
+  tilesetKeys: Array<string | null>;
+}
+
+export interface ClipboardSprite {
+  x: number;
+  y: number;
+  gid: number;
+  tilesetKey: string | null;
+  layerType: string;
+  width: number;
+  height: number;
+  sourceX: number;
+  sourceY: number;
+}
+
+export interface ClipboardInstance {
+  instance: ObjectInstance;
+  asset: AssetRecord | null;
+  layerType: string;
+}
+
+export interface MapClipboard {
+  width: number;
+  height: number;
+  layers: ClipboardLayer[];
+  sprites: ClipboardSprite[];
+  instances: ClipboardInstance[];
+  objects: MapObject[];   // Events, NPCs and enemies, only when copied with Shift
+}
+
+let clipboard: MapClipboard | null = null;
+
+export function getMapClipboard(): MapClipboard | null {
+  return clipboard;
+}
+
+export function setMapClipboard(value: MapClipboard | null): void {
+  clipboard = value;
+}
+
+/** Bounding rectangle of a cell selection, or null when it is empty. */
+export function getSelectionRect(cells: Array<{ x: number; y: number }>): ClipboardRect | null {
+  if (cells.length === 0) return null;
+  const xs = cells.map(c => c.x);
+  const ys = cells.map(c => c.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x + 1, height: Math.max(...ys) - y + 1 };
+}
+
+/** Cells of a row-major map array inside the rectangle, row by row. */
+export function cropRegion<T>(data: T[], mapWidth: number, rect: ClipboardRect, empty: T): T[] {
+  const region: T[] = [];
+  for (let y = rect.y; y < rect.y + rect.height; y++) {
+    for (let x = rect.x; x < rect.x + rect.width; x++) {
+      const value = data[y * mapWidth + x];
+      region.push(value === undefined ? empty : value);
+    }
+  }
+  return region;
+}
+
+const baseName = (path: string): string => (path.split(/[\\/]/).pop() || path).toLowerCase();
+
+/**
+ * Tileset the target map should use for a copied tile: the same file name,
+ * else a tileset with the same base name (copied from another project), else null.
+ */
+export function remapTilesetKey(key: string | null, targetKeys: string[]): string | null {
+  if (!key) return null;
+  if (targetKeys.includes(key)) return key;
+  const name = baseName(key);
+  return targetKeys.find(target => baseName(target) === name) ?? null;
+}
@@ -0,0 +1,236 @@
+import type { MapObject, TileLayer } from '../types';
+import type { MapHeaderSettings } from './mapHeader';
+import type { EditorProjectData } from './TileMapEditor';
+
+/**
+ * Differences between two saved maps ("ours" is the open map, "theirs" the
+ * one compared against) and the subset of them a user picked to merge.
+ *
+ * Layers are matched by type and order (the second "object" layer of one map
+ * against the second "object" layer of the other), objects by id. Cells are
+ * compared by value and by the tileset image they are painted from.
+ */
+
+export interface MapDiffCell {
+  x: number;
+  y: number;
+  ours: number;
+  theirs: number;
+  theirsTileset: string | null;   // Tileset key the other map paints the cell from, when it knows
+}
+
+export interface MapLayerDiff {
+  key: string;                    // "<type>#<n>", stable for picking
+  name: string;
+  type: string;
+  oursLayerId: number | null;     // null when only the other map has the layer
+  theirsLayerId: number | null;
+  cells: MapDiffCell[];           // Only within the area both maps cover
+}
+
+export interface MapValueChange {
+  key: string;                    // Field name, or "properties.<key>"
+  ours: unknown;
+  theirs: unknown;
+}
+
+export interface MapObjectDiff {
+  id: number;
+  name: string;
+  type: string;
+  status: 'added' | 'removed' | 'changed';   // "added" = only in the other map
+  ours: MapObject | null;
+  theirs: MapObject | null;
+  changes: MapValueChange[];
+}
+
+export interface MapHeaderDiff {
+  key: keyof MapHeaderSettings;
+  ours: MapHeaderSettings[keyof MapHeaderSettings];
+  theirs: MapHeaderSettings[keyof MapHeaderSettings];
+}
+
+export interface MapDiff {
+  oursSize: { width: number; height: number };
+  theirsSize: { width: number; height: number };
+  layers: MapLayerDiff[];
+  objects: MapObjectDiff[];
+  header: MapHeaderDiff[];
+}
+
+export interface MapMergePicks {
+  layers: string[];               // MapLayerDiff keys
+  objects: number[];              // Object ids
+  header: Array<keyof MapHeaderSettings>;
+}
+
+export interface MapMerge {
+  cells: Array<{ layerId: number; x: number; y: number; value: number; tileset: string | null }>;
+  objects: Array<{ id: number; object: MapObject | null }>;   // null removes the object
+  header: Array<{ key: keyof MapHeaderSettings; value: MapHeaderSettings[keyof MapHeaderSettings] }>;
+}
+
+const HEADER_KEYS: Array<keyof MapHeaderSettings> = [
+  'title', 'music', 'tileset', 'parallaxLayers', 'backgroundColor', 'fogOfWar', 'saveOnLoad'
+];
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/** Layers keyed "<type>#<n>" in the order they appear in the map. */
+const keyLayers = (layers: TileLayer[]): Map<string, TileLayer> => {
+  const counts = new Map<string, number>();
+  const keyed = new Map<string, TileLayer>();
+  for (const layer of layers) {
+    const n = counts.get(layer.type) ?? 0;
+    counts.set(layer.type, n + 1);
+    keyed.set(`${layer.type}#${n}`, layer);
+  }
+  return keyed;
+};
+
+const TAB_KEY_PREFIX = /^[a-zA-Z]+_tab\d+_/;
+
+/** Image file name of a tileset key, the same in every map: no folders and no "<type>_tabN_" prefix of saved tabs. */
+export function tilesetImageName(key: string): string {
+  let name = key.split(/[\\/]/).pop() || key;
+  while (TAB_KEY_PREFIX.test(name)) name = name.replace(TAB_KEY_PREFIX, '');
+  return name.toLowerCase();
+}
+
+/**
+ * Tileset key each cell of a saved layer is painted from: its saved cell key,
+ * else (first layer of a type) the tab whose data holds the cell, else the
+ * active tab's tileset. Null for empty cells and layers without tabs.
+ */
+const layerCellTilesets = (map: EditorProjectData, layer: TileLayer): Array<string | null> => {
+  const saved = map.layerCellTilesetKeys?.[String(layer.id)];
+  const tabs = map.layerTabs?.[layer.type] ?? [];
+  const active = tabs.find(tab => tab.id === map.layerActiveTabId?.[layer.type]) ?? tabs[0];
+  const isPrimary = (map.layers || []).find(l => l.type === layer.type) === layer;
+  return layer.data.map((value, index) => {
+    if (value <= 0) return null;
+    if (saved?.[index]) return saved[index];
+    const tab = (isPrimary ? tabs.find(t => t.data?.[index] === value) : undefined) ?? active;
+    return tab?.tileset?.fileName || null;
+  });
+};
+
+const diffObjectFields = (ours: MapObject, theirs: MapObject): MapValueChange[] => {
+  const changes: MapValueChange[] = [];
+  const a = ours as unknown as Record<string, unknown>;
+  const b = theirs as unknown as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).filter(k => k !== 'id' && k !== 'properties').sort();
+  for (const key of keys) {
+    if (!sameValue(a[key], b[key])) changes.push({ key, ours: a[key], theirs: b[key] });
+  }
+  const propsA = ours.properties ?? {};
+  const propsB = theirs.properties ?? {};
+  const propKeys = Array.from(new Set([...Object.keys(propsA), ...Object.keys(propsB)])).sort();
+  for (const key of propKeys) {
+    if (!sameValue(propsA[key], propsB[key])) changes.push({ key: `properties.${key}`, ours: propsA[key], theirs: propsB[key] });
+  }
+  return changes;
+};
+
+export function diffMaps(ours: EditorProjectData, theirs: EditorProjectData): MapDiff {
+  const oursSize = { width: ours.width || 0, height: ours.height || 0 };
+  const theirsSize = { width: theirs.width || 0, height: theirs.height || 0 };
+  const width = Math.min(oursSize.width, theirsSize.width);
+  const height = Math.min(oursSize.height, theirsSize.height);
+
+  const layers: MapLayerDiff[] = [];
+  const oursLayers = keyLayers(ours.layers || []);
+  const theirsLayers = keyLayers(theirs.layers || []);
+  for (const key of new Set([...oursLayers.keys(), ...theirsLayers.keys()])) {
+    const a = oursLayers.get(key);
+    const b = theirsLayers.get(key);
+    const cells: MapDiffCell[] = [];
+    if (a && b) {
+      const oursTilesets = layerCellTilesets(ours, a);
+      const theirsTilesets = layerCellTilesets(theirs, b);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const oursValue = a.data[y * oursSize.width + x] ?? 0;
+          const theirsValue = b.data[y * theirsSize.width + x] ?? 0;
+          const oursTileset = oursTilesets[y * oursSize.width + x] ?? null;
+          const theirsTileset = theirsTilesets[y * theirsSize.width + x] ?? null;
+          // The same id from another tileset is another tile
+          const otherTileset = oursTileset !== null && theirsTileset !== null && tilesetImageName(oursTileset) !== tilesetImageName(theirsTileset);
+          if (oursValue !== theirsValue || (oursValue !== 0 && otherTileset)) {
+            cells.push({ x, y, ours: oursValue, theirs: theirsValue, theirsTileset });
+          }
+        }
+      }
+      if (cells.length === 0) continue;
+    }
+    const layer = (a ?? b)!;
+    layers.push({
+      key,
+      name: layer.name,
+      type: layer.type,
+      oursLayerId: a ? a.id : null,
+      theirsLayerId: b ? b.id : null,
+      cells
+    });
+  }
+
+  const objects: MapObjectDiff[] = [];
+  const oursObjects = new Map((ours.objects || []).map(o => [o.id, o]));
+  const theirsObjects = new Map((theirs.objects || []).map(o => [o.id, o]));
+  for (const id of Array.from(new Set([...oursObjects.keys(), ...theirsObjects.keys()])).sort((p, q) => p - q)) {
+    const a = oursObjects.get(id) ?? null;
+    const b = theirsObjects.get(id) ?? null;
+    const changes = a && b ? diffObjectFields(a, b) : [];
+    if (a && b && changes.length === 0) continue;
+    const object = (b ?? a)!;
+    objects.push({
+      id,
+      name: object.name,
+      type: object.type,
+      status: !a ? 'added' : !b ? 'removed' : 'changed',
+      ours: a,
+      theirs: b,
+      changes
+    });
+  }
+
+  const header: MapHeaderDiff[] = [];
+  for (const key of HEADER_KEYS) {
+    const a = ours.mapHeader?.[key];
+    const b = theirs.mapHeader?.[key];
+    if (!sameValue(a, b)) header.push({ key, ours: a, theirs: b });
+  }
+
+  return { oursSize, theirsSize, layers, objects, header };
+}
+
+/** Turn the picked differences into the edits that make the open map match the other one. */
+export function buildMapMerge(diff: MapDiff, picks: MapMergePicks): MapMerge {
+  const merge: MapMerge = { cells: [], objects: [], header: [] };
+
+  for (const layer of diff.layers) {
+    if (!picks.layers.includes(layer.key) || layer.oursLayerId === null) continue;
+    for (const cell of layer.cells) {
+      merge.cells.push({ layerId: layer.oursLayerId, x: cell.x, y: cell.y, value: cell.theirs, tileset: cell.theirs !== 0 ? cell.theirsTileset : null });
+    }
+  }
+
+  for (const object of diff.objects) {
+    if (!picks.objects.includes(object.id)) continue;
+    merge.objects.push({ id: object.id, object: object.theirs ? JSON.parse(JSON.stringify(object.theirs)) : null });
+  }
+
+  for (const entry of diff.header) {
+    if (picks.header.includes(entry.key)) merge.header.push({ key: entry.key, value: entry.theirs });
+  }
+
+  return merge;
+}
+
+/** Short display form of a changed value. */
+export function formatDiffValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
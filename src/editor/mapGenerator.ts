@@ -0,0 +1,322 @@
+/**
+ * Procedural level layouts for prototyping: a BSP room-and-corridor dungeon,
+ * cellular-automata caves and a drunkard's-walk path. Generation only decides
+ * which cells are floor; the editor paints floor, wall and collision tiles
+ * from the result. The same seed and settings always give the same layout.
+ */
+
+export type GeneratorAlgorithm = 'dungeon' | 'caves' | 'walk';
+
+export interface GeneratorSettings {
+  algorithm: GeneratorAlgorithm;
+  seed: number;
+  width: number;
+  height: number;
+  minRoomSize: number;     // dungeon: room sides, in cells
+  maxRoomSize: number;
+  wallChance: number;      // caves: share of cells starting as wall, 0-1
+  smoothingSteps: number;  // caves: cellular automata iterations
+  floorCoverage: number;   // walk: share of the map to carve, 0-1
+  enemyAreas: number;      // enemy spawn areas to suggest
+}
+
+export const DEFAULT_GENERATOR_SETTINGS: Omit<GeneratorSettings, 'width' | 'height'> = {
+  algorithm: 'dungeon',
+  seed: 1,
+  minRoomSize: 4,
+  maxRoomSize: 9,
+  wallChance: 0.45,
+  smoothingSteps: 4,
+  floorCoverage: 0.35,
+  enemyAreas: 4
+};
+
+// Layers and tiles a layout is painted with; a gid of 0 stands for the
+// tile selected in that layer's palette
+export interface GeneratorTiles {
+  floorLayerType: string;
+  floorGid: number;
+  wallLayerType: string;
+  wallGid: number;
+}
+
+export interface GeneratorArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface GeneratedMap {
+  width: number;
+  height: number;
+  floor: boolean[];   // Row-major, true for walkable cells
+  heroSpawn: { x: number; y: number };
+  enemyAreas: GeneratorArea[];
+}
+
+/** Deterministic random numbers in [0, 1) (mulberry32). */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+type Random = () => number;
+
+const randomInt = (random: Random, min: number, max: number): number =>
+  min + Math.floor(random() * (max - min + 1));
+
+const centerOf = (area: GeneratorArea) => ({
+  x: area.x + Math.floor(area.width / 2),
+  y: area.y + Math.floor(area.height / 2)
+});
+
+function carveCorridor(floor: boolean[], width: number, from: { x: number; y: number }, to: { x: number; y: number }, random: Random): void {
+  // L-shaped, turning at a random corner
+  const corner = random() < 0.5 ? { x: to.x, y: from.y } : { x: from.x, y: to.y };
+  for (const [a, b] of [[from, corner], [corner, to]]) {
+    for (let x = Math.min(a.x, b.x); x <= Math.max(a.x, b.x); x++) floor[a.y * width + x] = true;
+    for (let y = Math.min(a.y, b.y); y <= Math.max(a.y, b.y); y++) floor[y * width + b.x] = true;
+  }
+}
+
+function generateDungeon(settings: GeneratorSettings, random: Random): { floor: boolean[]; rooms: GeneratorArea[] } {
+  const { width, height } = settings;
+  const minRoom = Math.max(2, settings.minRoomSize);
+  const maxRoom = Math.max(minRoom, settings.maxRoomSize);
+  const floor = new Array<boolean>(width * height).fill(false);
+  const rooms: GeneratorArea[] = [];
+
+  // Split the interior (the map border stays wall) until parts fit a room,
+  // then connect each pair of halves through one of their rooms
+  const build = (area: GeneratorArea): GeneratorArea[] => {
+    const minPart = minRoom + 2;
+    const canSplitX = area.width >= minPart * 2;
+    const canSplitY = area.height >= minPart * 2;
+    const wantsSplit = area.width > maxRoom + 2 || area.height > maxRoom + 2;
+
+    if (wantsSplit && (canSplitX || canSplitY)) {
+      const splitX = canSplitX && (!canSplitY || area.width > area.height || (area.width === area.height && random() < 0.5));
+      const size = splitX ? area.width : area.height;
+      const at = randomInt(random, minPart, size - minPart);
+      const [first, second] = splitX
+        ? [{ ...area, width: at }, { ...area, x: area.x + at, width: area.width - at }]
+        : [{ ...area, height: at }, { ...area, y: area.y + at, height: area.height - at }];
+      const firstRooms = build(first);
+      const secondRooms = build(second);
+      if (firstRooms.length > 0 && secondRooms.length > 0) {
+        const from = centerOf(firstRooms[Math.floor(random() * firstRooms.length)]);
+        const to = centerOf(secondRooms[Math.floor(random() * secondRooms.length)]);
+        carveCorridor(floor, width, from, to, random);
+      }
+      return [...firstRooms, ...secondRooms];
+    }
+
+    if (area.width < minRoom + 2 || area.height < minRoom + 2) return [];
+    const roomWidth = randomInt(random, minRoom, Math.min(maxRoom, area.width - 2));
+    const roomHeight = randomInt(random, minRoom, Math.min(maxRoom, area.height - 2));
+    const room = {
+      x: area.x + 1 + randomInt(random, 0, area.width - 2 - roomWidth),
+      y: area.y + 1 + randomInt(random, 0, area.height - 2 - roomHeight),
+      width: roomWidth,
+      height: roomHeight
+    };
+    for (let y = room.y; y < room.y + room.height; y++) {
+      for (let x = room.x; x < room.x + room.width; x++) floor[y * width + x] = true;
+    }
+    rooms.push(room);
+    return [room];
+  };
+
+  build({ x: 1, y: 1, width: width - 2, height: height - 2 });
+  return { floor, rooms };
+}
+
+// Cells of the largest 4-connected floor region; everything else becomes wall
+function keepLargestRegion(floor: boolean[], width: number, height: number): boolean[] {
+  const region = new Array<number>(floor.length).fill(-1);
+  let best: number[] = [];
+  for (let start = 0; start < floor.length; start++) {
+    if (!floor[start] || region[start] !== -1) continue;
+    const cells: number[] = [];
+    const stack = [start];
+    region[start] = start;
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      cells.push(index);
+      const x = index % width;
+      const y = Math.floor(index / width);
+      for (const [nx, ny] of [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]]) {
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const next = ny * width + nx;
+        if (floor[next] && region[next] === -1) {
+          region[next] = start;
+          stack.push(next);
+        }
+      }
+    }
+    if (cells.length > best.length) best = cells;
+  }
+  const kept = new Array<boolean>(floor.length).fill(false);
+  for (const index of best) kept[index] = true;
+  return kept;
+}
+
+function generateCaves(settings: GeneratorSettings, random: Random): boolean[] {
+  const { width, height } = settings;
+  const isBorder = (x: number, y: number) => x === 0 || y === 0 || x === width - 1 || y === height - 1;
+  let floor = Array.from({ length: width * height }, (_, i) =>
+    !isBorder(i % width, Math.floor(i / width)) && random() >= settings.wallChance);
+
+  for (let step = 0; step < settings.smoothingSteps; step++) {
+    floor = floor.map((isFloor, i) => {
+      const x = i % width;
+      const y = Math.floor(i / width);
+      if (isBorder(x, y)) return false;
+      let walls = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if ((dx !== 0 || dy !== 0) && !floor[(y + dy) * width + (x + dx)]) walls++;
+        }
+      }
+      return walls > 4 ? false : walls < 4 ? true : isFloor;
+    });
+  }
+  return keepLargestRegion(floor, width, height);
+}
+
+function generateWalk(settings: GeneratorSettings, random: Random): { floor: boolean[]; start: { x: number; y: number } } {
+  const { width, height } = settings;
+  const floor = new Array<boolean>(width * height).fill(false);
+  const start = { x: Math.floor(width / 2), y: Math.floor(height / 2) };
+  const target = Math.max(1, Math.floor((width - 2) * (height - 2) * Math.min(1, settings.floorCoverage)));
+  const directions = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+  let { x, y } = start;
+  let carved = 0;
+  for (let step = 0; carved < target && step < width * height * 50; step++) {
+    if (!floor[y * width + x]) {
+      floor[y * width + x] = true;
+      carved++;
+    }
+    const [dx, dy] = directions[Math.floor(random() * directions.length)];
+    x = Math.max(1, Math.min(width - 2, x + dx));
+    y = Math.max(1, Math.min(height - 2, y + dy));
+  }
+  return { floor, start };
+}
+
+// Walking distance from a cell over floor; -1 for unreachable cells
+function distancesFrom(floor: boolean[], width: number, height: number, from: { x: number; y: number }): number[] {
+  const distance = new Array<number>(floor.length).fill(-1);
+  const queue = [from.y * width + from.x];
+  distance[queue[0]] = 0;
+  for (let head = 0; head < queue.length; head++) {
+    const index = queue[head];
+    const x = index % width;
+    const y = Math.floor(index / width);
+    for (const [nx, ny] of [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]]) {
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      const next = ny * width + nx;
+      if (floor[next] && distance[next] === -1) {
+        distance[next] = distance[index] + 1;
+        queue.push(next);
+      }
+    }
+  }
+  return distance;
+}
+
+// Floor cell nearest to the map centre
+function centralFloorCell(floor: boolean[], width: number, height: number): { x: number; y: number } {
+  let best = { x: Math.floor(width / 2), y: Math.floor(height / 2) };
+  let bestDistance = Infinity;
+  floor.forEach((isFloor, i) => {
+    if (!isFloor) return;
+    const x = i % width;
+    const y = Math.floor(i / width);
+    const d = Math.abs(x - width / 2) + Math.abs(y - height / 2);
+    if (d < bestDistance) {
+      best = { x, y };
+      bestDistance = d;
+    }
+  });
+  return best;
+}
+
+/** Generate a layout; the hero starts near the middle (or in the first room) and enemy areas lie far from it. */
+export function generateMap(settings: GeneratorSettings): GeneratedMap {
+  const { width, height } = settings;
+  const random = createSeededRandom(settings.seed);
+  let floor: boolean[];
+  let heroSpawn: { x: number; y: number };
+  let rooms: GeneratorArea[] = [];
+
+  if (settings.algorithm === 'dungeon') {
+    const dungeon = generateDungeon(settings, random);
+    floor = dungeon.floor;
+    rooms = dungeon.rooms;
+    heroSpawn = rooms.length > 0 ? centerOf(rooms[0]) : centralFloorCell(floor, width, height);
+  } else if (settings.algorithm === 'caves') {
+    floor = generateCaves(settings, random);
+    heroSpawn = centralFloorCell(floor, width, height);
+  } else {
+    const walk = generateWalk(settings, random);
+    floor = walk.floor;
+    heroSpawn = walk.start;
+  }
+
+  // Enemy areas: the farthest rooms, or 3x3 patches far from the hero and each other
+  const distance = distancesFrom(floor, width, height, heroSpawn);
+  let enemyAreas: GeneratorArea[];
+  if (rooms.length > 0) {
+    enemyAreas = rooms
+      .slice(1)
+      .map(room => ({ room, d: distance[centerOf(room).y * width + centerOf(room).x] }))
+      .sort((a, b) => b.d - a.d)
+      .slice(0, settings.enemyAreas)
+      .map(({ room }) => room);
+  } else {
+    const spacing = Math.max(4, Math.floor(Math.min(width, height) / 4));
+    const picked: Array<{ x: number; y: number }> = [];
+    const candidates = distance
+      .map((d, i) => ({ d, i }))
+      .filter(({ d }) => d >= spacing)
+      .sort((a, b) => b.d - a.d || a.i - b.i);
+    for (const { i } of candidates) {
+      if (picked.length >= settings.enemyAreas) break;
+      const cell = { x: i % width, y: Math.floor(i / width) };
+      if (picked.every(p => Math.max(Math.abs(p.x - cell.x), Math.abs(p.y - cell.y)) >= spacing)) picked.push(cell);
+    }
+    enemyAreas = picked.map(cell => {
+      const x = Math.max(0, cell.x - 1);
+      const y = Math.max(0, cell.y - 1);
+      return { x, y, width: Math.min(3, width - x), height: Math.min(3, height - y) };
+    });
+  }
+
+  return { width, height, floor, heroSpawn, enemyAreas };
+}
+
+/** Non-floor cells touching floor (diagonals included): where wall tiles go. */
+export function getWallCells(floor: boolean[], width: number, height: number): boolean[] {
+  return floor.map((isFloor, i) => {
+    if (isFloor) return false;
+    const x = i % width;
+    const y = Math.floor(i / width);
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx >= 0 && ny >= 0 && nx < width && ny < height && floor[ny * width + nx]) return true;
+      }
+    }
+    return false;
+  });
+}
@@ -0,0 +1,58 @@
+/**
+ * Per-map Flare [header] settings that are authored by hand rather than derived
+ * from the map itself (size, tile size, orientation and hero position are
+ * always written by the exporter).
+ */
+export interface MapHeaderSettings {
+  title?: string;
+  music?: string;            // e.g. music/forest_theme.ogg
+  tileset?: string;          // Overrides the generated tilesetdefs/tileset_<map>.txt
+  parallaxLayers?: string;   // e.g. maps/parallax/forest.txt
+  backgroundColor?: string;  // r,g,b,a
+  fogOfWar?: number;         // 0 disabled, 1 minimap, 2 tint, 3 overlay
+  saveOnLoad?: boolean;
+}
+
+export const FOG_OF_WAR_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 0, label: 'Disabled' },
+  { value: 1, label: 'Minimap only' },
+  { value: 2, label: 'Tint' },
+  { value: 3, label: 'Overlay' }
+];
+
+const trimmed = (value: string | undefined): string | undefined => {
+  const v = value?.trim();
+  return v ? v : undefined;
+};
+
+/** Read the hand-authored settings out of a parsed [header] section. */
+export function parseMapHeaderSettings(header: Record<string, string>): MapHeaderSettings {
+  const settings: MapHeaderSettings = {};
+  const title = trimmed(header.title);
+  if (title) settings.title = title;
+  const music = trimmed(header.music);
+  if (music) settings.music = music;
+  const tileset = trimmed(header.tileset);
+  if (tileset) settings.tileset = tileset;
+  const parallaxLayers = trimmed(header.parallax_layers);
+  if (parallaxLayers) settings.parallaxLayers = parallaxLayers;
+  const backgroundColor = trimmed(header.background_color);
+  if (backgroundColor) settings.backgroundColor = backgroundColor;
+  const fogOfWar = parseInt(header.fogofwar ?? '', 10);
+  if (Number.isFinite(fogOfWar)) settings.fogOfWar = fogOfWar;
+  const saveOnLoad = trimmed(header.save_onload)?.toLowerCase();
+  if (saveOnLoad) settings.saveOnLoad = saveOnLoad === 'true' || saveOnLoad === '1' || saveOnLoad === 'yes';
+  return settings;
+}
+
+/** Header lines for the optional keys, in the order Flare's own maps use. */
+export function formatOptionalMapHeaderLines(settings: MapHeaderSettings): string[] {
+  const lines: string[] = [];
+  const parallaxLayers = trimmed(settings.parallaxLayers);
+  if (parallaxLayers) lines.push(`parallax_layers=${parallaxLayers}`);
+  const backgroundColor = trimmed(settings.backgroundColor);
+  if (backgroundColor) lines.push(`background_color=${backgroundColor}`);
+  if (typeof settings.fogOfWar === 'number') lines.push(`fogofwar=${settings.fogOfWar}`);
+  if (settings.saveOnLoad !== undefined) lines.push(`save_onload=${settings.saveOnLoad ? 'true' : 'false'}`);
+  return lines;
+}
@@ -0,0 +1,70 @@
+/**
+ * Layout for rendering a whole map to one image ("Export map image"). The
+ * editor draws into an offscreen canvas with its usual routines; this module
+ * only works out how big that canvas is and where tile (0,0) goes.
+ */
+
+export interface MapImageOptions {
+  zoom: number;
+  grid: boolean;
+  collision: boolean;
+  markers: boolean;     // Event, NPC and enemy markers
+  heroSpawn: boolean;
+}
+
+export const DEFAULT_MAP_IMAGE_OPTIONS: MapImageOptions = {
+  zoom: 1,
+  grid: false,
+  collision: false,
+  markers: true,
+  heroSpawn: true
+};
+
+export const MAP_IMAGE_ZOOM_LEVELS = [0.25, 0.5, 1, 2];
+
+// Largest canvas Chromium reliably allocates
+export const MAX_MAP_IMAGE_SIDE = 16384;
+export const MAX_MAP_IMAGE_AREA = 16384 * 16384;
+
+const MARGIN = 16;
+
+export interface MapImageLayout {
+  zoom: number;       // May be below the requested zoom for very large maps
+  width: number;      // Canvas size in pixels
+  height: number;
+  originX: number;    // Unzoomed position of the centre of tile (0,0)
+  originY: number;
+}
+
+/**
+ * Canvas size for an isometric map. topPadding is room above the first row
+ * for sprites taller than a tile (trees, walls), in unzoomed pixels.
+ */
+export function computeMapImageLayout(
+  mapWidth: number,
+  mapHeight: number,
+  tileWidth: number,
+  tileHeight: number,
+  topPadding: number,
+  requestedZoom: number
+): MapImageLayout {
+  const span = Math.max(1, mapWidth) + Math.max(1, mapHeight);
+  const baseWidth = span * tileWidth / 2 + MARGIN * 2;
+  const baseHeight = span * tileHeight / 2 + Math.max(0, topPadding) + MARGIN * 2;
+
+  let zoom = requestedZoom > 0 ? requestedZoom : 1;
+  zoom = Math.min(
+    zoom,
+    MAX_MAP_IMAGE_SIDE / baseWidth,
+    MAX_MAP_IMAGE_SIDE / baseHeight,
+    Math.sqrt(MAX_MAP_IMAGE_AREA / (baseWidth * baseHeight))
+  );
+
+  return {
+    zoom,
+    width: Math.ceil(baseWidth * zoom),
+    height: Math.ceil(baseHeight * zoom),
+    originX: MARGIN + Math.max(1, mapHeight) * tileWidth / 2,
+    originY: MARGIN + Math.max(0, topPadding) + tileHeight / 2
+  };
+}
@@ -0,0 +1,124 @@
+import type { MapObject } from '../types';
+
+/**
+ * Resizing a map around an anchor. The offset is where the old map's (0, 0)
+ * lands in the resized one; content moved outside the new bounds is cropped.
+ *
+ * Anchors are given as column and row (0 = left/top, 1 = centre,
+ * 2 = right/bottom) of the 3x3 anchor picker.
+ */
+
+export interface ResizeAnchor {
+  col: 0 | 1 | 2;
+  row: 0 | 1 | 2;
+}
+
+/** Offset that keeps the anchored side or centre of the old map in place. */
+export function getAnchorOffset(
+  anchor: ResizeAnchor,
+  oldWidth: number,
+  oldHeight: number,
+  newWidth: number,
+  newHeight: number
+): { x: number; y: number } {
+  return {
+    x: Math.floor(((newWidth - oldWidth) * anchor.col) / 2),
+    y: Math.floor(((newHeight - oldHeight) * anchor.row) / 2)
+  };
+}
+
+/** A row-major map array copied into the new size, moved by the offset. */
+export function shiftGrid<T>(
+  data: T[],
+  oldWidth: number,
+  oldHeight: number,
+  newWidth: number,
+  newHeight: number,
+  offsetX: number,
+  offsetY: number,
+  empty: T
+): T[] {
+  const shifted = new Array<T>(newWidth * newHeight).fill(empty);
+  for (let y = 0; y < oldHeight; y++) {
+    for (let x = 0; x < oldWidth; x++) {
+      const nx = x + offsetX;
+      const ny = y + offsetY;
+      const value = data[y * oldWidth + x];
+      if (value === undefined || nx < 0 || ny < 0 || nx >= newWidth || ny >= newHeight) continue;
+      shifted[ny * newWidth + nx] = value;
+    }
+  }
+  return shifted;
+}
+
+const shiftPair = (x: string, y: string, dx: number, dy: number): string | null => {
+  const px = parseInt(x, 10);
+  const py = parseInt(y, 10);
+  return Number.isNaN(px) || Number.isNaN(py) ? null : `${px + dx},${py + dy}`;
+};
+
+/** `map,x,y` pointing into targetFile (e.g. "maps/Town.txt") gets its x and y moved; other values are returned as they are. */
+export function shiftIntermapTarget(value: string, targetFile: string, dx: number, dy: number): string {
+  const parts = value.split(',').map(part => part.trim());
+  if (parts.length < 3 || parts[0].toLowerCase() !== targetFile.toLowerCase()) return value;
+  const pair = shiftPair(parts[1], parts[2], dx, dy);
+  return pair ? [parts[0], pair, ...parts.slice(3)].join(',') : value;
+}
+
+/** Coordinates in Flare's `x,y;x,y` waypoint lists, or a `x,y,w,h` location (extra fields are kept). */
+export function shiftPointList(value: string, dx: number, dy: number): string {
+  return value
+    .split(';')
+    .map(point => {
+      const [x, y, ...rest] = point.split(',');
+      const pair = y !== undefined ? shiftPair(x, y, dx, dy) : null;
+      return pair ? [pair, ...rest].join(',') : point;
+    })
+    .join(';');
+}
+
+// `name,x,y,…` entries separated by semicolons, with the x and y moved
+const shiftNamedPoints = (value: string, dx: number, dy: number): string =>
+  value
+    .split(';')
+    .map(entry => {
+      const [name, x, y, ...rest] = entry.split(',');
+      const pair = y !== undefined ? shiftPair(x, y, dx, dy) : null;
+      return pair ? [name, pair, ...rest].join(',') : entry;
+    })
+    .join(';');
+
+/** Coordinates in Flare's `layer,x,y,gid;…` map modifications. */
+export function shiftMapmods(value: string, dx: number, dy: number): string {
+  return shiftNamedPoints(value, dx, dy);
+}
+
+/** Coordinates in Flare's `category,x,y` event spawns. */
+export function shiftSpawns(value: string, dx: number, dy: number): string {
+  return shiftNamedPoints(value, dx, dy);
+}
+
+/** Objects with intermap targets into targetFile moved by the offset; changed is false when none pointed there. */
+export function shiftIntermapTargets(
+  objects: MapObject[],
+  targetFile: string,
+  dx: number,
+  dy: number
+): { objects: MapObject[]; changed: boolean } {
+  let changed = false;
+  const shifted = objects.map(obj => {
+    const propertyTarget = obj.properties?.intermap;
+    const next = { ...obj };
+    if (typeof propertyTarget === 'string') {
+      const moved = shiftIntermapTarget(propertyTarget, targetFile, dx, dy);
+      if (moved !== propertyTarget) next.properties = { ...obj.properties, intermap: moved };
+    }
+    if (obj.intermap) next.intermap = shiftIntermapTarget(obj.intermap, targetFile, dx, dy);
+    if (next.properties !== obj.properties || next.intermap !== obj.intermap) {
+      changed = true;
+      return next;
+    }
+    return obj;
+  });
+  return { objects: shifted, changed };
+}
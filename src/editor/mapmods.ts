@@ -0,0 +1,75 @@
+import { toFlareCollisionValue } from './collisionTypes';
+
+/**
+ * Flare map modifications (`mapmod=layer,x,y,value;…`): cells an event
+ * changes when it fires, e.g. to open a door or collapse a wall.
+ *
+ * Tiles recorded on the map hold tileset-local ids like the layer data, so the
+ * tileset of each modification is stored next to the mapmod (in
+ * MAPMOD_TILESETS_PROPERTY) and export adds that tileset's offset. Values
+ * typed by hand have no tileset and are exported as they are.
+ */
+
+export interface MapMod {
+  layer: string;
+  x: number;
+  y: number;
+  value: number;
+  tilesetKey: string | null;
+}
+
+export const MAPMOD_TILESETS_PROPERTY = '_mapmod_tilesets';
+
+const joinValues = (value: string | string[] | undefined): string =>
+  Array.isArray(value) ? value.join(';') : value ?? '';
+
+const parseTilesets = (value: string | string[] | undefined): Array<string | null> => {
+  const raw = joinValues(value);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(key => (typeof key === 'string' && key ? key : null)) : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Modifications of an event's `mapmod` property; malformed entries are skipped. */
+export function parseMapmods(value: string | string[] | undefined, tilesets?: string | string[]): MapMod[] {
+  const keys = parseTilesets(tilesets);
+  const mods: MapMod[] = [];
+  joinValues(value).split(';').forEach((entry, index) => {
+    const [layer, x, y, mod] = entry.split(',').map(part => part.trim());
+    const parsed = [x, y, mod].map(part => parseInt(part, 10));
+    if (!layer || parsed.some(Number.isNaN)) return;
+    mods.push({ layer, x: parsed[0], y: parsed[1], value: parsed[2], tilesetKey: keys[index] ?? null });
+  });
+  return mods;
+}
+
+/** `mapmod` property value and the tileset list to store with it (null when no modification has a tileset). */
+export function serializeMapmods(mods: MapMod[]): { mapmod: string; tilesets: string | null } {
+  return {
+    mapmod: mods.map(mod => `${mod.layer},${mod.x},${mod.y},${mod.value}`).join(';'),
+    tilesets: mods.some(mod => mod.tilesetKey) ? JSON.stringify(mods.map(mod => mod.tilesetKey)) : null
+  };
+}
+
+/** Modifications as written to a Flare map, with tileset offsets added to recorded tiles. */
+export function toFlareMapmods(
+  value: string | string[] | undefined,
+  tilesets: string | string[] | undefined,
+  resolveOffset: (tilesetKey: string) => number | undefined
+): string {
+  if (!tilesets) return joinValues(value);
+  return parseMapmods(value, tilesets).map(mod => {
+    let flareValue = mod.value;
+    if (mod.layer === 'collision') {
+      flareValue = toFlareCollisionValue(mod.value);
+    } else if (mod.tilesetKey && mod.value > 0) {
+      const offset = resolveOffset(mod.tilesetKey);
+      if (offset !== undefined && offset >= 1) flareValue = offset + (mod.value - 1);
+    }
+    return `${mod.layer},${mod.x},${mod.y},${flareValue}`;
+  }).join(';');
+}
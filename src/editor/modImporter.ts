@@ -0,0 +1,253 @@
+import { parseFlareMapTxt, parseTilesetDefTiles } from './flareMapParser';
+import type { EditorProjectData } from './TileMapEditor';
+import { parseNpcFile } from '../utils/flareNpcUtils';
+import { parseLootGroupText } from '../hooks/useItems';
+import type { FlareNPC, MapObject } from '../types';
+
+/**
+ * Scans the text files of an existing Flare mod and reports what the editor
+ * can work with. The files themselves are copied into the project unchanged;
+ * importModContent() then turns its maps into project maps (with the NPC
+ * files they place filled in) and registers its loot tables as item groups.
+ */
+
+export interface ModImportFile {
+  path: string;     // Relative to the mod root, '/' separated (e.g. npcs/merchant.txt)
+  content: string;
+}
+
+export type ModContentKind = 'maps' | 'npcs' | 'items' | 'lootGroups' | 'enemies' | 'quests' | 'tilesetDefs';
+
+export const MOD_CONTENT_LABELS: Record<ModContentKind, string> = {
+  maps: 'Maps',
+  npcs: 'NPCs',
+  items: 'Items',
+  lootGroups: 'Loot groups',
+  enemies: 'Enemies',
+  quests: 'Quests',
+  tilesetDefs: 'Tileset definitions'
+};
+
+export interface ModImportIssue {
+  file: string;
+  message: string;
+}
+
+export interface ModImportReport {
+  counts: Record<ModContentKind, number>;
+  issues: ModImportIssue[];   // Files that were recognised but only partly understood
+  skipped: string[];          // Files the editor has no support for
+}
+
+// Files Flare Studio reads or writes itself outside the content folders
+const KNOWN_ROOT_FILES = new Set<string>(['settings.txt', 'maps/spawn.txt']);
+
+const normalizePath = (filePath: string): string => filePath.replace(/\\/g, '/').replace(/^\.?\//, '');
+
+// Text before the first [section]; NPC dialog and stance sections are handled elsewhere
+const rootSection = (content: string): string => {
+  const match = /^\s*\[[^\]]+\]\s*$/m.exec(content);
+  return match ? content.substring(0, match.index) : content;
+};
+
+const countSections = (content: string, name: string): number =>
+  content.split(/\r?\n/).filter(line => line.trim().toLowerCase() === `[${name}]`).length;
+
+const hasKey = (content: string, key: string): boolean =>
+  content.split(/\r?\n/).some(line => line.trim().startsWith(`${key}=`));
+
+export function buildModImportReport(files: ModImportFile[]): ModImportReport {
+  const counts: Record<ModContentKind, number> = {
+    maps: 0, npcs: 0, items: 0, lootGroups: 0, enemies: 0, quests: 0, tilesetDefs: 0
+  };
+  const issues: ModImportIssue[] = [];
+  const skipped: string[] = [];
+  const sorted = files
+    .map(file => ({ path: normalizePath(file.path), content: file.content }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+  const knownPaths = new Set(sorted.map(file => file.path.toLowerCase()));
+  let npcId = 1;
+
+  for (const file of sorted) {
+    const lower = file.path.toLowerCase();
+    if (!lower.endsWith('.txt') || KNOWN_ROOT_FILES.has(lower)) continue;
+    const segments = lower.split('/');
+    const folder = segments.length > 1 ? segments[0] : '';
+    const nested = segments.length > 2;
+
+    if (folder === 'maps' && !nested) {
+      const parsed = parseFlareMapTxt(file.content);
+      if (parsed.layers.length === 0) {
+        issues.push({ file: file.path, message: 'No [layer] sections; not a Flare map' });
+        continue;
+      }
+      counts.maps++;
+      parsed.warnings.forEach(message => issues.push({ file: file.path, message }));
+      const tilesetDef = parsed.header.tileset?.trim();
+      if (tilesetDef && !knownPaths.has(normalizePath(tilesetDef).toLowerCase())) {
+        issues.push({ file: file.path, message: `Tileset definition ${tilesetDef} is not part of the mod` });
+      }
+    } else if (folder === 'npcs' && !nested) {
+      const npc = parseNpcFile(rootSection(file.content), npcId++, file.path, 0, 0);
+      counts.npcs++;
+      if (!npc.name) issues.push({ file: file.path, message: 'NPC has no name' });
+      const unknown = Object.keys(npc.customProperties ?? {});
+      if (unknown.length > 0) {
+        issues.push({ file: file.path, message: `Unrecognised keys kept as custom properties: ${unknown.join(', ')}` });
+      }
+      const dialogs = countSections(file.content, 'dialog');
+      if (dialogs > 0) {
+        issues.push({ file: file.path, message: `${dialogs} [dialog] section(s) are not imported; exporting a map with this NPC rewrites the file without them` });
+      }
+    } else if (folder === 'items') {
+      const itemCount = countSections(file.content, 'item');
+      if (itemCount === 0) {
+        skipped.push(file.path);
+        continue;
+      }
+      counts.items += itemCount;
+    } else if (folder === 'loot') {
+      const group = parseLootGroupText(file.content);
+      counts.lootGroups++;
+      if (!Array.isArray(group.loot) || group.loot.length === 0) {
+        issues.push({ file: file.path, message: 'Loot group has no [loot] entries' });
+      }
+    } else if (folder === 'enemies' && !nested) {
+      counts.enemies++;
+      if (!hasKey(file.content, 'name')) issues.push({ file: file.path, message: 'Enemy has no name' });
+    } else if (folder === 'quests' && !nested) {
+      counts.quests++;
+      if (countSections(file.content, 'quest') === 0) {
+        issues.push({ file: file.path, message: 'Quest file has no [quest] sections' });
+      }
+    } else if (folder === 'tilesetdefs' && !nested) {
+      const def = parseTilesetDefTiles(file.content);
+      counts.tilesetDefs++;
+      if (!def.img) issues.push({ file: file.path, message: 'Tileset definition has no img= line' });
+      if (def.tiles.size === 0) issues.push({ file: file.path, message: 'Tileset definition has no tile= entries' });
+    } else {
+      skipped.push(file.path);
+    }
+  }
+
+  return { counts, issues, skipped };
+}
+
+const fileBaseName = (filePath: string): string => (filePath.split('/').pop() || filePath).replace(/\.txt$/i, '');
+
+/** The NPC file of every top-level npcs/*.txt, keyed by its lower-cased path. */
+export function collectModNpcs(files: ModImportFile[]): Map<string, FlareNPC> {
+  const npcs = new Map<string, FlareNPC>();
+  let npcId = 1;
+  for (const file of files) {
+    const filePath = normalizePath(file.path);
+    if (!/^npcs\/[^/]+\.txt$/i.test(filePath)) continue;
+    npcs.set(filePath.toLowerCase(), parseNpcFile(rootSection(file.content), npcId++, filePath, 0, 0));
+  }
+  return npcs;
+}
+
+/**
+ * NPC map objects with the fields of the file they place, as the NPC dialog
+ * stores them. `missing` lists referenced files the mod does not contain.
+ */
+export function applyModNpcs(objects: MapObject[], npcs: Map<string, FlareNPC>): { objects: MapObject[]; missing: string[] } {
+  const missing: string[] = [];
+  const updated = objects.map(object => {
+    const npcFilename = object.properties.npcFilename;
+    if (object.type !== 'npc' || typeof npcFilename !== 'string') return object;
+    const npc = npcs.get(normalizePath(npcFilename).toLowerCase());
+    if (!npc) {
+      missing.push(npcFilename);
+      return object;
+    }
+    const properties: Record<string, string | string[]> = { ...object.properties };
+    const set = (key: string, value: string | number | boolean | undefined) => {
+      if (value !== undefined && value !== '') properties[key] = String(value);
+    };
+    set('talker', npc.talker);
+    set('vendor', npc.vendor);
+    set('tilesetPath', npc.gfx);
+    set('portraitPath', npc.portrait);
+    set('direction', npc.direction);
+    set('waypoints', npc.waypoints);
+    set('wander_radius', npc.wander_radius);
+    set('constant_stock', npc.constant_stock);
+    set('random_stock', npc.random_stock);
+    set('random_stock_count', npc.random_stock_count);
+    set('vendor_requires_status', npc.vendor_requires_status);
+    set('vendor_requires_not_status', npc.vendor_requires_not_status);
+    return { ...object, name: npc.name || object.name, properties };
+  });
+  return { objects: updated, missing };
+}
+
+export interface ModLootGroup {
+  file: string;   // loot/<name>.txt, as events and enemies reference it
+  name: string;
+}
+
+/** Loot tables of the mod, named by their name= key or else their file. */
+export function collectModLootGroups(files: ModImportFile[]): ModLootGroup[] {
+  return files
+    .map(file => ({ path: normalizePath(file.path), content: file.content }))
+    .filter(file => /^loot\/.+\.txt$/i.test(file.path))
+    .map(file => {
+      const group = parseLootGroupText(file.content);
+      return { file: file.path, name: typeof group.name === 'string' && group.name ? group.name : fileBaseName(file.path) };
+    })
+    .sort((a, b) => a.file.localeCompare(b.file));
+}
+
+export interface ModImportTarget {
+  /** Load a Flare map into project data named `mapName`, with the loader's warnings. */
+  convertMap: (mapName: string, content: string) => Promise<{ project: EditorProjectData; warnings: string[] }>;
+  saveMap: (project: EditorProjectData) => Promise<boolean>;
+  addLootGroup: (group: ModLootGroup) => Promise<boolean>;
+}
+
+/**
+ * Convert the mod's maps into project maps named after their files (so
+ * intermap targets keep resolving) and register its loot tables. The report's
+ * map and loot group counts are what was actually imported.
+ */
+export async function importModContent(files: ModImportFile[], target: ModImportTarget): Promise<ModImportReport> {
+  const report = buildModImportReport(files);
+  const npcs = collectModNpcs(files);
+  const mapFiles = files
+    .map(file => ({ path: normalizePath(file.path), content: file.content }))
+    .filter(file => /^maps\/[^/]+\.txt$/i.test(file.path) && !KNOWN_ROOT_FILES.has(file.path.toLowerCase()))
+    .filter(file => parseFlareMapTxt(file.content).layers.length > 0)
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  report.counts.maps = 0;
+  for (const file of mapFiles) {
+    try {
+      const { project, warnings } = await target.convertMap(fileBaseName(file.path), file.content);
+      const { objects, missing } = applyModNpcs(project.objects ?? [], npcs);
+      missing.forEach(npcFile => report.issues.push({ file: file.path, message: `NPC file ${npcFile} is not part of the mod` }));
+      if (await target.saveMap({ ...project, objects })) {
+        report.counts.maps++;
+      } else {
+        report.issues.push({ file: file.path, message: 'Could not save the converted map' });
+      }
+      // The parser's own warnings are already in the report
+      const parserWarnings = new Set(parseFlareMapTxt(file.content).warnings);
+      warnings.filter(message => !parserWarnings.has(message)).forEach(message => report.issues.push({ file: file.path, message }));
+    } catch (error) {
+      report.issues.push({ file: file.path, message: `Could not convert the map: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  }
+
+  report.counts.lootGroups = 0;
+  for (const group of collectModLootGroups(files)) {
+    if (await target.addLootGroup(group)) {
+      report.counts.lootGroups++;
+    } else {
+      report.issues.push({ file: group.file, message: `Could not add the item group "${group.name}"` });
+    }
+  }
+
+  report.issues.sort((a, b) => a.file.localeCompare(b.file));
+  return report;
+}
@@ -0,0 +1,173 @@
+/**
+ * Builds the file list of a distributable Flare mod from a project folder.
+ * Only files the engine reads make it into the package: data files always,
+ * images and sounds only when a data file references them. Editor state
+ * (project JSON, session files, backups, Tiled exports) is left out.
+ *
+ * References must match the file name exactly, as they do for the engine on
+ * case-sensitive file systems; ones that differ only in letter case are
+ * reported rather than packaged.
+ */
+
+export interface ModProjectFile {
+  path: string;       // Relative to the project root, '/' separated
+  size: number;
+  content?: string;   // Text files only
+}
+
+export interface ModSettings {
+  description: string;
+  version: string;
+  requires: string[];
+  other: Array<[string, string]>;   // Remaining settings.txt keys, in file order
+}
+
+export interface ModPackageEntry {
+  path: string;
+  size: number;
+}
+
+export interface ModCaseMismatch {
+  reference: string;    // As written in the data file
+  path: string;         // The project file it names in different letter case
+  referencedBy: string; // Data file the reference is in
+}
+
+export interface ModPackagePlan {
+  files: string[];              // Project files to copy into the package
+  settingsTxt: string;          // Generated settings.txt, the package's copy
+  entries: ModPackageEntry[];   // Everything in the package, settings.txt included
+  excluded: Array<{ path: string; reason: string }>;
+  caseMismatches: ModCaseMismatch[];
+}
+
+// Folders the editor writes for itself
+const EDITOR_ONLY_DIRS = new Set<string>(['tiled', 'backup']);
+
+// Read by the engine wherever they are
+const DATA_EXTENSIONS = new Set<string>(['txt', 'po', 'ttf']);
+
+// Packaged only when referenced
+const ASSET_EXTENSIONS = new Set<string>(['png', 'jpg', 'jpeg', 'ogg', 'wav']);
+
+// The engine loads these by fixed path rather than from a data file
+const ENGINE_ASSET_DIRS = ['images/icons/', 'images/menus/', 'images/ui/'];
+
+const ASSET_REFERENCE = /[^\s=,;"']+\.(?:png|jpe?g|ogg|wav)\b/gi;
+
+const normalizePath = (filePath: string): string =>
+  filePath.replace(/\\/g, '/').replace(/^(\.\.?\/)+/, '');
+
+const extensionOf = (filePath: string): string => {
+  const name = filePath.substring(filePath.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.substring(dot + 1).toLowerCase() : '';
+};
+
+export function parseModSettings(content: string): ModSettings {
+  const settings: ModSettings = { description: '', version: '', requires: [], other: [] };
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    const eq = line.indexOf('=');
+    if (eq <= 0) continue;
+    const key = line.substring(0, eq).trim();
+    const value = line.substring(eq + 1).trim();
+    if (key === 'description') settings.description = value;
+    else if (key === 'version') settings.version = value;
+    else if (key === 'requires') settings.requires = value.split(',').map(s => s.trim()).filter(Boolean);
+    else settings.other.push([key, value]);
+  }
+  return settings;
+}
+
+export function buildModSettingsTxt(settings: ModSettings): string {
+  const lines = [`description=${settings.description.trim()}`, `version=${settings.version.trim()}`];
+  const requires = settings.requires.map(s => s.trim()).filter(Boolean);
+  if (requires.length > 0) lines.push(`requires=${requires.join(',')}`);
+  for (const [key, value] of settings.other) lines.push(`${key}=${value}`);
+  return lines.join('\n') + '\n';
+}
+
+/** Folder name of the mod inside Flare's mods directory. */
+export function modPackageName(projectPath: string): string {
+  const base = projectPath.replace(/\\/g, '/').replace(/\/+$/, '').split('/').pop() || '';
+  return base.replace(/[<>:"/\\|?*]/g, '_').trim().replace(/\s+/g, '_').replace(/_{2,}/g, '_') || 'mod';
+}
+
+export function planModPackage(projectFiles: ModProjectFile[], settings: ModSettings): ModPackagePlan {
+  const files: ModProjectFile[] = [];
+  const assets: ModProjectFile[] = [];
+  const excluded: ModPackagePlan['excluded'] = [];
+
+  const sorted = projectFiles
+    .map(file => ({ ...file, path: normalizePath(file.path) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  for (const file of sorted) {
+    const segments = file.path.split('/');
+    const ext = extensionOf(file.path);
+    if (segments.some(segment => segment.startsWith('.')) || EDITOR_ONLY_DIRS.has(segments[0].toLowerCase())) {
+      excluded.push({ path: file.path, reason: 'Editor file' });
+    } else if (segments.length === 1) {
+      // settings.txt is regenerated below; everything else at the root is editor state
+      if (file.path.toLowerCase() !== 'settings.txt') excluded.push({ path: file.path, reason: 'Editor file' });
+    } else if (DATA_EXTENSIONS.has(ext)) {
+      files.push(file);
+    } else if (ASSET_EXTENSIONS.has(ext)) {
+      assets.push(file);
+    } else {
+      excluded.push({ path: file.path, reason: 'Not a Flare file type' });
+    }
+  }
+
+  // Reference -> first data file using it
+  const referenced = new Map<string, string>();
+  for (const file of files) {
+    for (const match of (file.content ?? '').match(ASSET_REFERENCE) || []) {
+      const reference = normalizePath(match);
+      if (!referenced.has(reference)) referenced.set(reference, file.path);
+    }
+  }
+  const assetPaths = new Set(assets.map(asset => asset.path));
+  const caseMismatches: ModCaseMismatch[] = [];
+  for (const asset of assets) {
+    if (referenced.has(asset.path) || ENGINE_ASSET_DIRS.some(dir => asset.path.startsWith(dir))) {
+      files.push(asset);
+      continue;
+    }
+    const lower = asset.path.toLowerCase();
+    const mismatched = [...referenced].filter(([reference]) => reference.toLowerCase() === lower && !assetPaths.has(reference));
+    mismatched.forEach(([reference, referencedBy]) => caseMismatches.push({ reference, path: asset.path, referencedBy }));
+    excluded.push({
+      path: asset.path,
+      reason: mismatched.length > 0 ? `Referenced as ${mismatched[0][0]}, in different letter case` : 'Not referenced by any mod file'
+    });
+  }
+  files.sort((a, b) => a.path.localeCompare(b.path));
+
+  const settingsTxt = buildModSettingsTxt(settings);
+  return {
+    files: files.map(file => file.path),
+    settingsTxt,
+    entries: [
+      { path: 'settings.txt', size: new TextEncoder().encode(settingsTxt).length },
+      ...files.map(file => ({ path: file.path, size: file.size }))
+    ],
+    excluded,
+    caseMismatches
+  };
+}
+
+/** Manifest written next to the archive, listing every packaged file. */
+export function buildModPackageManifest(modName: string, settings: ModSettings, entries: ModPackageEntry[]): string {
+  return JSON.stringify({
+    name: modName,
+    description: settings.description,
+    version: settings.version,
+    requires: settings.requires,
+    fileCount: entries.length,
+    totalSize: entries.reduce((sum, entry) => sum + entry.size, 0),
+    files: entries.map(entry => ({ path: `${modName}/${entry.path}`, size: entry.size }))
+  }, null, 2) + '\n';
+}
@@ -0,0 +1,90 @@
+import { blocksMovement } from './collisionTypes';
+
+/**
+ * NPC patrol paths (`waypoints=x1,y1;x2,y2;…`). Flare walks the NPC from its
+ * spawn cell to the first waypoint, then on through the list and from the
+ * last waypoint back to the first, over and over.
+ *
+ * A segment is blocked when walking straight along it enters a cell whose
+ * collision blocks movement, leaves the map, or cuts the corner between two
+ * blocked cells.
+ */
+
+export interface Waypoint {
+  x: number;
+  y: number;
+}
+
+export interface WaypointSegment {
+  from: Waypoint;
+  to: Waypoint;
+  toIndex: number;   // Index of the waypoint the segment leads to
+  blocked: boolean;
+}
+
+/** Waypoints of a `waypoints` value; malformed entries are skipped. */
+export function parseWaypoints(value: string | undefined | null): Waypoint[] {
+  if (!value) return [];
+  const points: Waypoint[] = [];
+  for (const entry of value.split(';')) {
+    const [x, y] = entry.split(',').map(part => parseInt(part.trim(), 10));
+    if (!Number.isNaN(x) && !Number.isNaN(y)) points.push({ x, y });
+  }
+  return points;
+}
+
+export const serializeWaypoints = (points: Waypoint[]): string =>
+  points.map(point => `${point.x},${point.y}`).join(';');
+
+/** Cells a straight walk from `from` to `to` passes through, both ends included. */
+export function lineCells(from: Waypoint, to: Waypoint): Waypoint[] {
+  const cells: Waypoint[] = [];
+  const dx = Math.abs(to.x - from.x);
+  const dy = Math.abs(to.y - from.y);
+  const sx = from.x < to.x ? 1 : -1;
+  const sy = from.y < to.y ? 1 : -1;
+  let x = from.x;
+  let y = from.y;
+  let error = dx - dy;
+  cells.push({ x, y });
+  while (x !== to.x || y !== to.y) {
+    const doubled = error * 2;
+    if (doubled > -dy) { error -= dy; x += sx; }
+    if (doubled < dx) { error += dx; y += sy; }
+    cells.push({ x, y });
+  }
+  return cells;
+}
+
+export function isSegmentBlocked(from: Waypoint, to: Waypoint, width: number, height: number, collision: number[]): boolean {
+  const walkable = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && !blocksMovement(collision[y * width + x] ?? 0);
+  const cells = lineCells(from, to);
+  for (let i = 0; i < cells.length; i++) {
+    const cell = cells[i];
+    if (!walkable(cell.x, cell.y)) return true;
+    const prev = cells[i - 1];
+    if (prev && prev.x !== cell.x && prev.y !== cell.y && (!walkable(cell.x, prev.y) || !walkable(prev.x, cell.y))) return true;
+  }
+  return false;
+}
+
+/** Segments of the patrol starting at the spawn cell, including the one closing the loop. */
+export function getPatrolSegments(
+  spawn: Waypoint,
+  points: Waypoint[],
+  width: number,
+  height: number,
+  collision: number[]
+): WaypointSegment[] {
+  if (points.length === 0) return [];
+  const segments: WaypointSegment[] = [];
+  const add = (from: Waypoint, toIndex: number) => {
+    const to = points[toIndex];
+    segments.push({ from, to, toIndex, blocked: isSegmentBlocked(from, to, width, height, collision) });
+  };
+  add(spawn, 0);
+  for (let i = 1; i < points.length; i++) add(points[i - 1], i);
+  if (points.length > 2) add(points[points.length - 1], 0);
+  return segments;
+}
@@ -0,0 +1,176 @@
+import type { MapObject } from '../types';
+import { blocksMovement } from './collisionTypes';
+import { sanitizeMapFileBase } from './mapSpawnUtils';
+
+/**
+ * Which parts of a map the player can walk to. The flood fill starts at the
+ * hero position and at every intermap target arriving in the map, moves in
+ * eight directions over cells whose collision does not block movement and
+ * does not cut corners between two blocked cells (as Flare's pathfinding).
+ *
+ * A target counts as reachable when one of its cells, or a cell next to it,
+ * is reachable: NPCs are talked to and hotspots clicked from a neighbouring
+ * cell.
+ */
+
+export type ReachabilityTargetKind = 'event' | 'exit' | 'npc' | 'enemy';
+
+export interface ReachabilityTarget {
+  objectId: number;
+  kind: ReachabilityTargetKind;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ReachabilityInput {
+  width: number;
+  height: number;
+  collision: number[];
+  floor?: boolean[];   // Cells with ground tiles; only these are reported as unreachable
+  starts: Array<{ x: number; y: number }>;
+  objects: MapObject[];
+}
+
+export interface ReachabilityResult {
+  reachable: boolean[];
+  unreachableCells: Array<{ x: number; y: number }>;
+  unreachableTargets: ReachabilityTarget[];
+}
+
+// Events that fire without the player walking up to them
+const PASSIVE_ACTIVATIONS = new Set(['on_load', 'on_leave', 'on_mapexit', 'on_clear', 'static']);
+
+const parseRect = (value: unknown): { x: number; y: number; width: number; height: number } | null => {
+  if (typeof value !== 'string') return null;
+  const [x, y, width, height] = value.split(',').map(part => parseInt(part.trim(), 10));
+  if (Number.isNaN(x) || Number.isNaN(y)) return null;
+  return { x, y, width: Number.isNaN(width) ? 1 : width, height: Number.isNaN(height) ? 1 : height };
+};
+
+const getIntermap = (obj: MapObject): string | null => {
+  const value = obj.properties?.intermap ?? obj.intermap;
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+};
+
+/** Events, exits, NPCs and enemy spawns the player has to get to. */
+export function getReachabilityTargets(objects: MapObject[]): ReachabilityTarget[] {
+  const targets: ReachabilityTarget[] = [];
+  for (const obj of objects) {
+    let kind: ReachabilityTargetKind;
+    if (obj.type === 'npc') kind = 'npc';
+    else if (obj.type === 'enemy') kind = 'enemy';
+    else if (obj.type === 'event') {
+      const activate = obj.properties?.activate ?? obj.activate;
+      if (typeof activate === 'string' && PASSIVE_ACTIVATIONS.has(activate)) continue;
+      kind = getIntermap(obj) ? 'exit' : 'event';
+    } else continue;
+
+    const area = (obj.type === 'event' && parseRect(obj.properties?.location))
+      || { x: obj.x, y: obj.y, width: obj.width, height: obj.height };
+    if (area.x < 0 || area.y < 0) continue;
+    targets.push({
+      objectId: obj.id,
+      kind,
+      name: obj.name || `${kind} #${obj.id}`,
+      x: area.x,
+      y: area.y,
+      width: Math.max(1, area.width || 1),
+      height: Math.max(1, area.height || 1)
+    });
+  }
+  return targets;
+}
+
+/** Cells where intermap events of any map (this one included) drop the player into mapFile, e.g. "maps/Town.txt". */
+export function getArrivalPoints(objects: MapObject[], mapFile: string): Array<{ x: number; y: number }> {
+  const points: Array<{ x: number; y: number }> = [];
+  for (const obj of objects) {
+    const intermap = getIntermap(obj);
+    if (!intermap) continue;
+    const [file, x, y] = intermap.split(',').map(part => part.trim());
+    if (!file || file.toLowerCase() !== mapFile.toLowerCase()) continue;
+    const px = parseInt(x, 10);
+    const py = parseInt(y, 10);
+    if (!Number.isNaN(px) && !Number.isNaN(py)) points.push({ x: px, y: py });
+  }
+  return points;
+}
+
+/**
+ * Arrival points in mapName from teleports of the project's other saved maps.
+ * mapFiles are the project's map files as listed ("Town.json"); readMap
+ * loads one by its name without the extension.
+ */
+export async function getArrivalPointsFromOtherMaps(
+  mapFiles: string[],
+  mapName: string,
+  readMap: (name: string) => Promise<{ objects?: MapObject[] } | null>
+): Promise<Array<{ x: number; y: number }>> {
+  const ownFile = sanitizeMapFileBase(mapName);
+  const points: Array<{ x: number; y: number }> = [];
+  for (const file of mapFiles) {
+    const name = file.replace(/\.json$/i, '');
+    if (sanitizeMapFileBase(name) === ownFile) continue;
+    const other = await readMap(name);
+    if (other?.objects) points.push(...getArrivalPoints(other.objects, `maps/${ownFile}.txt`));
+  }
+  return points;
+}
+
+export function analyzeReachability(input: ReachabilityInput): ReachabilityResult {
+  const { width, height, collision } = input;
+  const inMap = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height;
+  const walkable = (x: number, y: number) => inMap(x, y) && !blocksMovement(collision[y * width + x] ?? 0);
+
+  const reachable = new Array<boolean>(width * height).fill(false);
+  const queue: number[] = [];
+  for (const start of input.starts) {
+    if (!inMap(start.x, start.y)) continue;
+    const index = start.y * width + start.x;
+    if (!reachable[index]) {
+      reachable[index] = true;
+      queue.push(index);
+    }
+  }
+
+  for (let head = 0; head < queue.length; head++) {
+    const x = queue[head] % width;
+    const y = Math.floor(queue[head] / width);
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (dx === 0 && dy === 0) continue;
+        const nx = x + dx;
+        const ny = y + dy;
+        if (!walkable(nx, ny)) continue;
+        if (dx !== 0 && dy !== 0 && (!walkable(x + dx, y) || !walkable(x, y + dy))) continue;
+        const next = ny * width + nx;
+        if (reachable[next]) continue;
+        reachable[next] = true;
+        queue.push(next);
+      }
+    }
+  }
+
+  const unreachableCells: Array<{ x: number; y: number }> = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (!reachable[index] && walkable(x, y) && (!input.floor || input.floor[index])) unreachableCells.push({ x, y });
+    }
+  }
+
+  const touchesReachable = (target: ReachabilityTarget): boolean => {
+    for (let y = target.y - 1; y <= target.y + target.height; y++) {
+      for (let x = target.x - 1; x <= target.x + target.width; x++) {
+        if (inMap(x, y) && reachable[y * width + x]) return true;
+      }
+    }
+    return false;
+  };
+  const unreachableTargets = getReachabilityTargets(input.objects).filter(target => !touchesReachable(target));
+
+  return { reachable, unreachableCells, unreachableTargets };
+}
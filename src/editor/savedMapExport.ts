@@ -0,0 +1,222 @@
+import type { TileLayer, AssetRecord, ObjectInstance } from '../types';
+import type { EditorProjectData, SavedTilesetEntry, SerializedDetectedTile } from './TileMapEditor';
+import { getFlareExportLayers, isFlareRenderLayerType, isPrimaryLayerOfType } from './flareLayers';
+import {
+  buildFlareMapTxt,
+  buildFlareTilesetDef,
+  assignTilesetOffsets,
+  findTabsUsedByCells,
+  isInternalTilesetFile,
+  sanitizeExportMapName,
+  sortExportTilesets,
+  stampObjectLayer,
+  type FlareExportLayer,
+  type FlareExportTileset,
+  type StampedObjectTile,
+  type TilesetDefRect
+} from './flareExport';
+
+/**
+ * Flare export of a saved project map (<project>/<Map>.json) without an
+ * editor instance. Mirrors what TileMapEditor produces after loading the same
+ * file: each layer type paints from its active tab's tileset, additional
+ * render layers keep their per-cell keys, and tile ids use the exporter's
+ * cumulative offsets.
+ */
+
+// The editor renders isometric 64x32 tiles regardless of the saved tileSize
+const TILE_WIDTH = 64;
+const TILE_HEIGHT = 32;
+
+export interface SavedMapExport {
+  mapName: string;
+  fileBase: string;          // maps/<fileBase>.txt, tilesetdefs/tileset_<fileBase>.txt
+  mapTxt: string;
+  tilesetDef: string;
+  tilesetImages: string[];   // File names expected in images/tilesets/
+}
+
+type SavedTab = NonNullable<EditorProjectData['layerTabs']>[string][number];
+
+const toRectMap = (pairs: SerializedDetectedTile[] | undefined): Map<number, TilesetDefRect> => {
+  const map = new Map<number, TilesetDefRect>();
+  for (const [gid, data] of pairs || []) {
+    map.set(gid, { sourceX: data.sourceX, sourceY: data.sourceY, width: data.width, height: data.height });
+  }
+  return map;
+};
+
+const toExportTileset = (layerType: string, tileset: SavedTilesetEntry, tab?: SavedTab): FlareExportTileset => {
+  const tileWidth = Math.max(1, tileset.tileWidth || TILE_WIDTH);
+  const tileHeight = Math.max(1, tileset.tileHeight || TILE_HEIGHT);
+  const columns = Math.max(1, tileset.columns || 1);
+  const rows = Math.max(1, tileset.rows || 1);
+  return {
+    fileName: tileset.fileName,
+    layerType,
+    count: Math.max(1, tileset.count || columns * rows),
+    columns,
+    tileWidth,
+    tileHeight,
+    spacing: tileset.spacing ?? 0,
+    margin: tileset.margin ?? 0,
+    offset: 0,
+    animations: tab?.animations ? new Map(tab.animations) : undefined
+  };
+};
+
+export function exportSavedMap(data: EditorProjectData): SavedMapExport {
+  const mapName = data.name || 'Untitled Map';
+  const width = data.width || 20;
+  const height = data.height || 15;
+  const layers: TileLayer[] = data.layers || [];
+
+  // Active tab per layer type, as restored by loadProjectData
+  const activeTabs = new Map<string, SavedTab>();
+  for (const [layerType, tabs] of Object.entries(data.layerTabs || {})) {
+    const activeId = data.layerActiveTabId?.[layerType];
+    const active = tabs.find(t => t.id === activeId) || tabs[0];
+    if (active) activeTabs.set(layerType, active);
+  }
+
+  // Tileset each layer type paints from, plus its detected tile rectangles
+  const layerTilesets = new Map<string, { tileset: SavedTilesetEntry; detected: Map<number, TilesetDefRect>; tab?: SavedTab }>();
+  for (const [layerType, tab] of activeTabs.entries()) {
+    if (!tab.tileset?.fileName) continue;
+    layerTilesets.set(layerType, {
+      tileset: tab.tileset,
+      detected: toRectMap(tab.detectedTiles || tab.tileset.detectedTiles),
+      tab
+    });
+  }
+  for (const tileset of data.tilesets || []) {
+    const layerType = tileset.layerType;
+    if (!layerType || layerTilesets.has(layerType) || !tileset.fileName) continue;
+    layerTilesets.set(layerType, { tileset, detected: toRectMap(tileset.detectedTiles) });
+  }
+
+  const tilesets: FlareExportTileset[] = [];
+  const detectedByTileset = new Map<string, Map<number, TilesetDefRect>>();
+  const added = new Set<string>();
+  const pushTileset = (layerType: string, tileset: SavedTilesetEntry, detected: Map<number, TilesetDefRect>, tab?: SavedTab) => {
+    if (!tileset.fileName || isInternalTilesetFile(tileset.fileName)) return;
+    const key = `${tileset.fileName}:${tileset.sourcePath ?? ''}`;
+    if (added.has(key)) return;
+    added.add(key);
+    tilesets.push(toExportTileset(layerType, tileset, tab));
+    if (!detectedByTileset.has(tileset.fileName)) detectedByTileset.set(tileset.fileName, detected);
+  };
+
+  for (const [layerType, entry] of layerTilesets.entries()) {
+    pushTileset(layerType, entry.tileset, entry.detected, entry.tab);
+  }
+
+  // Additional render layers (and shared-tab layers) may paint from tabs other than their type's active one
+  const sharedTabLayers = new Set(data.sharedTabLayers || []);
+  const keepsCellKeys = (layer: TileLayer) => !isPrimaryLayerOfType(layers, layer) || sharedTabLayers.has(layer.type);
+  for (const layer of layers) {
+    if (!isFlareRenderLayerType(layer.type) || !keepsCellKeys(layer)) continue;
+    for (const tab of findTabsUsedByCells(data.layerTabs?.[layer.type] || [], data.layerCellTilesetKeys?.[String(layer.id)])) {
+      if (tab.tileset?.fileName) {
+        pushTileset(layer.type, tab.tileset, toRectMap(tab.detectedTiles || tab.tileset.detectedTiles), tab);
+      }
+    }
+  }
+
+  sortExportTilesets(tilesets);
+  assignTilesetOffsets(tilesets);
+
+  // Single-tileset legacy fallback, as in generateFlareTilesetDef
+  if (tilesets.length === 1 && (detectedByTileset.get(tilesets[0].fileName)?.size ?? 0) === 0 && data.detectedTileData?.length) {
+    detectedByTileset.set(tilesets[0].fileName, toRectMap(data.detectedTileData));
+  }
+
+  const exportLayers: FlareExportLayer[] = getFlareExportLayers(layers).map(layer => {
+    const layerTilesetFileName = layer.type === 'collision' ? null : layerTilesets.get(layer.type)?.tileset.fileName ?? null;
+    const savedKeys = keepsCellKeys(layer) ? data.layerCellTilesetKeys?.[String(layer.id)] : undefined;
+    const objects = layer.type === 'object'
+      ? objectLayerTiles(data, layer, isPrimaryLayerOfType(layers, layer), activeTabs.get(layer.type), layerTilesets.get(layer.type)?.tileset)
+      : [];
+    return { type: layer.type, ...stampObjectLayer(layer.data, savedKeys, width, height, objects), layerTilesetFileName };
+  });
+
+  const mapTxt = buildFlareMapTxt({
+    width,
+    height,
+    tileWidth: TILE_WIDTH,
+    tileHeight: TILE_HEIGHT,
+    heroX: data.heroX ?? 0,
+    heroY: data.heroY ?? 0,
+    mapName,
+    title: mapName,
+    header: data.mapHeader || {},
+    tilesets,
+    layers: exportLayers,
+    objects: data.objects || []
+  });
+
+  return {
+    mapName,
+    fileBase: sanitizeExportMapName(mapName) || 'Map_Name',
+    mapTxt,
+    tilesetDef: buildFlareTilesetDef(tilesets, detectedByTileset, TILE_WIDTH, TILE_HEIGHT),
+    tilesetImages: tilesets.map(t => t.fileName)
+  };
+}
+
+/** Tiles of the objects placed on an object layer, as TileMapEditor.buildObjectLayerExportState collects them. */
+function objectLayerTiles(
+  data: EditorProjectData,
+  layer: TileLayer,
+  isPrimary: boolean,
+  activeTab: SavedTab | undefined,
+  layerTileset: SavedTilesetEntry | undefined
+): StampedObjectTile[] {
+  const assets = new Map<string, AssetRecord>((data.assetRecords || []).map(asset => [asset.id, asset]));
+  const instances = (data.objectInstances || []).filter((instance: ObjectInstance) => instance.layerId === layer.id.toString());
+
+  const objects = instances.flatMap(instance => {
+    const asset = assets.get(instance.assetRecordId);
+    if (!asset) return [];
+    const profileKey = /^(profile|legacy)_(.+)$/.exec(asset.profileId || '')?.[2]?.trim();
+    const tilesetKey = profileKey || layerTileset?.fileName || null;
+    return [{ x: instance.gridX, y: instance.gridY, gid: resolveAssetGid(asset, activeTab, tilesetKey, layerTileset), tilesetKey }];
+  });
+
+  // Backward compatibility for projects that still use legacy sprite objects.
+  if (instances.length === 0 && isPrimary) {
+    for (const legacy of data.placedSpriteObjects?.[layer.type] || []) {
+      objects.push({ x: legacy.anchorX, y: legacy.anchorY, gid: legacy.gid, tilesetKey: legacy.tilesetKey });
+    }
+  }
+  return objects;
+}
+
+function resolveAssetGid(
+  asset: AssetRecord,
+  activeTab: SavedTab | undefined,
+  tilesetKey: string | null,
+  layerTileset: SavedTilesetEntry | undefined
+): number {
+  // Prefer the detected tile with the same source rectangle
+  for (const [gid, rect] of activeTab?.detectedTiles || activeTab?.tileset?.detectedTiles || []) {
+    if (rect.sourceX === asset.sourceX && rect.sourceY === asset.sourceY && rect.width === asset.width && rect.height === asset.height) {
+      return gid;
+    }
+  }
+
+  // Fall back to the tileset grid position
+  const tileset = layerTileset && (!tilesetKey || layerTileset.fileName === tilesetKey) ? layerTileset : activeTab?.tileset;
+  if (tileset) {
+    const tileW = Math.max(1, tileset.tileWidth || TILE_WIDTH);
+    const tileH = Math.max(1, tileset.tileHeight || TILE_HEIGHT);
+    const cols = Math.max(1, tileset.columns || 1);
+    const col = Math.floor(asset.sourceX / tileW);
+    const row = Math.floor(asset.sourceY / tileH);
+    if (col >= 0 && row >= 0) return row * cols + col + 1;
+  }
+
+  // Last resort: legacy id-based mapping.
+  const match = /^asset_(\d+)$/.exec(asset.id || '');
+  return match ? parseInt(match[1], 10) : 0;
+}
@@ -0,0 +1,32 @@
+/**
+ * Weighted random scatter painting: the brush and bucket fill pick one of
+ * several tiles per cell, in proportion to their weights. Density below 1
+ * leaves that share of cells untouched, for sparse decoration.
+ */
+
+export interface ScatterEntry {
+  gid: number;
+  weight: number;
+}
+
+export interface ScatterSettings {
+  entries: ScatterEntry[];
+  density: number;   // 0-1, share of cells that get a tile
+}
+
+export const DEFAULT_SCATTER_WEIGHT = 1;
+
+/** Tile for one cell, or null when the cell should be skipped. */
+export function pickScatterTile(settings: ScatterSettings, random: () => number = Math.random): number | null {
+  const entries = settings.entries.filter(entry => entry.gid > 0 && entry.weight > 0);
+  if (entries.length === 0) return null;
+  if (random() >= Math.max(0, Math.min(1, settings.density))) return null;
+
+  const total = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  let roll = random() * total;
+  for (const entry of entries) {
+    roll -= entry.weight;
+    if (roll < 0) return entry.gid;
+  }
+  return entries[entries.length - 1].gid;
+}
@@ -0,0 +1,46 @@
+/**
+ * Mirror painting on the map grid. "horizontal" mirrors columns across an
+ * axis of constant x, "vertical" mirrors rows across an axis of constant y,
+ * "both" does both and adds the diagonal copy.
+ *
+ * Axis positions are in cells: 4 runs through the middle of column 4, 4.5
+ * between columns 4 and 5. Tiles keep their orientation; Flare has no tile
+ * flipping.
+ */
+
+export type SymmetryMode = 'off' | 'horizontal' | 'vertical' | 'both';
+
+export interface SymmetryAxis {
+  x: number;
+  y: number;
+}
+
+/** Axis through the middle of the map. */
+export function getCenteredSymmetryAxis(width: number, height: number): SymmetryAxis {
+  return { x: Math.max(0, width - 1) / 2, y: Math.max(0, height - 1) / 2 };
+}
+
+/** The cell and its mirror images inside the map, the cell itself first and without duplicates. */
+export function getSymmetricCells(
+  x: number,
+  y: number,
+  mode: SymmetryMode,
+  axis: SymmetryAxis,
+  width: number,
+  height: number
+): Array<{ x: number; y: number }> {
+  const mx = Math.round(2 * axis.x - x);
+  const my = Math.round(2 * axis.y - y);
+  const candidates = [{ x, y }];
+  if (mode === 'horizontal' || mode === 'both') candidates.push({ x: mx, y });
+  if (mode === 'vertical' || mode === 'both') candidates.push({ x, y: my });
+  if (mode === 'both') candidates.push({ x: mx, y: my });
+
+  const seen = new Set<string>();
+  return candidates.filter(cell => {
+    const key = `${cell.x},${cell.y}`;
+    if (seen.has(key) || cell.x < 0 || cell.y < 0 || cell.x >= width || cell.y >= height) return false;
+    seen.add(key);
+    return true;
+  });
+}
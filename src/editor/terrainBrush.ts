@@ -0,0 +1,114 @@
+/**
+ * Corner-based (Wang) terrain painting.
+ *
+ * Every tile of a tileset can be tagged with the terrain at each of its four
+ * diamond corners, in N, E, S, W order. Corner terrain is shared by the four
+ * cells meeting at a map vertex; for cell (x, y) its N, E, S and W corners sit
+ * on vertices (x, y), (x + 1, y), (x + 1, y + 1) and (x, y + 1).
+ *
+ * Painting a terrain sets the four vertices of the cell, then every cell
+ * touching those vertices gets the tile whose corners match best. Erasing
+ * paints "no terrain" (null) the same way.
+ */
+
+export type TerrainCorners = [number | null, number | null, number | null, number | null];
+
+export interface TerrainDefinition {
+  id: number;
+  name: string;
+  color: string;
+}
+
+// Saved form, keyed by tileset-local tile id
+export type SerializedTerrainTile = [number, TerrainCorners];
+
+export const TERRAIN_COLORS = ['#22c55e', '#a16207', '#3b82f6', '#ef4444', '#a855f7', '#f59e0b', '#64748b'];
+
+const CORNER_OFFSETS: Array<[number, number]> = [[0, 0], [1, 0], [1, 1], [0, 1]];
+
+export interface TerrainGrid {
+  width: number;
+  height: number;
+  // Tile at a cell (0 = empty), or null for cells the brush must not touch
+  // (e.g. painted from another tileset)
+  getTile: (x: number, y: number) => number | null;
+}
+
+const countMatches = (a: TerrainCorners, b: TerrainCorners): number =>
+  a.reduce<number>((n, corner, i) => (corner === b[i] ? n + 1 : n), 0);
+
+const isUntagged = (corners: TerrainCorners): boolean => corners.every(c => c === null);
+
+/** Cells to change, with their new tile, when painting `terrain` (null erases) at (x, y). */
+export function computeTerrainPaint(
+  grid: TerrainGrid,
+  tiles: Map<number, TerrainCorners>,
+  x: number,
+  y: number,
+  terrain: number | null
+): Array<{ x: number; y: number; value: number }> {
+  const inBounds = (cx: number, cy: number) => cx >= 0 && cy >= 0 && cx < grid.width && cy < grid.height;
+  if (!inBounds(x, y) || grid.getTile(x, y) === null) return [];
+
+  const cornersOf = (cx: number, cy: number): TerrainCorners | undefined => {
+    if (!inBounds(cx, cy)) return undefined;
+    const gid = grid.getTile(cx, cy);
+    return gid ? tiles.get(gid) : undefined;
+  };
+
+  const painted = new Set(CORNER_OFFSETS.map(([ox, oy]) => `${x + ox},${y + oy}`));
+
+  // Terrain at a map vertex: the painted one, else whatever a tagged tile
+  // around it says (the asking cell first)
+  const vertexTerrain = (vx: number, vy: number, askingX: number, askingY: number): number | null => {
+    if (painted.has(`${vx},${vy}`)) return terrain;
+    const around = CORNER_OFFSETS
+      .map(([ox, oy], corner) => ({ cx: vx - ox, cy: vy - oy, corner }))
+      .sort((a, b) => Number(b.cx === askingX && b.cy === askingY) - Number(a.cx === askingX && a.cy === askingY));
+    for (const { cx, cy, corner } of around) {
+      const corners = cornersOf(cx, cy);
+      if (corners) return corners[corner];
+    }
+    return null;
+  };
+
+  const changes: Array<{ x: number; y: number; value: number }> = [];
+  for (let cy = y - 1; cy <= y + 1; cy++) {
+    for (let cx = x - 1; cx <= x + 1; cx++) {
+      if (!inBounds(cx, cy)) continue;
+      const current = grid.getTile(cx, cy);
+      if (current === null) continue;
+
+      const wanted = CORNER_OFFSETS.map(([ox, oy]) => vertexTerrain(cx + ox, cy + oy, cx, cy)) as TerrainCorners;
+      const currentCorners = current ? tiles.get(current) : undefined;
+      const isCenter = cx === x && cy === y;
+      if (currentCorners && countMatches(currentCorners, wanted) === 4) continue;
+
+      let value: number | null = null;
+      if (isUntagged(wanted)) {
+        // Nothing left to show here: clear the painted cell and former terrain tiles
+        if (isCenter || currentCorners) value = 0;
+      } else {
+        let best = 0;
+        let bestScore = 0;
+        for (const [gid, corners] of tiles) {
+          const score = countMatches(corners, wanted);
+          if (score > bestScore) {
+            best = gid;
+            bestScore = score;
+          }
+        }
+        if (bestScore === 4) {
+          value = best;
+        } else if (bestScore > 0 && (isCenter || (currentCorners && bestScore > countMatches(currentCorners, wanted)))) {
+          // No exact transition tile: settle for the closest one, but never
+          // overwrite untagged neighbours with a partial match
+          value = best;
+        }
+      }
+
+      if (value !== null && value !== current) changes.push({ x: cx, y: cy, value });
+    }
+  }
+  return changes;
+}
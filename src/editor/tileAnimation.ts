@@ -0,0 +1,61 @@
+/**
+ * Tile animations as Flare stores them in tilesetdefs:
+ *
+ *   animation=<tile id>;<x>,<y>,<duration>;<x>,<y>,<duration>;...
+ *
+ * Every frame is a source position in the same image with the size and
+ * origin of the base tile. Durations take an `ms` or `s` suffix; Flare
+ * assumes milliseconds when there is none.
+ */
+
+export interface TileAnimationFrame {
+  sourceX: number;
+  sourceY: number;
+  duration: number;   // Milliseconds
+}
+
+// Saved form, keyed by tileset-local tile id
+export type SerializedTileAnimation = [number, TileAnimationFrame[]];
+
+export const DEFAULT_FRAME_DURATION = 100;
+
+export function parseFlareDuration(value: string): number {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s)?\s*$/i.exec(value);
+  if (!match) return DEFAULT_FRAME_DURATION;
+  const amount = parseFloat(match[1]);
+  return Math.max(1, Math.round(match[2]?.toLowerCase() === 's' ? amount * 1000 : amount));
+}
+
+/** Parse the value of an `animation=` line; null when it has no usable frames. */
+export function parseTileAnimation(value: string): { id: number; frames: TileAnimationFrame[] } | null {
+  const [idPart, ...framePart] = value.split(';');
+  const id = parseInt(idPart, 10);
+  if (Number.isNaN(id)) return null;
+
+  const frames: TileAnimationFrame[] = [];
+  for (const frame of framePart) {
+    const [x, y, duration] = frame.split(',').map(p => p.trim());
+    const sourceX = parseInt(x, 10);
+    const sourceY = parseInt(y, 10);
+    if (Number.isNaN(sourceX) || Number.isNaN(sourceY)) continue;
+    frames.push({ sourceX, sourceY, duration: parseFlareDuration(duration ?? '') });
+  }
+  return frames.length > 0 ? { id, frames } : null;
+}
+
+export function formatTileAnimation(id: number, frames: TileAnimationFrame[]): string {
+  const parts = frames.map(f => `${f.sourceX},${f.sourceY},${Math.max(1, Math.round(f.duration))}ms`);
+  return `animation=${id};${parts.join(';')}`;
+}
+
+/** Index of the frame showing at timeMs, looping over the whole animation. */
+export function getTileAnimationFrameIndex(frames: TileAnimationFrame[], timeMs: number): number {
+  const total = frames.reduce((sum, f) => sum + Math.max(1, f.duration), 0);
+  if (frames.length === 0 || total <= 0) return 0;
+  let t = ((timeMs % total) + total) % total;
+  for (let i = 0; i < frames.length; i++) {
+    t -= Math.max(1, frames[i].duration);
+    if (t < 0) return i;
+  }
+  return frames.length - 1;
+}
@@ -0,0 +1,480 @@
+import type { ExportTSXParams, MapObject } from '../types';
+import {
+  buildFlareObject,
+  measureTilesetGrid,
+  type ParsedFlareLayer,
+  type ParsedFlareMap,
+  type ParsedFlareTileset
+} from './flareMapParser';
+import { COLLISION_TYPES } from './collisionTypes';
+
+/**
+ * Tiled (.tmx/.tsx) conversion for isometric Flare maps.
+ *
+ * Import parses with DOMParser (renderer only) into the same ParsedFlareMap
+ * structure the Flare .txt parser produces, so the editor has a single load
+ * path. Export is plain string building and has no DOM dependency.
+ *
+ * As in Flare's own Tiled maps, the collision layer paints from a "collision"
+ * tileset with one tile per collision value, placed after the map's tilesets
+ * so its ids never clash with theirs. Its image is written next to the .tmx.
+ */
+
+export interface TmxExportTileset extends ExportTSXParams {
+  name: string;
+  tsxFileName: string;   // Written next to the .tmx and referenced via <tileset source>
+  firstGid: number;
+  tileCount: number;
+  spacing: number;
+  margin: number;
+}
+
+export interface TmxExportParams {
+  mapWidth: number;
+  mapHeight: number;
+  tileWidth: number;
+  tileHeight: number;
+  header: Record<string, string>;
+  tilesets: TmxExportTileset[];
+  layers: ParsedFlareLayer[];
+  objects: MapObject[];
+}
+
+// Tiled stores horizontal/vertical/diagonal flip flags in the top bits of each gid
+const TILED_GID_MASK = 0x1fffffff;
+const FLARE_OBJECT_KINDS = new Set<string>(['event', 'enemy', 'npc']);
+// Header keys carried by <map> attributes rather than map properties
+const MAP_ATTRIBUTE_KEYS = new Set<string>(['width', 'height', 'tilewidth', 'tileheight', 'orientation']);
+const COLLISION_LAYER = 'collision';
+const COLLISION_TILESET_NAME = 'collision';
+export const COLLISION_TILESET_IMAGE = 'collision.svg';
+
+const dirnameOf = (filePath: string): string => {
+  const normalized = filePath.replace(/\\/g, '/');
+  const index = normalized.lastIndexOf('/');
+  return index >= 0 ? normalized.slice(0, index) : '';
+};
+
+const basename = (filePath: string): string => filePath.replace(/\\/g, '/').split('/').pop() || filePath;
+
+/**
+ * Resolve `relative` against the directory `base`, collapsing "." and ".."
+ * segments. Absolute paths (POSIX or drive-letter) are returned unchanged.
+ */
+export function joinRelativePath(base: string, relative: string): string {
+  const rel = relative.replace(/\\/g, '/');
+  if (!base || /^([a-zA-Z]:)?\//.test(rel)) return rel;
+  const segments: string[] = [];
+  for (const part of `${base.replace(/\\/g, '/')}/${rel}`.split('/')) {
+    const last = segments[segments.length - 1];
+    if (part === '..' && segments.length > 0 && last !== '..' && last !== '') {
+      segments.pop();
+    } else if (part !== '.' && !(part === '' && segments.length > 0)) {
+      segments.push(part);
+    }
+  }
+  return segments.join('/');
+}
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const intAttr = (el: Element, name: string, fallback: number): number => {
+  const parsed = parseInt(el.getAttribute(name) ?? '', 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+
+const floatAttr = (el: Element, name: string): number => {
+  const parsed = parseFloat(el.getAttribute(name) ?? '');
+  return Number.isNaN(parsed) ? 0 : parsed;
+};
+
+const childElements = (el: Element, tagName: string): Element[] =>
+  Array.from(el.children).filter(child => child.tagName === tagName);
+
+const parseXml = (xml: string): Document | null => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+};
+
+const readProperties = (el: Element): Array<[string, string]> => {
+  const result: Array<[string, string]> = [];
+  for (const container of childElements(el, 'properties')) {
+    for (const prop of childElements(container, 'property')) {
+      const name = prop.getAttribute('name');
+      if (!name) continue;
+      result.push([name, prop.getAttribute('value') ?? prop.textContent ?? '']);
+    }
+  }
+  return result;
+};
+
+const readTilesetElement = (el: Element, firstGid: number, basePath: string, warnings: string[]): ParsedFlareTileset | null => {
+  const image = childElements(el, 'image')[0];
+  const source = image?.getAttribute('source');
+  if (!source) {
+    warnings.push(`Tileset "${el.getAttribute('name') || firstGid}" is not a single-image tileset and was skipped`);
+    return null;
+  }
+  const path = joinRelativePath(basePath, source);
+  return {
+    path,
+    fileName: basename(path),
+    tileWidth: intAttr(el, 'tilewidth', 64),
+    tileHeight: intAttr(el, 'tileheight', 32),
+    spacing: intAttr(el, 'spacing', 0),
+    margin: intAttr(el, 'margin', 0),
+    firstGid
+  };
+};
+
+const decodeLayerData = (dataEl: Element, size: number, layerName: string, warnings: string[]): number[] => {
+  const data = new Array(size).fill(0);
+  const encoding = dataEl.getAttribute('encoding');
+  const compression = dataEl.getAttribute('compression');
+  if (compression) {
+    warnings.push(`Layer "${layerName}" uses ${compression} compression, which is not supported; save it with CSV layer format in Tiled`);
+    return data;
+  }
+  if (childElements(dataEl, 'chunk').length > 0) {
+    warnings.push(`Layer "${layerName}" is stored in chunks (infinite map) and was skipped`);
+    return data;
+  }
+
+  let values: number[] = [];
+  if (encoding === 'csv') {
+    values = (dataEl.textContent || '')
+      .split(',')
+      .map(v => v.trim())
+      .filter(v => v !== '')
+      .map(v => Number(v) || 0);
+  } else if (encoding === 'base64') {
+    const binary = atob((dataEl.textContent || '').trim());
+    for (let i = 0; i + 3 < binary.length; i += 4) {
+      values.push((binary.charCodeAt(i) | (binary.charCodeAt(i + 1) << 8) | (binary.charCodeAt(i + 2) << 16) | (binary.charCodeAt(i + 3) << 24)) >>> 0);
+    }
+  } else {
+    values = childElements(dataEl, 'tile').map(tile => Number(tile.getAttribute('gid')) || 0);
+  }
+
+  if (values.length !== size) {
+    warnings.push(`Layer "${layerName}" has ${values.length} cells, expected ${size}; data was padded/truncated`);
+  }
+
+  let flipped = 0;
+  for (let i = 0; i < Math.min(size, values.length); i++) {
+    const gid = values[i] & TILED_GID_MASK;
+    if (gid !== values[i]) flipped++;
+    data[i] = gid;
+  }
+  if (flipped > 0) {
+    warnings.push(`Layer "${layerName}" has ${flipped} flipped/rotated tile(s); Flare does not support tile flipping so they were imported unflipped`);
+  }
+  return data;
+};
+
+/**
+ * Parse a Tiled .tmx map. External tilesets (<tileset source="x.tsx">) are
+ * fetched through `loadExternalTileset`, which receives the source path
+ * relative to the .tmx file. Tileset image paths in the result are relative
+ * to the .tmx file as well.
+ */
+export async function parseTmxMap(
+  tmxXml: string,
+  loadExternalTileset?: (source: string) => Promise<string | null>
+): Promise<ParsedFlareMap> {
+  const warnings: string[] = [];
+  const doc = parseXml(tmxXml);
+  const mapEl = doc?.documentElement;
+  if (!mapEl || mapEl.tagName !== 'map') {
+    throw new Error('Not a valid Tiled .tmx file');
+  }
+
+  const width = Math.max(1, intAttr(mapEl, 'width', 1));
+  const height = Math.max(1, intAttr(mapEl, 'height', 1));
+  const tileWidth = intAttr(mapEl, 'tilewidth', 64);
+  const tileHeight = intAttr(mapEl, 'tileheight', 32);
+  const orientation = mapEl.getAttribute('orientation') || 'orthogonal';
+  if (orientation !== 'isometric') {
+    warnings.push(`Map orientation is "${orientation}"; Flare maps are isometric`);
+  }
+  if (mapEl.getAttribute('infinite') === '1') {
+    warnings.push('Infinite Tiled maps are not supported; convert the map to a fixed size');
+  }
+
+  const header: Record<string, string> = {
+    width: String(width),
+    height: String(height),
+    tilewidth: String(tileWidth),
+    tileheight: String(tileHeight),
+    orientation
+  };
+  for (const [key, value] of readProperties(mapEl)) {
+    if (!MAP_ATTRIBUTE_KEYS.has(key)) header[key] = value;
+  }
+
+  const heroParts = (header.hero_pos || '').split(',').map(p => parseInt(p.trim(), 10));
+  const heroPos = heroParts.length >= 2 && !heroParts.slice(0, 2).some(Number.isNaN)
+    ? { x: heroParts[0], y: heroParts[1] }
+    : null;
+
+  const tilesets: ParsedFlareTileset[] = [];
+  const layers: ParsedFlareLayer[] = [];
+  const objects: MapObject[] = [];
+  let nextObjectId = 1;
+  let skippedObjects = 0;
+  let collisionFirstGid: number | null = null;
+  const isCollisionTileset = (el: Element) => (el.getAttribute('name') || '').trim().toLowerCase() === COLLISION_TILESET_NAME;
+
+  const readObjectGroup = (groupEl: Element) => {
+    const groupName = (groupEl.getAttribute('name') || '').toLowerCase();
+    for (const objEl of childElements(groupEl, 'object')) {
+      const kind = (objEl.getAttribute('type') || objEl.getAttribute('class') || groupName).toLowerCase();
+      if (!FLARE_OBJECT_KINDS.has(kind)) {
+        skippedObjects++;
+        continue;
+      }
+      // Isometric object coordinates are measured in tile-height units along both axes
+      const x = Math.floor(floatAttr(objEl, 'x') / tileHeight);
+      const y = Math.floor(floatAttr(objEl, 'y') / tileHeight);
+      const w = Math.max(1, Math.round(floatAttr(objEl, 'width') / tileHeight));
+      const h = Math.max(1, Math.round(floatAttr(objEl, 'height') / tileHeight));
+      const entries: Array<[string, string]> = [
+        ['location', `${x},${y},${w},${h}`],
+        ...readProperties(objEl).filter(([key]) => key !== 'location')
+      ];
+      objects.push(buildFlareObject(kind as 'event' | 'enemy' | 'npc', entries, objEl.getAttribute('name'), nextObjectId++));
+    }
+  };
+
+  const readChildren = async (parentEl: Element) => {
+    for (const el of Array.from(parentEl.children)) {
+      switch (el.tagName) {
+        case 'tileset': {
+          const firstGid = intAttr(el, 'firstgid', 1);
+          const source = el.getAttribute('source');
+          if (!source) {
+            if (isCollisionTileset(el)) {
+              collisionFirstGid = firstGid;
+              break;
+            }
+            const ts = readTilesetElement(el, firstGid, '', warnings);
+            if (ts) tilesets.push(ts);
+            break;
+          }
+          const tsxXml = loadExternalTileset ? await loadExternalTileset(source) : null;
+          const tsxEl = tsxXml ? parseXml(tsxXml)?.documentElement : null;
+          if (!tsxEl || tsxEl.tagName !== 'tileset') {
+            warnings.push(`External tileset ${source} could not be read`);
+            break;
+          }
+          if (isCollisionTileset(tsxEl)) {
+            collisionFirstGid = firstGid;
+            break;
+          }
+          const ts = readTilesetElement(tsxEl, firstGid, dirnameOf(source), warnings);
+          if (ts) tilesets.push(ts);
+          break;
+        }
+        case 'layer': {
+          const name = el.getAttribute('name') || '';
+          const dataEl = childElements(el, 'data')[0];
+          if (!dataEl) {
+            warnings.push(`Layer "${name}" has no data and was skipped`);
+            break;
+          }
+          // Flare's Tiled convention names tile layers after their layer type
+          layers.push({ type: name.trim().toLowerCase(), data: decodeLayerData(dataEl, width * height, name, warnings) });
+          break;
+        }
+        case 'objectgroup':
+          readObjectGroup(el);
+          break;
+        case 'group':
+          await readChildren(el);
+          break;
+        case 'imagelayer':
+          warnings.push(`Image layer "${el.getAttribute('name') || ''}" is not supported and was skipped`);
+          break;
+        default:
+          break;
+      }
+    }
+  };
+
+  await readChildren(mapEl);
+
+  // Collision tiles stand for the collision value counted from the tileset's first id
+  if (collisionFirstGid !== null) {
+    const firstGid = collisionFirstGid;
+    layers.filter(layer => layer.type === COLLISION_LAYER).forEach(layer => {
+      layer.data = layer.data.map(gid => (gid >= firstGid ? gid - firstGid + 1 : gid));
+    });
+  }
+
+  if (skippedObjects > 0) {
+    warnings.push(`${skippedObjects} object(s) without an event, enemy or npc type were skipped`);
+  }
+  tilesets.sort((a, b) => (a.firstGid ?? 0) - (b.firstGid ?? 0));
+
+  return {
+    header,
+    width,
+    height,
+    tileWidth,
+    tileHeight,
+    heroPos,
+    title: header.title ?? null,
+    tilesets,
+    layers,
+    objects,
+    warnings
+  };
+}
+
+const propertiesXml = (entries: Array<[string, string]>, indent: string): string[] => {
+  if (entries.length === 0) return [];
+  return [
+    `${indent}<properties>`,
+    ...entries.map(([name, value]) => `${indent} <property name="${escapeXml(name)}" value="${escapeXml(value)}"/>`),
+    `${indent}</properties>`
+  ];
+};
+
+// Flatten editor object fields/properties back to Flare keys (repeatable values become repeated properties)
+const objectPropertyEntries = (obj: MapObject): Array<[string, string]> => {
+  const entries: Array<[string, string]> = [];
+  if (obj.type === 'enemy') {
+    if (obj.category) entries.push(['category', obj.category]);
+    if (obj.level) entries.push(['level', String(obj.level)]);
+    if (obj.number) entries.push(['number', String(obj.number)]);
+    if (obj.wander_radius !== undefined) entries.push(['wander_radius', String(obj.wander_radius)]);
+  }
+  for (const [key, value] of Object.entries(obj.properties || {})) {
+    if (key === 'location') continue;
+    const name = obj.type === 'npc' && key === 'npcFilename' ? 'filename' : key;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== '') entries.push([name, String(item)]);
+    }
+  }
+  return entries;
+};
+
+/**
+ * Build a Tiled .tsx document for a single-image tileset.
+ */
+export function generateTsx(params: ExportTSXParams & { name: string; spacing?: number; margin?: number; tileCount?: number }): string {
+  const spacing = params.spacing ?? 0;
+  const margin = params.margin ?? 0;
+  const grid = measureTilesetGrid(params.imageWidth, params.imageHeight, { tileWidth: params.tileWidth, tileHeight: params.tileHeight, spacing, margin });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tileset version="1.10" tiledversion="1.10.2" name="${escapeXml(params.name)}" tilewidth="${params.tileWidth}" tileheight="${params.tileHeight}" spacing="${spacing}" margin="${margin}" tilecount="${params.tileCount ?? grid.count}" columns="${grid.columns}">`,
+    ` <image source="${escapeXml(params.tilesetPngName)}" width="${params.imageWidth}" height="${params.imageHeight}"/>`,
+    '</tileset>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Image of the collision tileset: one diamond per collision value, coloured
+ * as the editor draws them.
+ */
+export function generateCollisionTilesetImage(tileWidth: number, tileHeight: number): string {
+  const halfWidth = tileWidth / 2;
+  const halfHeight = tileHeight / 2;
+  const diamonds = COLLISION_TYPES.map((type, index) => {
+    const cx = index * tileWidth + halfWidth;
+    const points = [[cx, 1], [cx + halfWidth - 1, halfHeight], [cx, tileHeight - 1], [cx - halfWidth + 1, halfHeight]]
+      .map(point => point.join(',')).join(' ');
+    const fill = type.fill ? `rgb(${type.color.join(',')})` : 'none';
+    const opacity = type.dashed ? 0.2 : 0.35;
+    return ` <polygon points="${points}" fill="${fill}" fill-opacity="${opacity}" stroke="rgb(${type.color.join(',')})" stroke-width="2"${type.dashed ? ' stroke-dasharray="6,4"' : ''}/>`;
+  });
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${COLLISION_TYPES.length * tileWidth}" height="${tileHeight}">`,
+    ...diamonds,
+    '</svg>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Build an isometric Tiled .tmx document. Layer data must already use global
+ * tile ids matching the tilesets' firstGid values.
+ */
+export function generateTmxMap(params: TmxExportParams): string {
+  const { mapWidth, mapHeight, tileWidth, tileHeight } = params;
+  const lines: string[] = [];
+  let nextLayerId = 1;
+  let nextObjectId = 1;
+
+  const objectGroups = ['event', 'enemy', 'npc']
+    .map(kind => ({ kind, objects: params.objects.filter(o => o.type === kind) }))
+    .filter(group => group.objects.length > 0);
+  const totalObjects = objectGroups.reduce((acc, g) => acc + g.objects.length, 0);
+  const hasCollision = params.layers.some(layer => layer.type === COLLISION_LAYER);
+  const collisionFirstGid = params.tilesets.reduce((next, ts) => Math.max(next, ts.firstGid + ts.tileCount), 1);
+
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(`<map version="1.10" tiledversion="1.10.2" orientation="isometric" renderorder="right-down" width="${mapWidth}" height="${mapHeight}" tilewidth="${tileWidth}" tileheight="${tileHeight}" infinite="0" nextlayerid="${params.layers.length + objectGroups.length + 1}" nextobjectid="${totalObjects + 1}">`);
+
+  const headerEntries = Object.entries(params.header).filter(([key]) => !MAP_ATTRIBUTE_KEYS.has(key));
+  lines.push(...propertiesXml(headerEntries, ' '));
+
+  for (const ts of params.tilesets) {
+    lines.push(` <tileset firstgid="${ts.firstGid}" source="${escapeXml(ts.tsxFileName)}"/>`);
+  }
+  if (hasCollision) {
+    const count = COLLISION_TYPES.length;
+    lines.push(` <tileset firstgid="${collisionFirstGid}" name="${COLLISION_TILESET_NAME}" tilewidth="${tileWidth}" tileheight="${tileHeight}" tilecount="${count}" columns="${count}">`);
+    lines.push(`  <image source="${COLLISION_TILESET_IMAGE}" width="${count * tileWidth}" height="${tileHeight}"/>`);
+    lines.push(' </tileset>');
+  }
+
+  for (const layer of params.layers) {
+    lines.push(` <layer id="${nextLayerId++}" name="${escapeXml(layer.type)}" width="${mapWidth}" height="${mapHeight}">`);
+    lines.push('  <data encoding="csv">');
+    const data = layer.type === COLLISION_LAYER
+      ? layer.data.map(value => (value > 0 ? collisionFirstGid + value - 1 : 0))
+      : layer.data;
+    const rows: string[] = [];
+    for (let y = 0; y < mapHeight; y++) {
+      rows.push(data.slice(y * mapWidth, (y + 1) * mapWidth).join(','));
+    }
+    lines.push(rows.join(',\n'));
+    lines.push('</data>');
+    lines.push(' </layer>');
+  }
+
+  for (const group of objectGroups) {
+    lines.push(` <objectgroup id="${nextLayerId++}" name="${group.kind}">`);
+    for (const obj of group.objects) {
+      const attrs = [
+        `id="${nextObjectId++}"`,
+        obj.name ? `name="${escapeXml(obj.name)}"` : '',
+        `type="${group.kind}"`,
+        `x="${obj.x * tileHeight}"`,
+        `y="${obj.y * tileHeight}"`,
+        `width="${Math.max(1, obj.width) * tileHeight}"`,
+        `height="${Math.max(1, obj.height) * tileHeight}"`
+      ].filter(Boolean).join(' ');
+      const props = propertiesXml(objectPropertyEntries(obj), '   ');
+      if (props.length === 0) {
+        lines.push(`  <object ${attrs}/>`);
+      } else {
+        lines.push(`  <object ${attrs}>`);
+        lines.push(...props);
+        lines.push('  </object>');
+      }
+    }
+    lines.push(' </objectgroup>');
+  }
+
+  lines.push('</map>');
+  lines.push('');
+  return lines.join('\n');
+}
@@ -0,0 +1,188 @@
+import type { DialogueTree, MapObject } from '../types';
+import { sanitizeMapFileBase } from './mapSpawnUtils';
+
+/**
+ * How the maps of a project connect. Every map is a node; links come from
+ * event teleports (`intermap`, and each map of the map-list file an
+ * `intermap_random` picks from) and from teleports in NPC dialogues.
+ *
+ * Maps are identified by their exported file, e.g. "maps/Town.txt". A link is
+ * broken when its target map does not exist or it arrives outside the target
+ * map, and one-way when nothing leads back from the target to the source.
+ * A random teleport whose map list could not be read is unresolved: it leads
+ * to its list file, is never broken and does not make maps reachable.
+ * Maps that cannot be reached from the starting map over working links are
+ * flagged unreachable (no map is when the project has no starting map).
+ */
+
+export type WorldLinkKind = 'intermap' | 'intermap_random' | 'dialogue';
+
+export interface WorldMapInput {
+  name: string;
+  width: number;
+  height: number;
+  objects: MapObject[];
+  thumbnail?: string | null;
+}
+
+export interface WorldNode {
+  name: string;
+  file: string;
+  width: number;
+  height: number;
+  thumbnail: string | null;
+  isStart: boolean;
+  reachable: boolean;
+}
+
+export interface WorldLink {
+  kind: WorldLinkKind;
+  from: string;        // Source map file
+  to: string;          // Target map file
+  x: number | null;    // Arrival cell, when the teleport sets one
+  y: number | null;
+  objectId: number;
+  objectName: string;
+  broken: boolean;
+  oneWay: boolean;
+  unresolved: boolean; // intermap_random whose map list is unknown; `to` is the list file
+}
+
+export interface WorldGraph {
+  nodes: WorldNode[];
+  links: WorldLink[];
+}
+
+export const mapFileOf = (mapName: string): string => `maps/${sanitizeMapFileBase(mapName)}.txt`;
+
+const fileKey = (file: string) => file.toLowerCase();
+
+/** Mod-relative path of the map-list file an intermap_random value names. */
+export const mapListFileOf = (value: string): string =>
+  value.split(',')[0].trim().replace(/\\/g, '/').replace(/^\/+/, '');
+
+/** Maps a map-list file picks from: the values of its `map` keys. */
+export function parseMapListFile(content: string): string[] {
+  return content.split(/\r?\n/).flatMap(line => {
+    const match = /^\s*map\s*=\s*(.+)$/.exec(line);
+    return match && match[1].trim() ? [match[1].trim()] : [];
+  });
+}
+
+/** Map file and optional arrival cell of a teleport value such as "maps/Town.txt,4,7" or "Town". */
+export function parseTeleportTarget(value: string): { file: string; x: number | null; y: number | null } | null {
+  const [target, x, y] = value.split(',').map(part => part.trim());
+  if (!target) return null;
+  const base = target.replace(/\\/g, '/').replace(/^\/?(maps\/)?/i, '').replace(/\.txt$/i, '');
+  if (!base) return null;
+  const px = parseInt(x, 10);
+  const py = parseInt(y, 10);
+  const hasArrival = !Number.isNaN(px) && !Number.isNaN(py);
+  return { file: `maps/${base}.txt`, x: hasArrival ? px : null, y: hasArrival ? py : null };
+}
+
+const stringProperty = (obj: MapObject, key: string): string => {
+  const value = obj.properties?.[key] ?? (obj as unknown as Record<string, unknown>)[key];
+  return typeof value === 'string' ? value.trim() : '';
+};
+
+const parseDialogueTrees = (value: unknown): DialogueTree[] => {
+  if (typeof value !== 'string' || !value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+type RawLink = Pick<WorldLink, 'kind' | 'to' | 'x' | 'y' | 'objectId' | 'objectName'>;
+
+/** Teleports leaving a map, in object order. An intermap_random leads to its map-list file. */
+export function getMapLinks(objects: MapObject[]): RawLink[] {
+  const links: RawLink[] = [];
+  const add = (kind: WorldLinkKind, obj: MapObject, value: string) => {
+    const target = parseTeleportTarget(value);
+    if (target) links.push({ kind, to: target.file, x: target.x, y: target.y, objectId: obj.id, objectName: obj.name || `${obj.type} #${obj.id}` });
+  };
+
+  for (const obj of objects) {
+    const intermap = stringProperty(obj, 'intermap');
+    if (intermap) add('intermap', obj, intermap);
+    const mapList = mapListFileOf(stringProperty(obj, 'intermap_random'));
+    if (mapList) links.push({ kind: 'intermap_random', to: mapList, x: null, y: null, objectId: obj.id, objectName: obj.name || `${obj.type} #${obj.id}` });
+    for (const tree of parseDialogueTrees(obj.properties?.dialogueTrees)) {
+      for (const effect of tree.worldEffects || []) {
+        if (effect.type === 'teleport' && effect.value) add('dialogue', obj, effect.value);
+      }
+    }
+  }
+  return links;
+}
+
+/**
+ * The graph of the given maps. mapLists holds the maps of each map-list file
+ * that could be read, keyed by the file as intermap_random names it.
+ */
+export function buildWorldGraph(maps: WorldMapInput[], startFile: string | null, mapLists: Record<string, string[]> = {}): WorldGraph {
+  const byFile = new Map<string, WorldMapInput>();
+  maps.forEach(map => byFile.set(fileKey(mapFileOf(map.name)), map));
+  const listsByFile = new Map(Object.entries(mapLists).map(([file, entries]) => [fileKey(mapListFileOf(file)), entries]));
+
+  const links: WorldLink[] = [];
+  for (const map of maps) {
+    const from = mapFileOf(map.name);
+    for (const raw of getMapLinks(map.objects)) {
+      let resolved: RawLink[] = [raw];
+      if (raw.kind === 'intermap_random') {
+        const entries = listsByFile.get(fileKey(raw.to));
+        if (!entries) {
+          links.push({ ...raw, from, broken: false, oneWay: false, unresolved: true });
+          continue;
+        }
+        resolved = entries.flatMap(entry => {
+          const target = parseTeleportTarget(entry);
+          return target ? [{ ...raw, to: target.file, x: target.x, y: target.y }] : [];
+        });
+      }
+      for (const link of resolved) {
+        const target = byFile.get(fileKey(link.to));
+        const outside = target !== undefined && link.x !== null && link.y !== null
+          && (link.x < 0 || link.y < 0 || link.x >= target.width || link.y >= target.height);
+        links.push({ ...link, from, to: target ? mapFileOf(target.name) : link.to, broken: !target || outside, oneWay: false, unresolved: false });
+      }
+    }
+  }
+
+  const connected = new Set(links.filter(link => !link.unresolved).map(link => `${fileKey(link.from)}>${fileKey(link.to)}`));
+  links.forEach(link => {
+    link.oneWay = !link.broken && !link.unresolved && link.from !== link.to && !connected.has(`${fileKey(link.to)}>${fileKey(link.from)}`);
+  });
+
+  const start = startFile ? parseTeleportTarget(startFile)?.file ?? null : null;
+  const startKey = start && byFile.has(fileKey(start)) ? fileKey(start) : null;
+  const reached = new Set<string>(startKey ? [startKey] : []);
+  const queue = startKey ? [startKey] : [];
+  for (let head = 0; head < queue.length; head++) {
+    for (const link of links) {
+      const to = fileKey(link.to);
+      if (link.broken || link.unresolved || fileKey(link.from) !== queue[head] || reached.has(to)) continue;
+      reached.add(to);
+      queue.push(to);
+    }
+  }
+
+  const nodes = maps.map(map => {
+    const file = mapFileOf(map.name);
+    return {
+      name: map.name,
+      file,
+      width: map.width,
+      height: map.height,
+      thumbnail: map.thumbnail ?? null,
+      isStart: fileKey(file) === startKey,
+      reachable: !startKey || reached.has(fileKey(file))
+    };
+  });
+  return { nodes, links };
+}
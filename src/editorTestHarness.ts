@@ -0,0 +1,126 @@
+import { TileMapEditor } from './editor/TileMapEditor';
+
+/**
+ * Just enough of a browser for TileMapEditor to run under vitest's node
+ * environment: canvases draw into a context that accepts every call, and
+ * images load only from fakeImageDataUrl() sources, at the size it encodes.
+ */
+
+const fakeContext = (): CanvasRenderingContext2D => {
+  const handler: ProxyHandler<Record<string | symbol, unknown>> = {
+    get(target, key) {
+      if (key in target) return target[key];
+      if (key === 'canvas') return undefined;
+      if (key === 'measureText') return () => ({ width: 0 });
+      if (key === 'getImageData' || key === 'createImageData') {
+        return (_x: number, _y: number, w = 1, h = 1) => ({ width: w, height: h, data: new Uint8ClampedArray(Math.max(1, w * h * 4)) });
+      }
+      return () => new Proxy({}, handler);
+    },
+    set(target, key, value) {
+      target[key] = value;
+      return true;
+    }
+  };
+  return new Proxy({}, handler) as unknown as CanvasRenderingContext2D;
+};
+
+// Plain elements keep what is assigned to them and ignore every method call
+const fakeElement = (): HTMLElement => {
+  const target: Record<string | symbol, unknown> = { dataset: {}, children: [], childNodes: [] };
+  target.style = { setProperty: () => {}, removeProperty: () => {} };
+  target.classList = { add: () => {}, remove: () => {}, toggle: () => false, contains: () => false };
+  return new Proxy(target, {
+    get: (obj, key) => (key in obj || key === 'then' ? obj[key] : () => undefined),
+    set: (obj, key, value) => {
+      obj[key] = value;
+      return true;
+    }
+  }) as unknown as HTMLElement;
+};
+
+const fakeCanvas = (): HTMLCanvasElement => Object.assign(fakeElement(), {
+  width: 800,
+  height: 600,
+  tabIndex: 0,
+  parentElement: null,
+  getContext: () => fakeContext(),
+  getBoundingClientRect: () => ({ left: 0, top: 0, width: 800, height: 600, right: 800, bottom: 600 }),
+  toDataURL: () => 'data:image/png;base64,'
+}) as unknown as HTMLCanvasElement;
+
+class FakeImage {
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  width = 0;
+  height = 0;
+  naturalWidth = 0;
+  naturalHeight = 0;
+  complete = false;
+  private source = '';
+
+  get src(): string {
+    return this.source;
+  }
+
+  set src(value: string) {
+    this.source = value;
+    const size = /#(\d+)x(\d+)$/.exec(value);
+    setTimeout(() => {
+      if (!size) {
+        this.onerror?.();
+        return;
+      }
+      this.width = this.naturalWidth = Number(size[1]);
+      this.height = this.naturalHeight = Number(size[2]);
+      this.complete = true;
+      this.onload?.();
+    }, 0);
+  }
+}
+
+/** An image source the fake Image loads with the given size. */
+export const fakeImageDataUrl = (width: number, height: number): string => `data:image/png;base64,#${width}x${height}`;
+
+/** Let pending fake image loads finish. */
+export const flushImages = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 5));
+
+function installFakeDom(): void {
+  const globals = globalThis as unknown as Record<string, unknown>;
+  if (globals.window) return;
+  const store = new Map<string, string>();
+  globals.window = globalThis;
+  globals.addEventListener = () => {};
+  globals.removeEventListener = () => {};
+  globals.requestAnimationFrame = () => 0;
+  globals.cancelAnimationFrame = () => {};
+  globals.Image = FakeImage;
+  globals.MutationObserver = class { observe() {} disconnect() {} };
+  globals.localStorage = {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); },
+    clear: () => store.clear()
+  };
+  globals.document = {
+    createElement: (tag: string) => (tag === 'canvas' ? fakeCanvas() : fakeElement()),
+    getElementById: () => null,
+    querySelector: () => null,
+    querySelectorAll: () => [],
+    addEventListener: () => {},
+    removeEventListener: () => {},
+    body: fakeElement()
+  };
+}
+
+/** A fresh editor on a fake canvas, with the default layers of a new map. */
+export function createTestEditor(): TileMapEditor {
+  installFakeDom();
+  localStorage.clear();
+  return new TileMapEditor(fakeCanvas());
+}
+
+/** A left (or right) click on a map cell with the current tool, as the mouse handlers make it. */
+export function clickCell(editor: TileMapEditor, x: number, y: number, rightClick: boolean = false): void {
+  (editor as unknown as { handleTileClick(x: number, y: number, rightClick: boolean): void }).handleTileClick(x, y, rightClick);
+}
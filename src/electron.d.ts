@@ -46,7 +46,12 @@ declare global {
       closeAfterSave: () => void;
       selectDirectory: () => Promise<string | null>;
       selectTilesetFile: () => Promise<string | null>;
+      selectTiledMapFile: () => Promise<string | null>;
       createMapProject: (config: MapConfig) => Promise<{ success: boolean; projectPath?: string; error?: string }>;
+      importFlareMod: (modPath: string, config: { name: string; location: string }) => Promise<{ success: boolean; projectPath?: string; files?: Array<{ path: string; content: string }>; error?: string }>;
+      listModFiles: (projectPath: string) => Promise<Array<{ path: string; size: number; content?: string }>>;
+      writeModPackage: (projectPath: string, pkg: { outputDir: string; modName: string; files: string[]; settingsTxt: string; manifest: string; updateProjectSettings?: boolean }) => Promise<{ success: boolean; zipPath?: string; manifestPath?: string; error?: string }>;
+      saveMapImage: (defaultPath: string, dataUrl: string) => Promise<string | null>;
       openMapProject: (projectPath: string, mapName?: string) => Promise<EditorProjectData | null>;
       saveMapProject: (projectPath: string, mapData: ProjectMapData) => Promise<boolean>;
       // Phase 2: Tileset profile persistence
@@ -61,7 +66,7 @@ declare global {
       updateSpawnFile: (projectPath: string, content: string) => Promise<boolean>;
       readSpawnFile: (projectPath: string) => Promise<string | null>;
       resolvePathRelative: (fromPath: string, toPath: string) => Promise<string>;
-      getProjectThumbnail: (projectPath: string) => Promise<string | null>;
+      getProjectThumbnail: (projectPath: string, mapName?: string) => Promise<string | null>;
       checkProjectExists: (projectPath: string) => Promise<boolean>;
       // Session management (per-project)
       readSession: (projectPath: string) => Promise<SessionData | null>;
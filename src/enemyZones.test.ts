@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import type { MapObject } from './types';
+import { findOverlappingZones, getEnemyZones, threatensCell } from './editor/enemyZones';
+
+const enemy = (patch: Partial<MapObject>): MapObject => ({
+  id: 1,
+  name: 'enemy',
+  type: 'enemy',
+  x: 0,
+  y: 0,
+  width: 1,
+  height: 1,
+  properties: {},
+  ...patch
+});
+
+describe('Enemy zones', () => {
+  it('should read spawn area, count, wander radius and threat range', () => {
+    const [zone] = getEnemyZones([
+      enemy({ category: 'goblin', x: 2, y: 3, width: 2, height: 1, wander_radius: 4, properties: { number: '2,5', threat_range: '6,12' } })
+    ]);
+    expect(zone).toMatchObject({
+      label: 'goblin',
+      count: 5,
+      spawn: { left: 1.5, top: 2.5, right: 3.5, bottom: 3.5 },
+      wanderRadius: 4,
+      threatRange: 6
+    });
+
+    const [older] = getEnemyZones([enemy({ properties: { thread_range: '3' } }), enemy({ id: 2, type: 'npc', category: 'npc' })]);
+    expect(older.threatRange).toBe(3);
+    expect(getEnemyZones([enemy({ x: -1 })])).toEqual([]);
+  });
+
+  it('should find overlapping threat areas and spawns threatening the hero', () => {
+    const zones = getEnemyZones([
+      enemy({ id: 1, x: 0, y: 0, wander_radius: 1, properties: { threat_range: '2' } }),
+      enemy({ id: 2, x: 6, y: 0, wander_radius: 1, properties: { threat_range: '2' } }),
+      enemy({ id: 3, x: 20, y: 20 })
+    ]);
+    // Spawn cells are 5 apart, each reaches 3 cells
+    expect(findOverlappingZones(zones)).toEqual([[1, 2]]);
+
+    expect(threatensCell(zones[0], 3, 0)).toBe(true);
+    expect(threatensCell(zones[0], 5, 0)).toBe(false);
+    expect(threatensCell(zones[2], 20, 20)).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { getAreaHandles, parseAreaRect, resizeArea, type AreaRect } from './editor/eventAreaHandles';
+import type { EventAreaTarget } from './editor/TileMapEditor';
+import { createTestEditor } from './editorTestHarness';
+
+describe('Event area handles', () => {
+  it('should place handles on the corners and edge midpoints of the covered cells', () => {
+    const handles = getAreaHandles({ x: 2, y: 3, width: 2, height: 4 });
+    expect(handles).toHaveLength(8);
+    expect(handles[0]).toEqual({ edges: { left: true, top: true }, x: 1.5, y: 2.5 });
+    expect(handles[2]).toEqual({ edges: { right: true, bottom: true }, x: 3.5, y: 6.5 });
+    expect(handles[5]).toEqual({ edges: { right: true }, x: 3.5, y: 4.5 });
+    expect(parseAreaRect('4, 5')).toEqual({ x: 4, y: 5, width: 1, height: 1 });
+    expect(parseAreaRect('x,1,2,2')).toBeNull();
+  });
+
+  it('should snap dragged edges to the cell under the cursor and keep at least one cell', () => {
+    const rect = { x: 2, y: 2, width: 3, height: 3 };
+    expect(resizeArea(rect, { right: true, bottom: true }, 6, 7, 10, 10)).toEqual({ x: 2, y: 2, width: 5, height: 6 });
+    expect(resizeArea(rect, { left: true }, 0, 9, 10, 10)).toEqual({ x: 0, y: 2, width: 5, height: 3 });
+    // Dragging past the opposite edge collapses to a single cell instead of flipping
+    expect(resizeArea(rect, { top: true }, 2, 8, 10, 10)).toEqual({ x: 2, y: 4, width: 3, height: 1 });
+    // Clamped to the map
+    expect(resizeArea(rect, { right: true }, 40, 2, 10, 10)).toEqual({ x: 2, y: 2, width: 8, height: 3 });
+  });
+
+  it('should resize a placed event by its handle and undo the resize', () => {
+    const editor = createTestEditor();
+    const internals = editor as unknown as {
+      eventAreaDrag: unknown;
+      mapToScreen(x: number, y: number): { x: number; y: number };
+      getEventAreaHandleAt(x: number, y: number): unknown;
+      dragEventAreaHandle(x: number, y: number): void;
+      finishEventAreaDrag(): void;
+    };
+    try {
+      const event = editor.addMapObject('event', 2, 2, 2, 2);
+      const resized: Array<[EventAreaTarget, AreaRect]> = [];
+      editor.setActiveEventPreview({ x: 2, y: 2, width: 2, height: 2 });
+      editor.setEventAreaResize(event.id, (target, rect) => resized.push([target, rect]));
+      const area = () => {
+        const obj = editor.getMapObjects().find(o => o.id === event.id)!;
+        return { x: obj.x, y: obj.y, width: obj.width, height: obj.height };
+      };
+
+      // Press on the bottom right corner handle, as the mouse down handler does
+      const corner = internals.mapToScreen(3.5, 3.5);
+      internals.eventAreaDrag = internals.getEventAreaHandleAt(corner.x, corner.y);
+      expect(internals.eventAreaDrag).not.toBeNull();
+      internals.dragEventAreaHandle(5, 4);
+      internals.dragEventAreaHandle(5, 4);
+      internals.finishEventAreaDrag();
+
+      expect(resized).toEqual([['area', { x: 2, y: 2, width: 4, height: 3 }]]);
+      expect(area()).toEqual({ x: 2, y: 2, width: 4, height: 3 });
+
+      editor.undo();
+      expect(area()).toEqual({ x: 2, y: 2, width: 2, height: 2 });
+    } finally {
+      editor.dispose();
+    }
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILT_IN_EVENT_PREFABS,
+  createSavedPrefab,
+  getPrefabDefaults,
+  parseSavedPrefabs,
+  savedPrefabToEventPrefab,
+  serializeSavedPrefabs
+} from './editor/eventPrefabs';
+
+const prefab = (id: string) => BUILT_IN_EVENT_PREFABS.find(p => p.id === id)!;
+
+describe('Event prefabs', () => {
+  it('should build a locked door and a teleporter pair from their parameters', () => {
+    const door = prefab('locked_door');
+    const doorEvents = door.build({ x: 3, y: 4 }, { ...getPrefabDefaults(door, { x: 3, y: 4 }), key: '1001', consumeKey: 'true' });
+    expect(doorEvents).toHaveLength(2);
+    expect(doorEvents[0].properties).toMatchObject({
+      activate: 'on_trigger',
+      location: '3,4,1,1',
+      requires_item: '1001:1',
+      remove_item: '1001:1',
+      requires_not_status: 'door_3_4_open',
+      set_status: 'door_3_4_open',
+      mapmod: 'object,3,4,0;collision,3,4,0'
+    });
+    expect(doorEvents[1].properties).toMatchObject({ activate: 'on_load', requires_status: 'door_3_4_open' });
+
+    const teleporter = prefab('teleporter_pair');
+    const defaults = getPrefabDefaults(teleporter, { x: 2, y: 2 });
+    expect(defaults.exit).toBe('6,2');
+    const pads = teleporter.build({ x: 2, y: 2 }, defaults);
+    expect(pads.map(pad => [pad.x, pad.y, pad.properties.intramap])).toEqual([[2, 2, '6,2'], [6, 2, '2,2']]);
+  });
+
+  it('should store project prefabs relative to their first event and place them anywhere', () => {
+    const saved = createSavedPrefab('Gate', '', [
+      { name: 'Lever', x: 10, y: 5, width: 1, height: 1, activate: 'on_interact', properties: { hotspot: '10,5,1,1', mapmod: 'object,12,5,0;collision,12,5,0' } },
+      { name: 'Trap', x: 12, y: 6, width: 2, height: 1, activate: 'on_trigger', properties: { location: '12,6,2,1', power: '5', power_path: '10,5,hero' } }
+    ]);
+    expect(saved.events[1]).toMatchObject({ x: 2, y: 1, properties: { location: '2,1,2,1', power_path: '0,0,hero' } });
+
+    const [restored] = parseSavedPrefabs(serializeSavedPrefabs([saved]));
+    const placed = savedPrefabToEventPrefab(restored).build({ x: 1, y: 1 }, {});
+    expect(placed[0].properties).toEqual({ hotspot: '1,1,1,1', mapmod: 'object,3,1,0;collision,3,1,0' });
+    expect(placed[1]).toMatchObject({ x: 3, y: 2, properties: { location: '3,2,2,1', power_path: '1,1,hero' } });
+
+    expect(parseSavedPrefabs('not json')).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { parseFlareMapTxt, parseTilesetDefImages } from './editor/flareMapParser';
+import { createTestEditor, fakeImageDataUrl, flushImages } from './editorTestHarness';
+
+// flare-game style: no [tilesets] section, tile ids come from the header's tilesetdef
+const HEADER_ONLY_MAP = [
+  '[header]',
+  'width=3',
+  'height=2',
+  'tilewidth=64',
+  'tileheight=32',
+  'orientation=isometric',
+  'tileset=tilesetdefs/tileset_grassland.txt',
+  '',
+  '[layer]',
+  'type=background',
+  'data=',
+  '16,17,0',
+  '0,16,16',
+  '',
+  '[layer]',
+  'type=object',
+  'data=',
+  '0,0,32',
+  '0,0,0',
+  ''
+].join('\n');
+
+const TILESET_DEF = [
+  'img=images/tilesets/tileset_grassland.png',
+  'tile=16,0,0,64,32,32,16',
+  'tile=17,64,0,64,32,32,16',
+  '',
+  'img=images/tilesets/grassland_structures.png',
+  'tile=32,0,0,64,128,32,112',
+  ''
+].join('\n');
+
+const MIXED_LAYER_MAP = [
+  '[header]',
+  'width=3',
+  'height=2',
+  'tilewidth=64',
+  'tileheight=32',
+  '',
+  '[tilesets]',
+  'tileset=images/tilesets/grass.png,64,32,0,0',
+  'tileset=images/tilesets/dirt.png,64,32,0,0',
+  '',
+  '[layer]',
+  'type=background',
+  'data=',
+  '1,2,5',
+  '6,0,3',
+  ''
+].join('\n');
+
+describe('Flare map import', () => {
+  it('should resolve tiles of a map without [tilesets] through its tilesetdef', async () => {
+    const editor = createTestEditor();
+    const parsed = await editor.loadFlareMapTxt(HEADER_ONLY_MAP, async () => fakeImageDataUrl(128, 128), async () => TILESET_DEF);
+    await flushImages();
+    expect(parsed.warnings.filter(w => w.includes('reference no tileset'))).toEqual([]);
+
+    // Ids are renumbered on export, so compare the tiles they resolve to through the written tilesetdef
+    const exported = parseFlareMapTxt(editor.generateFlareMapTxt());
+    const def = parseTilesetDefImages(editor.generateFlareTilesetDef());
+    const tileAt = (gid: number) => {
+      const image = def.find(d => d.tiles.has(gid));
+      return image ? `${image.img.split('/').pop()}@${image.tiles.get(gid)?.sourceX}` : null;
+    };
+    const grass = (x: number) => `tileset_grassland.png@${x}`;
+    expect(exported.layers.find(l => l.type === 'background')?.data.map(tileAt)).toEqual([grass(0), grass(64), null, null, grass(0), grass(0)]);
+    expect(exported.layers.find(l => l.type === 'object')?.data.map(tileAt)).toEqual([null, null, 'grassland_structures.png@0', null, null, null]);
+
+    const tabs = editor.getProjectData().layerTabs?.object ?? [];
+    expect(tabs[0].tileset?.detectedTiles).toEqual([[15, { sourceX: 0, sourceY: 0, width: 64, height: 128, originX: 32, originY: 112 }]]);
+  });
+
+  it('should keep every cell of a layer that mixes tilesets through tab switches and reloads', async () => {
+    const editor = createTestEditor();
+    // 128x64 images hold four 64x32 tiles, so dirt.png starts at id 5
+    const parsed = await editor.loadFlareMapTxt(MIXED_LAYER_MAP, async () => fakeImageDataUrl(128, 64));
+    await flushImages();
+    expect(parsed.warnings).toEqual([]);
+
+    // Exported ids depend on tileset order, so compare cells as tileset:local id (four tiles per image).
+    // Reloaded tabs keep their saved "<type>_tabN_" file keys.
+    const backgroundTiles = (txt: string) => {
+      const map = parseFlareMapTxt(txt);
+      const tilesetName = (gid: number) => map.tilesets[Math.floor((gid - 1) / 4)].fileName.replace(/^[a-z]+_tab\d+_/, '');
+      return map.layers.find(l => l.type === 'background')?.data
+        .map(gid => (gid > 0 ? `${tilesetName(gid)}:${((gid - 1) % 4) + 1}` : null));
+    };
+    const expected = ['grass.png:1', 'grass.png:2', 'dirt.png:1', 'dirt.png:2', null, 'grass.png:3'];
+    expect(backgroundTiles(editor.generateFlareMapTxt())).toEqual(expected);
+
+    const tabs = editor.getLayerTabs('background');
+    editor.setActiveLayerTab('background', tabs[1].id);
+    expect(backgroundTiles(editor.generateFlareMapTxt())).toEqual(expected);
+
+    const reloaded = createTestEditor();
+    reloaded.loadProjectData(editor.getProjectData());
+    await flushImages();
+    expect(backgroundTiles(reloaded.generateFlareMapTxt())).toEqual(expected);
+  });
+
+  it('should write repeated event keys back as one line each', async () => {
+    const editor = createTestEditor();
+    try {
+      await editor.loadFlareMapTxt(
+        '[header]\nwidth=2\nheight=2\n\n[event]\ntype=event\nlocation=0,0,1,1\nactivate=on_trigger\nset_status=a\nset_status=b\nspawn=rats,1,1\nspawn=bats,1,0\n',
+        async () => fakeImageDataUrl(128, 64)
+      );
+      const [event] = parseFlareMapTxt(editor.generateFlareMapTxt()).objects;
+      expect(event.properties.set_status).toEqual(['a', 'b']);
+      expect(event.properties.spawn).toEqual(['rats,1,1', 'bats,1,0']);
+    } finally {
+      editor.dispose();
+    }
+  });
+});
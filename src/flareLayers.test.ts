@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import type { TileLayer } from './types';
+import {
+  getRenderLayerInsertIndex,
+  getRenderLayerSwapIndex,
+  canDeleteRenderLayer,
+  getFlareExportLayers,
+  getNewRenderLayerName
+} from './editor/flareLayers';
+
+const layer = (id: number, type: TileLayer['type'], visible = true): TileLayer => ({
+  id,
+  name: `${type} ${id}`,
+  type,
+  data: [],
+  visible
+});
+
+// Top-first, like the editor's default layer list
+const DEFAULT_LAYERS: TileLayer[] = [
+  layer(5, 'event'),
+  layer(6, 'collision'),
+  layer(7, 'object'),
+  layer(8, 'background')
+];
+
+describe('Flare render layers', () => {
+  it('should insert new layers above their type or the type beneath them', () => {
+    expect(getRenderLayerInsertIndex(DEFAULT_LAYERS, 'fringe')).toBe(3);
+    expect(getRenderLayerInsertIndex(DEFAULT_LAYERS, 'foreground')).toBe(2);
+    expect(getRenderLayerInsertIndex(DEFAULT_LAYERS, 'background')).toBe(3);
+    expect(getRenderLayerInsertIndex([layer(6, 'collision'), layer(7, 'object')], 'background')).toBe(2);
+  });
+
+  it('should move render layers past non-render layers only', () => {
+    const layers = [layer(6, 'collision'), layer(11, 'foreground'), layer(7, 'object')];
+    expect(getRenderLayerSwapIndex(layers, 11, 'down')).toBe(2);
+    expect(getRenderLayerSwapIndex(layers, 11, 'up')).toBe(-1);
+    expect(getRenderLayerSwapIndex(layers, 6, 'down')).toBe(-1);
+  });
+
+  it('should keep primary background and object layers', () => {
+    const layers = [...DEFAULT_LAYERS, layer(11, 'background'), layer(12, 'fringe')];
+    expect(canDeleteRenderLayer(layers, 8)).toBe(false);
+    expect(canDeleteRenderLayer(layers, 11)).toBe(true);
+    expect(canDeleteRenderLayer(layers, 12)).toBe(true);
+    expect(canDeleteRenderLayer([...layers, layer(13, 'fringe')], 12)).toBe(false);
+    expect(canDeleteRenderLayer(layers, 6)).toBe(false);
+  });
+
+  it('should export visible render layers bottom first followed by collision', () => {
+    const layers = [layer(6, 'collision'), layer(12, 'foreground'), layer(7, 'object'), layer(11, 'fringe', false), layer(8, 'background')];
+    expect(getFlareExportLayers(layers).map(l => l.id)).toEqual([8, 7, 12, 6]);
+  });
+
+  it('should number additional layers of a type', () => {
+    expect(getNewRenderLayerName(DEFAULT_LAYERS, 'fringe')).toBe('Fringe Layer');
+    expect(getNewRenderLayerName(DEFAULT_LAYERS, 'background')).toBe('Background Layer 2');
+  });
+});
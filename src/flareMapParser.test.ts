@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { parseFlareMapTxt, measureTilesetGrid } from './editor/flareMapParser';
+
+const SAMPLE_MAP = [
+  '[header]',
+  'width=3',
+  'height=2',
+  'tilewidth=64',
+  'tileheight=32',
+  'orientation=isometric',
+  'hero_pos=1,1',
+  'title=Test Map',
+  '',
+  '[tilesets]',
+  'tileset=images/tilesets/grass.png,64,32,0,0',
+  '',
+  '[layer]',
+  'type=background',
+  'data=',
+  '1,2,0',
+  '0,3,4',
+  '',
+  '#Gate - Leads to town',
+  '[event]',
+  'activate=on_trigger',
+  'location=2,0,1,2',
+  'intermap=maps/town.txt,4,5',
+  'requires_status=a',
+  'requires_status=b',
+  '',
+  '[enemy]',
+  'type=enemy',
+  'location=1,0,2,2',
+  'category=goblin',
+  'level=3',
+  'number=1,3',
+  '',
+  '[npc]',
+  'type=npc',
+  'location=0,1,1,1',
+  'filename=npcs/guard.txt',
+  ''
+].join('\n');
+
+describe('Flare map parser', () => {
+  it('should parse header, tilesets and layer data', () => {
+    const map = parseFlareMapTxt(SAMPLE_MAP);
+    expect(map.width).toBe(3);
+    expect(map.height).toBe(2);
+    expect(map.heroPos).toEqual({ x: 1, y: 1 });
+    expect(map.title).toBe('Test Map');
+    expect(map.tilesets).toEqual([
+      { path: 'images/tilesets/grass.png', fileName: 'grass.png', tileWidth: 64, tileHeight: 32, spacing: 0, margin: 0 }
+    ]);
+    expect(map.layers).toEqual([{ type: 'background', data: [1, 2, 0, 0, 3, 4] }]);
+    expect(map.warnings).toHaveLength(0);
+  });
+
+  it('should convert event, enemy and npc sections into map objects', () => {
+    const map = parseFlareMapTxt(SAMPLE_MAP);
+    const [event, enemy, npc] = map.objects;
+
+    expect(event).toMatchObject({ type: 'event', name: 'Gate', x: 2, y: 0, width: 1, height: 2, activate: 'on_trigger' });
+    expect(event.properties._description).toBe('Leads to town');
+    expect(event.properties.requires_status).toEqual(['a', 'b']);
+
+    expect(enemy).toMatchObject({ type: 'enemy', category: 'goblin', level: 3, x: 1, y: 0, width: 2, height: 2 });
+    expect(enemy.number).toBeUndefined();
+    expect(enemy.properties.number).toBe('1,3');
+
+    expect(npc).toMatchObject({ type: 'npc', name: 'guard', x: 0, y: 1 });
+    expect(npc.properties.npcFilename).toBe('npcs/guard.txt');
+  });
+
+  it('should report malformed content as warnings', () => {
+    const map = parseFlareMapTxt('[header]\nwidth=2\nheight=2\n[layer]\ntype=background\ndata=\n1,2\n[bogus]\nfoo=bar\n');
+    expect(map.layers[0].data).toEqual([1, 2, 0, 0]);
+    expect(map.warnings.some(w => w.includes('expected 4'))).toBe(true);
+    expect(map.warnings.some(w => w.includes('[bogus]'))).toBe(true);
+  });
+
+  it('should keep every set_status line and warn about other repeated keys', () => {
+    const map = parseFlareMapTxt([
+      '[header]', 'width=2', 'height=2', '',
+      '[event]', 'location=1,1,1,1', 'set_status=a', 'set_status=b', 'unset_status=c', 'unset_status=d', 'cutscene=one.txt', 'cutscene=two.txt', ''
+    ].join('\n'));
+    const [event] = map.objects;
+    expect(event.properties.set_status).toEqual(['a', 'b']);
+    expect(event.properties.unset_status).toEqual(['c', 'd']);
+    expect(event.properties.cutscene).toBe('two.txt');
+    expect(map.warnings).toEqual(['[event] at 1,1,1,1: cutscene= appears more than once; only the last value was kept']);
+  });
+
+  it('should measure tileset grids with spacing and margin', () => {
+    expect(measureTilesetGrid(256, 128, { tileWidth: 64, tileHeight: 32, spacing: 0, margin: 0 })).toEqual({ columns: 4, rows: 4, count: 16 });
+    expect(measureTilesetGrid(134, 68, { tileWidth: 64, tileHeight: 32, spacing: 2, margin: 1 })).toEqual({ columns: 2, rows: 2, count: 4 });
+  });
+});
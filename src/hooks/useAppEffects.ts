@@ -138,10 +138,11 @@ export default function useAppEffects(params: unknown) {
   useEffect(() => {
     const editorLocal = editor;
     if (editorLocal && selectedTool === 'brush') {
-      const toolMap: { [key: string]: 'brush' | 'eraser' | 'bucket' } = {
+      const toolMap: { [key: string]: 'brush' | 'eraser' | 'bucket' | 'terrain' } = {
         'brush': 'brush',
         'bucket': 'bucket',
-        'eraser': 'eraser'
+        'eraser': 'eraser',
+        'terrain': 'terrain'
       };
       const editorTool = toolMap[selectedBrushTool as string] || 'brush';
       editorLocal.setCurrentTool?.(editorTool);
@@ -26,8 +26,16 @@ import useHoverGidCallback from './useHoverGidCallback';
 import useDeleteActiveTab from './useDeleteActiveTab';
 import buildConfirmActionHandlers from './useConfirmActionHandlers';
 import useBeforeCreateMap from './useBeforeCreateMap';
+import useIntermapShiftCallback from './useIntermapShiftCallback';
 import { TileMapEditor } from '@/editor/TileMapEditor';
 import type { EditorProjectData } from '@/editor/TileMapEditor';
+import type { ModSettings } from '@/editor/modPackage';
+import type { MapImageOptions } from '@/editor/mapImage';
+import type { MapDiff, MapMerge } from '@/editor/mapDiff';
+import type { GeneratorSettings, GeneratorTiles } from '@/editor/mapGenerator';
+import type { ReachabilityResult } from '@/editor/reachability';
+import type { WorldGraph, WorldLink } from '@/editor/worldGraph';
+import { sanitizeMapFileBase } from '@/editor/mapSpawnUtils';
 import type { MapObject } from '@/types';
 
 export default function useAppMainBuilder() {
@@ -36,6 +44,18 @@ export default function useAppMainBuilder() {
   type ProjectManagerView = {
     projectMaps?: string[];
     handleOpenMapFromMapsFolder?: (filename: string) => Promise<void>;
+    handleImportTiledMap?: () => Promise<void>;
+    handleExportTiledMap?: () => Promise<void>;
+    handleExportModPackage?: (settings: ModSettings, outputDir: string, updateProjectSettings: boolean) => Promise<boolean>;
+    handleExportMapImage?: (options: MapImageOptions) => Promise<boolean>;
+    handleCompareMap?: (projectPath: string, mapName: string) => Promise<MapDiff | null>;
+    handleHighlightMapDiff?: (cells: Array<{ x: number; y: number }> | null) => void;
+    handleApplyMapMerge?: (merge: MapMerge) => boolean;
+    handleGenerateMap?: (settings: Omit<GeneratorSettings, 'width' | 'height'>, tiles: GeneratorTiles) => boolean;
+    handleCheckReachability?: () => Promise<ReachabilityResult | null>;
+    handleShadeUnreachable?: (cells: Array<{ x: number; y: number }> | null) => void;
+    handlePanToTile?: (x: number, y: number) => void;
+    handleBuildWorldGraph?: () => Promise<WorldGraph | null>;
     handleManualSave?: () => Promise<void>;
     refreshProjectMaps?: () => Promise<void>;
     isExporting?: boolean;
@@ -184,6 +204,7 @@ export default function useAppMainBuilder() {
     setTabs: setTabs as React.Dispatch<React.SetStateAction<import('./useEditorTabs').EditorTab[]>>,
     currentProjectPath
   });
+  useIntermapShiftCallback(editor as TileMapEditor | null, activeTabId ?? null, setTabs as React.Dispatch<React.SetStateAction<EditorTab[]>>);
   useEffect(() => {
     if (appState.beforeCreateMapRef) {
       appState.beforeCreateMapRef.current = beforeCreateMapFn;
@@ -386,7 +407,10 @@ export default function useAppMainBuilder() {
     handleFileUpload,
     handleSetActiveLayer,
     handleToggleLayerVisibility,
-    handleLayerTransparencyChange
+    handleLayerTransparencyChange,
+    handleAddLayer,
+    handleDeleteLayer,
+    handleMoveLayer
   } = useLayerHandlers({
     editor,
     layers: appState.layers,
@@ -741,6 +765,18 @@ export default function useAppMainBuilder() {
     }
   }, [currentProjectPath, itemsHook, toast]);
 
+  // Open the map a world graph link leaves from, then the event or NPC holding the teleport
+  const handleOpenWorldLink = useCallback(async (link: WorldLink, mapName: string) => {
+    const manager = projectManager as ProjectManagerType;
+    if (!currentProjectPath) return;
+    if (sanitizeMapFileBase(mapName) !== sanitizeMapFileBase(mapConfig.mapName) && typeof manager?.handleOpenMap === 'function') {
+      await (projectManager as ProjectManagerView)?.handleManualSave?.();
+      await manager.handleOpenMap(currentProjectPath, false, mapName);
+    }
+    if (link.kind === 'dialogue') objectEditing.handleEditObject(link.objectId);
+    else handleEditEvent(link.objectId);
+  }, [projectManager, currentProjectPath, mapConfig.mapName, objectEditing, handleEditEvent]);
+
   const sidebarDeps = useMemo(() => {
     const projectMapsList = (projectManagerRecord as ProjectManagerView)?.projectMaps ?? [];
     const handleOpenMapFromMapsFolderFn =
@@ -751,6 +787,54 @@ export default function useAppMainBuilder() {
       typeof (projectManagerRecord as ProjectManagerView)?.handleManualSave === 'function'
         ? (projectManagerRecord as ProjectManagerView).handleManualSave!
         : async () => undefined;
+    const handleImportTiledMapFn =
+      typeof (projectManagerRecord as ProjectManagerView)?.handleImportTiledMap === 'function'
+        ? (projectManagerRecord as ProjectManagerView).handleImportTiledMap!
+        : async () => undefined;
+    const handleExportTiledMapFn =
+      typeof (projectManagerRecord as ProjectManagerView)?.handleExportTiledMap === 'function'
+        ? (projectManagerRecord as ProjectManagerView).handleExportTiledMap!
+        : async () => undefined;
+    const handleExportModPackageFn =
+      typeof (projectManagerRecord as ProjectManagerView)?.handleExportModPackage === 'function'
+        ? (projectManagerRecord as ProjectManagerView).handleExportModPackage!
+        : async () => false;
+    const handleExportMapImageFn =
+      typeof (projectManagerRecord as ProjectManagerView)?.handleExportMapImage === 'function'
+        ? (projectManagerRecord as ProjectManagerView).handleExportMapImage!
+        : async () => false;
+    const handleCompareMapFn =
+      typeof (projectManagerRecord as ProjectManagerView)?.handleCompareMap === 'function'
+        ? (projectManagerRecord as ProjectManagerView).handleCompareMap!
+        : async () => null;
+    const handleHighlightMapDiffFn =
+      typeof (projectManagerRecord as ProjectManagerView)?.handleHighlightMapDiff === 'function'
+        ? (projectManagerRecord as ProjectManagerView).handleHighlightMapDiff!
+        : () => undefined;
+    const handleApplyMapMergeFn =
+      typeof (projectManagerRecord as ProjectManagerView)?.handleApplyMapMerge === 'function'
+        ? (projectManagerRecord as ProjectManagerView).handleApplyMapMerge!
+        : () => false;
+    const handleGenerateMapFn =
+      typeof (projectManagerRecord as ProjectManagerView)?.handleGenerateMap === 'function'
+        ? (projectManagerRecord as ProjectManagerView).handleGenerateMap!
+        : () => false;
+    const handleCheckReachabilityFn =
+      typeof (projectManagerRecord as ProjectManagerView)?.handleCheckReachability === 'function'
+        ? (projectManagerRecord as ProjectManagerView).handleCheckReachability!
+        : async () => null;
+    const handleShadeUnreachableFn =
+      typeof (projectManagerRecord as ProjectManagerView)?.handleShadeUnreachable === 'function'
+        ? (projectManagerRecord as ProjectManagerView).handleShadeUnreachable!
+        : () => undefined;
+    const handlePanToTileFn =
+      typeof (projectManagerRecord as ProjectManagerView)?.handlePanToTile === 'function'
+        ? (projectManagerRecord as ProjectManagerView).handlePanToTile!
+        : () => undefined;
+    const handleBuildWorldGraphFn =
+      typeof (projectManagerRecord as ProjectManagerView)?.handleBuildWorldGraph === 'function'
+        ? (projectManagerRecord as ProjectManagerView).handleBuildWorldGraph!
+        : async () => null;
     const refreshProjectMapsFn =
       typeof (projectManagerRecord as ProjectManagerView)?.refreshProjectMaps === 'function'
         ? (projectManagerRecord as ProjectManagerView).refreshProjectMaps!
@@ -898,7 +982,19 @@ export default function useAppMainBuilder() {
         onRestart: () => {
           try { (window as unknown as { electronAPI?: { restartApp?: () => void } }).electronAPI?.restartApp?.(); } catch (e) { console.warn(e); }
         },
-        onExport: () => { toast({ title: 'Export', description: 'Export is not yet available.' }); },
+        onExportModPackage: handleExportModPackageFn,
+        onImportTiledMap: () => { void handleImportTiledMapFn(); },
+        onExportTiledMap: () => { void handleExportTiledMapFn(); },
+        onExportMapImage: handleExportMapImageFn,
+        onCompareMap: handleCompareMapFn,
+        onHighlightMapDiff: handleHighlightMapDiffFn,
+        onApplyMapMerge: handleApplyMapMergeFn,
+        onGenerateMap: handleGenerateMapFn,
+        onCheckReachability: handleCheckReachabilityFn,
+        onShadeUnreachable: handleShadeUnreachableFn,
+        onPanToTile: handlePanToTileFn,
+        onBuildWorldGraph: handleBuildWorldGraphFn,
+        onOpenWorldLink: handleOpenWorldLink,
         onCheckUpdates: () => { toast({ title: 'Updates', description: 'Update checking is not yet available.' }); },
         handleManualSave: handleManualSaveFn,
         isManuallySaving: isManuallySavingValue,
@@ -915,6 +1011,9 @@ export default function useAppMainBuilder() {
         handleSetActiveLayer,
         handleToggleLayerVisibility,
         handleLayerTransparencyChange,
+        handleAddLayer,
+        handleDeleteLayer,
+        handleMoveLayer,
         showTooltipWithDelay,
         hideTooltip,
         uiHelpers,
@@ -931,6 +1030,9 @@ export default function useAppMainBuilder() {
     handleSetActiveLayer,
     handleToggleLayerVisibility,
     handleLayerTransparencyChange,
+    handleAddLayer,
+    handleDeleteLayer,
+    handleMoveLayer,
     showTooltipWithDelay,
     hideTooltip,
     uiHelpers,
@@ -979,14 +1081,15 @@ export default function useAppMainBuilder() {
     handleOpenQuestDialog,
     rulesList,
     projectManagerRecord,
+    handleOpenWorldLink,
     setShowImportReview,
     setImportReviewData,
     setImportReviewOriginPreset
   ]);
   const handleCloseSettings = useCallback(() => setShowSettings(false), []);
   const handleCloseMapSettings = useCallback(() => setShowMapSettingsOnly(false), []);
-  const handleMapResize = useCallback(() => {
-    mapConfig.handleMapResize();
+  const handleMapResize = useCallback((offsetX?: number, offsetY?: number) => {
+    mapConfig.handleMapResize(offsetX, offsetY);
     if (activeTabId) {
       setTabs((prev: EditorTab[]) =>
         prev.map((t) => t.id === activeTabId ? { ...t, name: mapConfig.mapName } : t)
@@ -1115,7 +1218,19 @@ export default function useAppMainBuilder() {
       onShowHelp: () => { if (typeof helpState.setShowHelp === 'function') helpState.setShowHelp(true); },
       onSaveAsCopy: async () => {},
       onRestart: () => { try { (window as unknown as { electronAPI?: { restartApp?: () => void } }).electronAPI?.restartApp?.(); } catch (e) { console.warn(e); } },
-      onExport: () => {},
+      onExportModPackage: async () => false,
+      onImportTiledMap: () => {},
+      onExportTiledMap: () => {},
+      onExportMapImage: async () => false,
+      onCompareMap: async () => null,
+      onHighlightMapDiff: () => {},
+      onApplyMapMerge: () => false,
+      onGenerateMap: () => false,
+      onCheckReachability: async () => null,
+      onShadeUnreachable: () => undefined,
+      onPanToTile: () => undefined,
+      onBuildWorldGraph: async () => null,
+      onOpenWorldLink: async () => undefined,
       onCheckUpdates: () => {},
       handleManualSave: async () => { if (pmForDefaults?.handleManualSave) await pmForDefaults.handleManualSave(); },
       isManuallySaving: false,
@@ -1226,6 +1341,7 @@ export default function useAppMainBuilder() {
       isStartingMap: mapConfig.isStartingMap,
       updateStartingMap: mapConfig.updateStartingMap,
       handleMapResize: handleMapResize,
+      handleSaveMapHeader: mapConfig.handleSaveMapHeader,
       showClearLayerDialog,
       handleClearLayerClose,
       handleClearLayerConfirm,
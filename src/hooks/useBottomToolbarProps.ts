@@ -13,8 +13,8 @@ type Params = {
   showBrushOptions: boolean;
   handleShowBrushOptions: () => void;
   handleHideBrushOptions: () => void;
-  selectedBrushTool: 'brush' | 'bucket' | 'eraser' | 'clear';
-  setSelectedBrushTool: React.Dispatch<React.SetStateAction<'brush' | 'bucket' | 'eraser' | 'clear'>>;
+  selectedBrushTool: 'brush' | 'bucket' | 'eraser' | 'terrain' | 'clear';
+  setSelectedBrushTool: React.Dispatch<React.SetStateAction<'brush' | 'bucket' | 'eraser' | 'terrain' | 'clear'>>;
   showTooltipWithDelay: (content: React.ReactNode, el: HTMLElement) => void;
   hideTooltip: () => void;
   setShowClearLayerDialog: React.Dispatch<React.SetStateAction<boolean>>;
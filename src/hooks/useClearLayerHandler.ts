@@ -1,7 +1,7 @@
 import React, { useCallback } from 'react';
 import type { TileMapEditor } from '@/editor/TileMapEditor';
 
-type BrushTool = 'brush' | 'bucket' | 'eraser' | 'clear';
+type BrushTool = 'brush' | 'bucket' | 'eraser' | 'terrain' | 'clear';
 
 export default function useClearLayerHandler(args: { editor?: TileMapEditor | null; setSelectedBrushTool: React.Dispatch<React.SetStateAction<BrushTool>>; setShowClearLayerDialog: React.Dispatch<React.SetStateAction<boolean>>; }) {
   const { editor, setSelectedBrushTool, setShowClearLayerDialog } = args;
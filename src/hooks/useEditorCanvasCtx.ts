@@ -62,8 +62,8 @@ type UseEditorCanvasDeps = {
   showBrushOptions: boolean;
   handleShowBrushOptions: () => void;
   handleHideBrushOptions: () => void;
-  selectedBrushTool: 'brush' | 'bucket' | 'eraser' | 'clear';
-  setSelectedBrushTool: React.Dispatch<React.SetStateAction<'brush' | 'bucket' | 'eraser' | 'clear'>>;
+  selectedBrushTool: 'brush' | 'bucket' | 'eraser' | 'terrain' | 'clear';
+  setSelectedBrushTool: React.Dispatch<React.SetStateAction<'brush' | 'bucket' | 'eraser' | 'terrain' | 'clear'>>;
   showTooltipWithDelayFn: (content: React.ReactNode, el: HTMLElement) => void;
   hideTooltipFn: () => void;
   setShowClearLayerDialog: React.Dispatch<React.SetStateAction<boolean>>;
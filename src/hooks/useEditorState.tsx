@@ -2,6 +2,7 @@ import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { TileMapEditor } from '../editor/TileMapEditor';
 import type { TileMapEditor as TileMapEditorType } from '../editor/TileMapEditor';
 import type { MapObject } from '@/types';
+import { toast } from '@/hooks/use-toast';
 
 export type HeroEditData = {
   currentX: number;
@@ -195,6 +196,10 @@ export function useEditorState(optsRef: React.RefObject<Partial<UseEditorStateOp
       opts.setStamps?.(stampsList);
     });
 
+    editorInstance.setPasteNoticeCallback((message) => {
+      toast({ title: 'Paste incomplete', description: message, variant: 'destructive' });
+    });
+
     editorInstance.setObjectsChangedCallback((objects) => {
       opts.setMapObjects?.(objects);
     });
@@ -28,10 +28,11 @@ export default function useEditorToolSync({
     if (!editor) return;
 
     if (selectedTool === 'brush') {
-      const toolMap: { [key: string]: 'brush' | 'eraser' | 'bucket' } = {
+      const toolMap: { [key: string]: 'brush' | 'eraser' | 'bucket' | 'terrain' } = {
         brush: 'brush',
         bucket: 'bucket',
-        eraser: 'eraser'
+        eraser: 'eraser',
+        terrain: 'terrain'
       };
       const editorTool = toolMap[selectedBrushTool] || 'brush';
       editor.setCurrentTool(editorTool);
@@ -0,0 +1,23 @@
+import { useEffect } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import type { TileMapEditor } from '@/editor/TileMapEditor';
+import { shiftIntermapTargets } from '@/editor/mapResize';
+import type { EditorTab } from './useEditorTabs';
+
+// Teleports into a resized map are moved in the other open tabs' snapshots as well, so saving those tabs keeps them
+export default function useIntermapShiftCallback(editor: TileMapEditor | null, activeTabId: string | null, setTabs: Dispatch<SetStateAction<EditorTab[]>>) {
+  useEffect(() => {
+    if (!editor || typeof editor.setIntermapShiftCallback !== 'function') return;
+    editor.setIntermapShiftCallback((projectPath, targetFile, dx, dy) => {
+      setTabs(prev => prev.map(tab => {
+        const config = tab.config;
+        if (tab.id === activeTabId || tab.projectPath !== projectPath || !config || !('objects' in config) || !Array.isArray(config.objects)) return tab;
+        const { objects, changed } = shiftIntermapTargets(config.objects, targetFile, dx, dy);
+        return changed ? { ...tab, config: { ...config, objects } } : tab;
+      }));
+    });
+    return () => {
+      editor.setIntermapShiftCallback(null);
+    };
+  }, [editor, activeTabId, setTabs]);
+}
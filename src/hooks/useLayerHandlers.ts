@@ -1,7 +1,8 @@
 import { useCallback } from 'react';
 import type React from 'react';
-import type { TileLayer } from '@/types';
+import type { TileLayer, FlareRenderLayerType } from '@/types';
 import type { TileMapEditor } from '@/editor/TileMapEditor';
+import { getNewRenderLayerName } from '@/editor/flareLayers';
 import type { RawItem, ItemSummary } from '@/utils/items';
 
 type UseLayerHandlersOptions = {
@@ -80,10 +81,36 @@ export default function useLayerHandlers({ editor, layers, setLayers, setActiveL
     }
   }, [editor, layers, updateLayersList]);
 
+  const handleAddLayer = useCallback((type: FlareRenderLayerType) => {
+    if (editor) {
+      const added = editor.addLayer(getNewRenderLayerName(editor.getLayers(), type), type);
+      if (added) {
+        setLayers([...editor.getLayers()]);
+        setActiveLayerId(editor.getActiveLayerId());
+      }
+    }
+  }, [editor, setLayers, setActiveLayerId]);
+
+  const handleDeleteLayer = useCallback((layerId: number) => {
+    if (editor && editor.deleteLayer(layerId)) {
+      setLayers([...editor.getLayers()]);
+      setActiveLayerId(editor.getActiveLayerId());
+    }
+  }, [editor, setLayers, setActiveLayerId]);
+
+  const handleMoveLayer = useCallback((layerId: number, direction: 'up' | 'down') => {
+    if (editor && editor.moveLayer(layerId, direction)) {
+      setLayers([...editor.getLayers()]);
+    }
+  }, [editor, setLayers]);
+
   return {
     handleFileUpload,
     handleSetActiveLayer,
     handleToggleLayerVisibility,
-    handleLayerTransparencyChange
+    handleLayerTransparencyChange,
+    handleAddLayer,
+    handleDeleteLayer,
+    handleMoveLayer
   };
 }
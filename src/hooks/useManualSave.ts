@@ -1,8 +1,7 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import type React from 'react';
 import type { TileMapEditor } from '@/editor/TileMapEditor';
-import type { FlareNPC } from '@/types';
-import { serializeNpcFile } from '@/utils/flareNpcUtils';
+import { getNpcExportBaseName, mapObjectToFlareNpc, serializeNpcFile } from '@/utils/flareNpcUtils';
 import { useSaveQueue } from '@/context/SaveQueueContext';
 import { useRetryStrategy } from '@/context/RetryStrategyContext';
 import { useConflictResolution } from '@/context/ConflictResolutionContext';
@@ -363,12 +362,7 @@ export default function useManualSave(args: {
                 const npcObjects = allObjects.filter(obj => obj.type === 'npc');
                 for (const npc of npcObjects) {
                   const npcName = npc.name || `npc_${npc.id}`;
-                  const sanitizedName = npcName
-                    .toLowerCase()
-                    .replace(/[<>:"/\\|?*]/g, '_')
-                    .trim()
-                    .replace(/\s+/g, '_')
-                    .replace(/_{2,}/g, '_') || 'unnamed_npc';
+                  const sanitizedName = getNpcExportBaseName(npc);
 
                   // Resolve portrait: if we have the original source path, compute the
                   // relative Flare path and queue the file for copying into the project.
@@ -475,29 +469,7 @@ export default function useManualSave(args: {
                     }
                   }
 
-                  const flareNpc: FlareNPC = {
-                    id: npc.id,
-                    x: npc.x,
-                    y: npc.y,
-                    filename: npc.properties?.npcFilename || `npcs/${sanitizedName}.txt`,
-                    name: npcName,
-                    talker: npc.properties?.talker === 'true' || npc.properties?.vendor === 'true' || npc.properties?.questGiver === 'true',
-                    vendor: npc.properties?.vendor === 'true',
-                    gfx: gfxRelative || undefined,
-                    portrait: portraitRelative || undefined,
-                    constant_stock: npc.properties?.constant_stock || undefined,
-                    random_stock: npc.properties?.random_stock || undefined,
-                    random_stock_count: npc.properties?.random_stock_count || undefined,
-                    vendor_requires_status: npc.properties?.vendor_requires_status || undefined,
-                    vendor_requires_not_status: npc.properties?.vendor_requires_not_status || undefined,
-                    direction: npc.properties?.direction ? parseInt(npc.properties.direction, 10) as FlareNPC['direction'] : undefined,
-                    waypoints: npc.properties?.waypoints || undefined,
-                    wander_radius: npc.properties?.wander_radius ? parseInt(npc.properties.wander_radius, 10) : undefined,
-                    customProperties: {
-                      ...(npc.properties?.dialogueTrees ? { dialogueTrees: npc.properties.dialogueTrees } : {}),
-                      ...(npc.properties?.status_stock_entries ? { status_stock_entries: npc.properties.status_stock_entries } : {}),
-                    },
-                  };
+                  const flareNpc = mapObjectToFlareNpc(npc, { gfx: gfxRelative, portrait: portraitRelative });
 
                   npcFiles.push({ filename: `${sanitizedName}.txt`, content: serializeNpcFile(flareNpc) });
 
@@ -3,6 +3,7 @@ import type { RefObject } from 'react';
 import type { EditorProjectData } from '@/editor/TileMapEditor';
 import { TileMapEditor } from '@/editor/TileMapEditor';
 import type { TileLayer } from '@/types';
+import type { MapHeaderSettings } from '@/editor/mapHeader';
 import { buildSpawnContent, computeIntermapTarget, extractSpawnIntermapValue, STARTING_MAP_INVALID_NAMES } from '@/editor/mapSpawnUtils';
 
 type MapConfigOptions = {
@@ -197,11 +198,17 @@ const useMapConfig = ({
     }
   }, [editor, mapName]);
 
-  const handleMapResize = useCallback(() => {
-    if (editor?.resizeMap) {
-      editor.resizeMap(mapWidth, mapHeight);
-    }
-  }, [editor, mapWidth, mapHeight]);
+  const handleMapResize = useCallback((offsetX: number = 0, offsetY: number = 0) => {
+    if (!editor?.resizeMap) return;
+    editor.resizeMap(mapWidth, mapHeight, offsetX, offsetY);
+    if (offsetX === 0 && offsetY === 0) return;
+    // spawn.txt holds the starting map's hero position, which moved too
+    if (isStartingMap) void writeSpawnFile(true);
+  }, [editor, mapWidth, mapHeight, isStartingMap, writeSpawnFile]);
+
+  const handleSaveMapHeader = useCallback((settings: MapHeaderSettings) => {
+    editor?.setMapHeaderSettings(settings);
+  }, [editor]);
 
   const isDuplicateMapName = useCallback((candidate: string) => {
     // If there's no current project path, skip project-scoped duplicate checks
@@ -473,6 +480,7 @@ const useMapConfig = ({
     setStartingMapIntermap,
     isPreparingNewMap,
     handleMapResize,
+    handleSaveMapHeader,
     handleOpenCreateMapDialog,
     handleConfirmCreateMap,
     updateStartingMap
@@ -12,7 +12,19 @@ export default function useMapsSidebar(params: any) {
     onShowHelp: p.onShowHelp,
     onSaveAsCopy: p.onSaveAsCopy,
     onRestart: p.onRestart,
-    onExport: p.onExport,
+    onExportModPackage: p.onExportModPackage,
+    onImportTiledMap: p.onImportTiledMap,
+    onExportTiledMap: p.onExportTiledMap,
+    onExportMapImage: p.onExportMapImage,
+    onCompareMap: p.onCompareMap,
+    onHighlightMapDiff: p.onHighlightMapDiff,
+    onApplyMapMerge: p.onApplyMapMerge,
+    onGenerateMap: p.onGenerateMap,
+    onCheckReachability: p.onCheckReachability,
+    onShadeUnreachable: p.onShadeUnreachable,
+    onPanToTile: p.onPanToTile,
+    onBuildWorldGraph: p.onBuildWorldGraph,
+    onOpenWorldLink: p.onOpenWorldLink,
     onCheckUpdates: p.onCheckUpdates,
     handleManualSave: p.handleManualSave,
     isManuallySaving: p.isManuallySaving,
@@ -1,8 +1,15 @@
 import { useCallback, useState, useRef, useEffect } from 'react';
-import type { MapObject, FlareNPC } from '@/types';
+import type { MapObject } from '@/types';
 import type { TileMapEditor } from '@/editor/TileMapEditor';
-import { buildSpawnContent, computeIntermapTarget, STARTING_MAP_INVALID_NAMES } from '@/editor/mapSpawnUtils';
-import { serializeNpcFile } from '@/utils/flareNpcUtils';
+import { buildSpawnContent, computeIntermapTarget, sanitizeMapFileBase, STARTING_MAP_INVALID_NAMES } from '@/editor/mapSpawnUtils';
+import { getNpcExportBaseName, mapObjectToFlareNpc, serializeNpcFile } from '@/utils/flareNpcUtils';
+import { joinRelativePath } from '@/editor/tiledMapFormat';
+import { buildModPackageManifest, modPackageName, planModPackage, type ModSettings } from '@/editor/modPackage';
+import type { MapImageOptions } from '@/editor/mapImage';
+import { diffMaps, type MapDiff, type MapMerge } from '@/editor/mapDiff';
+import { generateMap, type GeneratorSettings, type GeneratorTiles } from '@/editor/mapGenerator';
+import { analyzeReachability, getArrivalPoints, getArrivalPointsFromOtherMaps, type ReachabilityResult } from '@/editor/reachability';
+import { buildWorldGraph, getMapLinks, parseMapListFile, type WorldGraph, type WorldMapInput } from '@/editor/worldGraph';
 
 type ProjectIOOptions = {
   editor: TileMapEditor | null;
@@ -214,41 +221,8 @@ const useProjectIO = ({
         try {
           const npcObjects = mapObjects.filter(obj => obj.type === 'npc');
           for (const npc of npcObjects) {
-            const npcName = npc.name || `npc_${npc.id}`;
-            const sanitizedName = npcName
-              .toLowerCase()
-              .replace(/[<>:"/\\|?*]/g, '_')
-              .trim()
-              .replace(/\s+/g, '_')
-              .replace(/_{2,}/g, '_') || 'unnamed_npc';
-
-            const filename = `${sanitizedName}.txt`;
-
-            const flareNpc: FlareNPC = {
-              id: npc.id,
-              x: npc.x,
-              y: npc.y,
-              filename: npc.properties?.npcFilename || `npcs/${sanitizedName}.txt`,
-              name: npcName,
-              talker: npc.properties?.talker === 'true' || npc.properties?.vendor === 'true' || npc.properties?.questGiver === 'true',
-              vendor: npc.properties?.vendor === 'true',
-              gfx: npc.properties?.tilesetPath || undefined,
-              portrait: npc.properties?.portraitPath || undefined,
-              constant_stock: npc.properties?.constant_stock || undefined,
-              random_stock: npc.properties?.random_stock || undefined,
-              random_stock_count: npc.properties?.random_stock_count || undefined,
-              vendor_requires_status: npc.properties?.vendor_requires_status || undefined,
-              vendor_requires_not_status: npc.properties?.vendor_requires_not_status || undefined,
-              direction: npc.properties?.direction ? parseInt(npc.properties.direction, 10) as FlareNPC['direction'] : undefined,
-              waypoints: npc.properties?.waypoints || undefined,
-              wander_radius: npc.properties?.wander_radius ? parseInt(npc.properties.wander_radius, 10) : undefined,
-              customProperties: {
-                ...(npc.properties?.dialogueTrees ? { dialogueTrees: npc.properties.dialogueTrees } : {}),
-                ...(npc.properties?.status_stock_entries ? { status_stock_entries: npc.properties.status_stock_entries } : {}),
-              },
-            };
-
-            const content = serializeNpcFile(flareNpc);
+            const filename = `${getNpcExportBaseName(npc)}.txt`;
+            const content = serializeNpcFile(mapObjectToFlareNpc(npc));
             npcFiles.push({ filename, content });
           }
         } catch (npcErr) {
@@ -373,16 +347,28 @@ const useProjectIO = ({
         return;
       }
 
-      if (editor && typeof editor.loadFlareMapTxt === 'function') {
-        editor.loadFlareMapTxt!(content);
+      if (editor) {
+        const projectPath = currentProjectPath;
+        const result = await editor.loadFlareMapTxt(content, async (tilesetPath) => {
+          if (!window.electronAPI?.readFileAsDataURL) return null;
+          // Map tileset paths are relative to the project (mod) root
+          const relative = tilesetPath.replace(/^(\.\.\/)+/, '');
+          return window.electronAPI.readFileAsDataURL(`${projectPath}/${relative}`);
+        }, async (tilesetDefPath) => {
+          if (!window.electronAPI?.readFile) return null;
+          return window.electronAPI.readFile(`${projectPath}/${tilesetDefPath.replace(/^(\.\.\/)+/, '')}`);
+        });
         if (typeof editor.setMapName === 'function') editor.setMapName(filename.replace(/\.txt$/i, ''));
         updateLayersListRef.current?.();
         syncMapObjectsRef.current?.();
         setMapInitializedRef.current?.(true);
         setMapNameRef.current?.(filename.replace(/\.txt$/i, ''));
-        toast({ title: 'Map opened', description: `Opened ${filename}` });
-      } else {
-        toast({ title: 'Map loaded (raw)', description: 'Map content loaded but no parser available in the editor. Implement loadFlareMapTxt to parse it.' });
+        if (result.warnings.length > 0) {
+          console.warn(`Warnings while opening ${filename}:`, result.warnings);
+          toast({ title: 'Map opened with warnings', description: result.warnings.slice(0, 3).join('\n') + (result.warnings.length > 3 ? `\n(+${result.warnings.length - 3} more, see console)` : '') });
+        } else {
+          toast({ title: 'Map opened', description: `Opened ${filename}` });
+        }
       }
     } catch (e) {
       console.error('Open map error:', e);
@@ -390,7 +376,272 @@ const useProjectIO = ({
     }
   }, [currentProjectPath, editor, performExport, toast]);
 
-  
+  const handleImportTiledMap = useCallback(async () => {
+    if (!editor || !currentProjectPath || !window.electronAPI?.selectTiledMapFile) return;
+    try {
+      const tmxPath = await window.electronAPI.selectTiledMapFile();
+      if (!tmxPath) return;
+
+      const content = await window.electronAPI.readFile(tmxPath);
+      if (!content) {
+        toast({ title: 'Import failed', description: `Failed to read ${tmxPath}`, variant: 'destructive' });
+        return;
+      }
+
+      if (typeof handleManualSaveRef.current === 'function') await handleManualSaveRef.current();
+
+      // Tileset and image paths inside the .tmx are relative to its folder
+      const tmxDir = tmxPath.replace(/\\/g, '/').replace(/\/[^/]*$/, '');
+      const result = await editor.loadTiledMap(content, {
+        loadExternalTileset: (source) => window.electronAPI.readFile(joinRelativePath(tmxDir, source)),
+        resolveTilesetImage: (imagePath) => window.electronAPI.readFileAsDataURL(joinRelativePath(tmxDir, imagePath))
+      });
+      const importedName = tmxPath.replace(/\\/g, '/').split('/').pop()!.replace(/\.tmx$/i, '');
+      if (typeof editor.setMapName === 'function') editor.setMapName(importedName);
+      updateLayersListRef.current?.();
+      syncMapObjectsRef.current?.();
+      setMapInitializedRef.current?.(true);
+      setMapNameRef.current?.(importedName);
+      if (result.warnings.length > 0) {
+        console.warn(`Warnings while importing ${tmxPath}:`, result.warnings);
+        toast({ title: 'Tiled map imported with warnings', description: result.warnings.slice(0, 3).join('\n') + (result.warnings.length > 3 ? `\n(+${result.warnings.length - 3} more, see console)` : '') });
+      } else {
+        toast({ title: 'Tiled map imported', description: `Imported ${importedName}.tmx` });
+      }
+    } catch (e) {
+      console.error('Tiled import error:', e);
+      toast({ title: 'Import failed', description: e instanceof Error ? e.message : 'An unexpected error occurred while importing the Tiled map.', variant: 'destructive' });
+    }
+  }, [currentProjectPath, editor, toast]);
+
+  const handleExportTiledMap = useCallback(async () => {
+    if (!editor || !currentProjectPath) return;
+    try {
+      // The .tsx files reference images/tilesets/, which the Flare export populates
+      const exported = await performExport({ silent: true });
+      if (!exported) {
+        toast({ title: 'Export failed', description: 'Export the map to Flare first so its tileset images are available.', variant: 'destructive' });
+        return;
+      }
+
+      const { tmx, tsxFiles, collisionImage } = editor.generateTiledMap();
+      const sanitizedMapName = mapName.replace(/[<>:"/\\|?*]/g, '_').trim().replace(/\s+/g, '_').replace(/_{2,}/g, '_') || 'Map_Name';
+      const tiledDir = `${currentProjectPath}/tiled`;
+      await window.electronAPI.createFolderIfNotExists(tiledDir);
+      let ok = await window.electronAPI.writeFile(`${tiledDir}/${sanitizedMapName}.tmx`, tmx);
+      for (const file of collisionImage ? [...tsxFiles, collisionImage] : tsxFiles) {
+        ok = (await window.electronAPI.writeFile(`${tiledDir}/${file.fileName}`, file.content)) && ok;
+      }
+
+      if (ok) {
+        toast({ title: 'Tiled export complete', description: `Saved tiled/${sanitizedMapName}.tmx with ${tsxFiles.length} tileset(s)` });
+      } else {
+        toast({ title: 'Export failed', description: 'Some Tiled files could not be written.', variant: 'destructive' });
+      }
+    } catch (e) {
+      console.error('Tiled export error:', e);
+      toast({ title: 'Export failed', description: 'An unexpected error occurred while exporting to Tiled.', variant: 'destructive' });
+    }
+  }, [currentProjectPath, editor, mapName, performExport, toast]);
+
+  const handleExportModPackage = useCallback(async (settings: ModSettings, outputDir: string, updateProjectSettings: boolean) => {
+    if (!currentProjectPath || !window.electronAPI?.listModFiles || !window.electronAPI?.writeModPackage) return false;
+    try {
+      // Bring maps/ up to date with the open map first
+      if (editor) await performExport({ silent: true });
+
+      const projectFiles = await window.electronAPI.listModFiles(currentProjectPath);
+      const plan = planModPackage(projectFiles, settings);
+      const modName = modPackageName(currentProjectPath);
+      const result = await window.electronAPI.writeModPackage(currentProjectPath, {
+        outputDir,
+        modName,
+        files: plan.files,
+        settingsTxt: plan.settingsTxt,
+        manifest: buildModPackageManifest(modName, settings, plan.entries),
+        updateProjectSettings
+      });
+      if (!result.success) {
+        toast({ title: 'Mod package failed', description: result.error || 'The mod package could not be written.', variant: 'destructive' });
+        return false;
+      }
+
+      if (plan.excluded.length > 0) console.info('Left out of the mod package:', plan.excluded);
+      if (plan.caseMismatches.length > 0) {
+        console.warn('Mod package references in different letter case:', plan.caseMismatches);
+        const [first] = plan.caseMismatches;
+        toast({
+          title: 'Letter case mismatch',
+          description: `${plan.caseMismatches.length} reference(s) name a file in different letter case and were not packaged, e.g. ${first.referencedBy} uses ${first.reference} for ${first.path}.`,
+          variant: 'destructive'
+        });
+      }
+      toast({
+        title: 'Mod package exported',
+        description: `${modName}.zip with ${plan.entries.length} file(s); ${plan.excluded.length} editor or unused file(s) left out.`
+      });
+      return true;
+    } catch (e) {
+      console.error('Mod package error:', e);
+      toast({ title: 'Mod package failed', description: e instanceof Error ? e.message : 'An unexpected error occurred while packaging the mod.', variant: 'destructive' });
+      return false;
+    }
+  }, [currentProjectPath, editor, performExport, toast]);
+
+  const handleExportMapImage = useCallback(async (options: MapImageOptions) => {
+    if (!editor || !currentProjectPath || !window.electronAPI?.saveMapImage) return false;
+    try {
+      const image = editor.renderMapImage(options);
+      if (!image) {
+        toast({ title: 'Map image failed', description: 'Could not create a canvas for the map image.', variant: 'destructive' });
+        return false;
+      }
+
+      const sanitizedMapName = mapName.replace(/[<>:"/\\|?*]/g, '_').trim().replace(/\s+/g, '_').replace(/_{2,}/g, '_') || 'Map_Name';
+      const savedPath = await window.electronAPI.saveMapImage(`${currentProjectPath}/${sanitizedMapName}.png`, image.dataUrl);
+      if (!savedPath) return false;
+
+      const reduced = image.zoom < options.zoom ? ` (zoom reduced to ${Math.round(image.zoom * 100)}% to fit)` : '';
+      toast({ title: 'Map image exported', description: `${image.width}x${image.height} saved to ${savedPath}${reduced}` });
+      return true;
+    } catch (e) {
+      console.error('Map image error:', e);
+      toast({ title: 'Map image failed', description: e instanceof Error ? e.message : 'An unexpected error occurred while rendering the map.', variant: 'destructive' });
+      return false;
+    }
+  }, [currentProjectPath, editor, mapName, toast]);
+
+  const handleCompareMap = useCallback(async (projectPath: string, otherMapName: string): Promise<MapDiff | null> => {
+    if (!editor || !window.electronAPI?.openMapProject) return null;
+    try {
+      const other = await window.electronAPI.openMapProject(projectPath, otherMapName);
+      if (!other) {
+        toast({ title: 'Compare failed', description: `Could not read map ${otherMapName}`, variant: 'destructive' });
+        return null;
+      }
+      return diffMaps(editor.getProjectData(), other);
+    } catch (e) {
+      console.error('Compare map error:', e);
+      toast({ title: 'Compare failed', description: e instanceof Error ? e.message : 'An unexpected error occurred while comparing maps.', variant: 'destructive' });
+      return null;
+    }
+  }, [editor, toast]);
+
+  const handleHighlightMapDiff = useCallback((cells: Array<{ x: number; y: number }> | null) => {
+    editor?.setMapDiffHighlight(cells);
+  }, [editor]);
+
+  const handleApplyMapMerge = useCallback((merge: MapMerge) => {
+    if (!editor) return false;
+    const missingTilesets = editor.applyMapMerge(merge);
+    if (missingTilesets.length > 0) {
+      toast({ title: 'Merge refused', description: `The picked tiles use tilesets this map does not have: ${missingTilesets.join(', ')}. Add them to this map first.`, variant: 'destructive' });
+      return false;
+    }
+    updateLayersListRef.current?.();
+    syncMapObjectsRef.current?.();
+    const parts = [
+      merge.cells.length > 0 ? `${merge.cells.length} cell(s)` : '',
+      merge.objects.length > 0 ? `${merge.objects.length} object(s)` : '',
+      merge.header.length > 0 ? `${merge.header.length} header setting(s)` : ''
+    ].filter(Boolean);
+    toast({ title: 'Changes merged', description: `Merged ${parts.join(', ')}. Undo reverts the whole merge.` });
+    return true;
+  }, [editor, toast]);
+
+  const handleGenerateMap = useCallback((settings: Omit<GeneratorSettings, 'width' | 'height'>, tiles: GeneratorTiles) => {
+    if (!editor) return false;
+    const resolved = {
+      ...tiles,
+      floorGid: tiles.floorGid || editor.getLayerActiveGid(tiles.floorLayerType),
+      wallGid: tiles.wallGid || editor.getLayerActiveGid(tiles.wallLayerType)
+    };
+    if (!resolved.floorGid || !resolved.wallGid) {
+      toast({ title: 'Generate failed', description: 'Pick floor and wall tiles, or select them in the layers\' palettes first.', variant: 'destructive' });
+      return false;
+    }
+    const generated = generateMap({ ...settings, width: editor.getMapWidth(), height: editor.getMapHeight() });
+    if (!editor.applyGeneratedMap(generated, resolved)) return false;
+    updateLayersListRef.current?.();
+    syncMapObjectsRef.current?.();
+    const floorCells = generated.floor.filter(Boolean).length;
+    toast({ title: 'Map generated', description: `${floorCells} floor cells and ${generated.enemyAreas.length} enemy area(s). Undo reverts the generation.` });
+    return true;
+  }, [editor, toast]);
+
+  const handleCheckReachability = useCallback(async (): Promise<ReachabilityResult | null> => {
+    if (!editor) return null;
+    const data = editor.getProjectData();
+    const ownFile = sanitizeMapFileBase(mapName);
+
+    // Teleports from the other maps of the project arrive here too
+    const arrivals = getArrivalPoints(data.objects || [], `maps/${ownFile}.txt`);
+    const api = window.electronAPI;
+    const openMap = api?.openMapProject;
+    if (currentProjectPath && api?.listMaps && openMap) {
+      try {
+        const maps = await api.listMaps(currentProjectPath);
+        arrivals.push(...await getArrivalPointsFromOtherMaps(maps, mapName, name => openMap(currentProjectPath, name)));
+      } catch (e) {
+        console.error('Reachability: failed to read other maps:', e);
+      }
+    }
+
+    const width = data.width ?? 0;
+    const height = data.height ?? 0;
+    const layers = data.layers ?? [];
+    const collision = layers.find(l => l.type === 'collision')?.data ?? [];
+    const backgrounds = layers.filter(l => l.type === 'background');
+    const floor = Array.from({ length: width * height }, (_, i) => backgrounds.some(l => (l.data[i] ?? 0) > 0));
+    const result = analyzeReachability({
+      width,
+      height,
+      collision,
+      floor: floor.some(Boolean) ? floor : undefined,
+      starts: [{ x: data.heroX ?? 0, y: data.heroY ?? 0 }, ...arrivals],
+      objects: data.objects || []
+    });
+    editor.setReachabilityShade(result.unreachableCells);
+    return result;
+  }, [editor, mapName, currentProjectPath]);
+
+  const handleShadeUnreachable = useCallback((cells: Array<{ x: number; y: number }> | null) => {
+    editor?.setReachabilityShade(cells);
+  }, [editor]);
+
+  const handlePanToTile = useCallback((x: number, y: number) => {
+    editor?.panToTile(x, y);
+  }, [editor]);
+
+  const handleBuildWorldGraph = useCallback(async (): Promise<WorldGraph | null> => {
+    const api = window.electronAPI;
+    if (!currentProjectPath || !api?.listMaps || !api.openMapProject) return null;
+    const ownFile = sanitizeMapFileBase(mapName);
+    const maps: WorldMapInput[] = [];
+    try {
+      for (const file of await api.listMaps(currentProjectPath)) {
+        const name = file.replace(/\.json$/i, '');
+        // The open map is taken from the editor so unsaved teleports show up
+        const data = sanitizeMapFileBase(name) === ownFile && editor
+          ? editor.getProjectData()
+          : await api.openMapProject(currentProjectPath, name);
+        if (!data) continue;
+        const thumbnail = api.getProjectThumbnail ? await api.getProjectThumbnail(currentProjectPath, name) : null;
+        maps.push({ name: data.name || name, width: data.width ?? 0, height: data.height ?? 0, objects: data.objects || [], thumbnail });
+      }
+    } catch (e) {
+      console.error('World graph: failed to read maps:', e);
+      return null;
+    }
+    // intermap_random names a map-list file of the mod; lists that cannot be read stay unresolved
+    const mapLists: Record<string, string[]> = {};
+    const listFiles = new Set(maps.flatMap(map => getMapLinks(map.objects).filter(link => link.kind === 'intermap_random').map(link => link.to)));
+    for (const file of listFiles) {
+      const content = api.readFile ? await api.readFile(`${currentProjectPath}/${file}`).catch(() => null) : null;
+      if (typeof content === 'string') mapLists[file] = parseMapListFile(content);
+    }
+    return buildWorldGraph(maps, startingMapIntermap, mapLists);
+  }, [editor, mapName, currentProjectPath, startingMapIntermap]);
 
   const handleOverwriteConfirm = useCallback(() => {
     setShowOverwriteDialog(false);
@@ -418,7 +669,19 @@ const useProjectIO = ({
     ,
     projectMaps,
     refreshProjectMaps,
-    handleOpenMapFromMapsFolder
+    handleOpenMapFromMapsFolder,
+    handleImportTiledMap,
+    handleExportTiledMap,
+    handleExportModPackage,
+    handleExportMapImage,
+    handleCompareMap,
+    handleHighlightMapDiff,
+    handleApplyMapMerge,
+    handleGenerateMap,
+    handleCheckReachability,
+    handleShadeUnreachable,
+    handlePanToTile,
+    handleBuildWorldGraph
   };
 };
 
@@ -6,7 +6,7 @@ import { useCallback, useRef } from 'react';
 export interface UISettings {
   // Toolbar states
   brushSettings: {
-    selectedBrushTool?: 'brush' | 'bucket' | 'eraser' | 'clear';
+    selectedBrushTool?: 'brush' | 'bucket' | 'eraser' | 'terrain' | 'clear';
     selectedTool?: 'brush' | 'selection' | 'shape' | 'stamp' | 'eyedropper';
     selectedSelectionTool?: 'rectangular' | 'multi-cell' | 'magic-wand' | 'same-tile' | 'circular';
     selectedShapeTool?: string;
@@ -1,7 +1,7 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 
 type PrimaryTool = 'brush' | 'selection' | 'shape' | 'stamp' | 'eyedropper';
-type BrushTool = 'brush' | 'eraser' | 'bucket' | 'clear';
+type BrushTool = 'brush' | 'eraser' | 'bucket' | 'terrain' | 'clear';
 type SelectionTool = 'rectangular' | 'multi-cell' | 'magic-wand' | 'same-tile' | 'circular';
 type ShapeTool = 'rectangle' | 'circle' | 'line';
 
@@ -12,7 +12,7 @@ export default function useToolbarState() {
 
   const [selectedTool, setSelectedTool] = useState<'brush' | 'selection' | 'shape' | 'eyedropper' | 'stamp'>('brush');
   const [isCtrlSelectionActive, setIsCtrlSelectionActive] = useState(false);
-  const [selectedBrushTool, setSelectedBrushTool] = useState<'brush' | 'bucket' | 'eraser' | 'clear'>('brush');
+  const [selectedBrushTool, setSelectedBrushTool] = useState<'brush' | 'bucket' | 'eraser' | 'terrain' | 'clear'>('brush');
   const [selectedSelectionTool, setSelectedSelectionTool] = useState<'rectangular' | 'multi-cell' | 'magic-wand' | 'same-tile' | 'circular'>('rectangular');
   const [selectedShapeTool, setSelectedShapeTool] = useState<'rectangle' | 'circle' | 'line'>('rectangle');
   const [hoverCoords, setHoverCoords] = useState<{ x: number; y: number } | null>(null);
@@ -1,9 +1,10 @@
 import { useCallback, useRef } from 'react';
 import type { TileLayer, MapObject } from '../types';
 import type { TileMapEditor as TileMapEditorType } from '../editor/TileMapEditor';
+import type { MapHeaderSettings } from '../editor/mapHeader';
 
 export interface UndoStackState {
-  history: Array<{ layers: TileLayer[]; objects: MapObject[] }>;
+  history: Array<{ layers: TileLayer[]; objects: MapObject[]; mapHeader?: MapHeaderSettings }>;
   historyIndex: number;
 }
 
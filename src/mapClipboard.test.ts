@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { cropRegion, getSelectionRect, remapTilesetKey, setMapClipboard } from './editor/mapClipboard';
+import { createTestEditor, fakeImageDataUrl, flushImages } from './editorTestHarness';
+
+describe('Map clipboard', () => {
+  it('should copy the bounding rectangle of a selection', () => {
+    const rect = getSelectionRect([{ x: 2, y: 1 }, { x: 1, y: 2 }]);
+    expect(rect).toEqual({ x: 1, y: 1, width: 2, height: 2 });
+    expect(getSelectionRect([])).toBeNull();
+
+    // 4x3 map
+    const data = [
+      0, 1, 2, 3,
+      4, 5, 6, 7,
+      8, 9, 10, 11
+    ];
+    expect(cropRegion(data, 4, rect!, 0)).toEqual([5, 6, 9, 10]);
+    expect(cropRegion([], 4, rect!, null)).toEqual([null, null, null, null]);
+  });
+
+  it('should remap tileset keys to the target map by file name', () => {
+    const target = ['tilesets/grassland.png', 'tilesets/Dungeon.png'];
+
+    expect(remapTilesetKey('tilesets/grassland.png', target)).toBe('tilesets/grassland.png');
+    expect(remapTilesetKey('C:\\other\\project\\dungeon.png', target)).toBe('tilesets/Dungeon.png');
+    expect(remapTilesetKey('tilesets/cave.png', target)).toBeNull();
+    expect(remapTilesetKey(null, target)).toBeNull();
+  });
+
+  it('should leave out pasted tiles whose tileset the map does not have', async () => {
+    const editor = createTestEditor();
+    await editor.loadFlareMapTxt(
+      '[header]\nwidth=3\nheight=1\n\n[tilesets]\ntileset=images/tilesets/grass.png,64,32,0,0\n\n[layer]\ntype=background\ndata=\n0,0,4\n',
+      async () => fakeImageDataUrl(128, 64)
+    );
+    await flushImages();
+    const notices: string[] = [];
+    editor.setPasteNoticeCallback(message => notices.push(message));
+
+    setMapClipboard({
+      width: 2,
+      height: 1,
+      layers: [{ type: 'background', ordinal: 0, data: [2, 3], tilesetKeys: ['other/grass.png', 'rock.png'] }],
+      sprites: [],
+      instances: [],
+      objects: []
+    });
+    expect(editor.startPaste()).toBe(true);
+    (editor as unknown as { commitPaste(x: number, y: number): void }).commitPaste(1, 0);
+
+    const background = editor.getLayers().find(layer => layer.type === 'background')!;
+    expect(background.data).toEqual([0, 2, 4]);
+    expect(notices).toEqual(['1 tile(s) were not pasted: this map has no tileset rock.png']);
+    setMapClipboard(null);
+    editor.dispose();
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { buildMapMerge, diffMaps } from './editor/mapDiff';
+import type { EditorProjectData } from './editor/TileMapEditor';
+import type { MapObject } from './types';
+import { createTestEditor, fakeImageDataUrl, flushImages } from './editorTestHarness';
+
+const chest = (overrides: Partial<MapObject> = {}): MapObject => ({
+  id: 1, name: 'Chest', type: 'event', x: 1, y: 1, width: 1, height: 1, properties: {}, ...overrides
+});
+
+const ours: EditorProjectData = {
+  width: 3, height: 2,
+  layers: [
+    { id: 10, name: 'Ground', type: 'background', data: [1, 1, 1, 1, 1, 1], visible: true },
+    { id: 11, name: 'Walls', type: 'object', data: [0, 0, 0, 0, 0, 0], visible: true }
+  ],
+  objects: [chest(), chest({ id: 2, name: 'Old sign' })],
+  mapHeader: { title: 'Village', music: 'music/village.ogg' }
+};
+
+const theirs: EditorProjectData = {
+  width: 3, height: 2,
+  layers: [
+    { id: 20, name: 'Ground', type: 'background', data: [1, 2, 1, 1, 1, 3], visible: true },
+    { id: 21, name: 'Walls', type: 'object', data: [0, 0, 0, 0, 0, 0], visible: true }
+  ],
+  objects: [chest({ loot: 'gold', properties: { tooltip: 'Open' } }), chest({ id: 3, name: 'Guard', type: 'npc' })],
+  mapHeader: { title: 'Village', music: 'music/night.ogg' }
+};
+
+describe('Map diff', () => {
+  it('should report changed cells, objects and header keys', () => {
+    const diff = diffMaps(ours, theirs);
+
+    expect(diff.layers).toHaveLength(1);
+    expect(diff.layers[0]).toMatchObject({ key: 'background#0', oursLayerId: 10, theirsLayerId: 20 });
+    expect(diff.layers[0].cells).toEqual([{ x: 1, y: 0, ours: 1, theirs: 2, theirsTileset: null }, { x: 2, y: 1, ours: 1, theirs: 3, theirsTileset: null }]);
+
+    expect(diff.objects.map(o => [o.id, o.status])).toEqual([[1, 'changed'], [2, 'removed'], [3, 'added']]);
+    expect(diff.objects[0].changes.map(c => c.key)).toEqual(['loot', 'properties.tooltip']);
+
+    expect(diff.header).toEqual([{ key: 'music', ours: 'music/village.ogg', theirs: 'music/night.ogg' }]);
+  });
+
+  it('should only merge the picked differences', () => {
+    const diff = diffMaps(ours, theirs);
+    const merge = buildMapMerge(diff, { layers: ['background#0'], objects: [2, 3], header: [] });
+
+    expect(merge.cells).toEqual([{ layerId: 10, x: 1, y: 0, value: 2, tileset: null }, { layerId: 10, x: 2, y: 1, value: 3, tileset: null }]);
+    expect(merge.objects.map(o => [o.id, o.object?.name ?? null])).toEqual([[2, null], [3, 'Guard']]);
+    expect(merge.header).toEqual([]);
+  });
+
+  it('should merge tiles with their tileset and refuse tiles from a tileset the map lacks', async () => {
+    const editor = createTestEditor();
+    try {
+      await editor.loadFlareMapTxt(
+        '[header]\nwidth=3\nheight=1\n\n[tilesets]\ntileset=images/tilesets/grass.png,64,32,0,0\n\n[layer]\ntype=background\ndata=\n1,1,1\n',
+        async () => fakeImageDataUrl(128, 64)
+      );
+      await flushImages();
+      const ground = editor.getLayers().find(layer => layer.type === 'background')!;
+      const groundCells = (diff: ReturnType<typeof diffMaps>) => diff.layers.find(layer => layer.key === 'background#0')?.cells ?? [];
+      // Saved tabs name their tileset "<type>_tab<id>_<file>"
+      const other = (fileName: string): EditorProjectData => ({
+        width: 3, height: 1,
+        layers: [{ id: 30, name: 'Ground', type: 'background', data: [1, 2, 1], visible: true }],
+        layerTabs: { background: [{ id: 4, tileset: { fileName, name: fileName } }] },
+        layerActiveTabId: { background: 4 }
+      });
+
+      // The same ids from another tileset are other tiles
+      const dirt = diffMaps(editor.getProjectData(), other('background_tab4_dirt.png'));
+      expect(groundCells(dirt).map(cell => cell.x)).toEqual([0, 1, 2]);
+      expect(editor.applyMapMerge(buildMapMerge(dirt, { layers: ['background#0'], objects: [], header: [] }))).toEqual(['dirt.png']);
+      expect(ground.data).toEqual([1, 1, 1]);
+
+      const grass = diffMaps(editor.getProjectData(), other('background_tab4_grass.png'));
+      expect(groundCells(grass)).toEqual([{ x: 1, y: 0, ours: 1, theirs: 2, theirsTileset: 'background_tab4_grass.png' }]);
+      expect(editor.applyMapMerge(buildMapMerge(grass, { layers: ['background#0'], objects: [], header: [] }))).toEqual([]);
+      expect(ground.data).toEqual([1, 2, 1]);
+      const cellKeys = (editor as unknown as { layerCellTilesetKey: Map<string, Array<string | null>> }).layerCellTilesetKey;
+      expect(cellKeys.get('background')?.[1]).toBe('grass.png');
+      // Compared again, the merged cell is painted from this map's grass tileset
+      expect(groundCells(diffMaps(editor.getProjectData(), other('background_tab4_grass.png')))).toEqual([]);
+    } finally {
+      editor.dispose();
+    }
+  });
+});
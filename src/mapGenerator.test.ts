@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_GENERATOR_SETTINGS, generateMap, getWallCells } from './editor/mapGenerator';
+import { createTestEditor } from './editorTestHarness';
+
+const WIDTH = 40;
+const HEIGHT = 30;
+
+describe('Map generator', () => {
+  it('should give the same layout for the same seed, with the hero on the floor', () => {
+    for (const algorithm of ['dungeon', 'caves', 'walk'] as const) {
+      const settings = { ...DEFAULT_GENERATOR_SETTINGS, algorithm, seed: 42, width: WIDTH, height: HEIGHT };
+      const first = generateMap(settings);
+      expect(generateMap(settings)).toEqual(first);
+      expect(first.floor.some(Boolean)).toBe(true);
+      expect(first.floor[first.heroSpawn.y * WIDTH + first.heroSpawn.x]).toBe(true);
+      expect(first.enemyAreas.length).toBeLessThanOrEqual(settings.enemyAreas);
+    }
+    const other = generateMap({ ...DEFAULT_GENERATOR_SETTINGS, seed: 43, width: WIDTH, height: HEIGHT });
+    expect(other.floor).not.toEqual(generateMap({ ...DEFAULT_GENERATOR_SETTINGS, seed: 42, width: WIDTH, height: HEIGHT }).floor);
+  });
+
+  it('should keep the map border solid and surround the floor with walls', () => {
+    const { floor } = generateMap({ ...DEFAULT_GENERATOR_SETTINGS, seed: 7, width: WIDTH, height: HEIGHT });
+    for (let x = 0; x < WIDTH; x++) {
+      expect(floor[x]).toBe(false);
+      expect(floor[(HEIGHT - 1) * WIDTH + x]).toBe(false);
+    }
+
+    expect(getWallCells([
+      false, false, false,
+      false, true, false,
+      false, false, false
+    ], 3, 3)).toEqual([true, true, true, true, false, true, true, true, true]);
+    expect(getWallCells([true, false, false, false], 4, 1)).toEqual([false, true, false, false]);
+  });
+
+  it('should put back the objects and hero a generation replaced when it is undone', () => {
+    const editor = createTestEditor();
+    try {
+      const width = editor.getMapWidth();
+      const height = editor.getMapHeight();
+      const objectLayer = editor.getLayers().find(layer => layer.type === 'object')!;
+      editor.addObjectInstance({ id: 'obj_1', assetRecordId: 'asset_1', gridX: 2, gridY: 2, layerId: String(objectLayer.id), createdAt: '' });
+      const sprites = (editor as unknown as { placedSpriteObjects: Map<string, unknown[]> }).placedSpriteObjects;
+      const sprite = { id: 1, anchorX: 3, anchorY: 3, gid: 1, tilesetKey: null, width: 64, height: 64, sourceX: 0, sourceY: 0 };
+      sprites.set('background', [sprite]);
+      editor.setHeroPosition(1, 1);
+
+      const generated = { ...generateMap({ ...DEFAULT_GENERATOR_SETTINGS, seed: 5, width, height }), enemyAreas: [] };
+      expect(editor.applyGeneratedMap(generated, { floorLayerType: 'background', floorGid: 1, wallLayerType: 'object', wallGid: 2 })).toBe(true);
+      expect(editor.getAllObjectInstances()).toEqual([]);
+      expect(sprites.get('background')).toEqual([]);
+      expect(editor.getHeroPosition()).toEqual(generated.heroSpawn);
+
+      editor.undo();
+      expect(editor.getAllObjectInstances().map(instance => instance.id)).toEqual(['obj_1']);
+      expect(sprites.get('background')).toEqual([sprite]);
+      expect(editor.getHeroPosition()).toEqual({ x: 1, y: 1 });
+
+      editor.redo();
+      expect(editor.getAllObjectInstances()).toEqual([]);
+      expect(sprites.get('background')).toEqual([]);
+      expect(editor.getHeroPosition()).toEqual(generated.heroSpawn);
+    } finally {
+      editor.dispose();
+    }
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { parseMapHeaderSettings, formatOptionalMapHeaderLines } from './editor/mapHeader';
+
+describe('Map header settings', () => {
+  it('should read hand-authored keys from a parsed header', () => {
+    const settings = parseMapHeaderSettings({
+      width: '20',
+      title: 'Goblin Warrens',
+      music: 'music/cave_theme.ogg',
+      parallax_layers: 'maps/parallax/cave.txt',
+      background_color: '10,10,20,255',
+      fogofwar: '2',
+      save_onload: 'true'
+    });
+    expect(settings).toEqual({
+      title: 'Goblin Warrens',
+      music: 'music/cave_theme.ogg',
+      parallaxLayers: 'maps/parallax/cave.txt',
+      backgroundColor: '10,10,20,255',
+      fogOfWar: 2,
+      saveOnLoad: true
+    });
+  });
+
+  it('should only write optional keys that are set', () => {
+    expect(formatOptionalMapHeaderLines({})).toEqual([]);
+    expect(formatOptionalMapHeaderLines({ backgroundColor: ' 0,0,0,255 ', fogOfWar: 0, saveOnLoad: false })).toEqual([
+      'background_color=0,0,0,255',
+      'fogofwar=0',
+      'save_onload=false'
+    ]);
+  });
+});
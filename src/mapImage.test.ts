@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { computeMapImageLayout, MAX_MAP_IMAGE_SIDE } from './editor/mapImage';
+
+describe('Map image layout', () => {
+  it('should fit the isometric map with room for tall sprites', () => {
+    const layout = computeMapImageLayout(10, 6, 64, 32, 96, 2);
+    expect(layout.zoom).toBe(2);
+    // 16 diagonal tiles wide/high plus margins and sprite padding
+    expect(layout.width).toBe((16 * 32 + 32) * 2);
+    expect(layout.height).toBe((16 * 16 + 96 + 32) * 2);
+    expect(layout.originX).toBe(16 + 6 * 32);
+    expect(layout.originY).toBe(16 + 96 + 16);
+  });
+
+  it('should lower the zoom when the image would exceed the canvas limit', () => {
+    const layout = computeMapImageLayout(400, 400, 64, 32, 0, 1);
+    expect(layout.zoom).toBeLessThan(1);
+    expect(layout.width).toBeLessThanOrEqual(MAX_MAP_IMAGE_SIDE);
+    expect(layout.height).toBeLessThanOrEqual(MAX_MAP_IMAGE_SIDE);
+  });
+});
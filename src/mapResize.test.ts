@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { getAnchorOffset, shiftGrid, shiftIntermapTargets, shiftMapmods, shiftPointList, shiftSpawns } from './editor/mapResize';
+import type { MapObject } from './types';
+import type { EditorProjectData } from './editor/TileMapEditor';
+import { createTestEditor } from './editorTestHarness';
+
+describe('Map resize', () => {
+  it('should move content by the anchor offset and crop what falls outside', () => {
+    expect(getAnchorOffset({ col: 0, row: 0 }, 3, 2, 5, 4)).toEqual({ x: 0, y: 0 });
+    expect(getAnchorOffset({ col: 1, row: 2 }, 3, 2, 5, 4)).toEqual({ x: 1, y: 2 });
+    expect(getAnchorOffset({ col: 2, row: 1 }, 4, 4, 2, 2)).toEqual({ x: -2, y: -1 });
+
+    // 3x2 map grown to 4x3, content moved one cell right and down
+    expect(shiftGrid([1, 2, 3, 4, 5, 6], 3, 2, 4, 3, 1, 1, 0)).toEqual([
+      0, 0, 0, 0,
+      0, 1, 2, 3,
+      0, 4, 5, 6
+    ]);
+    // Shrunk to 2x1 around the right edge
+    expect(shiftGrid([1, 2, 3, 4, 5, 6], 3, 2, 2, 1, -1, 0, 0)).toEqual([2, 3]);
+  });
+
+  it('should shift coordinates in event properties and teleports into the map', () => {
+    expect(shiftPointList('3,4;5,6', 2, -1)).toBe('5,3;7,5');
+    expect(shiftPointList('3,4,2,1', 1, 1)).toBe('4,5,2,1');
+    expect(shiftMapmods('object,3,4,12;collision,0,0,1', 1, 2)).toBe('object,4,6,12;collision,1,2,1');
+    expect(shiftSpawns('goblins,5,5', -1, 2)).toBe('goblins,4,7');
+
+    const objects: MapObject[] = [
+      { id: 1, name: 'door', type: 'event', x: 0, y: 0, width: 1, height: 1, properties: { intermap: 'maps/Town.txt,10,5' } },
+      { id: 2, name: 'cave', type: 'event', x: 1, y: 0, width: 1, height: 1, properties: { intermap: 'maps/Cave.txt,2,2' } }
+    ];
+    const result = shiftIntermapTargets(objects, 'maps/town.txt', 3, 1);
+    expect(result.changed).toBe(true);
+    expect(result.objects[0].properties.intermap).toBe('maps/Town.txt,13,6');
+    expect(result.objects[1]).toBe(objects[1]);
+    expect(shiftIntermapTargets([objects[1]], 'maps/Town.txt', 3, 1).changed).toBe(false);
+  });
+
+  it('should move hotspots, spawns and repeated values of events with the map', () => {
+    const editor = createTestEditor();
+    try {
+      const chest = editor.addMapObject('event', 2, 2);
+      editor.updateMapObject(chest.id, {
+        properties: { location: '2,2,1,1', hotspot: '2,1,1,2', spawn: ['rats,3,3', 'bats,4,4'], mapmod: ['object,2,2,0', 'collision,2,2,0'] }
+      });
+      const gate = editor.addMapObject('event', 1, 1);
+      editor.updateMapObject(gate.id, { properties: { location: '1,1,1,1', hotspot: 'location', spawn: 'rats,1,2' } });
+
+      editor.resizeMap(editor.getMapWidth() + 2, editor.getMapHeight() + 1, 2, 1);
+      const propertiesOf = (id: number) => editor.getMapObjects().find(obj => obj.id === id)!.properties;
+      expect(propertiesOf(chest.id)).toEqual({
+        location: '4,3,1,1',
+        hotspot: '4,2,1,2',
+        spawn: ['rats,5,4', 'bats,6,5'],
+        mapmod: ['object,4,3,0', 'collision,4,3,0']
+      });
+      expect(propertiesOf(gate.id)).toEqual({ location: '3,2,1,1', hotspot: 'location', spawn: 'rats,3,3' });
+    } finally {
+      editor.dispose();
+    }
+  });
+
+  it('should update teleports from other maps only once the resized map is saved', async () => {
+    const forest: EditorProjectData = {
+      name: 'Forest',
+      width: 4,
+      height: 4,
+      layers: [],
+      objects: [{ id: 1, name: 'path', type: 'event', x: 0, y: 0, width: 1, height: 1, properties: { intermap: 'maps/Old_Town.txt,2,1' } }]
+    };
+    const editor = createTestEditor();
+    const saved: EditorProjectData[] = [];
+    const globals = window as unknown as { electronAPI?: unknown };
+    globals.electronAPI = {
+      listMaps: async () => ['Old_Town.json', 'Forest.json'],
+      openMapProject: async (_path: string, name: string) => (name === 'Forest' ? forest : null),
+      saveMapProject: async (_path: string, data: EditorProjectData) => {
+        saved.push(data);
+        return true;
+      }
+    };
+    const shifts: Array<[string, string, number, number]> = [];
+    editor.setIntermapShiftCallback((...shift) => shifts.push(shift));
+    try {
+      editor.setMapName('Old Town');
+      editor.setHeroPosition(0, 0);
+      expect(editor.getResizeCropSummary(editor.getMapWidth(), editor.getMapHeight(), -1, 0).hero).toBe(true);
+
+      editor.resizeMap(editor.getMapWidth() + 3, editor.getMapHeight(), 3, 0);
+      await Promise.resolve();
+      expect(saved).toEqual([]);
+
+      expect(await editor.saveProjectData('/project')).toBe(true);
+      expect(saved.map(data => data.name)).toEqual(['Old Town', 'Forest']);
+      expect(saved[1].objects?.[0].properties.intermap).toBe('maps/Old_Town.txt,5,1');
+      // Open tabs are told as well, since their snapshots would be saved over the shifted files
+      expect(shifts).toEqual([['/project', 'maps/Old_Town.txt', 3, 0]]);
+
+      // Nothing left to shift on the next save
+      await editor.saveProjectData('/project');
+      expect(saved.map(data => data.name)).toEqual(['Old Town', 'Forest', 'Old Town']);
+      expect(shifts).toHaveLength(1);
+    } finally {
+      delete globals.electronAPI;
+      editor.dispose();
+    }
+  });
+});
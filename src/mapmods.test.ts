@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { parseMapmods, serializeMapmods, toFlareMapmods, type MapMod } from './editor/mapmods';
+import { clickCell, createTestEditor, fakeImageDataUrl, flushImages } from './editorTestHarness';
+
+describe('Map modifications', () => {
+  it('should round-trip recorded modifications with their tilesets', () => {
+    const mods: MapMod[] = [
+      { layer: 'object', x: 4, y: 7, value: 12, tilesetKey: 'doors.png' },
+      { layer: 'collision', x: 4, y: 7, value: 0, tilesetKey: null }
+    ];
+    const { mapmod, tilesets } = serializeMapmods(mods);
+    expect(mapmod).toBe('object,4,7,12;collision,4,7,0');
+    expect(parseMapmods(mapmod, tilesets ?? undefined)).toEqual(mods);
+
+    // Hand-typed values have no tileset; malformed entries are skipped
+    expect(serializeMapmods([{ ...mods[1] }]).tilesets).toBeNull();
+    expect(parseMapmods(['background,1,2,3', 'broken;object,x,1,2'])).toEqual([
+      { layer: 'background', x: 1, y: 2, value: 3, tilesetKey: null }
+    ]);
+  });
+
+  it('should add tileset offsets to recorded tiles on export', () => {
+    const offsets: Record<string, number> = { 'doors.png': 101 };
+    const { mapmod, tilesets } = serializeMapmods([
+      { layer: 'object', x: 4, y: 7, value: 12, tilesetKey: 'doors.png' },
+      { layer: 'object', x: 5, y: 7, value: 0, tilesetKey: null },
+      { layer: 'collision', x: 4, y: 7, value: 9, tilesetKey: null }
+    ]);
+    expect(toFlareMapmods(mapmod, tilesets ?? undefined, key => offsets[key])).toBe('object,4,7,112;object,5,7,0;collision,4,7,1');
+
+    // Without recorded tilesets the value is written as typed
+    expect(toFlareMapmods('object,1,1,57', undefined, () => 500)).toBe('object,1,1,57');
+  });
+
+  it('should keep strokes out of saves and exports while they are recorded', async () => {
+    const editor = createTestEditor();
+    await editor.loadFlareMapTxt(
+      '[header]\nwidth=2\nheight=1\n\n[tilesets]\ntileset=images/tilesets/grass.png,64,32,0,0\n\n[layer]\ntype=background\ndata=\n3,0\n',
+      async () => fakeImageDataUrl(128, 64)
+    );
+    await flushImages();
+    const background = editor.getLayers().find(layer => layer.type === 'background')!;
+    editor.setActiveLayer(background.id);
+    editor.setActiveGid(3);
+
+    const saves: number[][] = [];
+    editor.setAutoSaveCallback(() => {
+      saves.push(editor.getProjectData().layers!.find(layer => layer.id === background.id)!.data.slice(0, 2));
+    });
+    editor.setAutoSaveEnabled(true);
+    editor.triggerAutoSave();
+
+    editor.beginMapmodRecording([]);
+    clickCell(editor, 1, 0);
+    expect(background.data.slice(0, 2)).toEqual([3, 3]);
+
+    // The auto-save scheduled before recording started still fires
+    editor.forceSave();
+    await Promise.resolve();
+    expect(saves).toEqual([[3, 0]]);
+    expect(editor.generateFlareMapTxt()).not.toMatch(/type=background\ndata=\n[1-9]\d*,[1-9]/);
+
+    expect(editor.endMapmodRecording()).toEqual([{ layer: 'background', x: 1, y: 0, value: 3, tilesetKey: 'grass.png' }]);
+    expect(background.data.slice(0, 2)).toEqual([3, 0]);
+    editor.dispose();
+  });
+});
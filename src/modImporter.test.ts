@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { buildModImportReport, importModContent, type ModLootGroup } from './editor/modImporter';
+import type { EditorProjectData } from './editor/TileMapEditor';
+import { createTestEditor } from './editorTestHarness';
+
+const MAP = `[header]
+width=2
+height=1
+tilewidth=64
+tileheight=32
+tileset=tilesetdefs/tileset_cave.txt
+
+[tilesets]
+tileset=images/tilesets/cave.png,64,32,0,0
+
+[layer]
+type=background
+data=
+1,2
+`;
+
+describe('Flare mod import report', () => {
+  it('should count recognised content and list what it could not read', () => {
+    const report = buildModImportReport([
+      { path: 'settings.txt', content: 'description=Test' },
+      { path: 'maps/cave.txt', content: MAP },
+      { path: 'maps/spawn.txt', content: '[header]\nwidth=1' },
+      { path: 'npcs\\guard.txt', content: 'name=Guard\ngfx=guard\nmood=grumpy\n\n[dialog]\nhim=Halt!' },
+      { path: 'items/categories/potions.txt', content: '[item]\nid=1\nname=Potion\n\n[item]\nid=2\nname=Elixir' },
+      { path: 'items/qualities.txt', content: '[quality]\nid=normal' },
+      { path: 'loot/cave_chest.txt', content: 'name=Chest\n[loot]\nid=1\nchance=50' },
+      { path: 'enemies/bat.txt', content: 'level=1' },
+      { path: 'quests/intro.txt', content: 'name=Intro\n[quest]\ntext=Find the cave' },
+      { path: 'powers/powers.txt', content: '[power]\nid=1' }
+    ]);
+
+    expect(report.counts).toEqual({ maps: 1, npcs: 1, items: 2, lootGroups: 1, enemies: 1, quests: 1, tilesetDefs: 0 });
+    expect(report.issues).toEqual([
+      { file: 'enemies/bat.txt', message: 'Enemy has no name' },
+      { file: 'maps/cave.txt', message: 'Tileset definition tilesetdefs/tileset_cave.txt is not part of the mod' },
+      { file: 'npcs/guard.txt', message: 'Unrecognised keys kept as custom properties: mood' },
+      { file: 'npcs/guard.txt', message: '1 [dialog] section(s) are not imported; exporting a map with this NPC rewrites the file without them' }
+    ]);
+    expect(report.skipped).toEqual(['items/qualities.txt', 'powers/powers.txt']);
+  });
+
+  it('should check tileset definitions for images and tiles', () => {
+    const report = buildModImportReport([
+      { path: 'tilesetdefs/tileset_cave.txt', content: 'img=images/tilesets/cave.png\ntile=1,0,0,64,32,32,16' },
+      { path: 'tilesetdefs/broken.txt', content: '# nothing here' }
+    ]);
+    expect(report.counts.tilesetDefs).toBe(2);
+    expect(report.issues.map(issue => issue.message)).toEqual([
+      'Tileset definition has no img= line',
+      'Tileset definition has no tile= entries'
+    ]);
+  });
+});
+
+describe('Flare mod import', () => {
+  it('should save converted maps with their NPC files filled in and add loot tables as item groups', async () => {
+    const editor = createTestEditor();
+    const saved: EditorProjectData[] = [];
+    const lootGroups: ModLootGroup[] = [];
+    const report = await importModContent([
+      { path: 'maps/cave.txt', content: `${MAP}\n[npc]\nfilename=npcs/guard.txt\nlocation=1,0,1,1\n\n[npc]\nfilename=npcs/ghost.txt\nlocation=0,0,1,1\n` },
+      { path: 'maps/spawn.txt', content: '[header]\nwidth=1' },
+      { path: 'npcs/guard.txt', content: 'name=Guard\ngfx=animations/npcs/guard.txt\ntalker=true\ndirection=2\n\n[dialog]\nhim=Halt!' },
+      { path: 'loot/cave_chest.txt', content: 'name=Cave Chest\n[loot]\nid=1\nchance=50' },
+      { path: 'loot/bones.txt', content: '[loot]\nid=2' }
+    ], {
+      convertMap: async (mapName, content) => {
+        const parsed = await editor.loadFlareMapTxt(content);
+        editor.setMapName(mapName);
+        return { project: editor.getProjectData(), warnings: parsed.warnings };
+      },
+      saveMap: async (project) => {
+        saved.push(project);
+        return true;
+      },
+      addLootGroup: async (group) => {
+        lootGroups.push(group);
+        return true;
+      }
+    });
+
+    expect(saved.map(project => project.name)).toEqual(['cave']);
+    expect(saved[0].layers?.find(layer => layer.type === 'background')?.data.filter(id => id > 0)).toHaveLength(2);
+    const guard = saved[0].objects?.find(object => object.properties.npcFilename === 'npcs/guard.txt');
+    expect(guard).toMatchObject({ name: 'Guard', properties: { talker: 'true', tilesetPath: 'animations/npcs/guard.txt', direction: '2' } });
+    expect(lootGroups).toEqual([{ file: 'loot/bones.txt', name: 'bones' }, { file: 'loot/cave_chest.txt', name: 'Cave Chest' }]);
+    expect(report.counts).toMatchObject({ maps: 1, npcs: 1, lootGroups: 2 });
+    expect(report.issues).toContainEqual({ file: 'maps/cave.txt', message: 'NPC file npcs/ghost.txt is not part of the mod' });
+  });
+});
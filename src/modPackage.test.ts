@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { buildModSettingsTxt, parseModSettings, planModPackage } from './editor/modPackage';
+
+describe('Mod package', () => {
+  it('should keep settings.txt keys and rewrite description, version and requires', () => {
+    const settings = parseModSettings('# mod\ndescription=Old\ngame=flare-game\nversion=1.14\nengine_version_min=1.13.01\n');
+    expect(settings).toEqual({
+      description: 'Old',
+      version: '1.14',
+      requires: [],
+      other: [['game', 'flare-game'], ['engine_version_min', '1.13.01']]
+    });
+    expect(buildModSettingsTxt({ ...settings, description: 'Caves', version: '1.0', requires: ['fantasycore', ' '] })).toBe(
+      'description=Caves\nversion=1.0\nrequires=fantasycore\ngame=flare-game\nengine_version_min=1.13.01\n'
+    );
+  });
+
+  it('should package engine files and referenced assets only', () => {
+    const plan = planModPackage([
+      { path: 'settings.txt', size: 40, content: 'description=Old' },
+      { path: 'Cave.json', size: 9000, content: undefined },
+      { path: '.flare-session.json', size: 10 },
+      { path: 'backup/crash-backup.json', size: 10 },
+      { path: 'tiled/Cave.tmx', size: 10 },
+      { path: 'maps/Cave.txt', size: 100, content: '[header]\nmusic=music/cave.ogg\n[tilesets]\ntileset=../images/tilesets/cave.png,64,32,0,0' },
+      { path: 'npcs/guard.txt', size: 20, content: 'portrait=images/portraits/Guard.png' },
+      { path: 'images/tilesets/cave.png', size: 500 },
+      { path: 'images/tilesets/unused.png', size: 500 },
+      { path: 'images/portraits/guard.png', size: 50 },
+      { path: 'images/icons/icons.png', size: 70 },
+      { path: 'music/cave.ogg', size: 800 },
+      { path: 'images/tilesets/cave.psd', size: 5000 }
+    ], { description: 'Caves', version: '1.0', requires: [], other: [] });
+
+    expect(plan.files).toEqual([
+      'images/icons/icons.png',
+      'images/tilesets/cave.png',
+      'maps/Cave.txt',
+      'music/cave.ogg',
+      'npcs/guard.txt'
+    ]);
+    expect(plan.entries[0]).toEqual({ path: 'settings.txt', size: 'description=Caves\nversion=1.0\n'.length });
+    expect(plan.excluded).toEqual([
+      { path: '.flare-session.json', reason: 'Editor file' },
+      { path: 'backup/crash-backup.json', reason: 'Editor file' },
+      { path: 'Cave.json', reason: 'Editor file' },
+      { path: 'images/tilesets/cave.psd', reason: 'Not a Flare file type' },
+      { path: 'tiled/Cave.tmx', reason: 'Editor file' },
+      { path: 'images/portraits/guard.png', reason: 'Referenced as images/portraits/Guard.png, in different letter case' },
+      { path: 'images/tilesets/unused.png', reason: 'Not referenced by any mod file' }
+    ]);
+    expect(plan.caseMismatches).toEqual([
+      { reference: 'images/portraits/Guard.png', path: 'images/portraits/guard.png', referencedBy: 'npcs/guard.txt' }
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { getPatrolSegments, lineCells, parseWaypoints, serializeWaypoints } from './editor/npcWaypoints';
+import { createTestEditor } from './editorTestHarness';
+
+describe('NPC waypoints', () => {
+  it('should parse and serialize waypoint lists', () => {
+    expect(parseWaypoints('5,5; 10,5;bad;10,x;10,10')).toEqual([{ x: 5, y: 5 }, { x: 10, y: 5 }, { x: 10, y: 10 }]);
+    expect(parseWaypoints(undefined)).toEqual([]);
+    expect(serializeWaypoints([{ x: 1, y: 2 }, { x: 3, y: 4 }])).toBe('1,2;3,4');
+    expect(lineCells({ x: 0, y: 0 }, { x: 3, y: 0 })).toHaveLength(4);
+  });
+
+  it('should walk from the spawn, loop back to the first waypoint and flag blocked segments', () => {
+    // A wall in the middle column of a 3x3 map
+    const collision = [
+      0, 1, 0,
+      0, 1, 0,
+      0, 0, 0
+    ];
+    const points = [{ x: 0, y: 2 }, { x: 2, y: 2 }, { x: 2, y: 0 }];
+    const segments = getPatrolSegments({ x: 0, y: 0 }, points, 3, 3, collision);
+    expect(segments.map(segment => [segment.toIndex, segment.blocked])).toEqual([
+      [0, false],
+      [1, false],
+      [2, false],
+      [0, true]
+    ]);
+
+    // Leaving the map blocks a segment too
+    expect(getPatrolSegments({ x: 0, y: 0 }, [{ x: 5, y: 0 }], 3, 3, collision)[0].blocked).toBe(true);
+  });
+
+  it('should add, drag and delete waypoints on the canvas without touching the NPC', () => {
+    const editor = createTestEditor();
+    const internals = editor as unknown as {
+      handleWaypointMouseDown(x: number, y: number, remove: boolean): void;
+      moveDraggedWaypoint(x: number, y: number): void;
+    };
+    try {
+      const npc = editor.addMapObject('npc', 1, 1);
+      const before = { ...npc, properties: { ...npc.properties } };
+      const values: string[] = [];
+      editor.beginWaypointEdit(npc.id, '1,1', value => values.push(value));
+
+      // A new waypoint is picked up right away, so the same press can drag it
+      internals.handleWaypointMouseDown(3, 2, false);
+      internals.moveDraggedWaypoint(4, 2);
+      internals.moveDraggedWaypoint(4, 2);
+      internals.handleWaypointMouseDown(1, 1, true);
+      // Removing a cell without a waypoint changes nothing
+      internals.handleWaypointMouseDown(6, 6, true);
+      expect(values).toEqual(['1,1;3,2', '1,1;4,2', '4,2']);
+
+      expect(editor.getWaypointEditObjectId()).toBe(npc.id);
+      editor.endWaypointEdit();
+      expect(editor.getWaypointEditObjectId()).toBeNull();
+      expect(editor.getMapObjects().find(obj => obj.id === npc.id)).toEqual(before);
+    } finally {
+      editor.dispose();
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import type { MapObject } from './types';
+import { analyzeReachability, getArrivalPoints, getArrivalPointsFromOtherMaps } from './editor/reachability';
+
+const object = (patch: Partial<MapObject>): MapObject => ({
+  id: 1,
+  type: 'event',
+  x: 0,
+  y: 0,
+  width: 1,
+  height: 1,
+  properties: {},
+  ...patch
+} as MapObject);
+
+describe('Reachability', () => {
+  it('should flood fill without cutting corners between blocked cells', () => {
+    // Only a diagonal gap separates the top-left cell from the rest
+    const collision = [
+      0, 1, 0,
+      1, 0, 0,
+      0, 0, 0
+    ];
+    const result = analyzeReachability({ width: 3, height: 3, collision, starts: [{ x: 0, y: 0 }], objects: [] });
+    expect(result.reachable[0]).toBe(true);
+    expect(result.unreachableCells).toHaveLength(6);
+    expect(result.unreachableCells).toContainEqual({ x: 2, y: 2 });
+
+    const withFloor = analyzeReachability({
+      width: 3, height: 3, collision, starts: [{ x: 0, y: 0 }], objects: [],
+      floor: [true, false, false, false, false, false, false, false, true]
+    });
+    expect(withFloor.unreachableCells).toEqual([{ x: 2, y: 2 }]);
+  });
+
+  it('should report targets behind collision and start at arriving intermap targets', () => {
+    const objects = [
+      object({ id: 1, name: 'Chest', x: 4, y: 0, properties: { activate: 'on_trigger' } }),
+      object({ id: 2, type: 'npc', name: 'Guard', x: 2, y: 0 }),
+      object({ id: 3, name: 'Intro', x: 4, y: 0, properties: { activate: 'on_load' } }),
+      object({ id: 4, name: 'Back', x: 0, y: 0, properties: { intermap: 'maps/Town.txt,4,0' } })
+    ];
+    expect(getArrivalPoints(objects, 'maps/town.txt')).toEqual([{ x: 4, y: 0 }]);
+
+    // A wall at x=3 splits the corridor
+    const collision = [0, 0, 0, 1, 0];
+    const fromHero = analyzeReachability({ width: 5, height: 1, collision, starts: [{ x: 0, y: 0 }], objects });
+    expect(fromHero.unreachableTargets.map(t => t.name)).toEqual(['Chest']);
+
+    const withArrival = analyzeReachability({
+      width: 5, height: 1, collision, objects,
+      starts: [{ x: 0, y: 0 }, ...getArrivalPoints(objects, 'maps/Town.txt')]
+    });
+    expect(withArrival.unreachableTargets).toEqual([]);
+  });
+
+  it('should read arrival points from the other saved maps of the project', async () => {
+    const maps: Record<string, MapObject[]> = {
+      Old_Town: [object({ properties: { intermap: 'maps/Old_Town.txt,9,9' } })],
+      Forest: [object({ properties: { intermap: 'maps/Old_Town.txt,4,2' } }), object({ properties: { intermap: 'maps/Cave.txt,1,1' } })]
+    };
+    const read: string[] = [];
+    const points = await getArrivalPointsFromOtherMaps(['Old_Town.json', 'Forest.json'], 'Old Town', async name => {
+      read.push(name);
+      return { objects: maps[name] };
+    });
+    expect(read).toEqual(['Forest']);
+    expect(points).toEqual([{ x: 4, y: 2 }]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import type { EditorProjectData } from './editor/TileMapEditor';
+import { exportSavedMap } from './editor/savedMapExport';
+import { mapObjectToFlareNpc, serializeNpcFile } from './utils/flareNpcUtils';
+
+const tileset = (fileName: string, count: number) => ({
+  fileName,
+  name: fileName.replace(/\.png$/, ''),
+  columns: count,
+  rows: 1,
+  count,
+  tileWidth: 64,
+  tileHeight: 32
+});
+
+const PROJECT: EditorProjectData = {
+  name: 'Old Town',
+  width: 2,
+  height: 1,
+  heroX: 1,
+  heroY: 0,
+  mapHeader: { music: 'music/town.ogg' },
+  layers: [
+    { id: 6, name: 'Collision', type: 'collision', data: [1, 0], visible: true },
+    { id: 7, name: 'Object', type: 'object', data: [2, 0], visible: true },
+    { id: 8, name: 'Background', type: 'background', data: [1, 3], visible: true }
+  ],
+  layerTabs: {
+    background: [
+      { id: 1, tileset: tileset('background_tab1_grass.png', 4) },
+      { id: 2, tileset: tileset('background_tab2_sand.png', 2) }
+    ],
+    object: [{ id: 3, tileset: tileset('object_tab3_trees.png', 2) }]
+  },
+  layerActiveTabId: { background: 1, object: 3 },
+  objects: [{ id: 1, type: 'event', name: 'Gate', x: 0, y: 0, width: 1, height: 1, properties: { intermap: 'maps/forest.txt,1,1' } }]
+};
+
+describe('Saved map export', () => {
+  it('should export the active tab tilesets with cumulative ids', () => {
+    const exported = exportSavedMap(PROJECT);
+
+    expect(exported.fileBase).toBe('Old_Town');
+    expect(exported.tilesetImages).toEqual(['background_tab1_grass.png', 'object_tab3_trees.png']);
+    expect(exported.mapTxt).toContain('music=music/town.ogg\ntileset=tilesetdefs/tileset_Old_Town.txt\ntitle=Old Town');
+    expect(exported.mapTxt).toContain('[layer]\ntype=background\ndata=\n1,3\n');
+    expect(exported.mapTxt).toContain('[layer]\ntype=object\ndata=\n6,0\n');
+    expect(exported.mapTxt).toContain('[layer]\ntype=collision\ndata=\n1,0\n');
+    expect(exported.mapTxt).toContain('[event]\nactivate=on_trigger\nlocation=0,0,1,1\ntooltip=Gate\nintermap=maps/forest.txt,1,1');
+    expect(exported.tilesetDef).toContain('img=images/tilesets/object_tab3_trees.png\ntile=5,0,0,64,32,32,32\ntile=6,64,0,64,32,32,32');
+  });
+
+  it('should resolve additional render layers through their cell keys', () => {
+    const exported = exportSavedMap({
+      ...PROJECT,
+      layers: [...PROJECT.layers!, { id: 11, name: 'Background Layer 2', type: 'background', data: [0, 2], visible: true }],
+      layerCellTilesetKeys: { '11': [null, 'background_tab2_sand.png'] }
+    });
+
+    expect(exported.tilesetImages).toEqual(['background_tab1_grass.png', 'background_tab2_sand.png', 'object_tab3_trees.png']);
+    expect(exported.mapTxt).toContain('[layer]\ntype=background\ndata=\n0,6\n\n[layer]\ntype=background\ndata=\n1,3\n');
+  });
+
+  it('should keep the cell tilesets of shared-tab layers and point NPCs at their exported files', () => {
+    const guard = { id: 2, type: 'npc' as const, name: 'Old Guard', x: 1, y: 0, width: 1, height: 1, properties: { tilesetPath: 'animations/npcs/guard.txt' } };
+    const exported = exportSavedMap({
+      ...PROJECT,
+      layers: PROJECT.layers!.map(layer => (layer.type === 'background' ? { ...layer, data: [1, 2] } : layer)),
+      sharedTabLayers: ['background'],
+      layerCellTilesetKeys: { '8': ['background_tab1_grass.png', 'background_tab2_sand.png'] },
+      objects: [guard]
+    });
+
+    expect(exported.tilesetImages).toEqual(['background_tab1_grass.png', 'background_tab2_sand.png', 'object_tab3_trees.png']);
+    expect(exported.mapTxt).toContain('[layer]\ntype=background\ndata=\n1,6\n');
+    expect(exported.mapTxt).toContain('[npc]\ntype=npc\nlocation=1,0,1,1\nfilename=npcs/old_guard.txt');
+    expect(serializeNpcFile(mapObjectToFlareNpc(guard))).toContain('animations=animations/npcs/guard.txt');
+  });
+});
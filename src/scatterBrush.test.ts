@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { pickScatterTile } from './editor/scatterBrush';
+import { clickCell, createTestEditor, fakeImageDataUrl, flushImages } from './editorTestHarness';
+
+// Deterministic stand-in for Math.random
+const sequence = (...values: number[]) => {
+  let i = 0;
+  return () => values[i++ % values.length];
+};
+
+describe('Scatter brush', () => {
+  it('should pick tiles in proportion to their weights', () => {
+    const settings = { entries: [{ gid: 4, weight: 3 }, { gid: 9, weight: 1 }, { gid: 12, weight: 0 }], density: 1 };
+
+    expect(pickScatterTile(settings, sequence(0, 0))).toBe(4);
+    expect(pickScatterTile(settings, sequence(0, 0.74))).toBe(4);
+    expect(pickScatterTile(settings, sequence(0, 0.75))).toBe(9);
+    expect(pickScatterTile(settings, sequence(0, 0.999))).toBe(9);
+  });
+
+  it('should skip cells by density and when nothing can be picked', () => {
+    const settings = { entries: [{ gid: 4, weight: 1 }], density: 0.25 };
+
+    expect(pickScatterTile(settings, sequence(0.2, 0))).toBe(4);
+    expect(pickScatterTile(settings, sequence(0.3, 0))).toBeNull();
+    expect(pickScatterTile({ entries: [{ gid: 4, weight: 0 }], density: 1 }, sequence(0))).toBeNull();
+  });
+
+  it('should paint each cell of a stroke once with a picked tile', async () => {
+    const editor = createTestEditor();
+    const random = vi.spyOn(Math, 'random');
+    try {
+      await editor.loadFlareMapTxt(
+        '[header]\nwidth=3\nheight=1\n\n[tilesets]\ntileset=images/tilesets/grass.png,64,32,0,0\n\n[layer]\ntype=background\ndata=\n1,1,1\n',
+        async () => fakeImageDataUrl(320, 32)
+      );
+      await flushImages();
+      const background = () => editor.getLayers().find(layer => layer.type === 'background')!;
+      editor.setActiveLayer(background().id);
+      editor.setCurrentTool('brush');
+      editor.setScatterBrush({ entries: [{ gid: 3, weight: 1 }, { gid: 4, weight: 1 }], density: 1 });
+
+      random.mockReturnValue(0.9);
+      clickCell(editor, 0, 0);
+      random.mockReturnValue(0.1);
+      clickCell(editor, 2, 0);
+      // Passing over a painted cell again in the same stroke keeps its pick
+      clickCell(editor, 0, 0);
+      expect(background().data).toEqual([4, 1, 3]);
+
+      editor.setScatterBrush(null);
+      editor.setActiveGid(5);
+      clickCell(editor, 1, 0);
+      expect(background().data).toEqual([4, 5, 3]);
+    } finally {
+      random.mockRestore();
+      editor.dispose();
+    }
+  });
+});
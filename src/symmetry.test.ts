@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { getCenteredSymmetryAxis, getSymmetricCells } from './editor/symmetry';
+import { createTestEditor } from './editorTestHarness';
+import type { Stamp } from './types';
+
+describe('Symmetry painting', () => {
+  it('should mirror across a centred axis between cells', () => {
+    const axis = getCenteredSymmetryAxis(10, 6);
+    expect(axis).toEqual({ x: 4.5, y: 2.5 });
+
+    expect(getSymmetricCells(1, 2, 'horizontal', axis, 10, 6)).toEqual([{ x: 1, y: 2 }, { x: 8, y: 2 }]);
+    expect(getSymmetricCells(1, 0, 'vertical', axis, 10, 6)).toEqual([{ x: 1, y: 0 }, { x: 1, y: 5 }]);
+    expect(getSymmetricCells(0, 0, 'both', axis, 10, 6)).toEqual([
+      { x: 0, y: 0 }, { x: 9, y: 0 }, { x: 0, y: 5 }, { x: 9, y: 5 }
+    ]);
+  });
+
+  it('should drop duplicates on the axis and mirrors outside the map', () => {
+    const axis = { x: 3, y: 1 };
+
+    expect(getSymmetricCells(3, 1, 'both', axis, 10, 6)).toEqual([{ x: 3, y: 1 }]);
+    expect(getSymmetricCells(8, 4, 'both', axis, 10, 6)).toEqual([{ x: 8, y: 4 }]);
+    expect(getSymmetricCells(5, 2, 'off', axis, 10, 6)).toEqual([{ x: 5, y: 2 }]);
+  });
+
+  it('should undo a mirrored stamp placement as one entry with every copy', () => {
+    const editor = createTestEditor();
+    const internals = editor as unknown as {
+      stamps: Map<string, Stamp>;
+      historyBatch: unknown;
+      placeStampSymmetric(x: number, y: number): void;
+    };
+    const collision = editor.getLayers().find(layer => layer.type === 'collision')!;
+    editor.setActiveLayer(collision.id);
+    internals.stamps.set('wall', { id: 'wall', name: 'Wall', width: 1, height: 1, tiles: [{ x: 0, y: 0, tileId: 1, layerId: collision.id }], fromPaletteSelection: true });
+    editor.setActiveStamp('wall');
+    editor.setSymmetryMode('horizontal');
+
+    const width = editor.getMapWidth();
+    const placed = () => editor.getLayers().find(layer => layer.type === 'collision')!.data
+      .flatMap((value, index) => (value > 0 ? [`${index % width},${Math.floor(index / width)}`] : []));
+    // One click per stroke; the mouse handlers close the batch in between
+    const stroke = (x: number, y: number) => {
+      internals.placeStampSymmetric(x, y);
+      internals.historyBatch = null;
+    };
+
+    stroke(1, 1);
+    stroke(2, 2);
+    expect(placed()).toEqual(['1,1', `${width - 2},1`, '2,2', `${width - 3},2`]);
+
+    editor.undo();
+    expect(placed()).toEqual(['1,1', `${width - 2},1`]);
+    editor.undo();
+    expect(placed()).toEqual([]);
+    editor.redo();
+    editor.redo();
+    expect(placed()).toEqual(['1,1', `${width - 2},1`, '2,2', `${width - 3},2`]);
+    editor.dispose();
+  });
+});
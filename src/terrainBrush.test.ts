@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { computeTerrainPaint, type TerrainCorners, type TerrainGrid } from './editor/terrainBrush';
+import { clickCell, createTestEditor, fakeImageDataUrl, flushImages } from './editorTestHarness';
+
+const DIRT = 1;
+const GRASS = 2;
+
+// Corners in N, E, S, W order
+const tiles = new Map<number, TerrainCorners>([
+  [1, [DIRT, DIRT, DIRT, DIRT]],
+  [2, [GRASS, GRASS, GRASS, GRASS]],
+  [3, [DIRT, DIRT, GRASS, GRASS]],
+  [4, [DIRT, DIRT, GRASS, DIRT]],
+  [5, [DIRT, DIRT, null, null]]
+]);
+
+const gridOf = (data: number[], width: number, locked: Array<[number, number]> = []): TerrainGrid => ({
+  width,
+  height: data.length / width,
+  getTile: (x, y) => (locked.some(([lx, ly]) => lx === x && ly === y) ? null : data[y * width + x])
+});
+
+describe('Terrain brush', () => {
+  it('should pick transition tiles around a painted cell', () => {
+    const changes = computeTerrainPaint(gridOf(new Array(9).fill(1), 3), tiles, 1, 1, GRASS);
+
+    expect(changes).toContainEqual({ x: 1, y: 1, value: 2 });
+    expect(changes).toContainEqual({ x: 1, y: 0, value: 3 });
+    expect(changes).toContainEqual({ x: 0, y: 0, value: 4 });
+    // No tile fits [grass, dirt, dirt, grass]; dirt matches as well as anything else would
+    expect(changes.find(c => c.x === 2 && c.y === 1)).toBeUndefined();
+  });
+
+  it('should clear the cell when erasing and leave locked cells alone', () => {
+    const data = [1, 3, 1, 1, 2, 1, 1, 1, 1];
+    const changes = computeTerrainPaint(gridOf(data, 3, [[0, 0]]), tiles, 1, 1, null);
+
+    expect(changes).toContainEqual({ x: 1, y: 1, value: 0 });
+    expect(changes).toContainEqual({ x: 1, y: 0, value: 5 });
+    expect(changes.find(c => c.x === 0 && c.y === 0)).toBeUndefined();
+    expect(computeTerrainPaint(gridOf(data, 3, [[1, 1]]), tiles, 1, 1, null)).toEqual([]);
+  });
+
+  it('should paint terrain and its transitions on the canvas as one undo entry', async () => {
+    const editor = createTestEditor();
+    try {
+      await editor.loadFlareMapTxt(
+        '[header]\nwidth=3\nheight=3\n\n[tilesets]\ntileset=images/tilesets/grass.png,64,32,0,0\n\n[layer]\ntype=background\ndata=\n1,1,1\n1,1,1\n1,1,1\n',
+        async () => fakeImageDataUrl(320, 32)
+      );
+      await flushImages();
+      const background = () => editor.getLayers().find(layer => layer.type === 'background')!;
+      editor.setTerrains('background', [{ id: DIRT, name: 'Dirt', color: '#a52' }, { id: GRASS, name: 'Grass', color: '#2a5' }]);
+      for (const [gid, corners] of tiles) editor.setTileTerrain('background', gid, corners);
+      editor.setActiveLayer(background().id);
+      editor.setCurrentTool('terrain');
+      editor.setActiveTerrain(GRASS);
+
+      const entries = editor.getUndoStackState().history.length;
+      clickCell(editor, 1, 1);
+      const expected = new Array(9).fill(1);
+      for (const change of computeTerrainPaint(gridOf(expected, 3), tiles, 1, 1, GRASS)) expected[change.y * 3 + change.x] = change.value;
+      expect(background().data).toEqual(expected);
+
+      // Tile edits save the state they replace
+      const { history } = editor.getUndoStackState();
+      expect(history).toHaveLength(entries + 1);
+      expect(history[history.length - 1].layers.find(layer => layer.type === 'background')!.data).toEqual(new Array(9).fill(1));
+    } finally {
+      editor.dispose();
+    }
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { formatTileAnimation, getTileAnimationFrameIndex, parseTileAnimation } from './editor/tileAnimation';
+import { buildFlareTilesetDef } from './editor/flareExport';
+import { parseTilesetDefTiles } from './editor/flareMapParser';
+
+describe('Tile animations', () => {
+  it('should parse Flare durations and loop through frames', () => {
+    const parsed = parseTileAnimation('17;0,0,200ms;64,0,1s;128,0,150');
+    expect(parsed).toEqual({
+      id: 17,
+      frames: [
+        { sourceX: 0, sourceY: 0, duration: 200 },
+        { sourceX: 64, sourceY: 0, duration: 1000 },
+        { sourceX: 128, sourceY: 0, duration: 150 }
+      ]
+    });
+    const frames = parsed!.frames;
+    expect(getTileAnimationFrameIndex(frames, 199)).toBe(0);
+    expect(getTileAnimationFrameIndex(frames, 200)).toBe(1);
+    expect(getTileAnimationFrameIndex(frames, 1250)).toBe(2);
+    expect(getTileAnimationFrameIndex(frames, 1350)).toBe(0);
+    expect(formatTileAnimation(17, frames)).toBe('animation=17;0,0,200ms;64,0,1000ms;128,0,150ms');
+  });
+
+  it('should round-trip animations through the tilesetdef with global ids', () => {
+    const frames = [{ sourceX: 0, sourceY: 32, duration: 100 }, { sourceX: 64, sourceY: 32, duration: 250 }];
+    const def = buildFlareTilesetDef([
+      { fileName: 'grass.png', layerType: 'background', count: 4, columns: 2, tileWidth: 64, tileHeight: 32, spacing: 0, margin: 0, offset: 1 },
+      { fileName: 'water.png', layerType: 'object', count: 4, columns: 2, tileWidth: 64, tileHeight: 32, spacing: 0, margin: 0, offset: 5, animations: new Map([[3, frames]]) }
+    ], new Map(), 64, 32);
+
+    expect(def).toContain('animation=7;0,32,100ms;64,32,250ms');
+    const parsed = parseTilesetDefTiles(def);
+    expect(parsed.tiles.size).toBe(8);
+    expect(parsed.animations.get(7)).toEqual(frames);
+  });
+});
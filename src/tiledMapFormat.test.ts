@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { generateCollisionTilesetImage, generateTmxMap, generateTsx, joinRelativePath } from './editor/tiledMapFormat';
+
+describe('Tiled map format', () => {
+  it('should resolve paths relative to the tmx folder', () => {
+    expect(joinRelativePath('/home/user/maps', '../tilesets/grass.tsx')).toBe('/home/user/tilesets/grass.tsx');
+    expect(joinRelativePath('tilesets', '../images/grass.png')).toBe('images/grass.png');
+    expect(joinRelativePath('', 'grass.png')).toBe('grass.png');
+    expect(joinRelativePath('C:/maps', 'D:/art/grass.png')).toBe('D:/art/grass.png');
+  });
+
+  it('should write an isometric tmx with csv layers and Flare object groups', () => {
+    const tmx = generateTmxMap({
+      mapWidth: 2,
+      mapHeight: 2,
+      tileWidth: 64,
+      tileHeight: 32,
+      header: { width: '2', height: '2', title: 'A & B', hero_pos: '1,1' },
+      tilesets: [{
+        name: 'grass',
+        tsxFileName: 'grass.tsx',
+        firstGid: 1,
+        tileCount: 16,
+        tileWidth: 64,
+        tileHeight: 32,
+        spacing: 0,
+        margin: 0,
+        imageWidth: 256,
+        imageHeight: 128,
+        tilesetPngName: '../images/tilesets/grass.png'
+      }],
+      layers: [{ type: 'background', data: [1, 2, 0, 3] }, { type: 'collision', data: [1, 0, 0, 6] }],
+      objects: [{
+        id: 7,
+        name: 'Gate',
+        type: 'event',
+        x: 1,
+        y: 0,
+        width: 1,
+        height: 2,
+        properties: { location: '1,0,1,2', intermap: 'maps/town.txt,1,1', requires_status: ['a', 'b'] }
+      }]
+    });
+
+    expect(tmx).toContain('orientation="isometric"');
+    expect(tmx).toContain('<property name="title" value="A &amp; B"/>');
+    expect(tmx).not.toContain('name="width"');
+    expect(tmx).toContain('<tileset firstgid="1" source="grass.tsx"/>');
+    expect(tmx).toContain('1,2,\n0,3');
+    // Collision values come from a tileset of their own, after the map's 16 tiles
+    expect(tmx).toContain('<tileset firstgid="17" name="collision" tilewidth="64" tileheight="32" tilecount="6" columns="6">');
+    expect(tmx).toContain('17,0,\n0,22');
+    expect(tmx).toContain('<object id="1" name="Gate" type="event" x="32" y="0" width="32" height="64">');
+    expect(tmx).not.toContain('name="location"');
+    expect(tmx.match(/name="requires_status"/g)).toHaveLength(2);
+  });
+
+  it('should write a tsx with grid metadata', () => {
+    const tsx = generateTsx({ name: 'grass', tileWidth: 64, tileHeight: 32, imageWidth: 256, imageHeight: 128, tilesetPngName: 'grass.png' });
+    expect(tsx).toContain('tilecount="16" columns="4"');
+    expect(tsx).toContain('<image source="grass.png" width="256" height="128"/>');
+
+    const collision = generateCollisionTilesetImage(64, 32);
+    expect(collision).toContain('width="384" height="32"');
+    expect(collision.match(/<polygon /g)).toHaveLength(6);
+  });
+});
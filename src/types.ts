@@ -1,9 +1,12 @@
 // Type definitions for the Isometric Tile Map Editor
 
+// Tile layers Flare draws; a map may hold any number of each, in any order
+export type FlareRenderLayerType = 'background' | 'fringe' | 'object' | 'foreground';
+
 export interface TileLayer {
   id: number;
   name: string;
-  type: 'background' | 'object' | 'collision' | 'event' | 'enemy' | 'npc' | 'items' | 'status' | 'rules' | 'actions';
+  type: FlareRenderLayerType | 'collision' | 'event' | 'enemy' | 'npc' | 'items' | 'status' | 'rules' | 'actions';
   data: number[];
   visible: boolean;
   transparency?: number; // 0-1, where 1 is fully opaque
@@ -305,6 +308,7 @@ export interface AssetRecord {
   // Collision override fields (separate from visual footprint for gameplay)
   collisionFootprintWidth?: number;  // Optional: override collision width (default: use footprintWidth)
   collisionFootprintHeight?: number; // Optional: override collision height (default: use footprintHeight)
+  collisionType?: number;            // Optional: Flare collision value "Rebuild collision" gives the footprint
   
   // Asset classification for paint mode targeting
   category?: 'ground' | 'object' | 'decoration' | 'collision';
@@ -5,7 +5,7 @@
  * txt dosyalarını parse ederek FlareNPC modeline çevirir.
  */
 
-import { FlareNPC, FlareNPCExportResult, DialogueTree } from '../types';
+import { FlareNPC, FlareNPCExportResult, DialogueTree, MapObject } from '../types';
 
 /**
  * Varsayılan NPC değerleri ile yeni bir FlareNPC oluşturur.
@@ -47,6 +47,7 @@ export function serializeNpcToFlare(npc: FlareNPC): FlareNPCExportResult {
  * location=5,10,1,1
  * filename=npcs/merchant.txt
  * requires_status=quest_intro_complete
+ * waypoints=5,12;9,12;9,8
  */
 function serializeMapSpawnBlock(npc: FlareNPC): string {
   const lines: string[] = ['[npc]', 'type=npc'];
@@ -89,6 +90,13 @@ function serializeMapSpawnBlock(npc: FlareNPC): string {
     lines.push(`requires_not_class=${npc.requires_not_class}`);
   }
   
+  // Devriye yolu / rastgele dolaşma (haritadaki [npc] bloğuna aittir)
+  if (npc.waypoints) {
+    lines.push(`waypoints=${npc.waypoints}`);
+  } else if (npc.wander_radius !== undefined && npc.wander_radius > 0) {
+    lines.push(`wander_radius=${npc.wander_radius}`);
+  }
+  
   return lines.join('\n');
 }
 
@@ -176,12 +184,6 @@ export function serializeNpcFile(npc: FlareNPC): string {
   if (npc.direction !== undefined) {
     lines.push(`direction=${npc.direction}`);
   }
-  if (npc.waypoints) {
-    lines.push(`waypoints=${npc.waypoints}`);
-  }
-  if (npc.wander_radius !== undefined && npc.wander_radius > 0) {
-    lines.push(`wander_radius=${npc.wander_radius}`);
-  }
   
   // Custom properties (dialogue trees hariç)
   if (npc.customProperties) {
@@ -560,6 +562,12 @@ export function parseNpcSpawnBlock(block: string, id: number): Partial<FlareNPC>
       case 'requires_not_class':
         result.requires_not_class = value;
         break;
+      case 'waypoints':
+        result.waypoints = value;
+        break;
+      case 'wander_radius':
+        result.wander_radius = parseInt(value, 10);
+        break;
     }
   }
   
@@ -601,3 +609,61 @@ export function getNpcBaseName(npc: FlareNPC): string {
   const fileName = parts[parts.length - 1];
   return fileName.replace('.txt', '');
 }
+
+/**
+ * Haritadaki NPC nesnesi için yazılan npcs/*.txt dosyasının adı (uzantısız).
+ */
+export function getNpcExportBaseName(npc: MapObject): string {
+  return (npc.name || `npc_${npc.id}`)
+    .toLowerCase()
+    .replace(/[<>:"/\\|?*]/g, '_')
+    .trim()
+    .replace(/\s+/g, '_')
+    .replace(/_{2,}/g, '_') || 'unnamed_npc';
+}
+
+/**
+ * Haritanın [npc] bloğunun gösterdiği NPC dosyası (ör. npcs/guard.txt).
+ */
+export function getNpcExportFilename(npc: MapObject): string {
+  const filename = npc.properties?.npcFilename;
+  return (typeof filename === 'string' && filename) || `npcs/${getNpcExportBaseName(npc)}.txt`;
+}
+
+/**
+ * Haritadaki NPC nesnesini FlareNPC modeline çevirir.
+ * gfx ve portrait verilmezse nesnede kayıtlı yollar kullanılır.
+ */
+export function mapObjectToFlareNpc(npc: MapObject, paths: { gfx?: string; portrait?: string } = {}): FlareNPC {
+  const prop = (key: string): string | undefined => {
+    const value = npc.properties?.[key];
+    return typeof value === 'string' && value ? value : undefined;
+  };
+  const dialogueTrees = prop('dialogueTrees');
+  const statusStockEntries = prop('status_stock_entries');
+  const direction = prop('direction');
+  const wanderRadius = prop('wander_radius');
+  return {
+    id: npc.id,
+    x: npc.x,
+    y: npc.y,
+    filename: getNpcExportFilename(npc),
+    name: npc.name || `npc_${npc.id}`,
+    talker: prop('talker') === 'true' || prop('vendor') === 'true' || prop('questGiver') === 'true',
+    vendor: prop('vendor') === 'true',
+    gfx: 'gfx' in paths ? paths.gfx || undefined : prop('tilesetPath'),
+    portrait: 'portrait' in paths ? paths.portrait || undefined : prop('portraitPath'),
+    constant_stock: prop('constant_stock'),
+    random_stock: prop('random_stock'),
+    random_stock_count: prop('random_stock_count'),
+    vendor_requires_status: prop('vendor_requires_status'),
+    vendor_requires_not_status: prop('vendor_requires_not_status'),
+    direction: direction ? parseInt(direction, 10) as FlareNPC['direction'] : undefined,
+    waypoints: prop('waypoints'),
+    wander_radius: wanderRadius ? parseInt(wanderRadius, 10) : undefined,
+    customProperties: {
+      ...(dialogueTrees ? { dialogueTrees } : {}),
+      ...(statusStockEntries ? { status_stock_entries: statusStockEntries } : {}),
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import type { MapObject } from './types';
+import { buildWorldGraph, getMapLinks, parseMapListFile } from './editor/worldGraph';
+
+const object = (patch: Partial<MapObject>): MapObject => ({
+  id: 1,
+  type: 'event',
+  x: 0,
+  y: 0,
+  width: 1,
+  height: 1,
+  properties: {},
+  ...patch
+} as MapObject);
+
+const map = (name: string, objects: MapObject[]) => ({ name, width: 10, height: 10, objects });
+
+describe('World graph', () => {
+  it('should collect intermap, intermap_random and dialogue teleports', () => {
+    const dialogueTrees = JSON.stringify([
+      { worldEffects: [{ id: 'a', type: 'teleport', value: 'maps/Cave.txt,2,3' }, { id: 'b', type: 'set_status', value: 'x' }] }
+    ]);
+    const links = getMapLinks([
+      object({ id: 1, name: 'Gate', properties: { intermap: 'maps/Town.txt,4,7' } }),
+      object({ id: 2, properties: { intermap_random: 'maps/lists/ruins.txt' } }),
+      object({ id: 3, type: 'npc', name: 'Sage', properties: { dialogueTrees } })
+    ]);
+    expect(links.map(link => [link.kind, link.to, link.x, link.y, link.objectId])).toEqual([
+      ['intermap', 'maps/Town.txt', 4, 7, 1],
+      ['intermap_random', 'maps/lists/ruins.txt', null, null, 2],
+      ['dialogue', 'maps/Cave.txt', 2, 3, 3]
+    ]);
+  });
+
+  it('should flag broken links, one-way exits and unreachable maps', () => {
+    const graph = buildWorldGraph([
+      map('Town', [
+        object({ id: 1, properties: { intermap: 'maps/Cave.txt,1,1' } }),
+        object({ id: 2, properties: { intermap: 'maps/Field.txt,1,1' } }),
+        object({ id: 3, properties: { intermap: 'maps/Missing.txt,1,1' } }),
+        object({ id: 4, properties: { intermap: 'maps/Island.txt,50,50' } })
+      ]),
+      map('Cave', [object({ id: 1, properties: { intermap: 'maps/Town.txt,2,2' } })]),
+      map('Field', []),
+      map('Island', [])
+    ], 'maps/Town.txt');
+
+    expect(graph.links.map(link => [link.to, link.broken, link.oneWay])).toEqual([
+      ['maps/Cave.txt', false, false],
+      ['maps/Field.txt', false, true],
+      ['maps/Missing.txt', true, false],
+      ['maps/Island.txt', true, false],
+      ['maps/Town.txt', false, false]
+    ]);
+    expect(graph.nodes.filter(node => !node.reachable).map(node => node.name)).toEqual(['Island']);
+    expect(graph.nodes.find(node => node.isStart)?.name).toBe('Town');
+
+    const withoutStart = buildWorldGraph([map('Town', []), map('Cave', [])], null);
+    expect(withoutStart.nodes.every(node => node.reachable)).toBe(true);
+  });
+
+  it('should follow intermap_random through its map list, or leave it unresolved', () => {
+    expect(parseMapListFile('# ruins\nmap=maps/Ruin_A.txt\n\nmap = maps/Ruin_B.txt\n')).toEqual(['maps/Ruin_A.txt', 'maps/Ruin_B.txt']);
+
+    const maps = [
+      map('Town', [object({ id: 1, properties: { intermap_random: 'maps/lists/ruins.txt' } })]),
+      map('Ruin A', [object({ id: 1, properties: { intermap: 'maps/Town.txt,1,1' } })])
+    ];
+    const resolved = buildWorldGraph(maps, 'maps/Town.txt', { 'maps/lists/ruins.txt': ['maps/Ruin_A.txt', 'maps/Ruin_B.txt'] });
+    expect(resolved.links.filter(link => link.kind === 'intermap_random').map(link => [link.to, link.broken, link.unresolved])).toEqual([
+      ['maps/Ruin_A.txt', false, false],
+      ['maps/Ruin_B.txt', true, false]
+    ]);
+    expect(resolved.nodes.every(node => node.reachable)).toBe(true);
+
+    const unread = buildWorldGraph(maps, 'maps/Town.txt');
+    expect(unread.links[0]).toMatchObject({ to: 'maps/lists/ruins.txt', broken: false, oneWay: false, unresolved: true });
+    expect(unread.nodes.find(node => node.name === 'Ruin A')?.reachable).toBe(false);
+  });
+});
@@ -0,0 +1,22 @@
+import { defineConfig } from 'vite'
+import { resolve } from 'path'
+
+// Node build of the headless exporter (npm run build:cli)
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: resolve(__dirname, 'src/cli/flareStudioCli.ts'),
+    outDir: 'dist-cli',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  },
+  resolve: {
+    alias: {
+      '@': resolve(__dirname, './src'),
+    },
+  },
+})